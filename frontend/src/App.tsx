@@ -6,6 +6,8 @@ import BacktestRunnerPage from './components/BacktestRunnerPage'; // Existing pa
 // Import actual placeholder pages
 import SuggestionPage from './pages/SuggestionPage'; 
 import ApiKeysPage from './pages/ApiKeysPage';
+import HistoryPage from './pages/HistoryPage';
+import ComparePage from './pages/ComparePage';
 
 import './App.css'; // Keep existing App.css
 
@@ -19,6 +21,9 @@ const App: React.FC = () => {
             <Route path="/" element={<Navigate to="/suggestion" />} /> {/* Default redirect */}
             <Route path="/suggestion" element={<SuggestionPage />} />
             <Route path="/backtest" element={<BacktestRunnerPage />} />
+            <Route path="/history" element={<HistoryPage />} />
+            <Route path="/history/:runId" element={<HistoryPage />} />
+            <Route path="/compare" element={<ComparePage />} />
             <Route path="/api-keys" element={<ApiKeysPage />} />
             {/* Add other routes here as needed */}
           </Routes>
@@ -0,0 +1,64 @@
+// frontend/src/components/BacktestProgressPanel.test.tsx
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen, fireEvent } from '@testing-library/react';
+import BacktestProgressPanel, { mergeBacktestJobProgress } from './BacktestProgressPanel';
+import type { BacktestJobProgress, Trade } from '../types';
+
+// The equity chart is covered by its own tests
+jest.mock('./EquityChart', () => ({
+  __esModule: true,
+  default: ({ data }: { data: unknown[] }) => <div data-testid="equity-chart" data-points={data.length}></div>,
+}));
+
+const trade = (timestamp: number, action: 'BUY' | 'SELL'): Trade => ({
+  timestamp,
+  date: new Date(timestamp * 1000).toISOString().split('T')[0],
+  action,
+  price: 100,
+  sharesTraded: 1,
+  cashAfterTrade: 9900,
+});
+
+describe('BacktestProgressPanel', () => {
+  const progress: BacktestJobProgress = {
+    barsProcessed: 30,
+    totalBars: 120,
+    portfolioHistory: [{ timestamp: 1672531200, value: 10000 }, { timestamp: 1672617600, value: 10100 }],
+    trades: [trade(1672531200, 'BUY'), trade(1672617600, 'SELL')],
+  };
+
+  it('shows the progress, the equity so far and the latest trades first', () => {
+    render(<BacktestProgressPanel progress={progress} onCancel={jest.fn()} isCancelling={false} />);
+
+    expect(screen.getByText('30 / 120 bars (25%)')).toBeInTheDocument();
+    expect(screen.getByTestId('equity-chart').getAttribute('data-points')).toBe('2');
+    expect(screen.getByText('Trades so far: 2')).toBeInTheDocument();
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(rows[0]).toHaveTextContent('SELL');
+    expect(rows[1]).toHaveTextContent('BUY');
+  });
+
+  it('waits for the first progress and cancels', () => {
+    const onCancel = jest.fn();
+    render(<BacktestProgressPanel progress={null} onCancel={onCancel} isCancelling={false} />);
+
+    expect(screen.getByText('Waiting for the backtest to start...')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('appends the points and trades of each progress event', () => {
+    const next: BacktestJobProgress = {
+      barsProcessed: 60,
+      totalBars: 120,
+      portfolioHistory: [{ timestamp: 1672704000, value: 10200 }],
+      trades: [],
+    };
+
+    const merged = mergeBacktestJobProgress(mergeBacktestJobProgress(null, progress), next);
+
+    expect(merged.barsProcessed).toBe(60);
+    expect(merged.portfolioHistory.map(point => point.value)).toEqual([10000, 10100, 10200]);
+    expect(merged.trades).toHaveLength(2);
+  });
+});
@@ -0,0 +1,87 @@
+// frontend/src/components/BacktestProgressPanel.tsx
+import React from 'react';
+import EquityChart from './EquityChart';
+import { formatCurrency } from '../utils/formatters';
+import type { BacktestJobProgress } from '../types';
+
+// Trades listed while the backtest runs, newest first
+const MAX_LIVE_TRADES = 10;
+
+/**
+ * Adds the equity points and trades of a "progress" event to those received so far.
+ */
+export const mergeBacktestJobProgress = (
+  previous: BacktestJobProgress | null,
+  next: BacktestJobProgress
+): BacktestJobProgress => ({
+  ...next,
+  portfolioHistory: [...(previous?.portfolioHistory ?? []), ...next.portfolioHistory],
+  trades: [...(previous?.trades ?? []), ...next.trades],
+});
+
+interface BacktestProgressPanelProps {
+  progress: BacktestJobProgress | null; // Null until the job has processed its first bars
+  onCancel: () => void;
+  isCancelling: boolean;
+}
+
+/**
+ * Shows a running backtest as it goes: a progress bar, the equity curve so far and the latest trades.
+ */
+const BacktestProgressPanel: React.FC<BacktestProgressPanelProps> = ({ progress, onCancel, isCancelling }) => {
+  const percent = progress && progress.totalBars > 0 ? (progress.barsProcessed / progress.totalBars) * 100 : 0;
+  const latestTrades = progress ? progress.trades.slice(-MAX_LIVE_TRADES).reverse() : [];
+
+  return (
+    <div className="backtest-progress-panel">
+      <div className="backtest-progress-bar">
+        <progress value={progress?.barsProcessed ?? 0} max={progress?.totalBars || 1} aria-label="Backtest progress" />
+        <span>
+          {progress
+            ? `${progress.barsProcessed} / ${progress.totalBars} bars (${percent.toFixed(0)}%)`
+            : 'Waiting for the backtest to start...'}
+        </span>
+        <button onClick={onCancel} disabled={isCancelling}>
+          {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+      </div>
+
+      {progress && progress.portfolioHistory.length > 0 && (
+        <div className="chart-container">
+          <h4 className="chart-title">Portfolio Equity (so far)</h4>
+          <EquityChart data={progress.portfolioHistory} />
+        </div>
+      )}
+
+      {progress && (
+        <div className="live-trades">
+          <h4>Trades so far: {progress.trades.length}</h4>
+          {latestTrades.length > 0 && (
+            <table>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Action</th>
+                  <th>Price</th>
+                  <th>Shares</th>
+                </tr>
+              </thead>
+              <tbody>
+                {latestTrades.map((trade, index) => (
+                  <tr key={`${trade.timestamp}-${index}`}>
+                    <td>{trade.date}</td>
+                    <td>{trade.action}</td>
+                    <td>{formatCurrency(trade.price)}</td>
+                    <td>{trade.sharesTraded}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BacktestProgressPanel;
@@ -0,0 +1,69 @@
+// frontend/src/components/BacktestRunDetails.test.tsx
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen, fireEvent } from '@testing-library/react';
+import BacktestRunDetails from './BacktestRunDetails';
+import type { BacktestRun } from '../types';
+
+jest.mock('./EquityChart', () => () => <div data-testid="equity-chart" />);
+
+describe('BacktestRunDetails Component', () => {
+  const run: BacktestRun = {
+    id: 'run-1',
+    user_id: 'user-1',
+    strategy_id: 'macd-crossover',
+    strategy_version: '1.0.0',
+    symbol: 'BTCUSDT',
+    settings: {
+      strategyId: 'macd-crossover',
+      strategyParams: { fastPeriod: 12 },
+      symbol: 'BTCUSDT',
+      startDate: '2023-01-01',
+      endDate: '2023-06-30',
+      initialCash: 10000,
+    },
+    metrics: {
+      initialPortfolioValue: 10000,
+      finalPortfolioValue: 10500,
+      totalProfitOrLoss: 500,
+      profitOrLossPercentage: 5,
+      totalTrades: 1,
+      sharpeRatio: 1.25,
+    },
+    trades: [{ timestamp: 1672704000, date: '2023-01-03', action: 'BUY', price: 100, sharesTraded: 100, cashAfterTrade: 0 }],
+    equity_curve: [{ timestamp: 1672531200, value: 10000 }, { timestamp: 1688083200, value: 10500 }],
+    tags: ['baseline'],
+    notes: null,
+    created_at: 1697000000000,
+    updated_at: 1697000000000,
+  };
+
+  test('shows the run with its strategy version, metrics, equity curve and trades', () => {
+    render(<BacktestRunDetails run={run} isSaving={false} onSave={jest.fn()} onDelete={jest.fn()} />);
+
+    expect(screen.getByText('macd-crossover v1.0.0 on BTCUSDT')).toBeInTheDocument();
+    expect(screen.getByText('1.25')).toBeInTheDocument();
+    expect(screen.getByTestId('equity-chart')).toBeInTheDocument();
+    expect(screen.getByText('2023-01-03')).toBeInTheDocument();
+    expect(screen.getByLabelText('Tags (comma-separated):')).toHaveValue('baseline');
+  });
+
+  test('saves the edited tags and notes', () => {
+    const onSave = jest.fn();
+    render(<BacktestRunDetails run={run} isSaving={false} onSave={onSave} onDelete={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Tags (comma-separated):'), { target: { value: 'baseline, shared , ' } });
+    fireEvent.change(screen.getByLabelText('Notes:'), { target: { value: 'Compare with RSI.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Tags & Notes' }));
+
+    expect(onSave).toHaveBeenCalledWith(['baseline', 'shared'], 'Compare with RSI.');
+  });
+
+  test('asks the page to delete the run', () => {
+    const onDelete = jest.fn();
+    render(<BacktestRunDetails run={run} isSaving={false} onSave={jest.fn()} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Run' }));
+
+    expect(onDelete).toHaveBeenCalled();
+  });
+});
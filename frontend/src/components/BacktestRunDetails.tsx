@@ -0,0 +1,111 @@
+// frontend/src/components/BacktestRunDetails.tsx
+import React, { useEffect, useState } from 'react';
+import type { BacktestRun } from '../types';
+import EquityChart from './EquityChart';
+import { formatCurrency } from '../utils/formatters';
+
+interface BacktestRunDetailsProps {
+  run: BacktestRun;
+  isSaving: boolean;
+  onSave: (tags: string[], notes: string | null) => void;
+  onDelete: () => void;
+}
+
+// Tags are edited as a comma-separated list
+const parseTags = (text: string): string[] => text.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+
+const formatOptional = (value: number | undefined | null, suffix = ''): string =>
+  value === undefined || value === null ? 'N/A' : `${value.toFixed(2)}${suffix}`;
+
+/**
+ * A saved backtest run: the settings it was made with, its metrics, equity curve and trades, with its tags and notes
+ * editable.
+ */
+const BacktestRunDetails: React.FC<BacktestRunDetailsProps> = ({ run, isSaving, onSave, onDelete }) => {
+  const [tagsText, setTagsText] = useState<string>(run.tags.join(', '));
+  const [notes, setNotes] = useState<string>(run.notes ?? '');
+
+  useEffect(() => {
+    setTagsText(run.tags.join(', '));
+    setNotes(run.notes ?? '');
+  }, [run]);
+
+  const { settings, metrics } = run;
+
+  return (
+    <div className="backtest-run-details backtest-section">
+      <h3>
+        {run.strategy_id}{run.strategy_version && ` v${run.strategy_version}`} on {run.symbol}
+      </h3>
+      <p>Run on {new Date(run.created_at).toLocaleString()}</p>
+
+      <div className="results-summary">
+        <p><strong>Period:</strong> {settings.startDate} - {settings.endDate} ({settings.interval || '1d'})</p>
+        <p><strong>Parameters:</strong> {JSON.stringify(settings.strategyParams)}</p>
+        <p><strong>Initial Portfolio Value:</strong> {formatCurrency(metrics.initialPortfolioValue)}</p>
+        <p><strong>Final Portfolio Value:</strong> {formatCurrency(metrics.finalPortfolioValue)}</p>
+        <p>
+          <strong>Total Profit/Loss:</strong>{' '}
+          <span className={metrics.totalProfitOrLoss >= 0 ? 'profit' : 'loss'}>
+            {formatCurrency(metrics.totalProfitOrLoss)} ({formatOptional(metrics.profitOrLossPercentage, '%')})
+          </span>
+        </p>
+        <p><strong>Sharpe Ratio:</strong> {formatOptional(metrics.sharpeRatio)}</p>
+        <p><strong>Max Drawdown:</strong> {formatOptional(metrics.maxDrawdown, '%')}</p>
+        <p><strong>Total Trades:</strong> {metrics.totalTrades}</p>
+      </div>
+
+      {run.equity_curve.length > 0 && (
+        <div className="chart-container">
+          <h4 className="chart-title">Portfolio Equity</h4>
+          <EquityChart data={run.equity_curve} />
+        </div>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="runTags">Tags (comma-separated):</label>
+        <input type="text" id="runTags" value={tagsText} onChange={(e) => setTagsText(e.target.value)} />
+      </div>
+      <div className="form-group">
+        <label htmlFor="runNotes">Notes:</label>
+        <textarea id="runNotes" rows={4} value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+      <button onClick={() => onSave(parseTags(tagsText), notes.trim() === '' ? null : notes)} disabled={isSaving}>
+        {isSaving ? 'Saving...' : 'Save Tags & Notes'}
+      </button>
+      <button onClick={onDelete} disabled={isSaving}>
+        Delete Run
+      </button>
+
+      {run.trades.length > 0 && (
+        <>
+          <h4>Trades</h4>
+          <table>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Action</th>
+                <th>Price</th>
+                <th>Shares</th>
+                <th>Cash After Trade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {run.trades.map((trade, index) => (
+                <tr key={index}>
+                  <td>{trade.date}</td>
+                  <td>{trade.action}</td>
+                  <td>{trade.price.toFixed(2)}</td>
+                  <td>{trade.sharesTraded.toFixed(4)}</td>
+                  <td>{formatCurrency(trade.cashAfterTrade)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestRunDetails;
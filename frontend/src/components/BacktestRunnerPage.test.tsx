@@ -1,18 +1,28 @@
 // frontend/src/components/BacktestRunnerPage.test.tsx
 /// <reference types="@testing-library/jest-dom" />
 // import React from 'react'; // Removed as unused
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 // import '@testing-library/jest-dom'; // Referenced via triple-slash directive
 import axios from 'axios';
 import type { AxiosError } from 'axios'; // Added type import for AxiosError
 import BacktestRunnerPage from './BacktestRunnerPage';
-import type { TradingStrategy, BacktestResult, ApiError } from '../types'; // Changed to type-only import
+import type { TradingStrategy, BacktestResult, ApiError, BacktestJobSummary, BacktestJobProgress } from '../types'; // Changed to type-only import
 import { logger } from '../utils/logger'; // Adjust path
+import { streamBacktestJob, cancelBacktestJob, type BacktestJobStreamHandlers } from '../services/api';
 
 // Mock axios globally
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Backtests run as jobs whose events are streamed with fetch
+jest.mock('../services/api', () => ({
+  ...jest.requireActual('../services/api'),
+  streamBacktestJob: jest.fn(),
+  cancelBacktestJob: jest.fn(),
+}));
+const mockedStreamBacktestJob = streamBacktestJob as jest.MockedFunction<typeof streamBacktestJob>;
+const mockedCancelBacktestJob = cancelBacktestJob as jest.MockedFunction<typeof cancelBacktestJob>;
+
 // Mock the logger to prevent console output during tests and allow assertions
 jest.mock('../utils/logger', () => ({ // Adjust path as necessary
   logger: {
@@ -54,11 +64,41 @@ const mockBacktestResult: BacktestResult = {
   dataPointsProcessed: 90,
 };
 
+const queuedJob: BacktestJobSummary = {
+  id: 'job-1',
+  user_id: null,
+  status: 'queued',
+  settings: {} as BacktestJobSummary['settings'],
+  bars_processed: 0,
+  total_bars: null,
+  error: null,
+  created_at: 1672531200000,
+  started_at: null,
+  finished_at: null,
+  updated_at: 1672531200000,
+};
+
+const liveProgress: BacktestJobProgress = {
+  barsProcessed: 5,
+  totalBars: 10,
+  portfolioHistory: [{ timestamp: 1672531200, value: 10000 }],
+  trades: [{ timestamp: 1672531200, date: '2023-01-01', action: 'BUY', price: 100, sharesTraded: 1, cashAfterTrade: 9900 }],
+};
+
+// Resolves /api/strategies with the strategies and the job with its result
+const mockGetRequests = () => {
+  mockedAxios.get.mockImplementation((url: string) => Promise.resolve({
+    data: url === '/api/strategies' ? mockStrategies : { ...queuedJob, status: 'completed', result: mockBacktestResult },
+  }));
+};
+
 describe('BacktestRunnerPage', () => {
   beforeEach(() => {
     // Reset mocks before each test
     mockedAxios.get.mockReset();
     mockedAxios.post.mockReset();
+    mockedStreamBacktestJob.mockReset();
+    mockedCancelBacktestJob.mockReset();
     (logger.info as jest.Mock).mockClear();
     (logger.error as jest.Mock).mockClear();
   });
@@ -123,8 +163,11 @@ describe('BacktestRunnerPage', () => {
   });
 
   test('form interaction and successful backtest API call', async () => {
-    mockedAxios.get.mockResolvedValueOnce({ data: mockStrategies }); // For StrategySelector
-    mockedAxios.post.mockResolvedValueOnce({ data: mockBacktestResult }); // For POST /api/backtest
+    mockGetRequests(); // Strategies, then the completed job
+    mockedAxios.post.mockResolvedValueOnce({ data: queuedJob }); // For POST /api/backtest-jobs
+    mockedStreamBacktestJob.mockImplementation(async (_id: string, handlers: BacktestJobStreamHandlers) => {
+      handlers.onJob({ ...queuedJob, status: 'completed' });
+    });
 
     render(<BacktestRunnerPage />);
     
@@ -150,7 +193,7 @@ describe('BacktestRunnerPage', () => {
     expect(screen.getByText(/Running backtest.../i)).toBeInTheDocument();
 
     await waitFor(() => {
-      expect(mockedAxios.post).toHaveBeenCalledWith('/api/backtest', {
+      expect(mockedAxios.post).toHaveBeenCalledWith('/api/backtest-jobs', {
         strategyId: 'strat1',
         strategyParams: { period: 20, source: 'open' }, // Updated params
         symbol: 'BTCUSDT',
@@ -159,8 +202,9 @@ describe('BacktestRunnerPage', () => {
         initialCash: 10000,
         sourceApi: 'Binance', // Default from initialBacktestSettings
         interval: '1d',      // Default from initialBacktestSettings
-      });
+      }, { headers: {} }); // Not logged in: the run is not saved to the history
     });
+    expect(mockedStreamBacktestJob).toHaveBeenCalledWith('job-1', expect.any(Object));
 
     // 6. Verify results display
     await waitFor(() => {
@@ -201,6 +245,39 @@ describe('BacktestRunnerPage', () => {
     });
   });
   
+  test('shows the progress of the running backtest and cancels it', async () => {
+    mockGetRequests();
+    mockedAxios.post.mockResolvedValueOnce({ data: queuedJob });
+    let streamHandlers: BacktestJobStreamHandlers | null = null;
+    let endStream: () => void = () => undefined;
+    mockedStreamBacktestJob.mockImplementation((_id: string, handlers: BacktestJobStreamHandlers) => {
+      streamHandlers = handlers;
+      return new Promise<void>(resolve => { endStream = resolve; });
+    });
+    mockedCancelBacktestJob.mockResolvedValueOnce({ ...queuedJob, status: 'cancelled' });
+
+    render(<BacktestRunnerPage />);
+    await waitFor(() => expect(screen.getByRole('option', { name: 'Strategy One' })).toBeInTheDocument());
+    fireEvent.change(screen.getByLabelText(/Select Strategy:/i), { target: { value: 'strat1' } });
+    fireEvent.click(screen.getByRole('button', { name: /Run Backtest/i }));
+
+    await waitFor(() => expect(streamHandlers).not.toBeNull());
+    act(() => streamHandlers!.onProgress(liveProgress));
+    expect(screen.getByText('5 / 10 bars (50%)')).toBeInTheDocument();
+    expect(screen.getByText('Trades so far: 1')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(mockedCancelBacktestJob).toHaveBeenCalledWith('job-1');
+
+    act(() => {
+      streamHandlers!.onJob({ ...queuedJob, status: 'cancelled' });
+      endStream();
+    });
+    await waitFor(() => {
+      expect(screen.getByText('Error running backtest: The backtest was cancelled.')).toBeInTheDocument();
+    });
+  });
+
   test('run button should be disabled if no strategy is selected', async () => {
     mockedAxios.get.mockResolvedValueOnce({ data: mockStrategies });
     render(<BacktestRunnerPage />);
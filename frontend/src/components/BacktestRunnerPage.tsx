@@ -1,25 +1,32 @@
 // frontend/src/components/BacktestRunnerPage.tsx
 import React, { useState, useCallback, useEffect } from 'react';
 import axios from 'axios';
+import { Link } from 'react-router-dom';
 import type { AxiosError } from 'axios';
 import type {
   TradingStrategy,
   // StrategyParameterDefinition, // Removed as unused
   BacktestSettings,
   BacktestResult,
+  BacktestJob,
+  BacktestJobProgress,
+  BacktestJobSummary,
   ApiError,
   HistoricalDataPoint as FrontendHistoricalDataPoint, // Keep alias for clarity if needed
   Trade, // Use the Trade type from types.ts
   // SuggestionResponse, // Import the new type // Replaced by MultipleSuggestionsApiResponse
   MultipleSuggestionsApiResponse 
 } from '../types';
-import { fetchStrategySuggestion } from '../services/api'; // Import the new API function
+import { fetchStrategySuggestion, getOptionalAuthHeaders, streamBacktestJob, cancelBacktestJob } from '../services/api'; // Import the new API function
 import StrategySelector from './StrategySelector';
 import StrategyParameterForm from './StrategyParameterForm';
 import BacktestSettingsForm from './BacktestSettingsForm';
 import ResultsDisplay from './ResultsDisplay';
+import BacktestProgressPanel, { mergeBacktestJobProgress } from './BacktestProgressPanel';
 import EquityChart from './EquityChart'; // Import EquityChart
 import TradesOnPriceChart from './TradesOnPriceChart';
+import ParameterSweepPanel from './ParameterSweepPanel';
+import MonteCarloPanel from './MonteCarloPanel';
 import { logger } from '../utils/logger';
 import { getAICurrentStrategy, type AIChoiceResponse } from '../services/api'; // Import AI choice function and type
 
@@ -41,6 +48,10 @@ const BacktestRunnerPage: React.FC = () => {
   const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false); // For main backtest run
   const [error, setError] = useState<string | null>(null); // For main backtest run
+  // The main backtest runs as a job (/api/backtest-jobs) whose progress is streamed while it runs
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [liveProgress, setLiveProgress] = useState<BacktestJobProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
 
   // State for AI Selector Strategy Choice (when ai-selector is chosen)
   const [aiChosenStrategyInfo, setAiChosenStrategyInfo] = useState<AIChoiceResponse | null>(null);
@@ -135,6 +146,60 @@ const BacktestRunnerPage: React.FC = () => {
   }, [selectedStrategy, currentBacktestSettings.symbol]);
 
 
+  // Submits the backtest as a job, shows its progress as it streams in and then its result
+  const runBacktestJob = async (requestBody: Record<string, any>, logPrefix: string) => {
+    setIsLoading(true);
+    setBacktestResult(null);
+    setError(null);
+    setLiveProgress(null);
+    setIsCancelling(false);
+
+    try {
+      const headers = getOptionalAuthHeaders();
+      const { data: submittedJob } = await axios.post<BacktestJobSummary>('/api/backtest-jobs', requestBody, { headers });
+      setActiveJobId(submittedJob.id);
+      logger.info(`${logPrefix} Backtest job ${submittedJob.id} submitted`);
+
+      let latestJob = submittedJob;
+      await streamBacktestJob(submittedJob.id, {
+        onJob: job => { latestJob = job; },
+        onProgress: progress => setLiveProgress(previous => mergeBacktestJobProgress(previous, progress)),
+      });
+
+      if (latestJob.status === 'completed') {
+        const { data: job } = await axios.get<BacktestJob>(`/api/backtest-jobs/${submittedJob.id}`, { headers });
+        setBacktestResult(job.result);
+        logger.info(`${logPrefix} Backtest successful`, job.result);
+      } else if (latestJob.status === 'cancelled') {
+        setError('The backtest was cancelled.');
+        logger.info(`${logPrefix} Backtest job ${submittedJob.id} cancelled`);
+      } else {
+        setError(latestJob.error || 'The connection to the backtest was lost.');
+        logger.error(`${logPrefix} Backtest job ${submittedJob.id} ended with status ${latestJob.status}`, latestJob.error);
+      }
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiError>;
+      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
+      setError(errorMessage);
+      logger.error(`${logPrefix} Backtest failed`, axiosError);
+    } finally {
+      setIsLoading(false);
+      setActiveJobId(null);
+      setLiveProgress(null);
+    }
+  };
+
+  const handleCancelBacktest = async () => {
+    if (!activeJobId) return;
+    setIsCancelling(true);
+    try {
+      await cancelBacktestJob(activeJobId);
+    } catch (err: any) {
+      // The job may have finished in the meantime; its stream reports how it ended
+      logger.warn('BacktestRunnerPage: Could not cancel backtest job', err);
+    }
+  };
+
   const handleRunBacktest = async () => {
     if (!selectedStrategy) {
       setError('Please select a strategy.');
@@ -154,28 +219,13 @@ const BacktestRunnerPage: React.FC = () => {
       settings: currentBacktestSettings,
     });
 
-    setIsLoading(true);
-    setBacktestResult(null);
-    setError(null);
-
     const requestBody = {
       strategyId: selectedStrategy.id,
       strategyParams: currentStrategyParams,
       ...currentBacktestSettings,
     };
 
-    try {
-      const response = await axios.post<BacktestResult>('/api/backtest', requestBody);
-      setBacktestResult(response.data);
-      logger.info('BacktestRunnerPage: Backtest successful', response.data);
-    } catch (err) {
-      const axiosError = err as AxiosError<ApiError>;
-      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
-      setError(errorMessage);
-      logger.error('BacktestRunnerPage: Backtest failed', axiosError);
-    } finally {
-      setIsLoading(false);
-    }
+    await runBacktestJob(requestBody, 'BacktestRunnerPage:');
   };
 
   // Handler for the new "Get Strategy Suggestion" button
@@ -253,22 +303,7 @@ const BacktestRunnerPage: React.FC = () => {
     };
 
     logger.info('[ApplyAndRun] Running backtest with suggested settings:', requestBody);
-    setIsLoading(true); // Main loading indicator
-    setBacktestResult(null);
-    setError(null); // Main error display
-
-    try {
-      const response = await axios.post<BacktestResult>('/api/backtest', requestBody);
-      setBacktestResult(response.data);
-      logger.info('[ApplyAndRun] Backtest with suggestion successful:', response.data);
-    } catch (err) {
-      const axiosError = err as AxiosError<ApiError>;
-      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
-      setError(errorMessage); // Main error display
-      logger.error('[ApplyAndRun] Backtest with suggestion failed:', axiosError);
-    } finally {
-      setIsLoading(false); // Main loading indicator
-    }
+    await runBacktestJob(requestBody, '[ApplyAndRun]');
   };
 
   // Handler for "Appliquer aux Paramètres"
@@ -493,6 +528,12 @@ const BacktestRunnerPage: React.FC = () => {
       
       <div className="results-section"> {/* No backtest-section class for results unless desired */}
         <ResultsDisplay results={backtestResult} error={error} loading={isLoading} />
+        {isLoading && activeJobId && (
+          <BacktestProgressPanel progress={liveProgress} onCancel={handleCancelBacktest} isCancelling={isCancelling} />
+        )}
+        {backtestResult?.runId && !error && (
+          <p className="info-message">Saved to your <Link to={`/history/${backtestResult.runId}`}>backtest history</Link>.</p>
+        )}
         
         {/* Render charts if results are available */}
         {backtestResult && !error && (
@@ -503,6 +544,8 @@ const BacktestRunnerPage: React.FC = () => {
                 <h4 className="chart-title">Portfolio Equity</h4>
                 <EquityChart 
                   data={backtestResult.portfolioHistory} 
+                  benchmarkData={backtestResult.benchmark?.equityCurve}
+                  benchmarkLabel={backtestResult.benchmark ? `Buy & Hold ${backtestResult.benchmark.symbol}` : undefined}
                 />
               </div>
             )}
@@ -525,9 +568,23 @@ const BacktestRunnerPage: React.FC = () => {
                 />
               </div>
             )}
+
+            {/* Monte Carlo robustness analysis of the result */}
+            <div className="chart-container">
+              <h4 className="chart-title">Monte Carlo Analysis</h4>
+              <MonteCarloPanel result={backtestResult} />
+            </div>
           </div>
         )}
       </div>
+
+      <div className="backtest-section sweep-section">
+        <ParameterSweepPanel
+          strategy={selectedStrategy}
+          strategyParams={currentStrategyParams}
+          settings={currentBacktestSettings}
+        />
+      </div>
     </div>
   );
 };
@@ -305,4 +305,102 @@ describe('BacktestSettingsForm', () => {
       expect(intervalSelect.value).toBe(''); // Should select the placeholder
     });
   });
+  describe('Trading Costs Functionality', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValueOnce({ data: ['BTCUSDT', 'ETHUSDT'] });
+    });
+
+    test('updates nested costModel settings and clears a field when emptied', async () => {
+      render(
+        <BacktestSettingsForm
+          initialSettings={{ ...mockInitialSettings, costModel: { fixedFeePerTrade: 1 } }}
+          onSettingsChange={mockOnSettingsChange}
+        />
+      );
+      await waitFor(() => expect(screen.getByLabelText(/Symbol:/i)).not.toBeDisabled());
+
+      const takerFeeInput = screen.getByLabelText(/Taker Fee \(%\):/i) as HTMLInputElement;
+      fireEvent.change(takerFeeInput, { target: { value: '0.1' } });
+      expect(mockOnSettingsChange).toHaveBeenCalledWith(
+        expect.objectContaining({ costModel: { fixedFeePerTrade: 1, takerFeePercent: 0.1 } })
+      );
+
+      const fixedFeeInput = screen.getByLabelText(/Fixed Fee per Trade:/i) as HTMLInputElement;
+      fireEvent.change(fixedFeeInput, { target: { value: '' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ costModel: { takerFeePercent: 0.1 } })
+      );
+    });
+  });
+
+  describe('Execution Timing', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValueOnce({ data: ['BTCUSDT', 'ETHUSDT'] });
+    });
+
+    test('defaults to same-bar close and updates executionTiming on change', async () => {
+      render(<BacktestSettingsForm initialSettings={mockInitialSettings} onSettingsChange={mockOnSettingsChange} />);
+      await waitFor(() => expect(screen.getByLabelText(/Symbol:/i)).not.toBeDisabled());
+
+      const timingSelect = screen.getByLabelText(/Execution Timing:/i) as HTMLSelectElement;
+      expect(timingSelect.value).toBe('SAME_BAR_CLOSE');
+
+      fireEvent.change(timingSelect, { target: { value: 'NEXT_BAR_OPEN' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ executionTiming: 'NEXT_BAR_OPEN' })
+      );
+    });
+  });
+
+  describe('Position Sizing', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValueOnce({ data: ['BTCUSDT', 'ETHUSDT'] });
+    });
+
+    test('adds positionSizing when a mode is selected and removes it again', async () => {
+      render(<BacktestSettingsForm initialSettings={mockInitialSettings} onSettingsChange={mockOnSettingsChange} />);
+      await waitFor(() => expect(screen.getByLabelText(/Symbol:/i)).not.toBeDisabled());
+
+      fireEvent.change(screen.getByLabelText(/Sizing Mode:/i), { target: { value: 'PERCENT_EQUITY' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ positionSizing: { mode: 'PERCENT_EQUITY', value: 1 } })
+      );
+
+      fireEvent.change(screen.getByLabelText(/Sizing Value:/i), { target: { value: '10' } });
+      fireEvent.change(screen.getByLabelText(/Lot Size:/i), { target: { value: '0.01' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ positionSizing: { mode: 'PERCENT_EQUITY', value: 10, lotSize: 0.01 } })
+      );
+
+      fireEvent.change(screen.getByLabelText(/Sizing Mode:/i), { target: { value: '' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ positionSizing: undefined })
+      );
+    });
+  });
+
+  describe('Margin Functionality', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValueOnce({ data: ['BTCUSDT', 'ETHUSDT'] });
+    });
+
+    test('enables margin and updates nested margin settings', async () => {
+      render(<BacktestSettingsForm initialSettings={mockInitialSettings} onSettingsChange={mockOnSettingsChange} />);
+      await waitFor(() => expect(screen.getByLabelText(/Symbol:/i)).not.toBeDisabled());
+
+      const leverageInput = screen.getByLabelText(/Max Leverage \(x\):/i) as HTMLInputElement;
+      expect(leverageInput).toBeDisabled();
+
+      fireEvent.click(screen.getByLabelText(/Enable Margin/i));
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ margin: { enabled: true } })
+      );
+      expect(leverageInput).not.toBeDisabled();
+
+      fireEvent.change(leverageInput, { target: { value: '2' } });
+      expect(mockOnSettingsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ margin: { enabled: true, maxLeverage: 2 } })
+      );
+    });
+  });
 });
@@ -1,7 +1,7 @@
 // frontend/src/components/BacktestSettingsForm.tsx
 import React, { useState, useEffect } from 'react';
 import axios from 'axios'; // Import axios
-import type { BacktestSettings } from '../types';
+import type { BacktestSettings, CostModelSettings, ExecutionTiming, LotMatchingMethod, MarginSettings, PositionSizingSettings, SizingMode } from '../types';
 import { logger } from '../utils/logger';
 
 interface BacktestSettingsFormProps {
@@ -66,6 +66,16 @@ const BacktestSettingsForm: React.FC<BacktestSettingsFormProps> = ({ onSettingsC
 
   const intervalOptions = ['1m', '5m', '15m', '1h', '4h', '1d', '1w', '1M'];
   const dataSourceOptions = ['Binance', 'YahooFinance', 'AlphaVantage'];
+  const executionTimingOptions: Array<{ value: ExecutionTiming; label: string }> = [
+    { value: 'SAME_BAR_CLOSE', label: 'Same bar close (legacy)' },
+    { value: 'NEXT_BAR_OPEN', label: 'Next bar open' },
+    { value: 'NEXT_BAR_VWAP', label: 'Next bar VWAP (approx.)' },
+  ];
+
+  const lotMatchingOptions: Array<{ value: LotMatchingMethod; label: string }> = [
+    { value: 'FIFO', label: 'FIFO' },
+    { value: 'AVERAGE_COST', label: 'Average cost' },
+  ];
 
   const handleChange = (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => { // Extended to HTMLSelectElement
     const { name, value } = event.target;
@@ -86,6 +96,120 @@ const BacktestSettingsForm: React.FC<BacktestSettingsFormProps> = ({ onSettingsC
     logger.debug(`BacktestSettingsForm: Setting ${name} changed to`, processedValue);
   };
   
+  // An empty selection benchmarks against the backtested symbol, so the field is removed rather than sent empty.
+  const handleBenchmarkSymbolChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const updatedSettings = {
+      ...settings,
+      benchmarkSymbol: event.target.value || undefined,
+    };
+    setSettings(updatedSettings);
+    onSettingsChange(updatedSettings);
+    logger.debug('BacktestSettingsForm: Benchmark symbol changed to', updatedSettings.benchmarkSymbol);
+  };
+
+  // Cost model fields are nested under settings.costModel; an empty input clears the field.
+  const handleCostModelChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    const field = name as keyof CostModelSettings;
+    const parsedValue = parseFloat(value);
+    const updatedCostModel: CostModelSettings = { ...settings.costModel };
+    if (value === '' || isNaN(parsedValue)) {
+      delete updatedCostModel[field];
+    } else {
+      updatedCostModel[field] = parsedValue;
+    }
+
+    const updatedSettings = {
+      ...settings,
+      costModel: updatedCostModel,
+    };
+    setSettings(updatedSettings);
+    onSettingsChange(updatedSettings);
+    logger.debug(`BacktestSettingsForm: Cost model ${name} changed to`, updatedCostModel[field]);
+  };
+
+  // Margin fields are nested under settings.margin; numeric inputs behave like the cost model inputs.
+  const handleMarginChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = event.target;
+    const updatedMargin: MarginSettings = { enabled: false, ...settings.margin };
+    if (type === 'checkbox') {
+      updatedMargin.enabled = checked;
+    } else {
+      const field = name as Exclude<keyof MarginSettings, 'enabled'>;
+      const parsedValue = parseFloat(value);
+      if (value === '' || isNaN(parsedValue)) {
+        delete updatedMargin[field];
+      } else {
+        updatedMargin[field] = parsedValue;
+      }
+    }
+
+    const updatedSettings = {
+      ...settings,
+      margin: updatedMargin,
+    };
+    setSettings(updatedSettings);
+    onSettingsChange(updatedSettings);
+    logger.debug(`BacktestSettingsForm: Margin ${name} changed`, updatedMargin);
+  };
+
+  const marginFields: Array<{ name: Exclude<keyof MarginSettings, 'enabled'>; label: string; step: string; placeholder: string }> = [
+    { name: 'maxLeverage', label: 'Max Leverage (x):', step: '0.1', placeholder: '1' },
+    { name: 'borrowRatePercentAnnual', label: 'Borrow Rate (% / year):', step: '0.1', placeholder: '0' },
+    { name: 'maintenanceMarginPercent', label: 'Maintenance Margin (%):', step: '1', placeholder: '25' },
+  ];
+
+  // Position sizing is only sent when a mode is selected; choosing "Strategy default" removes it.
+  const handlePositionSizingChange = (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    let updatedPositionSizing: PositionSizingSettings | undefined;
+    if (name === 'mode') {
+      updatedPositionSizing = value
+        ? { value: 1, ...settings.positionSizing, mode: value as SizingMode }
+        : undefined;
+    } else if (settings.positionSizing) {
+      const field = name as Exclude<keyof PositionSizingSettings, 'mode'>;
+      const parsedValue = parseFloat(value);
+      updatedPositionSizing = { ...settings.positionSizing };
+      if (value === '' || isNaN(parsedValue)) {
+        if (field !== 'value') delete updatedPositionSizing[field];
+      } else {
+        updatedPositionSizing[field] = parsedValue;
+      }
+    }
+
+    const updatedSettings = {
+      ...settings,
+      positionSizing: updatedPositionSizing,
+    };
+    setSettings(updatedSettings);
+    onSettingsChange(updatedSettings);
+    logger.debug(`BacktestSettingsForm: Position sizing ${name} changed`, updatedPositionSizing);
+  };
+
+  const sizingModeOptions: Array<{ value: SizingMode; label: string }> = [
+    { value: 'UNITS', label: 'Units' },
+    { value: 'NOTIONAL', label: 'Notional (quote currency)' },
+    { value: 'PERCENT_EQUITY', label: '% of equity' },
+    { value: 'PERCENT_RISK', label: '% of equity at risk' },
+    { value: 'VOLATILITY_TARGET', label: 'Volatility target (% / year)' },
+  ];
+
+  const positionSizingFields: Array<{ name: Exclude<keyof PositionSizingSettings, 'mode'>; label: string; step: string; placeholder: string }> = [
+    { name: 'value', label: 'Sizing Value:', step: '0.1', placeholder: '1' },
+    { name: 'atrPeriod', label: 'ATR Period:', step: '1', placeholder: '14' },
+    { name: 'atrStopMultiple', label: 'ATR Stop Multiple:', step: '0.1', placeholder: '2' },
+    { name: 'lotSize', label: 'Lot Size:', step: '0.0001', placeholder: 'none' },
+  ];
+
+  const costModelFields: Array<{ name: keyof CostModelSettings; label: string; step: string }> = [
+    { name: 'fixedFeePerTrade', label: 'Fixed Fee per Trade:', step: '0.01' },
+    { name: 'makerFeePercent', label: 'Maker Fee (%):', step: '0.01' },
+    { name: 'takerFeePercent', label: 'Taker Fee (%):', step: '0.01' },
+    { name: 'slippageBps', label: 'Slippage (bps):', step: '0.1' },
+    { name: 'spreadBps', label: 'Spread (bps):', step: '0.1' },
+  ];
+
   // Helper to format date for input type="date" (YYYY-MM-DD)
   // Note: HTML date input expects YYYY-MM-DD. If initialSettings.startDate/endDate are Date objects, they need formatting.
   // For this implementation, BacktestSettings type defines them as strings already.
@@ -198,6 +322,134 @@ const BacktestSettingsForm: React.FC<BacktestSettingsFormProps> = ({ onSettingsC
             ))}
           </select>
         </div>
+        <div className="form-group">
+          <label htmlFor="executionTiming">Execution Timing:</label>
+          <select
+            id="executionTiming"
+            name="executionTiming"
+            value={settings.executionTiming || 'SAME_BAR_CLOSE'}
+            onChange={handleChange}
+          >
+            {executionTimingOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="lotMatching">Round-Trip Lot Matching:</label>
+          <select
+            id="lotMatching"
+            name="lotMatching"
+            value={settings.lotMatching || 'FIFO'}
+            onChange={handleChange}
+          >
+            {lotMatchingOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="benchmarkSymbol">Benchmark (Buy &amp; Hold):</label>
+          <select
+            id="benchmarkSymbol"
+            name="benchmarkSymbol"
+            value={settings.benchmarkSymbol ?? ''}
+            onChange={handleBenchmarkSymbolChange}
+            disabled={isSymbolsLoading || !!symbolsError}
+          >
+            <option value="">Same as symbol</option>
+            {symbolsList.map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <h4>Position Sizing</h4>
+      <p className="form-hint">Applies to signals without an amount, e.g. strategies whose Trade Amount is 0.</p>
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="sizingMode">Sizing Mode:</label>
+          <select
+            id="sizingMode"
+            name="mode"
+            value={settings.positionSizing?.mode ?? ''}
+            onChange={handlePositionSizingChange}
+          >
+            <option value="">Strategy default (1 unit)</option>
+            {sizingModeOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {positionSizingFields.map(field => (
+          <div className="form-group" key={field.name}>
+            <label htmlFor={`sizing-${field.name}`}>{field.label}</label>
+            <input
+              type="number"
+              id={`sizing-${field.name}`}
+              name={field.name}
+              value={settings.positionSizing?.[field.name] ?? ''}
+              onChange={handlePositionSizingChange}
+              min="0"
+              step={field.step}
+              placeholder={field.placeholder}
+              disabled={!settings.positionSizing}
+            />
+          </div>
+        ))}
+      </div>
+      <h4>Trading Costs</h4>
+      <div className="form-grid">
+        {costModelFields.map(field => (
+          <div className="form-group" key={field.name}>
+            <label htmlFor={field.name}>{field.label}</label>
+            <input
+              type="number"
+              id={field.name}
+              name={field.name}
+              value={settings.costModel?.[field.name] ?? ''}
+              onChange={handleCostModelChange}
+              min="0"
+              step={field.step}
+              placeholder="0"
+            />
+          </div>
+        ))}
+      </div>
+      <h4>Margin</h4>
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="marginEnabled">Enable Margin (short selling &amp; leverage):</label>
+          <input
+            type="checkbox"
+            id="marginEnabled"
+            name="enabled"
+            checked={settings.margin?.enabled ?? false}
+            onChange={handleMarginChange}
+          />
+        </div>
+        {marginFields.map(field => (
+          <div className="form-group" key={field.name}>
+            <label htmlFor={field.name}>{field.label}</label>
+            <input
+              type="number"
+              id={field.name}
+              name={field.name}
+              value={settings.margin?.[field.name] ?? ''}
+              onChange={handleMarginChange}
+              min="0"
+              step={field.step}
+              placeholder={field.placeholder}
+              disabled={!settings.margin?.enabled}
+            />
+          </div>
+        ))}
       </div>
     </div>
   );
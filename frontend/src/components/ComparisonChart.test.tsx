@@ -0,0 +1,59 @@
+// frontend/src/components/ComparisonChart.test.tsx
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen } from '@testing-library/react';
+import ComparisonChart from './ComparisonChart';
+import type { ComparisonPoint } from '../types';
+
+// Mock Recharts components
+jest.mock('recharts', () => {
+  const OriginalRecharts = jest.requireActual('recharts');
+  return {
+    ...OriginalRecharts,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div data-testid="responsive-container">{children}</div>
+    ),
+    LineChart: ({ children, data }: { children: React.ReactNode, data: any[] }) => (
+      <div data-testid="line-chart" data-chartdata={JSON.stringify(data)}>{children}</div>
+    ),
+    Line: ({ dataKey, name, stroke }: { dataKey: string, name: string, stroke: string }) => (
+      <div data-testid="line" data-datakey={dataKey} data-stroke={stroke}>{name}</div>
+    ),
+    XAxis: ({ dataKey }: { dataKey: string }) => <div data-testid="x-axis" data-datakey={dataKey}></div>,
+    YAxis: () => <div data-testid="y-axis"></div>,
+    CartesianGrid: () => <div data-testid="cartesian-grid"></div>,
+    Tooltip: () => <div data-testid="tooltip"></div>,
+    Legend: () => <div data-testid="legend"></div>,
+  };
+});
+
+describe('ComparisonChart Component', () => {
+  const points: ComparisonPoint[] = [
+    { timestamp: 1672531200, equity: [100, null], drawdown: [0, null] },
+    { timestamp: 1672617600, equity: [95, 100], drawdown: [-5, 0] },
+  ];
+
+  it('renders one line per run', () => {
+    render(<ComparisonChart points={points} labels={['MACD', 'RSI']} series="equity" />);
+
+    const lines = screen.getAllByTestId('line');
+    expect(lines.map(line => line.textContent)).toEqual(['MACD', 'RSI']);
+    expect(lines.map(line => line.getAttribute('data-datakey'))).toEqual(['run0', 'run1']);
+    expect(lines[0].getAttribute('data-stroke')).not.toBe(lines[1].getAttribute('data-stroke'));
+  });
+
+  it('charts the selected series with gaps before a run starts', () => {
+    render(<ComparisonChart points={points} labels={['MACD', 'RSI']} series="drawdown" />);
+
+    const chartData = JSON.parse(screen.getByTestId('line-chart').getAttribute('data-chartdata')!);
+    expect(chartData).toEqual([
+      { timestamp: 1672531200, run0: 0, run1: null },
+      { timestamp: 1672617600, run0: -5, run1: 0 },
+    ]);
+  });
+
+  it('shows a message without data', () => {
+    render(<ComparisonChart points={[]} labels={[]} series="equity" />);
+
+    expect(screen.getByText('No data available to display the chart.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,73 @@
+// frontend/src/components/ComparisonChart.tsx
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { formatDateForChart } from '../utils/formatters';
+import type { ComparisonPoint } from '../types';
+
+// One colour per run, in order (comparisons have at most 10 runs)
+export const comparisonColors = ['#8884d8', '#82ca9d', '#ff7300', '#dc3545', '#17a2b8', '#ffc658', '#6f42c1', '#20c997', '#e83e8c', '#6c757d'];
+
+interface ComparisonChartProps {
+  points: ReadonlyArray<ComparisonPoint>;
+  labels: string[];
+  series: 'equity' | 'drawdown';
+}
+
+/**
+ * Overlays one line per run on shared axes: equity rebased to 100, or drawdown in percent. A run has no line where
+ * its values are null (before it starts, with the union alignment).
+ */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ points, labels, series }) => {
+  if (!points || points.length === 0) {
+    return <p>No data available to display the chart.</p>;
+  }
+
+  const chartData = points.map(point => {
+    const row: Record<string, number | null> = { timestamp: point.timestamp };
+    point[series].forEach((value, k) => {
+      row[`run${k}`] = value;
+    });
+    return row;
+  });
+  const formatValue = (value: number) => (series === 'equity' ? value.toFixed(2) : `${value.toFixed(2)}%`);
+
+  return (
+    <div style={{ width: '100%', height: 400 }}>
+      <ResponsiveContainer>
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} scale="time" tickFormatter={formatDateForChart} />
+          <YAxis
+            tickFormatter={formatValue}
+            domain={series === 'equity' ? ['auto', 'auto'] : ['auto', 0]}
+            label={{ value: series === 'equity' ? 'Equity (start = 100)' : 'Drawdown (%)', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip labelFormatter={formatDateForChart} formatter={(value: number, name: string) => [formatValue(value), name]} />
+          <Legend />
+          {labels.map((label, k) => (
+            <Line
+              key={`run${k}`}
+              type="monotone"
+              dataKey={`run${k}`}
+              name={label}
+              stroke={comparisonColors[k % comparisonColors.length]}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ComparisonChart;
@@ -84,6 +84,19 @@ describe('EquityChart Component', () => {
     expect(xAxis.getAttribute('data-datakey')).toBe('timestamp');
   });
 
+  test('adds a benchmark line and values when benchmark data is provided', () => {
+    const benchmarkData: EquityDataPoint[] = [
+      { timestamp: 1672531200, value: 10000 },
+      { timestamp: 1672617600, value: 10100 },
+      { timestamp: 1672704000, value: 10200 },
+    ];
+    render(<EquityChart data={mockPortfolioHistory} benchmarkData={benchmarkData} />);
+
+    const chartData = JSON.parse(screen.getByTestId('line-chart').getAttribute('data-chartdata')!);
+    expect(chartData.map((point: { benchmark: number }) => point.benchmark)).toEqual([10000, 10100, 10200]);
+    expect(screen.getAllByTestId('line').map(line => line.getAttribute('data-datakey'))).toEqual(['value', 'benchmark']);
+  });
+
   test('renders "No equity data" message when data is empty', () => {
     render(<EquityChart data={[]} />);
     expect(screen.getByText('No equity data available to display the chart.')).toBeInTheDocument();
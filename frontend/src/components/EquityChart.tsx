@@ -15,9 +15,11 @@ import type { EquityDataPoint } from '../types'; // Import from centralized type
 
 interface EquityChartProps {
   data: ReadonlyArray<EquityDataPoint>;
+  benchmarkData?: ReadonlyArray<EquityDataPoint>; // Optional buy-and-hold curve on the same timestamps
+  benchmarkLabel?: string;
 }
 
-const EquityChart: React.FC<EquityChartProps> = ({ data }) => {
+const EquityChart: React.FC<EquityChartProps> = ({ data, benchmarkData, benchmarkLabel = 'Buy & Hold' }) => {
   if (!data || data.length === 0) {
     return <p>No equity data available to display the chart.</p>;
   }
@@ -25,10 +27,14 @@ const EquityChart: React.FC<EquityChartProps> = ({ data }) => {
   // Transform data for Recharts: Recharts typically expects data keys to be consistent.
   // The 'timestamp' needs to be formatted for the XAxis, but the original numeric value
   // can be used for sorting and data integrity. The 'value' is the portfolio value.
+  // The benchmark value is added as a 'benchmark' key on the point with the same timestamp.
+  const benchmarkByTimestamp = new Map((benchmarkData ?? []).map(point => [point.timestamp, point.value]));
+  const hasBenchmark = benchmarkByTimestamp.size > 0;
   const chartData = data.map(item => ({
     ...item,
     // Recharts XAxis dataKey will be 'timestamp'. We use tickFormatter for display.
     // 'value' is directly used for YAxis dataKey.
+    ...(hasBenchmark ? { benchmark: benchmarkByTimestamp.get(item.timestamp) } : {}),
   }));
 
 
@@ -64,7 +70,7 @@ const EquityChart: React.FC<EquityChartProps> = ({ data }) => {
           <Tooltip
             labelFormatter={formatDateForChart} // Use imported formatter for tooltip label
             formatter={(value: number, name: string) => { // Format value in tooltip
-              if (name === 'Portfolio Value') {
+              if (name === 'Portfolio Value' || name === benchmarkLabel) {
                 return [formatCurrency(value), name]; // Use imported formatter
               }
               return [value, name];
@@ -79,6 +85,16 @@ const EquityChart: React.FC<EquityChartProps> = ({ data }) => {
             activeDot={{ r: 8 }}
             dot={false} // Hide dots for cleaner line, or customize them
           />
+          {hasBenchmark && (
+            <Line
+              type="monotone"
+              dataKey="benchmark"
+              name={benchmarkLabel}
+              stroke="#82ca9d"
+              strokeDasharray="5 5"
+              dot={false}
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
     </div>
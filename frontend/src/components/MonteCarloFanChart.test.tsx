@@ -0,0 +1,51 @@
+// frontend/src/components/MonteCarloFanChart.test.tsx
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen } from '@testing-library/react';
+import MonteCarloFanChart from './MonteCarloFanChart';
+import type { MonteCarloFanPoint } from '../types';
+
+// Mock Recharts components
+jest.mock('recharts', () => {
+  const OriginalRecharts = jest.requireActual('recharts');
+  return {
+    ...OriginalRecharts,
+    ResponsiveContainer: ({ children }: { children: React.ReactNode }) => (
+      <div data-testid="responsive-container">{children}</div>
+    ),
+    ComposedChart: ({ children, data }: { children: React.ReactNode, data: any[] }) => (
+      <div data-testid="composed-chart" data-chartdata={JSON.stringify(data)}>{children}</div>
+    ),
+    Area: ({ dataKey, name }: { dataKey: string, name: string }) => <div data-testid="area" data-datakey={dataKey}>{name}</div>,
+    Line: ({ dataKey, name }: { dataKey: string, name: string }) => <div data-testid="line" data-datakey={dataKey}>{name}</div>,
+    XAxis: ({ dataKey }: { dataKey: string }) => <div data-testid="x-axis" data-datakey={dataKey}></div>,
+    YAxis: () => <div data-testid="y-axis"></div>,
+    CartesianGrid: () => <div data-testid="cartesian-grid"></div>,
+    Tooltip: () => <div data-testid="tooltip"></div>,
+    Legend: () => <div data-testid="legend"></div>,
+    ReferenceLine: ({ y }: { y: number }) => <div data-testid="reference-line" data-y={y}></div>,
+  };
+});
+
+describe('MonteCarloFanChart Component', () => {
+  const percentiles = [5, 25, 50, 75, 95];
+  const mockFanChart: MonteCarloFanPoint[] = [
+    { step: 0, values: [1000, 1000, 1000, 1000, 1000] },
+    { step: 1, values: [900, 950, 1000, 1050, 1100] },
+  ];
+
+  it('renders one band per percentile pair and a median line', () => {
+    render(<MonteCarloFanChart data={mockFanChart} percentiles={percentiles} ruinEquity={500} />);
+
+    expect(screen.getAllByTestId('area').map(area => area.textContent)).toEqual(['P5-P95', 'P25-P75']);
+    expect(screen.getByTestId('line')).toHaveTextContent('Median (P50)');
+    expect(screen.getByTestId('reference-line')).toHaveAttribute('data-y', '500');
+
+    const chartData = JSON.parse(screen.getByTestId('composed-chart').getAttribute('data-chartdata') || '[]');
+    expect(chartData[1]).toEqual({ x: 1, band0: [900, 1100], band1: [950, 1050], median: 1000 });
+  });
+
+  it('displays a message when there is no data', () => {
+    render(<MonteCarloFanChart data={[]} percentiles={percentiles} />);
+    expect(screen.getByText('No simulated equity data available to display the chart.')).toBeInTheDocument();
+  });
+});
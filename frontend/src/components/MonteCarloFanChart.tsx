@@ -0,0 +1,90 @@
+// frontend/src/components/MonteCarloFanChart.tsx
+import React from 'react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { formatDateForChart, formatCurrency } from '../utils/formatters';
+import type { MonteCarloFanPoint } from '../types';
+
+interface MonteCarloFanChartProps {
+  data: ReadonlyArray<MonteCarloFanPoint>;
+  percentiles: number[];  // Percentiles of each point's values, in ascending order
+  ruinEquity?: number;    // Drawn as a reference line when given
+}
+
+/**
+ * Fan chart of simulated equity paths: each pair of outer/inner percentiles (e.g. 5-95, 25-75) is a shaded band,
+ * darker towards the middle, and the median is a line.
+ */
+const MonteCarloFanChart: React.FC<MonteCarloFanChartProps> = ({ data, percentiles, ruinEquity }) => {
+  if (!data || data.length === 0) {
+    return <p>No simulated equity data available to display the chart.</p>;
+  }
+
+  // Bars have timestamps; trade-based simulations only have a trade number
+  const useTimestamps = data.every(point => point.timestamp !== undefined);
+  const bandCount = Math.floor(percentiles.length / 2);
+  const medianIndex = percentiles.length % 2 === 1 ? bandCount : -1;
+
+  const chartData = data.map(point => {
+    const row: Record<string, number | [number, number]> = { x: useTimestamps ? point.timestamp! : point.step };
+    for (let band = 0; band < bandCount; band++) {
+      row[`band${band}`] = [point.values[band], point.values[percentiles.length - 1 - band]];
+    }
+    if (medianIndex >= 0) row.median = point.values[medianIndex];
+    return row;
+  });
+
+  return (
+    <div style={{ width: '100%', height: 400 }}>
+      <ResponsiveContainer>
+        <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={useTimestamps ? formatDateForChart : undefined}
+            label={useTimestamps ? undefined : { value: 'Trade #', position: 'insideBottomRight', offset: 0 }}
+          />
+          <YAxis tickFormatter={formatCurrency} domain={['auto', 'auto']} />
+          <Tooltip
+            labelFormatter={(label: number) => (useTimestamps ? formatDateForChart(label) : `Trade ${label}`)}
+            formatter={(value: number | [number, number], name: string) =>
+              [Array.isArray(value) ? `${formatCurrency(value[0])} - ${formatCurrency(value[1])}` : formatCurrency(value), name]}
+          />
+          <Legend />
+          {Array.from({ length: bandCount }, (_, band) => (
+            <Area
+              key={`band${band}`}
+              type="monotone"
+              dataKey={`band${band}`}
+              name={`P${percentiles[band]}-P${percentiles[percentiles.length - 1 - band]}`}
+              stroke="none"
+              fill="#8884d8"
+              fillOpacity={0.15 + (0.35 * (band + 1)) / Math.max(bandCount, 1)}
+              isAnimationActive={false}
+            />
+          ))}
+          {medianIndex >= 0 && (
+            <Line type="monotone" dataKey="median" name={`Median (P${percentiles[medianIndex]})`} stroke="#4b3fb5" dot={false} isAnimationActive={false} />
+          )}
+          {ruinEquity !== undefined && (
+            <ReferenceLine y={ruinEquity} stroke="#dc3545" strokeDasharray="4 4" label={{ value: 'Ruin', position: 'insideTopLeft' }} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default MonteCarloFanChart;
@@ -0,0 +1,160 @@
+// frontend/src/components/MonteCarloPanel.tsx
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import type { AxiosError } from 'axios';
+import type { ApiError, BacktestResult, MonteCarloMethod, MonteCarloResult, MonteCarloSettings } from '../types';
+import MonteCarloFanChart from './MonteCarloFanChart';
+import { formatCurrency } from '../utils/formatters';
+import { logger } from '../utils/logger';
+
+interface MonteCarloPanelProps {
+  result: BacktestResult;
+}
+
+const methodLabels: Record<MonteCarloMethod, string> = {
+  tradeShuffle: 'Trade Order Reshuffling',
+  bootstrap: 'Bootstrap of Bar Returns',
+  skipTrades: 'Randomly Skipped Trades',
+};
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ result }) => {
+  const [simulations, setSimulations] = useState<number>(1000);
+  const [ruinThresholdPercent, setRuinThresholdPercent] = useState<number>(50);
+  const [skipProbabilityPercent, setSkipProbabilityPercent] = useState<number>(10);
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [monteCarloError, setMonteCarloError] = useState<string | null>(null);
+
+  // Results of a previous backtest no longer apply
+  useEffect(() => {
+    setMonteCarloResult(null);
+    setMonteCarloError(null);
+  }, [result]);
+
+  const handleRunMonteCarlo = async () => {
+    const monteCarlo: MonteCarloSettings = {
+      simulations,
+      ruinThresholdPercent,
+      skipProbability: skipProbabilityPercent / 100,
+    };
+    // Only the fields the analysis reads are sent, which keeps the request small
+    const requestBody = {
+      backtestResult: {
+        initialPortfolioValue: result.initialPortfolioValue,
+        portfolioHistory: result.portfolioHistory,
+        roundTrips: result.roundTrips?.map(roundTrip => ({ netPnl: roundTrip.netPnl })),
+      },
+      monteCarlo,
+    };
+
+    logger.info('MonteCarloPanel: Running Monte Carlo analysis', monteCarlo);
+    setIsRunning(true);
+    setMonteCarloResult(null);
+    setMonteCarloError(null);
+    try {
+      const response = await axios.post<MonteCarloResult>('/api/backtest/monte-carlo', requestBody);
+      setMonteCarloResult(response.data);
+      logger.info(`MonteCarloPanel: Analysis completed with seed ${response.data.seed}`);
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiError>;
+      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
+      setMonteCarloError(errorMessage);
+      logger.error('MonteCarloPanel: Analysis failed', axiosError);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="monte-carlo-panel">
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="monteCarloSimulations">Simulations:</label>
+          <input
+            type="number"
+            id="monteCarloSimulations"
+            value={simulations}
+            onChange={(e) => setSimulations(parseInt(e.target.value, 10) || 0)}
+            min="1"
+            max="10000"
+            step="100"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="monteCarloRuinThreshold">Ruin Threshold (% loss):</label>
+          <input
+            type="number"
+            id="monteCarloRuinThreshold"
+            value={ruinThresholdPercent}
+            onChange={(e) => setRuinThresholdPercent(parseFloat(e.target.value) || 0)}
+            min="1"
+            max="100"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="monteCarloSkipProbability">Skipped Trades (%):</label>
+          <input
+            type="number"
+            id="monteCarloSkipProbability"
+            value={skipProbabilityPercent}
+            onChange={(e) => setSkipProbabilityPercent(parseFloat(e.target.value) || 0)}
+            min="1"
+            max="99"
+          />
+        </div>
+      </div>
+      <button onClick={handleRunMonteCarlo} disabled={isRunning}>
+        {isRunning ? 'Simulating...' : 'Run Monte Carlo Analysis'}
+      </button>
+
+      {monteCarloError && <p className="error-message">Error running Monte Carlo analysis: {monteCarloError}</p>}
+      {monteCarloResult && !isRunning && (
+        <div>
+          <p>
+            Seed {monteCarloResult.seed}. Ruin: equity at or below {formatCurrency(monteCarloResult.ruinEquity)} ({monteCarloResult.ruinThresholdPercent}% loss).
+          </p>
+          {monteCarloResult.skippedMethods.map(skipped => (
+            <p key={skipped.method}><em>{methodLabels[skipped.method]} skipped: {skipped.reason}</em></p>
+          ))}
+          {monteCarloResult.methods.map(method => (
+            <div key={method.method} style={{ marginTop: '1.5rem' }}>
+              <h5>{methodLabels[method.method]} ({method.simulations} simulations)</h5>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Metric</th>
+                    {monteCarloResult.percentiles.map(p => <th key={p}>P{p}</th>)}
+                    <th>Mean</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <th>Final Equity</th>
+                    {method.finalEquity.values.map((value, k) => <td key={k}>{formatCurrency(value)}</td>)}
+                    <td>{formatCurrency(method.finalEquity.mean)}</td>
+                  </tr>
+                  <tr>
+                    <th>Max Drawdown</th>
+                    {method.maxDrawdown.values.map((value, k) => <td key={k}>{value.toFixed(2)}%</td>)}
+                    <td>{method.maxDrawdown.mean.toFixed(2)}%</td>
+                  </tr>
+                  <tr>
+                    <th>Sharpe Ratio</th>
+                    {method.sharpeRatio.values.map((value, k) => <td key={k}>{value.toFixed(2)}</td>)}
+                    <td>{method.sharpeRatio.mean.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p>
+                Risk of Ruin: <span className={method.riskOfRuin > 0 ? 'loss' : 'profit'}>{method.riskOfRuin.toFixed(2)}%</span>
+              </p>
+              <MonteCarloFanChart data={method.fanChart} percentiles={monteCarloResult.percentiles} ruinEquity={monteCarloResult.ruinEquity} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
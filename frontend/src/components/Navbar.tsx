@@ -13,6 +13,12 @@ const Navbar: React.FC = () => {
         <li className="nav-item">
           <Link to="/backtest" className="nav-link">Backtest</Link>
         </li>
+        <li className="nav-item">
+          <Link to="/history" className="nav-link">History</Link>
+        </li>
+        <li className="nav-item">
+          <Link to="/compare" className="nav-link">Compare</Link>
+        </li>
         <li className="nav-item">
           <Link to="/api-keys" className="nav-link">Clés API</Link>
         </li>
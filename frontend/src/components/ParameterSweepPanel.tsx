@@ -0,0 +1,180 @@
+// frontend/src/components/ParameterSweepPanel.tsx
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import type { AxiosError } from 'axios';
+import type { ApiError, BacktestSettings, ParameterRange, ParameterSweepResult, TradingStrategy } from '../types';
+import SweepResultsTable from './SweepResultsTable';
+import SweepHeatmap from './SweepHeatmap';
+import { logger } from '../utils/logger';
+
+interface ParameterSweepPanelProps {
+  strategy: TradingStrategy | null;
+  strategyParams: Record<string, any>;
+  settings: BacktestSettings;
+}
+
+interface RangeInput {
+  enabled: boolean;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Numeric parameters with a min/max/step are swept by default, over their whole range, unless they are not optimizable
+// (order sizes), which can still be enabled by hand
+const buildDefaultRanges = (strategy: TradingStrategy | null): Record<string, RangeInput> => {
+  const ranges: Record<string, RangeInput> = {};
+  strategy?.parameters
+    .filter(param => param.type === 'number')
+    .forEach(param => {
+      const hasRange = param.min !== undefined && param.max !== undefined && param.step !== undefined;
+      const defaultValue = Number(param.defaultValue);
+      ranges[param.name] = {
+        enabled: hasRange && param.optimizable !== false,
+        min: param.min ?? defaultValue,
+        max: param.max ?? defaultValue,
+        step: param.step ?? 1,
+      };
+    });
+  return ranges;
+};
+
+const ParameterSweepPanel: React.FC<ParameterSweepPanelProps> = ({ strategy, strategyParams, settings }) => {
+  const [ranges, setRanges] = useState<Record<string, RangeInput>>(() => buildDefaultRanges(strategy));
+  const [sweepResult, setSweepResult] = useState<ParameterSweepResult | null>(null);
+  const [isSweeping, setIsSweeping] = useState<boolean>(false);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRanges(buildDefaultRanges(strategy));
+    setSweepResult(null);
+    setSweepError(null);
+  }, [strategy]);
+
+  const handleRangeChange = (name: string, field: keyof RangeInput, value: string | boolean) => {
+    setRanges(prev => ({
+      ...prev,
+      [name]: { ...prev[name], [field]: typeof value === 'boolean' ? value : parseFloat(value) || 0 },
+    }));
+  };
+
+  const enabledNames = Object.keys(ranges).filter(name => ranges[name].enabled);
+  const combinationCount = enabledNames.reduce((count, name) => {
+    const { min, max, step } = ranges[name];
+    return count * (step > 0 && max >= min ? Math.floor((max - min) / step + 1e-9) + 1 : 0);
+  }, 1);
+
+  const handleRunSweep = async () => {
+    if (!strategy) {
+      setSweepError('Please select a strategy.');
+      return;
+    }
+    if (enabledNames.length === 0) {
+      setSweepError('Select at least one parameter to sweep.');
+      return;
+    }
+
+    const parameterRanges = enabledNames.reduce((acc, name) => {
+      const { min, max, step } = ranges[name];
+      acc[name] = { min, max, step };
+      return acc;
+    }, {} as Record<string, ParameterRange>);
+    const requestBody = {
+      ...settings,
+      strategyId: strategy.id,
+      strategyParams,
+      parameterRanges,
+    };
+
+    logger.info('ParameterSweepPanel: Running parameter sweep', requestBody);
+    setIsSweeping(true);
+    setSweepResult(null);
+    setSweepError(null);
+    try {
+      const response = await axios.post<ParameterSweepResult>('/api/backtest/sweep', requestBody);
+      setSweepResult(response.data);
+      logger.info(`ParameterSweepPanel: Sweep completed with ${response.data.combinationsTested} combinations`);
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiError>;
+      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
+      setSweepError(errorMessage);
+      logger.error('ParameterSweepPanel: Sweep failed', axiosError);
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  if (!strategy) {
+    return <p className="info-message">Select a strategy to sweep its parameters.</p>;
+  }
+
+  const numericParameters = strategy.parameters.filter(param => param.type === 'number' && ranges[param.name]);
+
+  return (
+    <div className="parameter-sweep-panel">
+      <h4>Parameter Sweep</h4>
+      {numericParameters.length === 0 ? (
+        <p><em>This strategy has no numeric parameter to sweep.</em></p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Sweep</th>
+              <th>Parameter</th>
+              <th>Min</th>
+              <th>Max</th>
+              <th>Step</th>
+            </tr>
+          </thead>
+          <tbody>
+            {numericParameters.map(param => (
+              <tr key={param.name}>
+                <td>
+                  <input
+                    type="checkbox"
+                    id={`sweep-${param.name}`}
+                    checked={ranges[param.name].enabled}
+                    onChange={(e) => handleRangeChange(param.name, 'enabled', e.target.checked)}
+                  />
+                </td>
+                <td><label htmlFor={`sweep-${param.name}`}>{param.label}</label></td>
+                {(['min', 'max', 'step'] as const).map(field => (
+                  <td key={field}>
+                    <input
+                      type="number"
+                      aria-label={`${param.label} ${field}`}
+                      value={ranges[param.name][field]}
+                      onChange={(e) => handleRangeChange(param.name, field, e.target.value)}
+                      disabled={!ranges[param.name].enabled}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p>Combinations: {enabledNames.length > 0 ? combinationCount : 0}</p>
+      <button onClick={handleRunSweep} disabled={isSweeping || enabledNames.length === 0}>
+        {isSweeping ? 'Sweeping...' : 'Run Parameter Sweep'}
+      </button>
+
+      {isSweeping && <p className="loading-message">Running {combinationCount} backtests...</p>}
+      {sweepError && <p className="error-message">Error running parameter sweep: {sweepError}</p>}
+      {sweepResult && !isSweeping && (
+        <div className="charts-section">
+          <div className="chart-container">
+            <h4 className="chart-title">Heatmap</h4>
+            <SweepHeatmap result={sweepResult} />
+          </div>
+          <div className="chart-container">
+            <h4 className="chart-title">All Combinations ({sweepResult.combinationsTested})</h4>
+            <SweepResultsTable result={sweepResult} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterSweepPanel;
@@ -1,8 +1,17 @@
 // frontend/src/components/ResultsDisplay.tsx
 import React from 'react';
-import type { BacktestResult, Trade } from '../types'; // Assuming types.ts is in ../
+import type { BacktestResult, OrderEvent, RoundTripTrade, Trade } from '../types'; // Assuming types.ts is in ../
 import { logger } from '../utils/logger';
 
+// Labels for trades that did not come from a strategy signal
+const tradeTypeLabels: Record<NonNullable<Trade['tradeType']>, string> = {
+  SIGNAL: 'Signal',
+  LIQUIDATION: 'Liquidation',
+  STOP_LOSS: 'Stop-Loss',
+  TAKE_PROFIT: 'Take-Profit',
+  TRAILING_STOP: 'Trailing Stop',
+};
+
 interface ResultsDisplayProps {
   results: BacktestResult | null;
   error: string | null;
@@ -51,9 +60,111 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, error, loading
         <p><strong>Total Profit/Loss:</strong> <span className={results.totalProfitOrLoss >= 0 ? 'profit' : 'loss'}>${formatNumber(results.totalProfitOrLoss)}</span></p>
         <p><strong>Profit/Loss Percentage:</strong> <span className={results.profitOrLossPercentage >= 0 ? 'profit' : 'loss'}>{formatNumber(results.profitOrLossPercentage)}%</span></p>
         <p><strong>Total Trades:</strong> {results.totalTrades}</p>
+        {results.totalTransactionCosts !== undefined && (
+          <p><strong>Trading Costs:</strong> ${formatNumber(results.totalTransactionCosts)} (Fees: ${formatNumber(results.totalFees)}, Slippage: ${formatNumber(results.totalSlippage)})</p>
+        )}
+        {results.liquidations !== undefined && (
+          <p><strong>Margin:</strong> Borrow Interest: ${formatNumber(results.totalBorrowInterest)}, Liquidations: {results.liquidations}</p>
+        )}
+        {results.executionTiming && (
+          <p><strong>Execution Timing:</strong> {results.executionTiming}</p>
+        )}
+        {results.droppedFinalBarSignal && (
+          <p><strong>Final Bar Signal Not Executed:</strong> {results.droppedFinalBarSignal.action} {results.droppedFinalBarSignal.amount ?? ''}</p>
+        )}
+        {results.benchmark && (
+          <>
+            <p><strong>Benchmark (Buy &amp; Hold {results.benchmark.symbol}):</strong> <span className={results.benchmark.returnPercentage >= 0 ? 'profit' : 'loss'}>{formatNumber(results.benchmark.returnPercentage)}%</span> (Final Value: ${formatNumber(results.benchmark.finalValue)})</p>
+            <p><strong>Excess Return:</strong> <span className={results.benchmark.excessReturn >= 0 ? 'profit' : 'loss'}>{formatNumber(results.benchmark.excessReturn)}%</span></p>
+            <p><strong>Alpha (annualized):</strong> {formatNumber(results.benchmark.alpha)}%, <strong>Beta:</strong> {formatNumber(results.benchmark.beta)}</p>
+            <p><strong>Tracking Error (annualized):</strong> {formatNumber(results.benchmark.trackingError)}%, <strong>Information Ratio:</strong> {formatNumber(results.benchmark.informationRatio)}</p>
+          </>
+        )}
+        {results.aiDecisionLog && results.aiDecisionLog.length > 0 && (
+          <p><strong>AI Strategy Switches:</strong> {results.aiDecisionLog[results.aiDecisionLog.length - 1].switchCount ?? 0}</p>
+        )}
         <p><strong>Data Points Processed:</strong> {results.dataPointsProcessed}</p>
       </div>
 
+      {results.analytics && (
+        <div className="trades-table-container">
+          <h4>Performance Report:</h4>
+          <table>
+            <tbody>
+              <tr><th>CAGR</th><td>{results.analytics.cagr !== null ? `${formatNumber(results.analytics.cagr)}%` : 'N/A'}</td><th>Volatility (annualized)</th><td>{formatNumber(results.analytics.annualizedVolatility)}%</td></tr>
+              <tr><th>Sharpe Ratio</th><td>{formatNumber(results.analytics.sharpeRatio)}</td><th>Sortino Ratio</th><td>{formatNumber(results.analytics.sortinoRatio)}</td></tr>
+              <tr><th>Calmar Ratio</th><td>{formatNumber(results.analytics.calmarRatio)}</td><th>Max Drawdown</th><td>{formatNumber(results.analytics.maxDrawdown)}%</td></tr>
+              <tr><th>Longest Drawdown</th><td>{results.analytics.maxDrawdownDurationBars} bars</td><th>Max Drawdown Recovery</th><td>{results.analytics.maxDrawdownRecoveryBars !== null ? `${results.analytics.maxDrawdownRecoveryBars} bars` : 'Not recovered'}</td></tr>
+              <tr><th>Exposure Time</th><td>{formatNumber(results.analytics.exposureTime)}%</td><th>Round Trips</th><td>{results.analytics.roundTrips}</td></tr>
+              <tr><th>Win Rate</th><td>{formatNumber(results.analytics.winRate)}%</td><th>Profit Factor</th><td>{formatNumber(results.analytics.profitFactor)}</td></tr>
+              <tr><th>Expectancy</th><td>${formatNumber(results.analytics.expectancy)}</td><th>Average Win / Loss</th><td>${formatNumber(results.analytics.averageWin)} / ${formatNumber(results.analytics.averageLoss)}</td></tr>
+              <tr><th>Largest Win / Loss</th><td>${formatNumber(results.analytics.largestWin)} / ${formatNumber(results.analytics.largestLoss)}</td><th>Max Consecutive Wins / Losses</th><td>{results.analytics.maxConsecutiveWins} / {results.analytics.maxConsecutiveLosses}</td></tr>
+            </tbody>
+          </table>
+          {results.analytics.monthlyReturns.length > 0 && (
+            <>
+              <h4>Monthly Returns:</h4>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Return</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.analytics.monthlyReturns.map(monthlyReturn => (
+                    <tr key={monthlyReturn.month}>
+                      <td>{monthlyReturn.month}</td>
+                      <td className={monthlyReturn.returnPercentage >= 0 ? 'profit' : 'loss'}>{formatNumber(monthlyReturn.returnPercentage)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+
+      {results.roundTrips && results.roundTrips.length > 0 && (
+        <div className="trades-table-container">
+          <h4>Round Trips:</h4>
+          <table>
+            <thead>
+              <tr>
+                <th>Entry</th>
+                <th>Exit</th>
+                <th>Side</th>
+                <th>Quantity</th>
+                <th>Entry Price</th>
+                <th>Exit Price</th>
+                <th>Net P&amp;L</th>
+                <th>Return</th>
+                <th>Bars Held</th>
+                <th>MAE</th>
+                <th>MFE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.roundTrips.map((roundTrip: RoundTripTrade, index: number) => (
+                <tr key={index}>
+                  <td>{formatDate(roundTrip.entryDate)}</td>
+                  <td>{roundTrip.exitType !== 'SIGNAL' ? `${formatDate(roundTrip.exitDate)} (${tradeTypeLabels[roundTrip.exitType]})` : formatDate(roundTrip.exitDate)}</td>
+                  <td>{roundTrip.direction}</td>
+                  <td>{formatNumber(roundTrip.quantity)}</td>
+                  <td>${formatNumber(roundTrip.entryPrice)}</td>
+                  <td>${formatNumber(roundTrip.exitPrice)}</td>
+                  <td className={roundTrip.netPnl >= 0 ? 'profit' : 'loss'}>${formatNumber(roundTrip.netPnl)}</td>
+                  <td className={roundTrip.returnPercentage >= 0 ? 'profit' : 'loss'}>{formatNumber(roundTrip.returnPercentage)}%</td>
+                  <td>{roundTrip.holdingPeriodBars}</td>
+                  <td>${formatNumber(roundTrip.mae)} ({formatNumber(roundTrip.maePercentage)}%)</td>
+                  <td>${formatNumber(roundTrip.mfe)} ({formatNumber(roundTrip.mfePercentage)}%)</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {results.trades && results.trades.length > 0 && (
         <div className="trades-table-container">
           <h4>Trades:</h4>
@@ -64,6 +175,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, error, loading
                 <th>Action</th>
                 <th>Price</th>
                 <th>Shares</th>
+                <th>Fees</th>
                 <th>Cash After Trade</th>
               </tr>
             </thead>
@@ -71,9 +183,10 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, error, loading
               {results.trades.map((trade: Trade, index: number) => (
                 <tr key={index}>
                   <td>{formatDate(trade.date)}</td>
-                  <td>{trade.action}</td>
+                  <td>{trade.tradeType && trade.tradeType !== 'SIGNAL' ? `${trade.action} (${tradeTypeLabels[trade.tradeType]})` : trade.action}</td>
                   <td>${formatNumber(trade.price)}</td>
                   <td>{formatNumber(trade.sharesTraded)}</td>
+                  <td>${formatNumber(trade.fees)}</td>
                   <td>${formatNumber(trade.cashAfterTrade)}</td>
                 </tr>
               ))}
@@ -81,6 +194,40 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, error, loading
           </table>
         </div>
       )}
+
+      {results.orderHistory && results.orderHistory.length > 0 && (
+        <div className="trades-table-container">
+          <h4>Order History:</h4>
+          <table>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Order</th>
+                <th>Event</th>
+                <th>Type</th>
+                <th>Side</th>
+                <th>Quantity</th>
+                <th>Price</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.orderHistory.map((orderEvent: OrderEvent, index: number) => (
+                <tr key={index}>
+                  <td>{formatDate(orderEvent.date)}</td>
+                  <td>{orderEvent.orderId}</td>
+                  <td>{orderEvent.event}</td>
+                  <td>{orderEvent.orderType}</td>
+                  <td>{orderEvent.side}</td>
+                  <td>{formatNumber(orderEvent.quantity)}</td>
+                  <td>{orderEvent.price !== undefined ? `$${formatNumber(orderEvent.price)}` : ''}</td>
+                  <td>{orderEvent.reason ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+// frontend/src/components/SweepHeatmap.test.tsx
+/// <reference types="@testing-library/jest-dom" />
+import { render, screen, fireEvent } from '@testing-library/react';
+import SweepHeatmap from './SweepHeatmap';
+import type { ParameterSweepResult, SweepMetrics } from '../types';
+
+const metrics = (totalReturn: number, maxDrawdown = 10): SweepMetrics => ({
+  totalReturn,
+  finalPortfolioValue: 10000 * (1 + totalReturn / 100),
+  cagr: null,
+  sharpeRatio: 1,
+  sortinoRatio: 1,
+  maxDrawdown,
+  winRate: 50,
+  profitFactor: null,
+  roundTrips: 2,
+  totalTrades: 4,
+  totalTransactionCosts: 0,
+});
+
+describe('SweepHeatmap Component', () => {
+  const mockResult: ParameterSweepResult = {
+    symbol: 'BTCUSDT',
+    strategyId: 'simpleMACrossover',
+    startDate: '2023-01-01T00:00:00.000Z',
+    endDate: '2023-03-01T00:00:00.000Z',
+    parameterNames: ['shortPeriod', 'longPeriod', 'stopLoss'],
+    parameterValues: { shortPeriod: [5, 10], longPeriod: [20, 30], stopLoss: [1, 2] },
+    combinationsTested: 8,
+    rows: [
+      { parameters: { shortPeriod: 5, longPeriod: 20, stopLoss: 1 }, metrics: metrics(10, 5) },
+      { parameters: { shortPeriod: 5, longPeriod: 20, stopLoss: 2 }, metrics: metrics(20, 15) },
+      { parameters: { shortPeriod: 5, longPeriod: 30, stopLoss: 1 }, metrics: metrics(-4) },
+      { parameters: { shortPeriod: 5, longPeriod: 30, stopLoss: 2 }, metrics: null, error: 'No data' },
+      { parameters: { shortPeriod: 10, longPeriod: 20, stopLoss: 1 }, metrics: metrics(1) },
+      { parameters: { shortPeriod: 10, longPeriod: 20, stopLoss: 2 }, metrics: metrics(3) },
+      { parameters: { shortPeriod: 10, longPeriod: 30, stopLoss: 1 }, metrics: metrics(0) },
+      { parameters: { shortPeriod: 10, longPeriod: 30, stopLoss: 2 }, metrics: metrics(2) },
+    ],
+  };
+
+  it('averages the metric over the parameters not on the axes and skips failed runs', () => {
+    render(<SweepHeatmap result={mockResult} />);
+
+    expect(screen.getByTestId('heatmap-cell-5-20')).toHaveTextContent('15.00%');
+    expect(screen.getByTestId('heatmap-cell-5-30')).toHaveTextContent('-4.00%');
+    expect(screen.getByTestId('heatmap-cell-10-30')).toHaveTextContent('1.00%');
+    expect(screen.getByText('Each cell averages the runs over the other swept parameters.')).toBeInTheDocument();
+  });
+
+  it('shows the selected metric', () => {
+    render(<SweepHeatmap result={mockResult} />);
+
+    fireEvent.change(screen.getByLabelText('Metric:'), { target: { value: 'maxDrawdown' } });
+
+    expect(screen.getByTestId('heatmap-cell-5-20')).toHaveTextContent('10.00%');
+  });
+});
@@ -0,0 +1,118 @@
+// frontend/src/components/SweepHeatmap.tsx
+import React, { useMemo, useState } from 'react';
+import type { ParameterSweepResult, ParameterValue, SweepMetrics } from '../types';
+import { sweepMetricOptions, formatSweepMetric } from './sweepMetrics';
+
+interface SweepHeatmapProps {
+  result: ParameterSweepResult;
+}
+
+// Red (worst) to green (best); cells without a value stay neutral
+const cellColor = (value: number | null, min: number, max: number, lowerIsBetter?: boolean): string => {
+  if (value === null) return 'transparent';
+  let score = max > min ? (value - min) / (max - min) : 0.5;
+  if (lowerIsBetter) score = 1 - score;
+  return `hsla(${Math.round(score * 120)}, 70%, 45%, 0.75)`;
+};
+
+/**
+ * Shows one metric of a parameter sweep over two swept parameters. When more than two parameters were swept,
+ * each cell averages the runs over the other parameters, so a cell is only bright if the whole slice is.
+ */
+const SweepHeatmap: React.FC<SweepHeatmapProps> = ({ result }) => {
+  const { parameterNames, parameterValues, rows } = result;
+  const [xParameter, setXParameter] = useState<string>(parameterNames[0] ?? '');
+  const [yParameter, setYParameter] = useState<string>(parameterNames[1] ?? parameterNames[0] ?? '');
+  const [metricKey, setMetricKey] = useState<keyof SweepMetrics>('totalReturn');
+  const metric = sweepMetricOptions.find(option => option.key === metricKey) ?? sweepMetricOptions[0];
+
+  const xValues: ParameterValue[] = parameterValues[xParameter] ?? [];
+  const yValues: ParameterValue[] = parameterValues[yParameter] ?? [];
+
+  // Average of the metric per (x, y) cell, skipping failed runs and missing values
+  const { cells, min, max } = useMemo(() => {
+    const sums = new Map<string, { total: number; count: number }>();
+    for (const row of rows) {
+      const value = row.metrics?.[metricKey];
+      if (value === null || value === undefined) continue;
+      const key = `${String(row.parameters[xParameter])}|${String(row.parameters[yParameter])}`;
+      const sum = sums.get(key) ?? { total: 0, count: 0 };
+      sum.total += value;
+      sum.count += 1;
+      sums.set(key, sum);
+    }
+    const averages = new Map<string, number>();
+    sums.forEach((sum, key) => averages.set(key, sum.total / sum.count));
+    const values = [...averages.values()];
+    return {
+      cells: averages,
+      min: values.length > 0 ? Math.min(...values) : 0,
+      max: values.length > 0 ? Math.max(...values) : 0,
+    };
+  }, [rows, xParameter, yParameter, metricKey]);
+
+  if (parameterNames.length === 0) {
+    return <p className="info-message">No parameter was swept.</p>;
+  }
+
+  return (
+    <div className="sweep-heatmap">
+      <div className="form-grid">
+        <div className="form-group">
+          <label htmlFor="heatmapX">X Axis:</label>
+          <select id="heatmapX" value={xParameter} onChange={(e) => setXParameter(e.target.value)}>
+            {parameterNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="heatmapY">Y Axis:</label>
+          <select id="heatmapY" value={yParameter} onChange={(e) => setYParameter(e.target.value)}>
+            {parameterNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="heatmapMetric">Metric:</label>
+          <select id="heatmapMetric" value={metricKey} onChange={(e) => setMetricKey(e.target.value as keyof SweepMetrics)}>
+            {sweepMetricOptions.map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+      {parameterNames.length > 2 && (
+        <p><em>Each cell averages the runs over the other swept parameters.</em></p>
+      )}
+      <div className="trades-table-container">
+        <table className="sweep-heatmap-table">
+          <thead>
+            <tr>
+              <th>{yParameter} \ {xParameter}</th>
+              {xValues.map(x => <th key={String(x)}>{String(x)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {yValues.map(y => (
+              <tr key={String(y)}>
+                <th>{String(y)}</th>
+                {xValues.map(x => {
+                  // With the same parameter on both axes only the diagonal has runs
+                  const value = cells.get(`${String(x)}|${String(y)}`) ?? null;
+                  return (
+                    <td
+                      key={String(x)}
+                      data-testid={`heatmap-cell-${String(x)}-${String(y)}`}
+                      style={{ backgroundColor: cellColor(value, min, max, metric.lowerIsBetter), textAlign: 'center' }}
+                      title={`${xParameter}=${String(x)}, ${yParameter}=${String(y)}`}
+                    >
+                      {formatSweepMetric(value, metric.unit)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SweepHeatmap;
@@ -0,0 +1,98 @@
+// frontend/src/components/SweepResultsTable.tsx
+import React, { useMemo, useState } from 'react';
+import type { ParameterSweepResult, SweepRow } from '../types';
+import { sweepMetricOptions, formatSweepMetric } from './sweepMetrics';
+
+interface SweepResultsTableProps {
+  result: ParameterSweepResult;
+}
+
+// A column is either a swept parameter or a metric
+type SortColumn = { kind: 'parameter'; name: string } | { kind: 'metric'; name: string };
+
+const getSortValue = (row: SweepRow, column: SortColumn): number | string | boolean | null => {
+  if (column.kind === 'parameter') return row.parameters[column.name];
+  if (!row.metrics) return null;
+  return row.metrics[column.name as keyof typeof row.metrics];
+};
+
+const SweepResultsTable: React.FC<SweepResultsTableProps> = ({ result }) => {
+  const [sortColumn, setSortColumn] = useState<SortColumn>({ kind: 'metric', name: 'totalReturn' });
+  const [sortDescending, setSortDescending] = useState<boolean>(true);
+
+  const sortedRows = useMemo(() => {
+    return [...result.rows].sort((a, b) => {
+      const valueA = getSortValue(a, sortColumn);
+      const valueB = getSortValue(b, sortColumn);
+      // Failed runs and missing values always go last
+      if (valueA === null || valueA === undefined) return valueB === null || valueB === undefined ? 0 : 1;
+      if (valueB === null || valueB === undefined) return -1;
+      const comparison = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+      return sortDescending ? -comparison : comparison;
+    });
+  }, [result.rows, sortColumn, sortDescending]);
+
+  const handleSort = (column: SortColumn) => {
+    if (column.kind === sortColumn.kind && column.name === sortColumn.name) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortColumn(column);
+      setSortDescending(true);
+    }
+  };
+
+  const sortIndicator = (column: SortColumn): string => {
+    if (column.kind !== sortColumn.kind || column.name !== sortColumn.name) return '';
+    return sortDescending ? ' ▼' : ' ▲';
+  };
+
+  return (
+    <div className="trades-table-container">
+      <table className="sweep-results-table">
+        <thead>
+          <tr>
+            {result.parameterNames.map(name => {
+              const column: SortColumn = { kind: 'parameter', name };
+              return (
+                <th key={`parameter-${name}`} onClick={() => handleSort(column)} style={{ cursor: 'pointer' }}>
+                  {name}{sortIndicator(column)}
+                </th>
+              );
+            })}
+            {sweepMetricOptions.map(option => {
+              const column: SortColumn = { kind: 'metric', name: option.key };
+              return (
+                <th key={`metric-${option.key}`} onClick={() => handleSort(column)} style={{ cursor: 'pointer' }}>
+                  {option.label}{sortIndicator(column)}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map(row => (
+            <tr key={JSON.stringify(row.parameters)}>
+              {result.parameterNames.map(name => (
+                <td key={name}>{String(row.parameters[name])}</td>
+              ))}
+              {row.metrics ? (
+                sweepMetricOptions.map(option => (
+                  <td
+                    key={option.key}
+                    className={option.key === 'totalReturn' ? (row.metrics!.totalReturn >= 0 ? 'profit' : 'loss') : undefined}
+                  >
+                    {formatSweepMetric(row.metrics![option.key], option.unit)}
+                  </td>
+                ))
+              ) : (
+                <td colSpan={sweepMetricOptions.length} className="loss">Failed: {row.error}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SweepResultsTable;
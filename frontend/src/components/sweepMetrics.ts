@@ -0,0 +1,29 @@
+// frontend/src/components/sweepMetrics.ts
+import type { SweepMetrics } from '../types';
+
+export interface SweepMetricOption {
+  key: keyof SweepMetrics;
+  label: string;
+  unit?: '%' | '$';
+  lowerIsBetter?: boolean;
+}
+
+// Metrics shown by the sweep results table and selectable in the heatmap, in display order
+export const sweepMetricOptions: SweepMetricOption[] = [
+  { key: 'totalReturn', label: 'Total Return', unit: '%' },
+  { key: 'cagr', label: 'CAGR', unit: '%' },
+  { key: 'sharpeRatio', label: 'Sharpe' },
+  { key: 'sortinoRatio', label: 'Sortino' },
+  { key: 'maxDrawdown', label: 'Max Drawdown', unit: '%', lowerIsBetter: true },
+  { key: 'winRate', label: 'Win Rate', unit: '%' },
+  { key: 'profitFactor', label: 'Profit Factor' },
+  { key: 'roundTrips', label: 'Round Trips' },
+  { key: 'totalTransactionCosts', label: 'Costs', unit: '$', lowerIsBetter: true },
+];
+
+export const formatSweepMetric = (value: number | null | undefined, unit?: SweepMetricOption['unit']): string => {
+  if (value === undefined || value === null || isNaN(value)) return 'N/A';
+  if (unit === '%') return `${value.toFixed(2)}%`;
+  if (unit === '$') return `$${value.toFixed(2)}`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
@@ -0,0 +1,202 @@
+// frontend/src/pages/ComparePage.tsx
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import type { AxiosError } from 'axios';
+import type {
+  ApiError,
+  BacktestRun,
+  BacktestRunSummary,
+  ComparisonAlignment,
+  ComparisonMetrics,
+  ComparisonResult,
+  ComparisonRunInput,
+} from '../types';
+import * as api from '../services/api';
+import ComparisonChart from '../components/ComparisonChart';
+import { formatDateForChart } from '../utils/formatters';
+import { logger } from '../utils/logger';
+import './ComparePage.css';
+
+const MAX_COMPARED_RUNS = 10;
+
+const formatPercent = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(2)}%`);
+const formatRatio = (value: number | null) => (value === null ? 'N/A' : value.toFixed(2));
+
+const metricRows: { label: string; format: (metrics: ComparisonMetrics) => string }[] = [
+  { label: 'Period', format: m => `${formatDateForChart(m.startTimestamp)} - ${formatDateForChart(m.endTimestamp)}` },
+  { label: 'Total Return', format: m => formatPercent(m.totalReturn) },
+  { label: 'CAGR', format: m => formatPercent(m.cagr) },
+  { label: 'Annualized Volatility', format: m => formatPercent(m.annualizedVolatility) },
+  { label: 'Sharpe Ratio', format: m => formatRatio(m.sharpeRatio) },
+  { label: 'Sortino Ratio', format: m => formatRatio(m.sortinoRatio) },
+  { label: 'Max Drawdown', format: m => formatPercent(m.maxDrawdown) },
+  { label: 'Trades', format: m => String(m.trades) },
+  { label: 'Round Trips', format: m => String(m.roundTrips) },
+  { label: 'Win Rate', format: m => formatPercent(m.winRate) },
+  { label: 'Profit Factor', format: m => formatRatio(m.profitFactor) },
+];
+
+const formatSettingValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const runLabel = (run: BacktestRunSummary) =>
+  `${run.strategy_id} ${run.symbol} (${new Date(run.created_at).toLocaleDateString()})`;
+
+// The inline payload the comparison endpoint reads from a saved run
+const toComparisonRun = (run: BacktestRun): ComparisonRunInput => ({
+  label: runLabel(run),
+  result: {
+    portfolioHistory: run.equity_curve,
+    trades: run.trades.map(({ timestamp, action, price, sharesTraded, fees }) => ({ timestamp, action, price, sharesTraded, fees: fees ?? 0 })),
+  },
+  settings: { ...run.settings, strategyVersion: run.strategy_version },
+});
+
+/**
+ * Compares saved backtest runs side by side. The runs to compare can be preselected with ?runs=<id>,<id>.
+ */
+const ComparePage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [runs, setRuns] = useState<BacktestRunSummary[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => (searchParams.get('runs') ?? '').split(',').filter(id => id !== ''));
+  const [alignment, setAlignment] = useState<ComparisonAlignment>('overlap');
+  const [onlyDifferences, setOnlyDifferences] = useState<boolean>(false);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.fetchBacktestRuns()
+      .then(setRuns)
+      .catch((err: any) => {
+        logger.error('ComparePage: Failed to fetch backtest runs', err);
+        setError(err instanceof api.AuthError ? 'Please log in to compare your saved backtest runs.' : err.message);
+      });
+  }, []);
+
+  const toggleRun = (id: string) => {
+    const next = selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id];
+    setSelectedIds(next);
+    setSearchParams(next.length > 0 ? { runs: next.join(',') } : {});
+  };
+
+  const handleCompare = async () => {
+    setIsLoading(true);
+    setError(null);
+    setComparison(null);
+    try {
+      const selectedRuns = await Promise.all(selectedIds.map(id => api.fetchBacktestRun(id)));
+      const response = await axios.post<ComparisonResult>('/api/backtest/compare', {
+        runs: selectedRuns.map(toComparisonRun),
+        comparison: { alignment },
+      });
+      setComparison(response.data);
+      logger.info(`ComparePage: Compared ${response.data.labels.length} runs`);
+    } catch (err) {
+      const axiosError = err as AxiosError<ApiError>;
+      const errorMessage = axiosError.response?.data?.message || axiosError.message || 'An unknown error occurred.';
+      setError(errorMessage);
+      logger.error('ComparePage: Comparison failed', axiosError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const settingRows = comparison ? comparison.settings.filter(row => !onlyDifferences || row.differs) : [];
+
+  return (
+    <div className="compare-page-container">
+      <h2>Compare Backtests</h2>
+      <p>Select 2 to {MAX_COMPARED_RUNS} saved runs. Equity curves are rebased to 100 at the start of the compared period.</p>
+
+      {runs.length > 0 && (
+        <ul className="compare-run-list">
+          {runs.map(run => (
+            <li key={run.id}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(run.id)}
+                  onChange={() => toggleRun(run.id)}
+                  disabled={!selectedIds.includes(run.id) && selectedIds.length >= MAX_COMPARED_RUNS}
+                />
+                {runLabel(run)}{run.tags.length > 0 && ` [${run.tags.join(', ')}]`}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="comparisonAlignment">Timeline:</label>
+        <select id="comparisonAlignment" value={alignment} onChange={(e) => setAlignment(e.target.value as ComparisonAlignment)}>
+          <option value="overlap">Common period only</option>
+          <option value="union">Full period of every run</option>
+        </select>
+      </div>
+      <button onClick={handleCompare} disabled={isLoading || selectedIds.length < 2}>
+        {isLoading ? 'Comparing...' : 'Compare'}
+      </button>
+
+      {error && <p className="error-message">Error: {error}</p>}
+
+      {comparison && !isLoading && (
+        <div className="comparison-results">
+          <div className="chart-container">
+            <h4 className="chart-title">Equity (start = 100)</h4>
+            <ComparisonChart points={comparison.points} labels={comparison.labels} series="equity" />
+          </div>
+          <div className="chart-container">
+            <h4 className="chart-title">Drawdown</h4>
+            <ComparisonChart points={comparison.points} labels={comparison.labels} series="drawdown" />
+          </div>
+
+          <h4>Metrics</h4>
+          <table className="comparison-table">
+            <thead>
+              <tr>
+                <th>Metric</th>
+                {comparison.labels.map((label, k) => <th key={k}>{label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {metricRows.map(row => (
+                <tr key={row.label}>
+                  <th>{row.label}</th>
+                  {comparison.metrics.map((metrics, k) => <td key={k}>{row.format(metrics)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h4>Settings</h4>
+          <label>
+            <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+            Only show differences
+          </label>
+          <table className="comparison-table">
+            <thead>
+              <tr>
+                <th>Setting</th>
+                {comparison.labels.map((label, k) => <th key={k}>{label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {settingRows.map(row => (
+                <tr key={row.key} className={row.differs ? 'setting-differs' : undefined}>
+                  <th>{row.key}</th>
+                  {row.values.map((value, k) => <td key={k}>{formatSettingValue(value)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePage;
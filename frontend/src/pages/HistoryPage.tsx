@@ -0,0 +1,159 @@
+// frontend/src/pages/HistoryPage.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import type { BacktestRun, BacktestRunFilters, BacktestRunSummary } from '../types';
+import * as api from '../services/api';
+import BacktestRunDetails from '../components/BacktestRunDetails';
+import { logger } from '../utils/logger';
+import './HistoryPage.css';
+
+const describeError = (err: any, action: string): string => {
+  if (err instanceof api.AuthError) {
+    return `Please log in to ${action}. Your session may have expired.`;
+  }
+  return err.message || `Failed to ${action}.`;
+};
+
+/**
+ * Backtest runs saved for the logged-in user. A run is opened at /history/:runId, so its URL can be bookmarked.
+ */
+const HistoryPage: React.FC = () => {
+  const { runId } = useParams<{ runId?: string }>();
+  const navigate = useNavigate();
+
+  const [runs, setRuns] = useState<BacktestRunSummary[]>([]);
+  const [filters, setFilters] = useState<BacktestRunFilters>({});
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedRun, setSelectedRun] = useState<BacktestRun | null>(null);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async (activeFilters: BacktestRunFilters) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRuns(await api.fetchBacktestRuns(activeFilters));
+    } catch (err: any) {
+      logger.error('HistoryPage: Failed to fetch backtest runs', err);
+      setError(describeError(err, 'see your backtest history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns({});
+  }, [loadRuns]);
+
+  useEffect(() => {
+    if (!runId) {
+      setSelectedRun(null);
+      return;
+    }
+    setRunError(null);
+    api.fetchBacktestRun(runId)
+      .then(setSelectedRun)
+      .catch((err: any) => {
+        logger.error(`HistoryPage: Failed to fetch backtest run ${runId}`, err);
+        setSelectedRun(null);
+        setRunError(describeError(err, 'open this backtest run'));
+      });
+  }, [runId]);
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value.trim() || undefined }));
+  };
+
+  const handleSave = async (tags: string[], notes: string | null) => {
+    if (!selectedRun) return;
+    setIsSaving(true);
+    setRunError(null);
+    try {
+      const updated = await api.updateBacktestRun(selectedRun.id, { tags, notes });
+      setSelectedRun(updated);
+      setRuns(prev => prev.map(run => (run.id === updated.id ? { ...run, tags: updated.tags, notes: updated.notes } : run)));
+    } catch (err: any) {
+      logger.error(`HistoryPage: Failed to update backtest run ${selectedRun.id}`, err);
+      setRunError(describeError(err, 'update this backtest run'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedRun || !window.confirm('Are you sure you want to delete this backtest run?')) return;
+    setIsSaving(true);
+    setRunError(null);
+    try {
+      await api.deleteBacktestRun(selectedRun.id);
+      setRuns(prev => prev.filter(run => run.id !== selectedRun.id));
+      navigate('/history');
+    } catch (err: any) {
+      logger.error(`HistoryPage: Failed to delete backtest run ${selectedRun.id}`, err);
+      setRunError(describeError(err, 'delete this backtest run'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="history-page-container">
+      <h2>Backtest History</h2>
+      <p>Backtests you run while logged in are saved here, with their settings, metrics, trades and equity curve.</p>
+
+      <div className="history-filters">
+        <input type="text" name="strategyId" placeholder="Strategy ID" value={filters.strategyId ?? ''} onChange={handleFilterChange} />
+        <input type="text" name="symbol" placeholder="Symbol" value={filters.symbol ?? ''} onChange={handleFilterChange} />
+        <input type="text" name="tag" placeholder="Tag" value={filters.tag ?? ''} onChange={handleFilterChange} />
+        <button onClick={() => loadRuns(filters)} disabled={isLoading}>Filter</button>
+      </div>
+
+      {isLoading && <p className="loading-message">Loading...</p>}
+      {error && <p className="error-message">Error: {error}</p>}
+      {!isLoading && !error && runs.length === 0 && <p className="info-message">No saved backtest runs found.</p>}
+
+      {runs.length > 0 && (
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>Run On</th>
+              <th>Strategy</th>
+              <th>Symbol</th>
+              <th>Period</th>
+              <th>P/L %</th>
+              <th>Sharpe</th>
+              <th>Max DD</th>
+              <th>Tags</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <tr key={run.id} className={run.id === runId ? 'selected' : undefined}>
+                <td><Link to={`/history/${run.id}`}>{new Date(run.created_at).toLocaleString()}</Link></td>
+                <td>{run.strategy_id}{run.strategy_version && ` v${run.strategy_version}`}</td>
+                <td>{run.symbol}</td>
+                <td>{run.settings.startDate} - {run.settings.endDate}</td>
+                <td className={run.metrics.profitOrLossPercentage >= 0 ? 'profit' : 'loss'}>
+                  {run.metrics.profitOrLossPercentage.toFixed(2)}%
+                </td>
+                <td>{run.metrics.sharpeRatio?.toFixed(2) ?? 'N/A'}</td>
+                <td>{run.metrics.maxDrawdown !== undefined ? `${run.metrics.maxDrawdown.toFixed(2)}%` : 'N/A'}</td>
+                <td>{run.tags.join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {runError && <p className="error-message">Error: {runError}</p>}
+      {selectedRun && (
+        <BacktestRunDetails run={selectedRun} isSaving={isSaving} onSave={handleSave} onDelete={handleDelete} />
+      )}
+    </div>
+  );
+};
+
+export default HistoryPage;
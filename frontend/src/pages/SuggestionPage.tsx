@@ -26,6 +26,12 @@ const G_STRATEGY_DISPLAY_NAMES: Record<string, string> = {
   'ai-price-prediction': 'Prédiction par IA (Exp.)',
   'dual-sma-crossover': 'Croisement Double Moyenne Mobile', 
   'dynamic-support-resistance': 'Support/Résistance Dynamique', 
+  'donchian-breakout': 'Cassure de Canal de Donchian',
+  'keltner-breakout': 'Cassure de Canal de Keltner',
+  'atr-breakout': 'Cassure de Volatilité ATR',
+  'pairs-trading': 'Trading de Paires',
+  'grid-trading': 'Grid Trading',
+  'dca': 'DCA (Investissement Programmé)',
 };
 
 
@@ -192,6 +198,14 @@ const SuggestionPage: React.FC = () => {
                          suggestion.suggestedStrategyId === 'simple-threshold' ? "Achète lorsque le prix dépasse un seuil haut et vend lorsqu'il passe sous un seuil bas." :
                          suggestion.suggestedStrategyId === 'rsi-bollinger' ? "Combine l'indicateur de momentum RSI (pour surachat/survente) avec les Bandes de Bollinger (volatilité et niveaux de prix relatifs)." :
                          suggestion.suggestedStrategyId === 'macd-crossover' ? "Utilise les croisements de la ligne MACD et de sa ligne de signal pour indiquer des changements potentiels de momentum et de tendance." :
+                         suggestion.suggestedStrategyId === 'dual-sma-crossover' ? "Achète lorsque la moyenne mobile courte croise au-dessus de la moyenne mobile longue et vend lors du croisement inverse." :
+                         suggestion.suggestedStrategyId === 'dynamic-support-resistance' ? "Achète sur un rebond au support et vend sur un rejet à la résistance ou une cassure du support, les niveaux venant des derniers points hauts/bas ou de points pivots glissants." :
+                         suggestion.suggestedStrategyId === 'donchian-breakout' ? "Stratégie de cassure de type « Turtle » : achète au-dessus du plus haut des N dernières périodes et vend sous le plus bas d'une période de sortie plus courte." :
+                         suggestion.suggestedStrategyId === 'keltner-breakout' ? "Achète lorsque le prix clôture au-dessus de la bande haute de Keltner (EMA + multiple de l'ATR) et vend lorsqu'il repasse sous l'EMA." :
+                         suggestion.suggestedStrategyId === 'atr-breakout' ? "Achète ou vend lorsque le prix s'écarte de la clôture précédente de plus d'un multiple de l'ATR, signe d'une cassure de volatilité." :
+                         suggestion.suggestedStrategyId === 'pairs-trading' ? "Arbitrage statistique sur deux actifs cointégrés : achète l'un et vend l'autre à découvert lorsque l'écart s'éloigne de sa moyenne, puis clôture lorsqu'il y revient." :
+                         suggestion.suggestedStrategyId === 'grid-trading' ? "Robot de grille : place des ordres d'achat à cours limité sur des niveaux de prix et revend chaque achat un niveau plus haut, pour profiter des oscillations dans une fourchette." :
+                         suggestion.suggestedStrategyId === 'dca' ? "Robot DCA : achète à intervalles réguliers, renforce la position par des ordres de sécurité lors des baisses et vend tout au-dessus du prix de revient moyen." :
                          suggestion.suggestedStrategyId === 'ai-price-prediction' ? "Stratégie expérimentale utilisant un modèle d'apprentissage machine pour tenter de prédire les mouvements de prix futurs." :
                          "Description non disponible."}
                       </span>
@@ -297,15 +311,15 @@ const SuggestionPage: React.FC = () => {
                 </span>
               </p>
               <p>
-                <span className="kpi-label">CAGR (annualisé):</span> {(backtestRunResult.CAGR !== undefined ? backtestRunResult.CAGR.toFixed(2) + ' %' : 'N/A')}
+                <span className="kpi-label">CAGR (annualisé):</span> {(backtestRunResult.analytics?.cagr != null ? backtestRunResult.analytics.cagr.toFixed(2) + ' %' : 'N/A')}
                 <span className="tooltip-trigger"> ℹ️
-                  <span className="tooltip-text">Taux de Croissance Annuel Composé (Compound Annual Growth Rate). C'est le taux de rendement annuel moyen géométrique sur la période de simulation, si elle durait un an. (Actuellement N/A si non fourni par le backend).</span>
+                  <span className="tooltip-text">Taux de Croissance Annuel Composé (Compound Annual Growth Rate). C'est le taux de rendement annuel moyen géométrique sur la période de simulation, si elle durait un an.</span>
                 </span>
               </p>
               <p>
-                <span className="kpi-label">Pourcentage de Trades Gagnants:</span> {(backtestRunResult.winningTradesPercentage !== undefined ? backtestRunResult.winningTradesPercentage.toFixed(2) + ' %' : 'N/A')}
+                <span className="kpi-label">Pourcentage de Trades Gagnants:</span> {(backtestRunResult.analytics && backtestRunResult.analytics.roundTrips > 0 ? backtestRunResult.analytics.winRate.toFixed(2) + ' %' : 'N/A')}
                 <span className="tooltip-trigger"> ℹ️
-                  <span className="tooltip-text">Le pourcentage de toutes les transactions effectuées qui ont été clôturées avec un profit. (Actuellement N/A si non fourni par le backend).</span>
+                  <span className="tooltip-text">Le pourcentage de toutes les transactions effectuées qui ont été clôturées avec un profit (N/A si aucune position n'a été clôturée).</span>
                 </span>
               </p>
             </div>
@@ -314,7 +328,11 @@ const SuggestionPage: React.FC = () => {
               {backtestRunResult.portfolioHistory && backtestRunResult.portfolioHistory.length > 0 && (
                 <div className="chart-container">
                   <h4>Évolution du Portefeuille</h4>
-                  <EquityChart data={backtestRunResult.portfolioHistory} />
+                  <EquityChart
+                    data={backtestRunResult.portfolioHistory}
+                    benchmarkData={backtestRunResult.benchmark?.equityCurve}
+                    benchmarkLabel={backtestRunResult.benchmark ? `Buy & Hold ${backtestRunResult.benchmark.symbol}` : undefined}
+                  />
                 </div>
               )}
 
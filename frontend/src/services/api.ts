@@ -1,5 +1,5 @@
 // frontend/src/services/api.ts
-import type { ApiKey, ApiKeyFormData, MultipleSuggestionsApiResponse } from '../types'; // Removed SuggestionResponse
+import type { ApiKey, ApiKeyFormData, BacktestJobProgress, BacktestJobSummary, BacktestRun, BacktestRunFilters, BacktestRunSummary, MultipleSuggestionsApiResponse } from '../types'; // Removed SuggestionResponse
 
 const API_BASE_URL = '/api'; // Adjust if your API is hosted elsewhere
 
@@ -23,6 +23,12 @@ export const getToken = (): string | null => { // Renamed and Exported
   return localStorage.getItem('jwtToken'); // Standardized to 'jwtToken'
 };
 
+// Authorization header for endpoints that also work without logging in, e.g. POST /backtest (saves the run when set)
+export const getOptionalAuthHeaders = (): Record<string, string> => {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
 // Helper function to handle API responses
 const handleResponse = async <T>(response: Response): Promise<T> => {
   if (!response.ok) {
@@ -129,6 +135,120 @@ export const deleteApiKey = async (id: string): Promise<void> => {
   await handleResponse<void>(response); 
 };
 
+// --- Backtest Run History Service Functions ---
+
+export const fetchBacktestRuns = async (filters: BacktestRunFilters = {}): Promise<BacktestRunSummary[]> => {
+  const token = getToken();
+  const query = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) query.append(key, value);
+  });
+  const queryString = query.toString();
+  const response = await fetch(`${API_BASE_URL}/backtest-runs${queryString ? `?${queryString}` : ''}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+  return handleResponse<BacktestRunSummary[]>(response);
+};
+
+export const fetchBacktestRun = async (id: string): Promise<BacktestRun> => {
+  const token = getToken();
+  const response = await fetch(`${API_BASE_URL}/backtest-runs/${id}`, {
+    method: 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+  return handleResponse<BacktestRun>(response);
+};
+
+export const updateBacktestRun = async (id: string, data: { tags?: string[]; notes?: string | null }): Promise<BacktestRun> => {
+  const token = getToken();
+  const response = await fetch(`${API_BASE_URL}/backtest-runs/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    body: JSON.stringify(data),
+  });
+  return handleResponse<BacktestRun>(response);
+};
+
+export const deleteBacktestRun = async (id: string): Promise<void> => {
+  const token = getToken();
+  const response = await fetch(`${API_BASE_URL}/backtest-runs/${id}`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+  await handleResponse<void>(response);
+};
+
+// --- Backtest Job Service Functions ---
+
+export interface BacktestJobStreamHandlers {
+  onJob: (job: BacktestJobSummary) => void;
+  onProgress: (progress: BacktestJobProgress) => void;
+}
+
+// Dispatches one Server-Sent Event ("event: <type>" and "data: <json>" lines) to its handler
+const dispatchBacktestJobEvent = (block: string, handlers: BacktestJobStreamHandlers) => {
+  let type = 'message';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) type = line.slice('event:'.length).trim();
+    else if (line.startsWith('data:')) data += line.slice('data:'.length).trim();
+  }
+  if (data === '') return;
+  if (type === 'job') handlers.onJob(JSON.parse(data));
+  else if (type === 'progress') handlers.onProgress(JSON.parse(data));
+};
+
+/**
+ * Follows a backtest job until it finishes. Read with fetch rather than EventSource, which cannot send the
+ * Authorization header that jobs of logged-in users need. Resolves when the stream ends.
+ */
+export const streamBacktestJob = async (id: string, handlers: BacktestJobStreamHandlers, signal?: AbortSignal): Promise<void> => {
+  const response = await fetch(`${API_BASE_URL}/backtest-jobs/${id}/events`, {
+    method: 'GET',
+    headers: getOptionalAuthHeaders(),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    await handleResponse<void>(response);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let separator = buffer.indexOf('\n\n');
+    while (separator >= 0) {
+      dispatchBacktestJobEvent(buffer.slice(0, separator), handlers);
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+};
+
+export const cancelBacktestJob = async (id: string): Promise<BacktestJobSummary> => {
+  const response = await fetch(`${API_BASE_URL}/backtest-jobs/${id}/cancel`, {
+    method: 'POST',
+    headers: getOptionalAuthHeaders(),
+  });
+  return handleResponse<BacktestJobSummary>(response);
+};
+
 // --- AI Strategy Choice Service Functions ---
 
 export interface AIChoiceResponse {
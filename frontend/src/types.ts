@@ -12,6 +12,7 @@ export interface StrategyParameterDefinition {
   min?: number;
   max?: number;
   step?: number;
+  optimizable?: boolean; // false: not swept by default (e.g. order sizes)
 }
 
 export interface TradingStrategy {
@@ -23,6 +24,40 @@ export interface TradingStrategy {
 }
 
 // --- Backtest Settings (Form Data) ---
+// Mirrors backend CostModelSettings (src/backtest/costModel.ts)
+export interface CostModelSettings {
+  fixedFeePerTrade?: number;
+  makerFeePercent?: number;
+  takerFeePercent?: number;
+  slippageBps?: number;
+  spreadBps?: number;
+}
+
+// Mirrors backend MarginSettings (src/backtest/margin.ts)
+export interface MarginSettings {
+  enabled: boolean;
+  maxLeverage?: number;
+  borrowRatePercentAnnual?: number;
+  maintenanceMarginPercent?: number;
+}
+
+// Mirrors backend ExecutionTiming (src/backtest/executionTiming.ts)
+export type ExecutionTiming = 'SAME_BAR_CLOSE' | 'NEXT_BAR_OPEN' | 'NEXT_BAR_VWAP';
+
+// Mirrors backend PositionSizingSettings (src/backtest/positionSizing.ts)
+export type SizingMode = 'UNITS' | 'NOTIONAL' | 'PERCENT_EQUITY' | 'PERCENT_RISK' | 'VOLATILITY_TARGET';
+
+export interface PositionSizingSettings {
+  mode: SizingMode;
+  value: number;
+  atrPeriod?: number;
+  atrStopMultiple?: number;
+  lotSize?: number;
+}
+
+// Mirrors backend LotMatchingMethod (src/backtest/lotMatching.ts)
+export type LotMatchingMethod = 'FIFO' | 'AVERAGE_COST';
+
 export interface BacktestSettings {
   symbol: string;
   startDate: string; // Store as YYYY-MM-DD string from date input
@@ -30,6 +65,12 @@ export interface BacktestSettings {
   initialCash: number;
   sourceApi?: string;
   interval?: string;
+  costModel?: CostModelSettings;
+  margin?: MarginSettings;
+  executionTiming?: ExecutionTiming;
+  positionSizing?: PositionSizingSettings;
+  benchmarkSymbol?: string; // Buy-and-hold benchmark; the backend defaults to the backtested symbol
+  lotMatching?: LotMatchingMethod; // The backend defaults to FIFO
 }
 
 // --- Backtest Result (mirrors backend API response for /api/backtest) ---
@@ -57,6 +98,92 @@ export interface Trade { // Ensure this matches backend Trade structure
   price: number;
   sharesTraded: number;
   cashAfterTrade: number;
+  fees?: number;
+  slippage?: number;
+  tradeType?: 'SIGNAL' | 'LIQUIDATION' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
+  orderId?: string;
+}
+
+// Lifecycle event of a resting limit/stop order
+export interface OrderEvent {
+  orderId: string;
+  event: 'PLACED' | 'CANCELLED' | 'EXPIRED' | 'FILLED' | 'REJECTED';
+  timestamp: number;
+  date: string; // Date string from backend
+  side: 'BUY' | 'SELL';
+  orderType: 'LIMIT' | 'STOP';
+  quantity: number;
+  price?: number;
+  reason?: string;
+}
+
+// Closed position matched from the fills (mirrors backend RoundTripTrade in src/backtest/lotMatching.ts)
+export interface RoundTripTrade {
+  symbol?: string;
+  direction: 'LONG' | 'SHORT';
+  quantity: number;
+  entryTimestamp: number;
+  entryDate: string; // Date string from backend
+  entryPrice: number;
+  exitTimestamp: number;
+  exitDate: string;  // Date string from backend
+  exitPrice: number;
+  exitType: NonNullable<Trade['tradeType']>;
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+  returnPercentage: number;
+  holdingPeriodBars: number;
+  holdingPeriodSeconds: number;
+  mae: number; // Maximum adverse excursion, quote currency
+  mfe: number; // Maximum favourable excursion, quote currency
+  maePercentage: number;
+  mfePercentage: number;
+}
+
+// Mirrors backend BenchmarkResult (src/backtest/benchmark.ts)
+export interface BenchmarkResult {
+  symbol: string;
+  initialValue: number;
+  finalValue: number;
+  returnPercentage: number;
+  equityCurve: EquityDataPoint[];
+  excessReturn: number;     // Percentage points
+  alpha: number;            // Annualized, in percent
+  beta: number;
+  trackingError: number;    // Annualized, in percent
+  informationRatio: number;
+}
+
+// Mirrors backend PerformanceReport (src/backtest/analytics.ts); percentages are in percent
+export interface MonthlyReturn {
+  month: string; // YYYY-MM
+  returnPercentage: number;
+}
+
+export interface PerformanceReport {
+  barsPerYear: number;
+  totalReturn: number;
+  cagr: number | null;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number | null;
+  maxDrawdown: number;
+  maxDrawdownDurationBars: number;
+  maxDrawdownRecoveryBars: number | null;
+  exposureTime: number;
+  roundTrips: number;
+  winRate: number;
+  profitFactor: number | null;
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  largestWin: number;
+  largestLoss: number;
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  monthlyReturns: MonthlyReturn[];
 }
 
 export interface BacktestResult {
@@ -75,9 +202,230 @@ export interface BacktestResult {
   aiDecisionLog?: AIDecision[]; 
   sharpeRatio?: number; 
   maxDrawdown?: number; 
-  // New optional KPIs
-  CAGR?: number;
-  winningTradesPercentage?: number;
+  totalFees?: number;
+  totalSlippage?: number;
+  totalTransactionCosts?: number;
+  totalBorrowInterest?: number;
+  liquidations?: number;
+  orderHistory?: OrderEvent[];
+  executionTiming?: ExecutionTiming;
+  droppedFinalBarSignal?: { action: 'BUY' | 'SELL' | 'HOLD'; amount?: number };
+  benchmark?: BenchmarkResult;
+  analytics?: PerformanceReport;
+  roundTrips?: RoundTripTrade[];
+  runId?: string; // Set when the run was saved to the user's history (logged-in users)
+}
+
+// --- Parameter Sweep (mirrors backend src/backtest/parameterSweep.ts, POST /api/backtest/sweep) ---
+export type ParameterValue = number | string | boolean;
+
+export interface ParameterRange {
+  min?: number;
+  max?: number;
+  step?: number;
+  values?: ParameterValue[];
+}
+
+export interface SweepMetrics {
+  totalReturn: number;        // Percent
+  finalPortfolioValue: number;
+  cagr: number | null;        // Percent
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;        // Percent
+  winRate: number;            // Percent
+  profitFactor: number | null;
+  roundTrips: number;
+  totalTrades: number;
+  totalTransactionCosts: number;
+}
+
+export interface SweepRow {
+  parameters: Record<string, ParameterValue>;
+  metrics: SweepMetrics | null; // null when the run failed
+  error?: string;
+}
+
+export interface ParameterSweepResult {
+  symbol: string;
+  strategyId: string;
+  startDate: string; // Date string from backend
+  endDate: string;   // Date string from backend
+  parameterNames: string[];
+  parameterValues: Record<string, ParameterValue[]>;
+  combinationsTested: number;
+  rows: SweepRow[];
+}
+
+// --- Monte Carlo (mirrors backend src/backtest/monteCarlo.ts, POST /api/backtest/monte-carlo) ---
+export type MonteCarloMethod = 'tradeShuffle' | 'bootstrap' | 'skipTrades';
+
+export interface MonteCarloSettings {
+  methods?: MonteCarloMethod[];
+  simulations?: number;
+  seed?: number;
+  skipProbability?: number;      // In (0, 1)
+  ruinThresholdPercent?: number; // Loss of the initial value counted as ruin
+  percentiles?: number[];
+  interval?: string;
+}
+
+export interface MonteCarloDistribution {
+  mean: number;
+  values: number[]; // One per percentile of MonteCarloResult.percentiles
+}
+
+export interface MonteCarloFanPoint {
+  step: number;       // Trade number, or bar number for bootstrap
+  timestamp?: number; // Unix timestamp in seconds (bootstrap only)
+  values: number[];   // Equity at each percentile
+}
+
+export interface MonteCarloMethodResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  finalEquity: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution; // Percent
+  sharpeRatio: MonteCarloDistribution;
+  riskOfRuin: number;                  // Percent
+  fanChart: MonteCarloFanPoint[];
+}
+
+export interface MonteCarloResult {
+  initialPortfolioValue: number;
+  seed: number;
+  percentiles: number[];
+  ruinThresholdPercent: number;
+  ruinEquity: number;
+  methods: MonteCarloMethodResult[];
+  skippedMethods: { method: MonteCarloMethod; reason: string }[];
+}
+
+// --- Backtest Comparison (mirrors backend src/backtest/comparison.ts, POST /api/backtest/compare) ---
+export type ComparisonAlignment = 'overlap' | 'union';
+
+export interface ComparisonSettings {
+  alignment?: ComparisonAlignment;
+  maxPoints?: number;
+}
+
+export interface ComparisonRunInput {
+  label?: string;
+  result: {
+    portfolioHistory: { timestamp: number; value: number }[];
+    trades?: Pick<Trade, 'timestamp' | 'action' | 'price' | 'sharesTraded' | 'fees'>[];
+  };
+  settings?: Record<string, unknown>;
+}
+
+export interface ComparisonMetrics {
+  startTimestamp: number;
+  endTimestamp: number;
+  barsPerYear: number;
+  totalReturn: number;
+  cagr: number | null;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;
+  trades: number;
+  roundTrips: number;
+  winRate: number;
+  profitFactor: number | null;
+}
+
+export interface ComparisonPoint {
+  timestamp: number;
+  equity: (number | null)[];   // Rebased to 100, one value per run
+  drawdown: (number | null)[]; // Percent, 0 or negative
+}
+
+export interface SettingComparisonRow {
+  key: string;
+  values: unknown[];
+  differs: boolean;
+}
+
+export interface ComparisonResult {
+  labels: string[];
+  alignment: ComparisonAlignment;
+  startTimestamp: number;
+  endTimestamp: number;
+  points: ComparisonPoint[];
+  metrics: ComparisonMetrics[];
+  settings: SettingComparisonRow[];
+}
+
+// --- Backtest Run History (mirrors backend src/models/backtestRun.types.ts, /api/backtest-runs) ---
+export type BacktestRunMetrics = Pick<
+  BacktestResult,
+  | 'initialPortfolioValue'
+  | 'finalPortfolioValue'
+  | 'totalProfitOrLoss'
+  | 'profitOrLossPercentage'
+  | 'totalTrades'
+  | 'sharpeRatio'
+  | 'maxDrawdown'
+  | 'totalFees'
+  | 'totalSlippage'
+  | 'totalTransactionCosts'
+  | 'totalBorrowInterest'
+  | 'liquidations'
+  | 'analytics'
+>;
+
+export interface BacktestRunSummary {
+  id: string;
+  user_id: string;
+  strategy_id: string;
+  strategy_version: string | null;
+  symbol: string;
+  settings: BacktestSettings & { strategyId: string; strategyParams: Record<string, any> };
+  metrics: BacktestRunMetrics;
+  tags: string[];
+  notes: string | null;
+  created_at: number; // Milliseconds since epoch
+  updated_at: number;
+}
+
+export interface BacktestRun extends BacktestRunSummary {
+  trades: Trade[];
+  equity_curve: { timestamp: number; value: number }[];
+}
+
+export interface BacktestRunFilters {
+  strategyId?: string;
+  symbol?: string;
+  tag?: string;
+}
+
+// --- Backtest Jobs (mirrors backend src/models/backtestJob.types.ts, /api/backtest-jobs) ---
+export type BacktestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BacktestJobSummary {
+  id: string;
+  user_id: string | null;
+  status: BacktestJobStatus;
+  settings: BacktestSettings & { strategyId: string; strategyParams: Record<string, any> };
+  bars_processed: number;
+  total_bars: number | null; // Known once the job has loaded its data
+  error: string | null;
+  created_at: number; // Milliseconds since epoch
+  started_at: number | null;
+  finished_at: number | null;
+  updated_at: number;
+}
+
+export interface BacktestJob extends BacktestJobSummary {
+  result: BacktestResult | null; // Set when completed
+}
+
+// "progress" event of GET /api/backtest-jobs/:id/events: the equity points and trades of a batch of processed bars
+export interface BacktestJobProgress {
+  barsProcessed: number;
+  totalBars: number;
+  portfolioHistory: { timestamp: number; value: number }[];
+  trades: Trade[];
 }
 
 // --- AI Decision Log Type ---
@@ -89,6 +437,10 @@ export interface AIDecision {
   parametersUsed?: Record<string, any> | null;
   evaluationScore?: number | null;
   evaluationMetricUsed?: string | null;
+  reevaluated?: boolean;   // Whether the candidates were ranked on this bar (see reevaluationInterval)
+  switched?: boolean;      // Whether the choice changed to another strategy on this bar
+  switchCount?: number;    // Switches since the start of the run
+  marketRegime?: 'trendingUp' | 'trendingDown' | 'ranging'; // Regime of the evaluation window
 }
 
 // --- Charting Specific Types ---
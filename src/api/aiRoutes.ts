@@ -7,6 +7,8 @@ import { getCapitalAwareStrategySuggestion, SuggestionResponse } from '../servic
 
 const router = Router();
 
+// The latest choice of any AI selector run on the server's thread for the symbol (see getAISelectorActiveState), not
+// of a particular run: backtest jobs on worker threads are not reflected. A run's own choices are in its aiDecisionLog.
 router.get('/current-strategy/:symbol', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   const { symbol } = req.params;
 
@@ -0,0 +1,151 @@
+// src/api/backtestJobRoutes.ts
+import { Router, Response } from 'express';
+import * as backtestJobService from '../services/backtestJobService';
+import * as backtestJobQueue from '../services/backtestJobQueue';
+import { validateBacktestSettings } from '../backtest/backtestRequest';
+import { authenticateJWT as authMiddleware, optionalAuthenticateJWT, AuthenticatedRequest } from '../middleware/authMiddleware';
+import { BacktestJob } from '../models/backtestJob.types';
+import { BacktestSettingsAPI } from '../types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// The user of an authenticated request, or undefined for an anonymous one
+const getUserId = (req: AuthenticatedRequest): string | undefined =>
+  typeof req.auth === 'object' && typeof req.auth.userId === 'string' ? req.auth.userId : undefined;
+
+const getErrorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Jobs of authenticated users are only visible to them; anonymous jobs are visible to anyone with their ID
+const getAccessibleJob = (req: AuthenticatedRequest, res: Response): BacktestJob | null => {
+  const jobId = req.params.id;
+  const job = backtestJobService.getBacktestJobById(jobId);
+  if (!job || (job.user_id !== null && job.user_id !== getUserId(req))) {
+    logger.warn(`${req.method} /backtest-jobs/${jobId} - Job not found or not accessible.`);
+    res.status(404).json({ message: 'Backtest job not found or you do not have permission to view it.' });
+    return null;
+  }
+  return job;
+};
+
+// --- POST / (Queue a backtest; the body is a POST /api/backtest request) ---
+router.post('/', optionalAuthenticateJWT, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const settingsError = validateBacktestSettings(req.body);
+  if (settingsError) {
+    logger.warn('POST /backtest-jobs - Invalid backtest request.', { body: req.body, error: settingsError });
+    res.status(400).json({ message: settingsError });
+    return;
+  }
+
+  try {
+    const job = backtestJobQueue.submitBacktestJob(req.body as BacktestSettingsAPI, getUserId(req) ?? null);
+    res.status(202).json(backtestJobService.toBacktestJobSummary(job));
+  } catch (error) {
+    logger.error(`POST /backtest-jobs - Error queueing job: ${getErrorMessage(error)}`, { error });
+    res.status(500).json({ message: 'Failed to queue backtest job.' });
+  }
+});
+
+// --- GET / (List the user's jobs, newest first, without their results) ---
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const userId = getUserId(req);
+
+  if (!userId) {
+    logger.warn('User ID not found in request after authMiddleware for GET /backtest-jobs');
+    res.status(401).json({ message: 'Unauthorized: User ID missing.' });
+    return;
+  }
+
+  try {
+    const jobs = backtestJobService.getBacktestJobsByUserId(userId);
+    logger.info(`GET /backtest-jobs - Retrieved jobs for user ${userId}, count: ${jobs.length}`);
+    res.status(200).json(jobs);
+  } catch (error) {
+    logger.error(`GET /backtest-jobs - Error fetching jobs for user ${userId}: ${getErrorMessage(error)}`, { error });
+    res.status(500).json({ message: 'Failed to retrieve backtest jobs.' });
+  }
+});
+
+// --- GET /:id (Status and progress of a job, with its result once completed) ---
+router.get('/:id', optionalAuthenticateJWT, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const job = getAccessibleJob(req, res);
+    if (job) {
+      res.status(200).json(job);
+    }
+  } catch (error) {
+    logger.error(`GET /backtest-jobs/${req.params.id} - Error fetching job: ${getErrorMessage(error)}`, { error });
+    res.status(500).json({ message: 'Failed to retrieve backtest job.' });
+  }
+});
+
+// --- GET /:id/events (Server-Sent Events of a job, see BacktestJobEvent) ---
+// "job" events carry the job, without its result, each time it changes. While it runs, "progress" events carry the
+// equity points and trades of each batch of processed bars; the first one carries everything so far.
+router.get('/:id/events', optionalAuthenticateJWT, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  let job: BacktestJob | null;
+  try {
+    job = getAccessibleJob(req, res);
+  } catch (error) {
+    logger.error(`GET /backtest-jobs/${req.params.id}/events - Error fetching job: ${getErrorMessage(error)}`, { error });
+    res.status(500).json({ message: 'Failed to retrieve backtest job.' });
+    return;
+  }
+  if (!job) {
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  // The stream ends with the event of the finished job
+  const send = (event: backtestJobQueue.BacktestJobEvent): boolean => {
+    const data = event.type === 'job' ? event.job : event.progress;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (event.type === 'job' && backtestJobService.isBacktestJobFinished(event.job)) {
+      res.end();
+      return true;
+    }
+    return false;
+  };
+
+  if (send({ type: 'job', job: backtestJobService.toBacktestJobSummary(job) })) {
+    return;
+  }
+  const progress = backtestJobQueue.getBacktestJobProgress(job.id);
+  if (progress) {
+    send({ type: 'progress', progress });
+  }
+  const unsubscribe = backtestJobQueue.subscribeToBacktestJob(job.id, event => {
+    if (send(event)) {
+      unsubscribe();
+    }
+  });
+  req.on('close', unsubscribe);
+});
+
+// --- POST /:id/cancel (Cancel a queued or running job) ---
+router.post('/:id/cancel', optionalAuthenticateJWT, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const jobId = req.params.id;
+  try {
+    const job = getAccessibleJob(req, res);
+    if (!job) {
+      return;
+    }
+    if (backtestJobService.isBacktestJobFinished(job)) {
+      res.status(409).json({ message: `Backtest job is already ${job.status}.` });
+      return;
+    }
+    const cancelledJob = backtestJobQueue.cancelBacktestJob(jobId);
+    res.status(200).json(cancelledJob && backtestJobService.toBacktestJobSummary(cancelledJob));
+  } catch (error) {
+    logger.error(`POST /backtest-jobs/${jobId}/cancel - Error cancelling job: ${getErrorMessage(error)}`, { error });
+    res.status(500).json({ message: 'Failed to cancel backtest job.' });
+  }
+});
+
+export default router;
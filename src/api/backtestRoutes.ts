@@ -1,113 +1,352 @@
 // src/api/backtestRoutes.ts
 import { Router, Request, Response, RequestHandler } from 'express';
-import { runBacktest } from '../backtest/index'; // Corrected path
+import {
+  executeBacktestRequest,
+  toApiRoundTrip,
+  validateBacktestRunSettings,
+  validateBacktestSettings,
+  validateUnsupportedSettings,
+} from '../backtest/backtestRequest';
+import { runPortfolioBacktest, validatePortfolioSymbols, validateUnsupportedPortfolioSettings } from '../backtest/portfolioBacktest';
+import { runWalkForward, validateWalkForwardPlan, validateWalkForwardSettings } from '../backtest/walkForward';
+import { runParameterSweep, validateSweepPlan } from '../backtest/parameterSweep';
+import { runMonteCarlo, validateMonteCarloInput, validateMonteCarloSettings } from '../backtest/monteCarlo';
+import { compareBacktests, validateComparisonRuns, validateComparisonSettings } from '../backtest/comparison';
+import { getStrategy } from '../strategies';
+import { optionalAuthenticateJWT } from '../middleware/authMiddleware';
 import logger from '../utils/logger'; // Corrected path
 import type {
     BacktestSettingsAPI,
     TradingStrategyParameters,
-    BacktestResultAPI,
     Trade as APITrade, // Alias for API type
-    HistoricalDataPoint as APIHistoricalDataPoint, // Alias for API type
-    AIDecision as APIAIDecision // Alias for API type
+    PortfolioBacktestSettingsAPI,
+    PortfolioBacktestResultAPI,
+    PortfolioTrade as APIPortfolioTrade, // Alias for API type
+    WalkForwardSettingsAPI,
+    WalkForwardResultAPI,
+    ParameterSweepSettingsAPI,
+    ParameterSweepResultAPI,
+    MonteCarloRequestAPI,
+    ComparisonRequestAPI
 } from '../types'; // Corrected path
 
 const router: Router = Router();
 
-router.post('/', (async (req: Request, res: Response) => {
+// Runs of authenticated users are saved to their history (see backtestRunRoutes.ts). Long runs can be submitted as
+// jobs instead (see backtestJobRoutes.ts).
+router.post('/', optionalAuthenticateJWT, (async (req: Request, res: Response) => {
+  const settings = req.body as BacktestSettingsAPI;
+
+  const settingsError = validateBacktestSettings(settings);
+  if (settingsError) {
+      logger.warn('Backtest API: Invalid backtest request.', { body: req.body, error: settingsError });
+      return res.status(400).json({ message: settingsError });
+  }
+
+  const { strategyId, symbol } = settings;
+  logger.info(`Backtest API: Received request for strategy ${strategyId} on ${symbol}`);
+  logger.debug('Backtest API: Request body:', req.body);
+
+  try {
+    const apiResponseData = await executeBacktestRequest(settings, (req as any).auth?.userId);
+
+    logger.info(`Backtest API: Successfully ran backtest for strategy ${strategyId} on ${symbol}`);
+    res.status(200).json(apiResponseData);
+  } catch (error: any) {
+    logger.error(`Backtest API: Error running backtest for strategy ${strategyId} on ${symbol}:`, error);
+    if (error.message.includes('Strategy not found') || error.message.includes('Failed to fetch historical data')) {
+        // More specific error messages can be returned based on error types
+        return res.status(404).json({ message: error.message });
+    }
+    if (error.message.includes('Invalid parameters') || error.message.includes('Data unavailable')) { // Example
+        return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'Error running backtest', error: error.message });
+  }
+}) as RequestHandler);
+
+// Multi-asset portfolio backtest: one strategy over several symbols with shared cash
+router.post('/portfolio', (async (req: Request, res: Response) => {
   const {
     strategyId,
     strategyParams,
+    symbols,
+    startDate: startDateString,
+    endDate: endDateString,
+    initialCash,
+    sourceApi,      // Optional
+    interval,       // Optional
+    costModel,      // Optional
+    positionSizing, // Optional
+    lotMatching,    // Optional
+    margin,         // Optional
+  } = req.body as PortfolioBacktestSettingsAPI;
+
+  const settingsError = validateBacktestRunSettings(req.body, ['strategyId', 'strategyParams', 'symbols', 'startDate', 'endDate', 'initialCash'])
+    ?? validatePortfolioSymbols(symbols)
+    ?? validateUnsupportedPortfolioSettings(req.body);
+  if (settingsError) {
+      logger.warn('Portfolio Backtest API: Invalid backtest request.', { body: req.body, error: settingsError });
+      return res.status(400).json({ message: settingsError });
+  }
+
+  logger.info(`Portfolio Backtest API: Received request for strategy ${strategyId} on ${symbols.join(', ')}`);
+
+  try {
+    const result = await runPortfolioBacktest(
+      symbols,
+      new Date(startDateString),
+      new Date(endDateString),
+      initialCash,
+      strategyId,
+      strategyParams,
+      sourceApi,
+      interval,
+      { costModel, positionSizing, lotMatching, margin },
+    );
+
+    const apiResponseData: PortfolioBacktestResultAPI = {
+        ...result,
+        startDate: result.startDate.toISOString().split('T')[0],
+        endDate: result.endDate.toISOString().split('T')[0],
+        trades: result.trades.map((trade): APIPortfolioTrade => ({
+            ...trade,
+            date: trade.date.toISOString().split('T')[0],
+        })),
+        roundTrips: result.roundTrips.map(toApiRoundTrip),
+    };
+
+    logger.info(`Portfolio Backtest API: Successfully ran backtest for strategy ${strategyId} on ${symbols.join(', ')}`);
+    res.status(200).json(apiResponseData);
+  } catch (error: any) {
+    logger.error(`Portfolio Backtest API: Error running backtest for strategy ${strategyId} on ${symbols.join(', ')}:`, error);
+    res.status(500).json({ message: 'Error running portfolio backtest', error: error.message });
+  }
+}) as RequestHandler);
+
+// Walk-forward optimization: optimize on rolling or anchored in-sample windows, trade the winner out of sample
+router.post('/walk-forward', (async (req: Request, res: Response) => {
+  const {
+    strategyId,
+    strategyParams = {},
     symbol,
-    startDate: startDateString, // Renamed to avoid confusion
-    endDate: endDateString,     // Renamed to avoid confusion
+    startDate: startDateString,
+    endDate: endDateString,
     initialCash,
-    sourceApi, // Optional
-    interval,  // Optional
-  } = req.body as BacktestSettingsAPI;
+    sourceApi,       // Optional
+    interval,        // Optional
+    costModel,       // Optional
+    margin,          // Optional
+    executionTiming, // Optional
+    positionSizing,  // Optional
+    lotMatching,     // Optional
+    walkForward,
+  } = req.body as WalkForwardSettingsAPI;
 
-  // Basic validation
-  if (!strategyId || !strategyParams || !symbol || !startDateString || !endDateString || initialCash === undefined) {
-    logger.warn('Backtest API: Missing required fields in request body', { body: req.body });
-    return res.status(400).json({ message: 'Missing required fields: strategyId, strategyParams, symbol, startDate, endDate, initialCash are required.' });
+  // The stitched result has no benchmark, so a benchmarkSymbol would be ignored
+  const settingsError = validateBacktestSettings(req.body, ['strategyId', 'symbol', 'startDate', 'endDate', 'initialCash', 'walkForward'])
+    ?? validateUnsupportedSettings(req.body, ['benchmarkSymbol'], 'walk-forward optimization');
+  if (settingsError) {
+      logger.warn('Walk-Forward API: Invalid backtest request.', { body: req.body, error: settingsError });
+      return res.status(400).json({ message: settingsError });
   }
 
-  // Validate date formats (simple check, can be more robust)
-  if (isNaN(new Date(startDateString).getTime()) || isNaN(new Date(endDateString).getTime())) {
-      logger.warn('Backtest API: Invalid date format provided.', { startDate: startDateString, endDate: endDateString });
-      return res.status(400).json({ message: 'Invalid date format. Please use YYYY-MM-DD or ISO string.' });
+  const walkForwardError = validateWalkForwardSettings(walkForward);
+  if (walkForwardError) {
+      logger.warn('Walk-Forward API: Invalid walk-forward settings.', { walkForward });
+      return res.status(400).json({ message: walkForwardError });
   }
 
-  // Validate endDate is after startDate
-  if (new Date(endDateString) <= new Date(startDateString)) {
-      logger.warn('Backtest API: endDate must be after startDate.', { startDate: startDateString, endDate: endDateString });
-      return res.status(400).json({ message: 'End date must be after start date.' });
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+      logger.warn(`Walk-Forward API: Strategy ${strategyId} not found.`);
+      return res.status(404).json({ message: `Strategy not found: ${strategyId}` });
   }
 
+  const planError = validateWalkForwardPlan(strategy.parameters, new Date(startDateString), new Date(endDateString), walkForward);
+  if (planError) {
+      logger.warn('Walk-Forward API: Walk-forward cannot run with these settings.', { walkForward, error: planError });
+      return res.status(400).json({ message: planError });
+  }
 
-  logger.info(`Backtest API: Received request for strategy ${strategyId} on ${symbol}`);
-  logger.debug('Backtest API: Request body:', req.body);
+  logger.info(`Walk-Forward API: Received request for strategy ${strategyId} on ${symbol}`);
 
   try {
-    const startDateObj = new Date(startDateString);
-    const endDateObj = new Date(endDateString);
-
-    // Assuming runBacktest now expects Date objects for startDate and endDate
-    // and its result (BacktestResult) has Date objects for relevant date fields.
-    const backtestResultInternal = await runBacktest(
+    const result = await runWalkForward(
       symbol,
-      startDateObj, // Pass Date object
-      endDateObj,     // Pass Date object
+      new Date(startDateString),
+      new Date(endDateString),
       initialCash,
       strategyId,
       strategyParams,
       sourceApi,
       interval,
+      walkForward,
+      { costModel, margin, executionTiming, positionSizing, lotMatching },
     );
 
-    // Convert Date objects in the internal result to ISO strings for the API response,
-    // conforming to BacktestResultAPI.
-    const apiResponseData: BacktestResultAPI = {
-        ...backtestResultInternal,
-        startDate: backtestResultInternal.startDate.toISOString().split('T')[0], // Example: YYYY-MM-DD
-        endDate: backtestResultInternal.endDate.toISOString().split('T')[0],     // Example: YYYY-MM-DD
-        trades: backtestResultInternal.trades.map((trade: import('../backtest/index').Trade): APITrade => ({
-            ...trade,
-            // trade.date is Date from import('../backtest/index').Trade
-            // APITrade expects date as string
-            date: (trade.date as Date).toISOString().split('T')[0],
+    const toDateString = (date: Date) => date.toISOString().split('T')[0];
+    const apiResponseData: WalkForwardResultAPI = {
+        ...result,
+        startDate: toDateString(result.startDate),
+        endDate: toDateString(result.endDate),
+        windows: result.windows.map(window => ({
+            ...window,
+            inSampleStart: toDateString(window.inSampleStart),
+            inSampleEnd: toDateString(window.inSampleEnd),
+            outOfSampleStart: toDateString(window.outOfSampleStart),
+            outOfSampleEnd: toDateString(window.outOfSampleEnd),
         })),
-        // Optional chaining for historicalDataUsed and aiDecisionLog as they might not exist
-        historicalDataUsed: backtestResultInternal.historicalDataUsed?.map((point: import('../services/dataService').HistoricalDataPoint): APIHistoricalDataPoint => ({
-            ...point,
-            // point.date is Date from import('../services/dataService').HistoricalDataPoint
-            // APIHistoricalDataPoint expects date as string
-            date: (point.date as Date).toISOString().split('T')[0],
-        })),
-        aiDecisionLog: backtestResultInternal.aiDecisionLog?.map((decision: import('../strategies').AIDecision): APIAIDecision => ({
-            ...decision,
-            // decision.date needs to be string for APIAIDecision
-            // decision.date from import('../strategies').AIDecision is already a string.
-            // APIAIDecision (from src/types.ts) also expects date: string.
-            // No conversion needed, just pass it through.
-            date: decision.date,
+        trades: result.trades.map((trade): APITrade => ({
+            ...trade,
+            date: toDateString(trade.date),
         })),
-        // portfolioHistory does not have a 'date' field to convert, only 'timestamp' and 'value'
-        sharpeRatio: backtestResultInternal.sharpeRatio,
-        maxDrawdown: backtestResultInternal.maxDrawdown, // Add this line
     };
 
-    logger.info(`Backtest API: Successfully ran backtest for strategy ${strategyId} on ${symbol}`);
+    logger.info(`Walk-Forward API: Successfully ran walk-forward for strategy ${strategyId} on ${symbol}`);
     res.status(200).json(apiResponseData);
   } catch (error: any) {
-    logger.error(`Backtest API: Error running backtest for strategy ${strategyId} on ${symbol}:`, error);
-    if (error.message.includes('Strategy not found') || error.message.includes('Failed to fetch historical data')) {
-        // More specific error messages can be returned based on error types
-        return res.status(404).json({ message: error.message });
-    }
-    if (error.message.includes('Invalid parameters') || error.message.includes('Data unavailable')) { // Example
-        return res.status(400).json({ message: error.message });
-    }
-    res.status(500).json({ message: 'Error running backtest', error: error.message });
+    logger.error(`Walk-Forward API: Error running walk-forward for strategy ${strategyId} on ${symbol}:`, error);
+    res.status(500).json({ message: 'Error running walk-forward optimization', error: error.message });
+  }
+}) as RequestHandler);
+
+// Parameter sweep: one backtest per combination of a parameter grid, returned as a table of metrics
+router.post('/sweep', (async (req: Request, res: Response) => {
+  const {
+    strategyId,
+    strategyParams = {},
+    symbol,
+    startDate: startDateString,
+    endDate: endDateString,
+    initialCash,
+    sourceApi,       // Optional
+    interval,        // Optional
+    costModel,       // Optional
+    margin,          // Optional
+    executionTiming, // Optional
+    positionSizing,  // Optional
+    lotMatching,     // Optional
+    parameterRanges, // Optional
+    maxCombinations, // Optional
+  } = req.body as ParameterSweepSettingsAPI;
+
+  // Sweep metrics have no benchmark, so a benchmarkSymbol would be ignored
+  const settingsError = validateBacktestSettings(req.body, ['strategyId', 'symbol', 'startDate', 'endDate', 'initialCash'])
+    ?? validateUnsupportedSettings(req.body, ['benchmarkSymbol'], 'parameter sweeps');
+  if (settingsError) {
+      logger.warn('Sweep API: Invalid backtest request.', { body: req.body, error: settingsError });
+      return res.status(400).json({ message: settingsError });
+  }
+
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+      logger.warn(`Sweep API: Strategy ${strategyId} not found.`);
+      return res.status(404).json({ message: `Strategy not found: ${strategyId}` });
+  }
+
+  const planError = validateSweepPlan(strategy.parameters, { parameterRanges, maxCombinations });
+  if (planError) {
+      logger.warn('Sweep API: Sweep cannot run with these settings.', { parameterRanges, maxCombinations, error: planError });
+      return res.status(400).json({ message: planError });
+  }
+
+  logger.info(`Sweep API: Received request for strategy ${strategyId} on ${symbol}`);
+
+  try {
+    const result = await runParameterSweep(
+      symbol,
+      new Date(startDateString),
+      new Date(endDateString),
+      initialCash,
+      strategyId,
+      strategyParams,
+      sourceApi,
+      interval,
+      { parameterRanges, maxCombinations },
+      { costModel, margin, executionTiming, positionSizing, lotMatching },
+    );
+
+    const apiResponseData: ParameterSweepResultAPI = {
+        ...result,
+        startDate: result.startDate.toISOString().split('T')[0],
+        endDate: result.endDate.toISOString().split('T')[0],
+    };
+
+    logger.info(`Sweep API: Successfully ran ${result.combinationsTested} combinations for strategy ${strategyId} on ${symbol}`);
+    res.status(200).json(apiResponseData);
+  } catch (error: any) {
+    logger.error(`Sweep API: Error running sweep for strategy ${strategyId} on ${symbol}:`, error);
+    res.status(500).json({ message: 'Error running parameter sweep', error: error.message });
+  }
+}) as RequestHandler);
+
+router.post('/monte-carlo', ((req: Request, res: Response) => {
+  const { backtestResult, monteCarlo } = req.body as MonteCarloRequestAPI;
+
+  if (!backtestResult) {
+    logger.warn('Monte Carlo API: Missing backtestResult in request body');
+    return res.status(400).json({ message: 'Missing required field: backtestResult.' });
+  }
+
+  const settingsError = validateMonteCarloSettings(monteCarlo);
+  if (settingsError) {
+      logger.warn('Monte Carlo API: Invalid settings.', { monteCarlo });
+      return res.status(400).json({ message: settingsError });
+  }
+
+  const inputError = validateMonteCarloInput(backtestResult, monteCarlo);
+  if (inputError) {
+      logger.warn('Monte Carlo API: Invalid backtest result.', { error: inputError });
+      return res.status(400).json({ message: inputError });
+  }
+
+  logger.info('Monte Carlo API: Received request', {
+    roundTrips: backtestResult.roundTrips?.length ?? 0,
+    portfolioHistoryPoints: backtestResult.portfolioHistory?.length ?? 0,
+    monteCarlo,
+  });
+
+  try {
+    const result = runMonteCarlo(backtestResult, monteCarlo);
+    logger.info(`Monte Carlo API: Successfully ran ${result.methods.map(method => method.method).join(', ')} (seed ${result.seed})`);
+    res.status(200).json(result);
+  } catch (error: any) {
+    logger.error('Monte Carlo API: Error running Monte Carlo analysis:', error);
+    res.status(500).json({ message: 'Error running Monte Carlo analysis', error: error.message });
+  }
+}) as RequestHandler);
+
+// Side-by-side comparison of backtest results posted inline (e.g. fetched from the run history)
+router.post('/compare', ((req: Request, res: Response) => {
+  const { runs, comparison } = req.body as ComparisonRequestAPI;
+
+  if (!runs) {
+    logger.warn('Comparison API: Missing runs in request body');
+    return res.status(400).json({ message: 'Missing required field: runs.' });
+  }
+
+  const settingsError = validateComparisonSettings(comparison);
+  if (settingsError) {
+      logger.warn('Comparison API: Invalid settings.', { comparison });
+      return res.status(400).json({ message: settingsError });
+  }
+
+  const runsError = validateComparisonRuns(runs, comparison);
+  if (runsError) {
+      logger.warn('Comparison API: Invalid runs.', { error: runsError });
+      return res.status(400).json({ message: runsError });
+  }
+
+  logger.info(`Comparison API: Received request for ${runs.length} runs`, { comparison });
+
+  try {
+    const result = compareBacktests(runs, comparison);
+    logger.info(`Comparison API: Successfully compared ${result.labels.join(', ')} over ${result.points.length} points`);
+    res.status(200).json(result);
+  } catch (error: any) {
+    logger.error('Comparison API: Error comparing backtests:', error);
+    res.status(500).json({ message: 'Error comparing backtests', error: error.message });
   }
 }) as RequestHandler);
 
@@ -0,0 +1,147 @@
+// src/api/backtestRunRoutes.ts
+import { Router, Request, Response } from 'express';
+import * as backtestRunService from '../services/backtestRunService';
+import { authenticateJWT as authMiddleware } from '../middleware/authMiddleware';
+import { BacktestRunFilters, UpdateBacktestRunInput } from '../models/backtestRun.types';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Apply authMiddleware to all routes in this router: runs are only visible to the user who made them
+router.use(authMiddleware);
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_NOTES_LENGTH = 10000;
+
+// --- GET / (List the user's runs, newest first, optionally filtered by strategyId, symbol or tag) ---
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  const userId = (req as any).auth?.userId;
+
+  if (!userId) {
+    logger.warn('User ID not found in request after authMiddleware for GET /backtest-runs');
+    res.status(401).json({ message: 'Unauthorized: User ID missing.' });
+    return;
+  }
+
+  const { strategyId, symbol, tag, limit } = req.query;
+  const filters: BacktestRunFilters = {};
+  if (typeof strategyId === 'string' && strategyId !== '') filters.strategyId = strategyId;
+  if (typeof symbol === 'string' && symbol !== '') filters.symbol = symbol;
+  if (typeof tag === 'string' && tag !== '') filters.tag = tag;
+  if (limit !== undefined) {
+    const parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > backtestRunService.MAX_BACKTEST_RUN_LIMIT) {
+      res.status(400).json({ message: `Invalid input: limit must be an integer between 1 and ${backtestRunService.MAX_BACKTEST_RUN_LIMIT}.` });
+      return;
+    }
+    filters.limit = parsedLimit;
+  }
+
+  try {
+    const runs = backtestRunService.getBacktestRunsByUserId(userId, filters);
+    logger.info(`GET /backtest-runs - Retrieved runs for user ${userId}, count: ${runs.length}`);
+    res.status(200).json(runs);
+  } catch (error: any) {
+    logger.error(`GET /backtest-runs - Error fetching runs for user ${userId}: ${error.message}`, { error });
+    res.status(500).json({ message: 'Failed to retrieve backtest runs.' });
+  }
+});
+
+// --- GET /:id (Get a run with its trades and equity curve) ---
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.id;
+  const userId = (req as any).auth?.userId;
+
+  if (!userId) {
+    logger.warn(`User ID not found in request after authMiddleware for GET /backtest-runs/${runId}`);
+    res.status(401).json({ message: 'Unauthorized: User ID missing.' });
+    return;
+  }
+
+  try {
+    const run = backtestRunService.getBacktestRunById(runId, userId);
+    if (!run) {
+      logger.warn(`GET /backtest-runs/${runId} - Run not found or user ${userId} not authorized.`);
+      res.status(404).json({ message: 'Backtest run not found or you do not have permission to view it.' });
+      return;
+    }
+    res.status(200).json(run);
+  } catch (error: any) {
+    logger.error(`GET /backtest-runs/${runId} - Error fetching run for user ${userId}: ${error.message}`, { error });
+    res.status(500).json({ message: 'Failed to retrieve backtest run.' });
+  }
+});
+
+// --- PATCH /:id (Replace the tags and/or the notes of a run) ---
+router.patch('/:id', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.id;
+  const userId = (req as any).auth?.userId;
+  const { tags, notes } = req.body ?? {};
+
+  if (!userId) {
+    logger.warn(`User ID not found in request after authMiddleware for PATCH /backtest-runs/${runId}`);
+    res.status(401).json({ message: 'Unauthorized: User ID missing.' });
+    return;
+  }
+
+  if (tags === undefined && notes === undefined) {
+    res.status(400).json({ message: 'Invalid input: tags or notes is required.' });
+    return;
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.length > MAX_TAGS ||
+      !tags.every(tag => typeof tag === 'string' && tag.trim().length <= MAX_TAG_LENGTH))) {
+    res.status(400).json({ message: `Invalid input: tags must be an array of at most ${MAX_TAGS} strings of up to ${MAX_TAG_LENGTH} characters.` });
+    return;
+  }
+  if (notes !== undefined && notes !== null && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    res.status(400).json({ message: `Invalid input: notes must be a string of up to ${MAX_NOTES_LENGTH} characters, or null.` });
+    return;
+  }
+
+  const updateData: UpdateBacktestRunInput = {};
+  if (tags !== undefined) updateData.tags = tags;
+  if (notes !== undefined) updateData.notes = notes;
+
+  try {
+    const run = backtestRunService.updateBacktestRun(runId, userId, updateData);
+    if (!run) {
+      logger.warn(`PATCH /backtest-runs/${runId} - Run not found or user ${userId} not authorized.`);
+      res.status(404).json({ message: 'Backtest run not found or you do not have permission to update it.' });
+      return;
+    }
+    logger.info(`PATCH /backtest-runs/${runId} - Run updated for user ${userId}.`);
+    res.status(200).json(run);
+  } catch (error: any) {
+    logger.error(`PATCH /backtest-runs/${runId} - Error updating run for user ${userId}: ${error.message}`, { error });
+    res.status(500).json({ message: 'Failed to update backtest run.' });
+  }
+});
+
+// --- DELETE /:id (Delete a run) ---
+router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  const runId = req.params.id;
+  const userId = (req as any).auth?.userId;
+
+  if (!userId) {
+    logger.warn(`User ID not found in request after authMiddleware for DELETE /backtest-runs/${runId}`);
+    res.status(401).json({ message: 'Unauthorized: User ID missing.' });
+    return;
+  }
+
+  try {
+    const success = backtestRunService.deleteBacktestRun(runId, userId);
+    if (!success) {
+      logger.warn(`DELETE /backtest-runs/${runId} - Run not found or user ${userId} not authorized.`);
+      res.status(404).json({ message: 'Backtest run not found or you do not have permission to delete it.' });
+      return;
+    }
+    logger.info(`DELETE /backtest-runs/${runId} - Run deleted for user ${userId}.`);
+    res.status(204).send();
+  } catch (error: any) {
+    logger.error(`DELETE /backtest-runs/${runId} - Error deleting run for user ${userId}: ${error.message}`, { error });
+    res.status(500).json({ message: 'Failed to delete backtest run.' });
+  }
+});
+
+export default router;
@@ -5,6 +5,8 @@ import dataRoutes from './dataRoutes';
 import strategyRoutes from './strategyRoutes';
 import apiKeyRoutes from './apiKeyRoutes'; // Import the new API key routes
 import backtestRoutes from './backtestRoutes'; // Import backtest routes
+import backtestRunRoutes from './backtestRunRoutes';
+import backtestJobRoutes from './backtestJobRoutes';
 import logger from '../utils/logger';
 
 const mainRouter = Router();
@@ -34,5 +36,13 @@ logger.info('AI routes mounted under /ai');
 mainRouter.use('/backtest', backtestRoutes);
 logger.info('Backtest routes mounted under /backtest');
 
+// Mount the saved backtest run history
+mainRouter.use('/backtest-runs', backtestRunRoutes);
+logger.info('Backtest run routes mounted under /backtest-runs');
+
+// Mount the background backtest jobs
+mainRouter.use('/backtest-jobs', backtestJobRoutes);
+logger.info('Backtest job routes mounted under /backtest-jobs');
+
 
 export default mainRouter;
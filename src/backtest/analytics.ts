@@ -0,0 +1,271 @@
+// src/backtest/analytics.ts
+// Performance report of a backtest, computed from its fills and equity curve (portfolioHistory).
+// Return statistics are annualized with the number of bars per year of the data interval (see utils/intervals.ts).
+
+import type { Trade } from './index';
+import type { EquityPoint } from './benchmark';
+import { SECONDS_PER_YEAR } from '../utils/intervals';
+
+// The fill fields needed to rebuild round trips; portfolio backtests add a symbol
+export type AnalyticsFill = Pick<Trade, 'timestamp' | 'action' | 'price' | 'sharesTraded' | 'fees'> & { symbol?: string };
+
+// A position from opening to flat (or to the fill that flipped it), with its P&L net of fees
+export interface RoundTrip {
+  symbol?: string;
+  direction: 'LONG' | 'SHORT';
+  entryTimestamp: number;
+  exitTimestamp: number;
+  pnl: number;
+}
+
+export interface MonthlyReturn {
+  month: string; // YYYY-MM (UTC)
+  returnPercentage: number;
+}
+
+export interface PerformanceReport {
+  barsPerYear: number;              // Annualization factor used below
+  totalReturn: number;              // Percent
+  cagr: number | null;              // Compound annual growth rate in percent; null if the period has no length
+  annualizedVolatility: number;     // Percent
+  sharpeRatio: number;              // Risk-free rate 0
+  sortinoRatio: number;             // Risk-free rate 0, downside deviation of per-bar returns
+  calmarRatio: number | null;       // CAGR / max drawdown; null without a drawdown
+  maxDrawdown: number;              // Percent
+  maxDrawdownDurationBars: number;  // Longest time below a previous peak (until recovery or the end of the data)
+  maxDrawdownRecoveryBars: number | null; // Bars from the deepest trough back to its peak; null if it never recovered
+  exposureTime: number;             // Percent of bars with an open position
+  roundTrips: number;               // Closed round trips used for the trade statistics below
+  winRate: number;                  // Percent of round trips with a positive P&L
+  profitFactor: number | null;      // Gross profit / gross loss; null without losing round trips
+  expectancy: number;               // Average P&L per round trip
+  averageWin: number;
+  averageLoss: number;              // Negative
+  largestWin: number;
+  largestLoss: number;              // Negative
+  maxConsecutiveWins: number;
+  maxConsecutiveLosses: number;
+  monthlyReturns: MonthlyReturn[];
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Rebuilds closed round trips from a list of fills in chronological order. Fills of different symbols are tracked
+ * separately. A fill that flips the position closes the current round trip and opens a new one with the remainder;
+ * its fees are split pro rata. A position still open at the end is not included.
+ * @param fills - The fills.
+ * @returns The closed round trips in the order they were closed.
+ */
+export function extractRoundTrips(fills: AnalyticsFill[]): RoundTrip[] {
+  const roundTrips: RoundTrip[] = [];
+  const open = new Map<string, { position: number; cashFlow: number; entryTimestamp: number }>();
+
+  for (const fill of fills) {
+    const key = fill.symbol ?? '';
+    const sign = fill.action === 'BUY' ? 1 : -1;
+    let quantity = fill.sharesTraded;
+    let fees = fill.fees;
+    const current = open.get(key);
+
+    if (current && Math.sign(current.position) !== sign) {
+      const closingQuantity = Math.min(quantity, Math.abs(current.position));
+      const closingFees = fees * (closingQuantity / quantity);
+      current.cashFlow += -sign * fill.price * closingQuantity - closingFees;
+      current.position += sign * closingQuantity;
+      quantity -= closingQuantity;
+      fees -= closingFees;
+      if (Math.abs(current.position) < EPSILON) {
+        roundTrips.push({
+          symbol: fill.symbol,
+          direction: sign === 1 ? 'SHORT' : 'LONG',
+          entryTimestamp: current.entryTimestamp,
+          exitTimestamp: fill.timestamp,
+          pnl: current.cashFlow,
+        });
+        open.delete(key);
+      }
+    }
+
+    if (quantity > EPSILON) {
+      const position = open.get(key);
+      if (position) {
+        position.cashFlow += -sign * fill.price * quantity - fees;
+        position.position += sign * quantity;
+      } else {
+        open.set(key, { position: sign * quantity, cashFlow: -sign * fill.price * quantity - fees, entryTimestamp: fill.timestamp });
+      }
+    }
+  }
+  return roundTrips;
+}
+
+// Per-bar simple returns of an equity curve
+function getReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let k = 1; k < values.length; k++) {
+    returns.push(values[k - 1] !== 0 ? (values[k] - values[k - 1]) / values[k - 1] : 0);
+  }
+  return returns;
+}
+
+/**
+ * Annualized Sharpe ratio (risk-free rate 0) of an equity curve.
+ * @param values - Equity values in chronological order.
+ * @param barsPerYear - Number of bars per year.
+ * @returns The Sharpe ratio, or 0 with fewer than two returns or no volatility.
+ */
+export function calculateSharpeRatio(values: number[], barsPerYear: number): number {
+  const returns = getReturns(values);
+  if (returns.length < 2) return 0;
+  const average = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
+  const stdDev = Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(ret - average, 2), 0) / (returns.length - 1));
+  return stdDev !== 0 ? (average / stdDev) * Math.sqrt(barsPerYear) : 0;
+}
+
+// Drawdown depth and durations of an equity curve
+function analyzeDrawdowns(values: number[]): { maxDrawdown: number; longestBars: number; recoveryBars: number | null } {
+  let peak = values[0];
+  let peakIndex = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPeak = peak;
+  let maxDrawdownTroughIndex = -1;
+  let recoveryBars: number | null = null;
+  let longestBars = 0;
+
+  for (let k = 1; k < values.length; k++) {
+    const value = values[k];
+    if (value >= peak) {
+      longestBars = Math.max(longestBars, k - peakIndex - 1);
+      if (maxDrawdownTroughIndex >= 0 && recoveryBars === null && value >= maxDrawdownPeak) {
+        recoveryBars = k - maxDrawdownTroughIndex;
+      }
+      peak = value;
+      peakIndex = k;
+      continue;
+    }
+    const drawdown = peak > 0 ? (peak - value) / peak : 0;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPeak = peak;
+      maxDrawdownTroughIndex = k;
+      recoveryBars = null;
+    }
+  }
+  if (peakIndex < values.length - 1) {
+    longestBars = Math.max(longestBars, values.length - 1 - peakIndex);
+  }
+  return { maxDrawdown, longestBars, recoveryBars };
+}
+
+// Percentage of equity points (after the starting point) with an open position
+function calculateExposureTime(fills: AnalyticsFill[], equityCurve: EquityPoint[]): number {
+  const bars = equityCurve.slice(1);
+  if (bars.length === 0) return 0;
+  const positions = new Map<string, number>();
+  let fillIndex = 0;
+  let exposedBars = 0;
+  for (const bar of bars) {
+    while (fillIndex < fills.length && fills[fillIndex].timestamp <= bar.timestamp) {
+      const fill = fills[fillIndex++];
+      const key = fill.symbol ?? '';
+      positions.set(key, (positions.get(key) ?? 0) + (fill.action === 'BUY' ? fill.sharesTraded : -fill.sharesTraded));
+    }
+    if (Array.from(positions.values()).some(position => Math.abs(position) > EPSILON)) exposedBars++;
+  }
+  return (exposedBars / bars.length) * 100;
+}
+
+/**
+ * Calendar-month returns of an equity curve. Each month is measured from the last value of the previous month
+ * (or the first value of the curve) to its own last value.
+ */
+export function calculateMonthlyReturns(equityCurve: EquityPoint[]): MonthlyReturn[] {
+  const monthlyReturns: MonthlyReturn[] = [];
+  if (equityCurve.length === 0) return monthlyReturns;
+  let previousValue = equityCurve[0].value;
+  for (let k = 0; k < equityCurve.length; k++) {
+    const month = new Date(equityCurve[k].timestamp * 1000).toISOString().slice(0, 7);
+    const isLastOfMonth = k === equityCurve.length - 1
+      || new Date(equityCurve[k + 1].timestamp * 1000).toISOString().slice(0, 7) !== month;
+    if (isLastOfMonth) {
+      const value = equityCurve[k].value;
+      monthlyReturns.push({ month, returnPercentage: previousValue !== 0 ? (value / previousValue - 1) * 100 : 0 });
+      previousValue = value;
+    }
+  }
+  return monthlyReturns;
+}
+
+/**
+ * Builds the performance report of a backtest.
+ * @param fills - Fills in chronological order (BacktestResult.trades).
+ * @param equityCurve - Equity curve starting with the initial value (BacktestResult.portfolioHistory).
+ * @param barsPerYear - Number of bars per year of the data interval.
+ */
+export function calculatePerformanceReport(fills: AnalyticsFill[], equityCurve: EquityPoint[], barsPerYear: number): PerformanceReport {
+  const values = equityCurve.map(point => point.value);
+  const initialValue = values.length > 0 ? values[0] : 0;
+  const finalValue = values.length > 0 ? values[values.length - 1] : 0;
+  const totalReturn = initialValue !== 0 ? (finalValue / initialValue - 1) * 100 : 0;
+
+  let cagr: number | null = null;
+  const years = equityCurve.length > 1 ? (equityCurve[equityCurve.length - 1].timestamp - equityCurve[0].timestamp) / SECONDS_PER_YEAR : 0;
+  if (years > 0 && initialValue > 0) {
+    cagr = finalValue > 0 ? (Math.pow(finalValue / initialValue, 1 / years) - 1) * 100 : -100;
+  }
+
+  const returns = getReturns(values);
+  const averageReturn = returns.length > 0 ? returns.reduce((sum, ret) => sum + ret, 0) / returns.length : 0;
+  const stdDev = returns.length > 1
+    ? Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(ret - averageReturn, 2), 0) / (returns.length - 1))
+    : 0;
+  const downsideDeviation = returns.length > 0
+    ? Math.sqrt(returns.reduce((sum, ret) => sum + Math.pow(Math.min(ret, 0), 2), 0) / returns.length)
+    : 0;
+  const sortinoRatio = downsideDeviation !== 0 ? (averageReturn / downsideDeviation) * Math.sqrt(barsPerYear) : 0;
+
+  const drawdowns = values.length > 0 ? analyzeDrawdowns(values) : { maxDrawdown: 0, longestBars: 0, recoveryBars: null };
+  const maxDrawdown = drawdowns.maxDrawdown * 100;
+
+  const roundTrips = extractRoundTrips(fills);
+  const wins = roundTrips.filter(trip => trip.pnl > 0).map(trip => trip.pnl);
+  const losses = roundTrips.filter(trip => trip.pnl < 0).map(trip => trip.pnl);
+  const grossProfit = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = losses.reduce((sum, pnl) => sum + pnl, 0);
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  for (const trip of roundTrips) {
+    winStreak = trip.pnl > 0 ? winStreak + 1 : 0;
+    lossStreak = trip.pnl < 0 ? lossStreak + 1 : 0;
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, winStreak);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, lossStreak);
+  }
+
+  return {
+    barsPerYear,
+    totalReturn,
+    cagr,
+    annualizedVolatility: stdDev * Math.sqrt(barsPerYear) * 100,
+    sharpeRatio: calculateSharpeRatio(values, barsPerYear),
+    sortinoRatio,
+    calmarRatio: cagr !== null && maxDrawdown > 0 ? cagr / maxDrawdown : null,
+    maxDrawdown,
+    maxDrawdownDurationBars: drawdowns.longestBars,
+    maxDrawdownRecoveryBars: drawdowns.recoveryBars,
+    exposureTime: calculateExposureTime(fills, equityCurve),
+    roundTrips: roundTrips.length,
+    winRate: roundTrips.length > 0 ? (wins.length / roundTrips.length) * 100 : 0,
+    profitFactor: losses.length > 0 ? grossProfit / -grossLoss : null,
+    expectancy: roundTrips.length > 0 ? (grossProfit + grossLoss) / roundTrips.length : 0,
+    averageWin: wins.length > 0 ? grossProfit / wins.length : 0,
+    averageLoss: losses.length > 0 ? grossLoss / losses.length : 0,
+    largestWin: wins.length > 0 ? Math.max(...wins) : 0,
+    largestLoss: losses.length > 0 ? Math.min(...losses) : 0,
+    maxConsecutiveWins,
+    maxConsecutiveLosses,
+    monthlyReturns: calculateMonthlyReturns(equityCurve),
+  };
+}
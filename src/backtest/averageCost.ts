@@ -0,0 +1,39 @@
+// src/backtest/averageCost.ts
+// Average-cost accounting of a position built up from many fills, e.g. the ladder of a grid or the safety orders of
+// a DCA bot. The backtest engines keep it up to date as Portfolio.averageEntryPrice, so strategies can act on the
+// average cost of their position (a take-profit above it, for instance).
+
+import type { OrderSide } from './costModel';
+
+export interface AverageCostPosition {
+  quantity: number;     // Signed: negative for a short
+  averagePrice: number; // Average fill price of the open quantity (slippage included, fees excluded); 0 when flat
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Applies a fill to a position. Adding to the position moves the average price to the quantity-weighted average of
+ * the fills; reducing it leaves the average unchanged. A fill that flips the position opens the remainder at its
+ * own price.
+ * @param position - The position before the fill.
+ * @param side - Side of the fill.
+ * @param quantity - Units filled (> 0).
+ * @param price - Fill price.
+ * @returns The position after the fill.
+ */
+export function applyFillToAverageCost(position: AverageCostPosition, side: OrderSide, quantity: number, price: number): AverageCostPosition {
+  const signedQuantity = side === 'BUY' ? quantity : -quantity;
+  const newQuantity = position.quantity + signedQuantity;
+  if (Math.abs(newQuantity) < EPSILON) {
+    return { quantity: 0, averagePrice: 0 };
+  }
+  if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signedQuantity)) {
+    const cost = position.averagePrice * Math.abs(position.quantity) + price * quantity;
+    return { quantity: newQuantity, averagePrice: cost / Math.abs(newQuantity) };
+  }
+  if (Math.sign(newQuantity) === Math.sign(position.quantity)) {
+    return { quantity: newQuantity, averagePrice: position.averagePrice };
+  }
+  return { quantity: newQuantity, averagePrice: price };
+}
@@ -0,0 +1,203 @@
+// src/backtest/backtestRequest.ts
+// A single-symbol backtest as requested through the API: validation of the request, the run itself, conversion of the
+// result to its API shape and saving the run to the user's history. Shared by POST /api/backtest, which runs it
+// during the request, and the backtest job queue, which runs it in the background on a worker thread.
+
+import { runBacktest, validateSingleSymbolStrategy, BacktestOptions, BacktestResult, Trade } from './index';
+import { validateCostModelSettings } from './costModel';
+import { validateMarginSettings } from './margin';
+import { validateExecutionTiming } from './executionTiming';
+import { validatePositionSizingSettings } from './positionSizing';
+import { validateBenchmarkSymbol } from './benchmark';
+import { validateLotMatching, RoundTripTrade } from './lotMatching';
+import { getStrategy } from '../strategies';
+import * as backtestRunService from '../services/backtestRunService';
+import logger from '../utils/logger';
+import type {
+  BacktestSettingsAPI,
+  BacktestResultAPI,
+  Trade as APITrade,
+  RoundTripTrade as APIRoundTripTrade,
+} from '../types';
+
+// What a caller running the request can hook into the engine (see BacktestOptions)
+export type BacktestRequestControl = Pick<BacktestOptions, 'onProgress' | 'signal'>;
+
+// A backtest request as sent to a worker of the backtest job queue (see backtestRequest.worker.ts)
+export interface BacktestRequestTask {
+  settings: BacktestSettingsAPI;
+  userId?: string;
+}
+
+const toApiDate = (date: Date): string => date.toISOString().split('T')[0];
+
+export const toApiTrade = (trade: Trade): APITrade => ({ ...trade, date: toApiDate(trade.date) });
+
+export const toApiRoundTrip = (roundTrip: RoundTripTrade): APIRoundTripTrade => ({
+  ...roundTrip,
+  entryDate: toApiDate(roundTrip.entryDate),
+  exitDate: toApiDate(roundTrip.exitDate),
+});
+
+// Fields a single-symbol backtest request must have
+const BACKTEST_REQUIRED_FIELDS = ['strategyId', 'strategyParams', 'symbol', 'startDate', 'endDate', 'initialCash'] as const;
+
+/**
+ * Validates the settings shared by every endpoint that runs backtests (single-symbol, portfolio, walk-forward and
+ * sweep): the required fields, the dates, the initial cash, the interval and the engine settings. Endpoint-specific
+ * settings, such as the symbols of a portfolio, are left to the caller.
+ * @param settings - The request body.
+ * @param requiredFields - The fields the endpoint requires, listed in the error when one is missing.
+ * @returns An error message if the settings are invalid, otherwise null.
+ */
+export function validateBacktestRunSettings(settings: unknown, requiredFields: readonly string[]): string | null {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return 'The request body must be an object.';
+  }
+  const fields = settings as Record<string, unknown>;
+  if (requiredFields.some(field => fields[field] === undefined || fields[field] === null || fields[field] === '')) {
+    return `Missing required fields: ${requiredFields.join(', ')} are required.`;
+  }
+  const {
+    startDate,
+    endDate,
+    initialCash,
+    interval,
+    costModel,
+    margin,
+    executionTiming,
+    positionSizing,
+    benchmarkSymbol,
+    lotMatching,
+  } = settings as BacktestSettingsAPI;
+
+  if (isNaN(new Date(startDate).getTime()) || isNaN(new Date(endDate).getTime())) {
+    return 'Invalid date format. Please use YYYY-MM-DD or ISO string.';
+  }
+  if (new Date(endDate) <= new Date(startDate)) {
+    return 'End date must be after start date.';
+  }
+  if (typeof initialCash !== 'number' || !(initialCash > 0) || !isFinite(initialCash)) {
+    return 'initialCash must be a positive number.';
+  }
+  if (interval !== undefined && typeof interval !== 'string') {
+    return 'interval must be a string.';
+  }
+  return validateCostModelSettings(costModel)
+    ?? validateMarginSettings(margin)
+    ?? validateExecutionTiming(executionTiming)
+    ?? validatePositionSizingSettings(positionSizing)
+    ?? validateBenchmarkSymbol(benchmarkSymbol)
+    ?? validateLotMatching(lotMatching);
+}
+
+/**
+ * Rejects settings that an endpoint would otherwise accept and ignore.
+ * @param settings - The request body (validated with validateBacktestRunSettings).
+ * @param unsupportedFields - The fields the endpoint does not apply.
+ * @param endpointName - What the endpoint runs, for the error message (e.g. 'walk-forward optimization').
+ * @returns An error message if one of the fields is given, otherwise null.
+ */
+export function validateUnsupportedSettings(settings: object, unsupportedFields: readonly string[], endpointName: string): string | null {
+  const fields = settings as Record<string, unknown>;
+  const unsupported = unsupportedFields.find(field => fields[field] !== undefined && fields[field] !== null);
+  return unsupported ? `${unsupported} is not supported in ${endpointName}.` : null;
+}
+
+/**
+ * Validates a single-symbol backtest request received from an API payload: the shared settings (see
+ * validateBacktestRunSettings) and a strategy that can trade one symbol.
+ * @param settings - The request body.
+ * @param requiredFields - The fields the endpoint requires (default: those of POST /api/backtest).
+ * @returns An error message if the request is invalid, otherwise null.
+ */
+export function validateBacktestSettings(settings: unknown, requiredFields: readonly string[] = BACKTEST_REQUIRED_FIELDS): string | null {
+  const settingsError = validateBacktestRunSettings(settings, requiredFields);
+  if (settingsError) {
+    return settingsError;
+  }
+  const strategy = getStrategy((settings as BacktestSettingsAPI).strategyId);
+  return strategy ? validateSingleSymbolStrategy(strategy) : null;
+}
+
+/**
+ * Converts the Date fields of a backtest result to the date strings of its API shape.
+ */
+export function toBacktestResultAPI(result: BacktestResult): BacktestResultAPI {
+  return {
+    ...result,
+    startDate: toApiDate(result.startDate),
+    endDate: toApiDate(result.endDate),
+    trades: result.trades.map(toApiTrade),
+    historicalDataUsed: result.historicalDataUsed?.map(point => ({ ...point, date: toApiDate(point.date) })),
+    // AI decisions already carry their date as a string
+    aiDecisionLog: result.aiDecisionLog?.map(decision => ({ ...decision })),
+    orderHistory: result.orderHistory?.map(event => ({ ...event, date: toApiDate(event.date) })),
+    roundTrips: result.roundTrips?.map(toApiRoundTrip),
+  };
+}
+
+/**
+ * Runs a validated backtest request. The run of an authenticated user is saved to their history and its ID returned
+ * as runId; a run that cannot be saved is still returned.
+ * @param settings - A request that passed validateBacktestSettings.
+ * @param userId - The user making the request, if authenticated.
+ * @param control - Progress listener and abort signal passed to the engine.
+ */
+export async function executeBacktestRequest(
+  settings: BacktestSettingsAPI,
+  userId?: string,
+  control: BacktestRequestControl = {}
+): Promise<BacktestResultAPI> {
+  const {
+    strategyId,
+    strategyParams,
+    symbol,
+    startDate,
+    endDate,
+    initialCash,
+    sourceApi,
+    interval,
+    costModel,
+    margin,
+    executionTiming,
+    positionSizing,
+    benchmarkSymbol,
+    lotMatching,
+  } = settings;
+  const strategyVersion = getStrategy(strategyId)?.version ?? null;
+
+  const result = await runBacktest(
+    symbol,
+    new Date(startDate),
+    new Date(endDate),
+    initialCash,
+    strategyId,
+    strategyParams,
+    sourceApi,
+    interval,
+    { costModel, margin, executionTiming, positionSizing, benchmarkSymbol, lotMatching, ...control },
+  );
+  const apiResult = toBacktestResultAPI(result);
+
+  if (userId) {
+    try {
+      const run = backtestRunService.createBacktestRun({
+        user_id: userId,
+        strategy_id: strategyId,
+        strategy_version: strategyVersion,
+        symbol,
+        settings,
+        metrics: backtestRunService.extractBacktestRunMetrics(apiResult),
+        trades: apiResult.trades,
+        equity_curve: apiResult.portfolioHistory ?? [],
+      });
+      apiResult.runId = run.id;
+      logger.info(`Backtest: Saved run ${run.id} for user ${userId}`);
+    } catch (saveError: any) {
+      logger.error(`Backtest: Could not save run for user ${userId}: ${saveError.message}`);
+    }
+  }
+
+  return apiResult;
+}
@@ -0,0 +1,13 @@
+// src/backtest/backtestRequest.worker.ts
+// Worker thread of the backtest job queue (see services/backtestJobQueue.ts): runs one backtest request at a time,
+// off the server's event loop, with its own database connection and strategies. Progress is posted to the queue as
+// the bars are processed, and a cancelled job stops before its next bar.
+
+import { serveWorkerTasks } from '../utils/workerPool';
+import { executeBacktestRequest, BacktestRequestTask } from './backtestRequest';
+import type { BacktestProgress } from './index';
+import type { BacktestResultAPI } from '../types';
+
+serveWorkerTasks<BacktestRequestTask, BacktestResultAPI, BacktestProgress>(({ settings, userId }, { signal, postMessage }) =>
+  executeBacktestRequest(settings, userId, { onProgress: postMessage, signal })
+);
@@ -0,0 +1,145 @@
+// src/backtest/benchmark.ts
+// Buy-and-hold benchmark for runBacktest and the strategy's performance relative to it.
+// The benchmark invests the initial cash at the first available close and holds it without costs.
+
+import type { HistoricalDataPoint } from '../services/dataService';
+
+export interface EquityPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface RelativePerformance {
+  excessReturn: number;     // Strategy return minus benchmark return over the whole backtest, in percentage points
+  alpha: number;            // Annualized Jensen's alpha (risk-free rate 0), in percent
+  beta: number;             // Sensitivity of per-bar strategy returns to benchmark returns
+  trackingError: number;    // Annualized standard deviation of per-bar excess returns, in percent
+  informationRatio: number; // Annualized mean excess return / standard deviation of excess returns
+}
+
+export interface BenchmarkResult extends RelativePerformance {
+  symbol: string;           // The backtested symbol (buy-and-hold) or the benchmarkSymbol option
+  initialValue: number;
+  finalValue: number;
+  returnPercentage: number;
+  equityCurve: EquityPoint[]; // Same timestamps as the strategy's portfolioHistory
+}
+
+/**
+ * Validates the benchmarkSymbol option received from an API payload or a JSON config.
+ * @param benchmarkSymbol - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateBenchmarkSymbol(benchmarkSymbol: unknown): string | null {
+  if (benchmarkSymbol === undefined || benchmarkSymbol === null) {
+    return null;
+  }
+  if (typeof benchmarkSymbol !== 'string' || benchmarkSymbol.trim() === '') {
+    return 'benchmarkSymbol must be a non-empty string.';
+  }
+  return null;
+}
+
+/**
+ * Builds a buy-and-hold equity curve on the given timestamps. Each timestamp is valued at the latest benchmark close
+ * at or before it; the position is bought at the first such close, and the curve stays at the initial cash before it.
+ * @param timestamps - Timestamps of the strategy's equity curve (ascending).
+ * @param benchmarkData - Bars of the benchmark symbol (ascending).
+ * @param initialCash - Amount invested.
+ * @returns The benchmark equity curve.
+ */
+export function buildBuyAndHoldCurve(timestamps: number[], benchmarkData: HistoricalDataPoint[], initialCash: number): EquityPoint[] {
+  let barIndex = -1;
+  let entryPrice: number | null = null;
+  return timestamps.map(timestamp => {
+    while (barIndex + 1 < benchmarkData.length && benchmarkData[barIndex + 1].timestamp <= timestamp) {
+      barIndex++;
+    }
+    const price = barIndex >= 0 ? benchmarkData[barIndex].close : null;
+    if (entryPrice === null && price !== null && price > 0) {
+      entryPrice = price;
+    }
+    const value = entryPrice !== null && price !== null ? initialCash * (price / entryPrice) : initialCash;
+    return { timestamp, value };
+  });
+}
+
+// Per-point simple returns of an equity curve
+function getReturns(curve: EquityPoint[]): number[] {
+  const returns: number[] = [];
+  for (let k = 1; k < curve.length; k++) {
+    const previous = curve[k - 1].value;
+    returns.push(previous !== 0 ? (curve[k].value - previous) / previous : 0);
+  }
+  return returns;
+}
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Compares a strategy equity curve with a benchmark curve on the same timestamps.
+ * Statistics that need a non-zero variance (beta, information ratio) are 0 when it is zero.
+ * @param strategyCurve - The strategy's equity curve.
+ * @param benchmarkCurve - The benchmark's equity curve (same length and timestamps).
+ * @param barsPerYear - Number of bars per year, for annualization.
+ */
+export function calculateRelativePerformance(strategyCurve: EquityPoint[], benchmarkCurve: EquityPoint[], barsPerYear: number): RelativePerformance {
+  const totalReturn = (curve: EquityPoint[]) =>
+    curve.length > 0 && curve[0].value !== 0 ? (curve[curve.length - 1].value / curve[0].value - 1) * 100 : 0;
+  const excessReturn = totalReturn(strategyCurve) - totalReturn(benchmarkCurve);
+
+  const strategyReturns = getReturns(strategyCurve);
+  const benchmarkReturns = getReturns(benchmarkCurve);
+  if (strategyReturns.length < 2 || strategyReturns.length !== benchmarkReturns.length) {
+    return { excessReturn, alpha: 0, beta: 0, trackingError: 0, informationRatio: 0 };
+  }
+
+  const strategyMean = mean(strategyReturns);
+  const benchmarkMean = mean(benchmarkReturns);
+  const n = strategyReturns.length;
+  let covariance = 0;
+  let benchmarkVariance = 0;
+  for (let k = 0; k < n; k++) {
+    covariance += (strategyReturns[k] - strategyMean) * (benchmarkReturns[k] - benchmarkMean);
+    benchmarkVariance += Math.pow(benchmarkReturns[k] - benchmarkMean, 2);
+  }
+  covariance /= n - 1;
+  benchmarkVariance /= n - 1;
+  const beta = benchmarkVariance !== 0 ? covariance / benchmarkVariance : 0;
+  const alpha = (strategyMean - beta * benchmarkMean) * barsPerYear * 100;
+
+  const activeReturns = strategyReturns.map((ret, k) => ret - benchmarkReturns[k]);
+  const activeMean = mean(activeReturns);
+  const activeStdDev = Math.sqrt(activeReturns.reduce((sum, ret) => sum + Math.pow(ret - activeMean, 2), 0) / (n - 1));
+  const trackingError = activeStdDev * Math.sqrt(barsPerYear) * 100;
+  const informationRatio = activeStdDev !== 0 ? (activeMean / activeStdDev) * Math.sqrt(barsPerYear) : 0;
+
+  return { excessReturn, alpha, beta, trackingError, informationRatio };
+}
+
+/**
+ * Builds the benchmark section of a backtest result.
+ * @param symbol - Symbol of the benchmark.
+ * @param strategyCurve - The strategy's equity curve (portfolioHistory).
+ * @param benchmarkData - Bars of the benchmark symbol.
+ * @param initialCash - Initial portfolio value.
+ * @param barsPerYear - Number of bars per year, for annualization.
+ */
+export function createBenchmarkResult(
+  symbol: string,
+  strategyCurve: EquityPoint[],
+  benchmarkData: HistoricalDataPoint[],
+  initialCash: number,
+  barsPerYear: number
+): BenchmarkResult {
+  const equityCurve = buildBuyAndHoldCurve(strategyCurve.map(point => point.timestamp), benchmarkData, initialCash);
+  const finalValue = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].value : initialCash;
+  return {
+    symbol,
+    initialValue: initialCash,
+    finalValue,
+    returnPercentage: initialCash !== 0 ? (finalValue / initialCash - 1) * 100 : 0,
+    equityCurve,
+    ...calculateRelativePerformance(strategyCurve, equityCurve, barsPerYear),
+  };
+}
@@ -0,0 +1,273 @@
+// src/backtest/comparison.ts
+// Side-by-side comparison of backtest results: their equity curves are aligned on one timeline and rebased to 100 so
+// they can be drawn on shared axes, with drawdown curves, metrics over the compared period and a table of settings
+// that flags the ones that differ between runs.
+
+import type { EquityPoint } from './benchmark';
+import { AnalyticsFill, calculatePerformanceReport } from './analytics';
+import { inferBarsPerYear } from '../utils/intervals';
+
+// overlap: only the period covered by every run, each rebased to 100 at its start.
+// union: from the earliest start to the latest end, each run rebased to 100 at its own first point.
+export type ComparisonAlignment = 'overlap' | 'union';
+
+export interface ComparisonSettings {
+  alignment?: ComparisonAlignment; // Defaults to 'overlap'
+  maxPoints?: number;              // Points of the aligned curves in the response, DEFAULT_MAX_POINTS by default
+}
+
+// The parts of a BacktestResult (or PortfolioBacktestResult) the comparison reads; other fields are ignored
+export interface ComparisonResultInput {
+  portfolioHistory: EquityPoint[];
+  trades?: AnalyticsFill[];
+}
+
+export interface ComparisonRunInput {
+  label?: string;                     // Defaults to "Run <n>"
+  result: ComparisonResultInput;
+  settings?: Record<string, unknown>; // E.g. the backtest request; compared key by key
+}
+
+export interface ComparisonMetrics {
+  startTimestamp: number;
+  endTimestamp: number;
+  barsPerYear: number;              // Inferred from the run's own timestamps
+  totalReturn: number;              // Percent, over the compared period
+  cagr: number | null;              // Percent
+  annualizedVolatility: number;     // Percent
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;              // Percent
+  trades: number;                   // Fills in the compared period
+  roundTrips: number;
+  winRate: number;                  // Percent
+  profitFactor: number | null;
+}
+
+// One timestamp of the aligned timeline; arrays hold one value per run, null before a run's first point
+export interface ComparisonPoint {
+  timestamp: number;
+  equity: (number | null)[];   // Rebased to 100
+  drawdown: (number | null)[]; // Percent below the run's running peak, 0 or negative
+}
+
+export interface SettingComparisonRow {
+  key: string;         // Dot path, e.g. "strategyParams.fastPeriod"
+  values: unknown[];   // One per run, null where a run does not have the setting
+  differs: boolean;
+}
+
+export interface ComparisonResult {
+  labels: string[];
+  alignment: ComparisonAlignment;
+  startTimestamp: number;
+  endTimestamp: number;
+  points: ComparisonPoint[];       // At most maxPoints, evenly spread over the timeline
+  metrics: ComparisonMetrics[];    // One per run
+  settings: SettingComparisonRow[];
+}
+
+export const COMPARISON_ALIGNMENTS: ComparisonAlignment[] = ['overlap', 'union'];
+export const MIN_COMPARISON_RUNS = 2;
+export const MAX_COMPARISON_RUNS = 10;
+export const DEFAULT_MAX_POINTS = 1000;
+export const MAX_POINTS = 5000;
+
+const REBASE_VALUE = 100;
+
+/**
+ * Validates comparison settings received from an API payload.
+ * @param settings - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateComparisonSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'comparison must be an object.';
+  }
+  const { alignment, maxPoints } = settings as ComparisonSettings;
+  if (alignment !== undefined && !COMPARISON_ALIGNMENTS.includes(alignment)) {
+    return `comparison.alignment must be one of ${COMPARISON_ALIGNMENTS.join(', ')}.`;
+  }
+  if (maxPoints !== undefined && (typeof maxPoints !== 'number' || !Number.isInteger(maxPoints) || maxPoints < 2 || maxPoints > MAX_POINTS)) {
+    return `comparison.maxPoints must be an integer between 2 and ${MAX_POINTS}.`;
+  }
+  return null;
+}
+
+/**
+ * Validates the runs posted for comparison. With the overlap alignment, the runs' periods must overlap.
+ * @param runs - The value to validate.
+ * @param settings - The validated settings.
+ * @returns An error message if the comparison cannot run, otherwise null.
+ */
+export function validateComparisonRuns(runs: unknown, settings: ComparisonSettings = {}): string | null {
+  if (!Array.isArray(runs) || runs.length < MIN_COMPARISON_RUNS || runs.length > MAX_COMPARISON_RUNS) {
+    return `runs must be an array of ${MIN_COMPARISON_RUNS} to ${MAX_COMPARISON_RUNS} runs.`;
+  }
+  for (let k = 0; k < runs.length; k++) {
+    const run = runs[k] as ComparisonRunInput;
+    if (typeof run !== 'object' || run === null || Array.isArray(run)) {
+      return `runs[${k}] must be an object.`;
+    }
+    if (run.label !== undefined && typeof run.label !== 'string') {
+      return `runs[${k}].label must be a string.`;
+    }
+    if (run.settings !== undefined && (typeof run.settings !== 'object' || run.settings === null || Array.isArray(run.settings))) {
+      return `runs[${k}].settings must be an object.`;
+    }
+    const history = run.result?.portfolioHistory;
+    if (!Array.isArray(history) || history.length < 2 || history.some(point =>
+      typeof point !== 'object' || point === null || typeof point.timestamp !== 'number' || typeof point.value !== 'number' || !isFinite(point.value))) {
+      return `runs[${k}].result.portfolioHistory must be an array of at least 2 { timestamp, value } numbers.`;
+    }
+    if (history.some((point, index) => index > 0 && point.timestamp < history[index - 1].timestamp)) {
+      return `runs[${k}].result.portfolioHistory must be in chronological order.`;
+    }
+    if (run.result.trades !== undefined && !Array.isArray(run.result.trades)) {
+      return `runs[${k}].result.trades must be an array.`;
+    }
+  }
+  if ((settings.alignment ?? 'overlap') === 'overlap') {
+    const typedRuns = runs as ComparisonRunInput[];
+    const start = Math.max(...typedRuns.map(run => run.result.portfolioHistory[0].timestamp));
+    const end = Math.min(...typedRuns.map(run => run.result.portfolioHistory[run.result.portfolioHistory.length - 1].timestamp));
+    if (start >= end) {
+      return 'The runs do not cover a common period; use comparison.alignment "union" to compare them anyway.';
+    }
+  }
+  return null;
+}
+
+// Value of a curve at each timestamp: its last point at or before it, null before its first point
+function sampleCurve(history: EquityPoint[], timestamps: number[]): (number | null)[] {
+  let index = -1;
+  return timestamps.map(timestamp => {
+    while (index + 1 < history.length && history[index + 1].timestamp <= timestamp) index++;
+    return index >= 0 ? history[index].value : null;
+  });
+}
+
+// Rebases values to 100 at their first value; a base that is not positive cannot be rebased
+function rebase(values: (number | null)[]): (number | null)[] {
+  const base = values.find(value => value !== null);
+  if (base === undefined || base === null || base <= 0) return values.map(() => null);
+  return values.map(value => (value === null ? null : (value / base) * REBASE_VALUE));
+}
+
+function drawdowns(values: (number | null)[]): (number | null)[] {
+  let peak = -Infinity;
+  return values.map(value => {
+    if (value === null) return null;
+    peak = Math.max(peak, value);
+    return peak > 0 ? (value / peak - 1) * 100 : 0;
+  });
+}
+
+// Indices kept in the response: evenly spread over the timeline, always including the first and last
+function selectIndices(length: number, maxPoints: number): number[] {
+  if (length <= maxPoints) return Array.from({ length }, (_, k) => k);
+  return Array.from({ length: maxPoints }, (_, k) => Math.round((k * (length - 1)) / (maxPoints - 1)));
+}
+
+/**
+ * Flattens nested settings into dot paths. Arrays are leaves, compared as a whole.
+ */
+export function flattenSettings(settings: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.assign(flat, flattenSettings(value as Record<string, unknown>, path));
+    } else if (value !== undefined) {
+      flat[path] = value;
+    }
+  }
+  return flat;
+}
+
+function compareSettings(runs: ComparisonRunInput[]): SettingComparisonRow[] {
+  const flattened = runs.map(run => flattenSettings(run.settings ?? {}));
+  const keys: string[] = [];
+  for (const flat of flattened) {
+    for (const key of Object.keys(flat)) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys.map(key => {
+    const values = flattened.map(flat => (key in flat ? flat[key] : null));
+    const serialized = values.map(value => JSON.stringify(value));
+    return { key, values, differs: serialized.some(value => value !== serialized[0]) };
+  });
+}
+
+function calculateMetrics(run: ComparisonRunInput, start: number, end: number): ComparisonMetrics {
+  const history = run.result.portfolioHistory;
+  // The period starts at the run's last point at or before the compared start
+  const firstIndex = Math.max(0, history.findIndex(point => point.timestamp > start) - 1);
+  const period = history.slice(firstIndex).filter(point => point.timestamp <= end);
+  const curve = period.length > 0 ? period : [history[0]];
+  const periodStart = curve[0].timestamp;
+  const periodEnd = curve[curve.length - 1].timestamp;
+  const fills = (run.result.trades ?? []).filter(fill => fill.timestamp >= periodStart && fill.timestamp <= periodEnd);
+  const barsPerYear = inferBarsPerYear(history);
+  const report = calculatePerformanceReport(fills, curve, barsPerYear);
+
+  return {
+    startTimestamp: periodStart,
+    endTimestamp: periodEnd,
+    barsPerYear,
+    totalReturn: report.totalReturn,
+    cagr: report.cagr,
+    annualizedVolatility: report.annualizedVolatility,
+    sharpeRatio: report.sharpeRatio,
+    sortinoRatio: report.sortinoRatio,
+    maxDrawdown: report.maxDrawdown,
+    trades: fills.length,
+    roundTrips: report.roundTrips,
+    winRate: report.winRate,
+    profitFactor: report.profitFactor,
+  };
+}
+
+/**
+ * Compares backtest runs on one timeline. The timeline holds every timestamp of every run within the compared
+ * period, so runs of different intervals line up: a run without a point at a timestamp keeps its previous value.
+ * @param runs - Validated runs (see validateComparisonRuns).
+ * @param settings - Validated settings.
+ */
+export function compareBacktests(runs: ComparisonRunInput[], settings: ComparisonSettings = {}): ComparisonResult {
+  const alignment = settings.alignment ?? 'overlap';
+  const maxPoints = settings.maxPoints ?? DEFAULT_MAX_POINTS;
+  const histories = runs.map(run => run.result.portfolioHistory);
+  const firsts = histories.map(history => history[0].timestamp);
+  const lasts = histories.map(history => history[history.length - 1].timestamp);
+  const start = alignment === 'overlap' ? Math.max(...firsts) : Math.min(...firsts);
+  const end = alignment === 'overlap' ? Math.min(...lasts) : Math.max(...lasts);
+
+  const timestamps = Array.from(new Set(histories.flatMap(history => history.map(point => point.timestamp))))
+    .filter(timestamp => timestamp >= start && timestamp <= end)
+    .sort((a, b) => a - b);
+
+  // Drawdowns are measured on the full timeline, before it is thinned out for the response
+  const equity = histories.map(history => rebase(sampleCurve(history, timestamps)));
+  const drawdown = equity.map(drawdowns);
+
+  const points = selectIndices(timestamps.length, maxPoints).map(index => ({
+    timestamp: timestamps[index],
+    equity: equity.map(values => values[index]),
+    drawdown: drawdown.map(values => values[index]),
+  }));
+
+  return {
+    labels: runs.map((run, k) => run.label ?? `Run ${k + 1}`),
+    alignment,
+    startTimestamp: start,
+    endTimestamp: end,
+    points,
+    metrics: runs.map(run => calculateMetrics(run, start, end)),
+    settings: compareSettings(runs),
+  };
+}
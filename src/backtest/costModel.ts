@@ -0,0 +1,83 @@
+// src/backtest/costModel.ts
+// Transaction cost model used by runBacktest to turn a reference price (e.g. the bar close)
+// into an executed fill price plus the fees paid for the fill.
+
+export type OrderSide = 'BUY' | 'SELL';
+export type Liquidity = 'maker' | 'taker';
+
+export interface CostModelSettings {
+  fixedFeePerTrade?: number;  // Flat fee in quote currency charged on every fill
+  makerFeePercent?: number;   // Percentage of notional charged on maker (resting order) fills, e.g. 0.1 for 0.1%
+  takerFeePercent?: number;   // Percentage of notional charged on taker (market) fills
+  slippageBps?: number;       // Adverse price impact in basis points applied to taker fills
+  spreadBps?: number;         // Full bid/ask spread in basis points; taker fills pay half of it
+}
+
+export interface FillCosts {
+  fillPrice: number;  // Price actually obtained after slippage and spread
+  fees: number;       // Total fees paid for the fill (fixed + percentage)
+  slippage: number;   // Cost of the price difference vs. the reference price (always >= 0)
+}
+
+export interface CostModel {
+  settings: CostModelSettings;
+  applyCosts: (side: OrderSide, referencePrice: number, quantity: number, liquidity?: Liquidity) => FillCosts;
+}
+
+const COST_MODEL_FIELDS: Array<keyof CostModelSettings> = [
+  'fixedFeePerTrade',
+  'makerFeePercent',
+  'takerFeePercent',
+  'slippageBps',
+  'spreadBps',
+];
+
+/**
+ * Validates cost model settings received from an API payload or a JSON config.
+ * @param settings - The settings to validate (may be undefined).
+ * @returns An error message if the settings are invalid, otherwise null.
+ */
+export function validateCostModelSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'costModel must be an object.';
+  }
+  for (const field of COST_MODEL_FIELDS) {
+    const value = (settings as Record<string, unknown>)[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      return `costModel.${field} must be a non-negative number.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a cost model from settings. Missing settings default to zero, so an empty
+ * settings object reproduces the legacy behaviour of frictionless fills at the reference price.
+ *
+ * Slippage and spread only apply to taker fills: a maker fill rests on the book and is
+ * executed at its own limit price.
+ * @param settings - Fee and slippage configuration.
+ * @returns A CostModel whose applyCosts computes the fill price, fees and slippage of a fill.
+ */
+export function createCostModel(settings: CostModelSettings = {}): CostModel {
+  const fixedFee = settings.fixedFeePerTrade ?? 0;
+  const makerFeeRate = (settings.makerFeePercent ?? 0) / 100;
+  const takerFeeRate = (settings.takerFeePercent ?? 0) / 100;
+  const priceImpactRate = ((settings.slippageBps ?? 0) + (settings.spreadBps ?? 0) / 2) / 10000;
+
+  return {
+    settings,
+    applyCosts: (side: OrderSide, referencePrice: number, quantity: number, liquidity: Liquidity = 'taker'): FillCosts => {
+      const impact = liquidity === 'taker' ? priceImpactRate : 0;
+      const fillPrice = side === 'BUY' ? referencePrice * (1 + impact) : referencePrice * (1 - impact);
+      const feeRate = liquidity === 'maker' ? makerFeeRate : takerFeeRate;
+      const fees = quantity > 0 ? fixedFee + fillPrice * quantity * feeRate : 0;
+      const slippage = Math.abs(fillPrice - referencePrice) * quantity;
+      return { fillPrice, fees, slippage };
+    },
+  };
+}
@@ -0,0 +1,54 @@
+// src/backtest/executionTiming.ts
+// When market orders from strategy signals are executed relative to the bar the strategy saw.
+//
+// SAME_BAR_CLOSE: fill at the close of the signal bar (legacy behaviour; the strategy has already seen that close,
+//                 so this has look-ahead bias).
+// NEXT_BAR_OPEN:  fill at the open of the following bar.
+// NEXT_BAR_VWAP:  fill at the following bar's typical price (high + low + close) / 3, an approximation of its VWAP.
+// With the next-bar modes, a market signal on the final bar has no bar to fill on and is dropped (see BacktestResult).
+
+import type { HistoricalDataPoint } from '../services/dataService';
+
+export type ExecutionTiming = 'SAME_BAR_CLOSE' | 'NEXT_BAR_OPEN' | 'NEXT_BAR_VWAP';
+
+export const DEFAULT_EXECUTION_TIMING: ExecutionTiming = 'SAME_BAR_CLOSE';
+
+const EXECUTION_TIMINGS: ExecutionTiming[] = ['SAME_BAR_CLOSE', 'NEXT_BAR_OPEN', 'NEXT_BAR_VWAP'];
+
+/**
+ * Validates an execution timing received from an API payload or a JSON config.
+ * @param timing - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateExecutionTiming(timing: unknown): string | null {
+  if (timing === undefined || timing === null) {
+    return null;
+  }
+  if (!EXECUTION_TIMINGS.includes(timing as ExecutionTiming)) {
+    return `executionTiming must be one of ${EXECUTION_TIMINGS.join(', ')}.`;
+  }
+  return null;
+}
+
+/**
+ * Whether market orders are deferred to the bar after the signal.
+ */
+export function isNextBarExecution(timing: ExecutionTiming): boolean {
+  return timing !== 'SAME_BAR_CLOSE';
+}
+
+/**
+ * Reference price of a market order on the bar it is executed on.
+ * @param timing - The execution timing.
+ * @param bar - The execution bar (the signal bar for SAME_BAR_CLOSE, the following bar otherwise).
+ */
+export function getExecutionPrice(timing: ExecutionTiming, bar: Pick<HistoricalDataPoint, 'open' | 'high' | 'low' | 'close'>): number {
+  switch (timing) {
+    case 'NEXT_BAR_OPEN':
+      return bar.open;
+    case 'NEXT_BAR_VWAP':
+      return (bar.high + bar.low + bar.close) / 3;
+    default:
+      return bar.close;
+  }
+}
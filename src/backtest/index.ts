@@ -7,18 +7,67 @@ import {
   StrategyParameterDefinition,
   AIDecision // Import the new AIDecision interface
 } from '../strategies';
+import { createCostModel, CostModelSettings, Liquidity, OrderSide } from './costModel';
+import {
+  MarginSettings,
+  resolveMarginSettings,
+  calculateBorrowInterest,
+  isWithinLeverageCap,
+  isBelowMaintenanceMargin,
+} from './margin';
+import {
+  ActiveProtectiveOrders,
+  ProtectiveExitReason,
+  ProtectiveOrderFields,
+  validateProtectiveOrders,
+  createProtectiveOrders,
+  checkProtectiveOrders,
+  updateTrailingStop,
+} from './protectiveOrders';
+import {
+  PendingOrder,
+  OrderEvent,
+  OrderEventType,
+  validateOrderSignal,
+  validateLadderOrder,
+  createPendingOrder,
+  isOrderExpired,
+  checkOrderFill,
+} from './orderBook';
+import {
+  ExecutionTiming,
+  DEFAULT_EXECUTION_TIMING,
+  isNextBarExecution,
+  getExecutionPrice,
+} from './executionTiming';
+import {
+  PositionSizingSettings,
+  DEFAULT_ATR_PERIOD,
+  sizeSignalOrder,
+} from './positionSizing';
+import { BenchmarkResult, createBenchmarkResult } from './benchmark';
+import { PerformanceReport, calculatePerformanceReport } from './analytics';
+import { LotMatchingMethod, RoundTripTrade, buildRoundTrips } from './lotMatching';
+import { applyFillToAverageCost } from './averageCost';
+import { getBarsPerYear } from '../utils/intervals';
+import { calculateATR } from '../utils/technicalIndicators';
 
 // --- 1. Define Interfaces & Types (Local to backtest, some might be deprecated by strategy.types.ts) ---
 
 // export type StrategyAction = 'BUY' | 'SELL' | 'HOLD'; // Now from ../strategies
 
 export interface Portfolio {
-  cash: number;
-  shares: number;
+  cash: number;     // Can be negative in margin mode (borrowed cash)
+  shares: number;   // Negative for a short position in margin mode
   initialValue: number;
   currentValue: number;
+  averageEntryPrice?: number; // Average fill price of the open position, fees excluded (see averageCost.ts); 0 when flat
 }
 
+// SIGNAL: executed from a strategy signal. LIQUIDATION: forced close after a maintenance margin breach.
+// STOP_LOSS / TAKE_PROFIT / TRAILING_STOP: exit triggered by a protective order attached to the entry signal.
+export type TradeType = 'SIGNAL' | 'LIQUIDATION' | ProtectiveExitReason;
+
 export interface Trade {
   timestamp: number; // Unix epoch seconds
   date: Date;        // Actual date of the trade
@@ -26,6 +75,10 @@ export interface Trade {
   price: number;     // Price per share at which the trade was executed
   sharesTraded: number; 
   cashAfterTrade: number;
+  fees: number;      // Commission paid for this fill (fixed + percentage)
+  slippage: number;  // Cost of slippage/spread relative to the bar price
+  tradeType: TradeType;
+  orderId?: string;  // Set when the trade filled a resting limit/stop order (see orderHistory)
 }
 
 // StrategyInput and StrategyOutput are effectively replaced by StrategyContext and StrategySignal
@@ -56,8 +109,44 @@ export interface BacktestResult {
   aiDecisionLog?: AIDecision[]; // Add the AI decision log
   sharpeRatio?: number; // Added for Sharpe Ratio
   maxDrawdown?: number; // Added for Maximum Drawdown
+  totalFees: number;
+  totalSlippage: number;
+  totalTransactionCosts: number; // totalFees + totalSlippage
+  totalBorrowInterest?: number; // Interest accrued on margin borrowing (margin mode only)
+  liquidations?: number; // Number of LIQUIDATION trades (margin mode only)
+  orderHistory?: OrderEvent[]; // Placements, cancels, expiries and fills of resting limit/stop orders
+  executionTiming: ExecutionTiming; // When market orders were filled relative to their signal bar
+  droppedFinalBarSignal?: StrategySignal; // Market signal on the last bar that had no next bar to fill on
+  benchmark?: BenchmarkResult; // Buy-and-hold of the symbol (or options.benchmarkSymbol) and relative performance
+  analytics?: PerformanceReport; // Return, risk and trade statistics (see analytics.ts)
+  roundTrips?: RoundTripTrade[]; // Closed positions matched from the fills (see lotMatching.ts)
+}
+
+// Optional engine settings that do not change the strategy itself
+export interface BacktestOptions {
+  costModel?: CostModelSettings;
+  margin?: MarginSettings; // Opt-in short selling and leverage
+  executionTiming?: ExecutionTiming; // Defaults to SAME_BAR_CLOSE
+  positionSizing?: PositionSizingSettings; // Used for signals without an amount
+  benchmarkSymbol?: string; // Buy-and-hold benchmark symbol; defaults to the backtested symbol
+  lotMatching?: LotMatchingMethod; // How exits are matched to entries in roundTrips; defaults to FIFO
+  onProgress?: BacktestProgressListener; // Called as bars are processed, every totalBars / BACKTEST_PROGRESS_UPDATES bars and after the last bar
+  signal?: AbortSignal; // Aborting stops the run before the next bar; runBacktest then rejects with the signal's reason
 }
 
+// What happened since the previous report, so a listener can show the run as it goes
+export interface BacktestProgress {
+  barsProcessed: number;
+  totalBars: number;
+  portfolioHistory: { timestamp: number; value: number }[]; // Equity points added since the previous report
+  trades: Trade[]; // Trades made since the previous report
+}
+
+// Awaited by the engine, so a listener can return a promise to yield to the event loop (e.g. to serve status requests)
+export type BacktestProgressListener = (progress: BacktestProgress) => void | Promise<void>;
+
+export const BACKTEST_PROGRESS_UPDATES = 100;
+
 
 // --- 2. Implement a Simple Example Strategy ---
 
@@ -91,7 +180,7 @@ export const adaptedSimpleThresholdStrategy: TradingStrategy = {
   },
 };
 
-import { getStrategy } from '../strategies'; // Import the strategy manager function
+import { createStrategy, disposeStrategy } from '../strategies'; // Import the strategy manager functions
 
 // --- 2. Implement a Simple Example Strategy (Adapted to new TradingStrategy interface) ---
 // The adaptedSimpleThresholdStrategy is now in src/strategies/implementations/ and registered via strategyManager.ts
@@ -105,6 +194,18 @@ import { getStrategy } from '../strategies'; // Import the strategy manager func
 
 // --- 3. Implement Core runBacktest Function ---
 
+/**
+ * Checks that a strategy can run in a single-symbol backtest. Strategies with executePortfolio trade several symbols
+ * together, e.g. the two legs of a pair, and only run in a portfolio backtest.
+ * @returns An error message if the strategy needs a portfolio backtest, otherwise null.
+ */
+export function validateSingleSymbolStrategy(strategy: Pick<TradingStrategy, 'id' | 'executePortfolio'>): string | null {
+  if (strategy.executePortfolio) {
+    return `Strategy '${strategy.id}' trades several symbols together and only runs in a portfolio backtest (POST /api/backtest/portfolio, or symbols in a JSON config).`;
+  }
+  return null;
+}
+
 export async function runBacktest(
   symbol: string,
   startDate: Date,
@@ -113,10 +214,12 @@ export async function runBacktest(
   strategyId: string, 
   strategyParams: Record<string, number | string | boolean>,
   sourceApi?: string, 
-  interval?: string   
+  interval?: string,
+  options: BacktestOptions = {}
 ): Promise<BacktestResult> {
   
-  const selectedStrategy = getStrategy(strategyId); // Use the strategy manager
+  const executionTiming = options.executionTiming ?? DEFAULT_EXECUTION_TIMING;
+  const selectedStrategy = createStrategy(strategyId); // A new instance, so concurrent runs do not share strategy state
 
   if (!selectedStrategy) {
     logger.error(`Strategy with ID '${strategyId}' not found. Aborting backtest.`);
@@ -132,8 +235,37 @@ export async function runBacktest(
       trades: [],
       totalTrades: 0,
       dataPointsProcessed: 0,
+      totalFees: 0,
+      totalSlippage: 0,
+      totalTransactionCosts: 0,
+      executionTiming,
     };
   }
+
+  try {
+    const strategyError = validateSingleSymbolStrategy(selectedStrategy);
+    if (strategyError) {
+      throw new Error(strategyError);
+    }
+    return await runBacktestWithStrategy(selectedStrategy, symbol, startDate, endDate, initialCash, strategyParams, sourceApi, interval, options);
+  } finally {
+    await disposeStrategy(selectedStrategy);
+  }
+}
+
+// The body of runBacktest, for a strategy instance owned by the run
+async function runBacktestWithStrategy(
+  selectedStrategy: TradingStrategy,
+  symbol: string,
+  startDate: Date,
+  endDate: Date,
+  initialCash: number,
+  strategyParams: Record<string, number | string | boolean>,
+  sourceApi: string | undefined,
+  interval: string | undefined,
+  options: BacktestOptions
+): Promise<BacktestResult> {
+  const executionTiming = options.executionTiming ?? DEFAULT_EXECUTION_TIMING;
   
   // Validate and merge provided strategyParams with defaults from selectedStrategy.parameters
   // For simplicity in this step, we'll directly use strategyParams, assuming they are complete and correct.
@@ -155,7 +287,13 @@ export async function runBacktest(
     strategyName: selectedStrategy.name,
     strategyParams: effectiveStrategyParams,
     sourceApi, 
-    interval 
+    interval,
+    costModel: options.costModel,
+    margin: options.margin,
+    executionTiming,
+    positionSizing: options.positionSizing,
+    benchmarkSymbol: options.benchmarkSymbol,
+    lotMatching: options.lotMatching,
   });
 
   const portfolio: Portfolio = {
@@ -163,9 +301,17 @@ export async function runBacktest(
     shares: 0,
     initialValue: initialCash,
     currentValue: initialCash,
+    averageEntryPrice: 0,
   };
 
   const tradeHistory: Trade[] = [];
+  const costModel = createCostModel(options.costModel);
+  const marginSettings = resolveMarginSettings(options.margin);
+  const barsPerYear = getBarsPerYear(interval);
+  let totalFees = 0;
+  let totalSlippage = 0;
+  let totalBorrowInterest = 0;
+  let liquidations = 0;
   const aiDecisionLog: AIDecision[] = []; // Initialize AI decision log
 
   const historicalData = await fetchHistoricalDataFromDB(symbol, startDate, endDate, sourceApi, interval);
@@ -183,10 +329,157 @@ export async function runBacktest(
       trades: [],
       totalTrades: 0,
       dataPointsProcessed: 0,
+      totalFees: 0,
+      totalSlippage: 0,
+      totalTransactionCosts: 0,
+      executionTiming,
     };
   }
 
   logger.info(`Processing ${historicalData.length} data points for backtest using strategy: ${selectedStrategy.name}...`);
+
+  // Executes an order against the portfolio. Without margin, BUY needs enough cash for price + fees
+  // and SELL needs enough shares. In margin mode, any order is accepted as long as the resulting position
+  // stays within the leverage cap (or only reduces the current position). Liquidations bypass all checks.
+  // Returns the recorded trade, or null if the order was rejected.
+  const executeOrder = (
+    side: OrderSide,
+    quantity: number,
+    referencePrice: number,
+    barIndex: number,
+    tradeType: TradeType,
+    liquidity: Liquidity = 'taker',
+    orderId?: string
+  ): Trade | null => {
+    const bar = historicalData[barIndex];
+    const { fillPrice, fees, slippage } = costModel.applyCosts(side, referencePrice, quantity, liquidity);
+    const cashChange = side === 'BUY' ? -(fillPrice * quantity + fees) : fillPrice * quantity - fees;
+    const sharesChange = side === 'BUY' ? quantity : -quantity;
+
+    if (tradeType !== 'LIQUIDATION') {
+      if (marginSettings) {
+        const after = { cash: portfolio.cash + cashChange, shares: portfolio.shares + sharesChange };
+        if (!isWithinLeverageCap(portfolio, after, referencePrice, marginSettings.maxLeverage)) {
+          logger.debug(`Attempted ${side} for ${symbol} at ${referencePrice} via ${selectedStrategy.name}, but it would exceed the ${marginSettings.maxLeverage}x leverage cap.`, { portfolio });
+          return null;
+        }
+      } else if (side === 'BUY' && portfolio.cash < -cashChange) {
+        logger.debug(`Attempted BUY for ${symbol} at ${referencePrice} via ${selectedStrategy.name}, but insufficient cash. Needed ${-cashChange}, have ${portfolio.cash}.`, { portfolio });
+        return null;
+      } else if (side === 'SELL' && portfolio.shares < quantity) {
+        logger.debug(`Attempted SELL for ${symbol} at ${referencePrice} via ${selectedStrategy.name}, but insufficient shares. Have ${portfolio.shares}, tried to sell ${quantity}.`, { portfolio });
+        return null;
+      }
+    }
+
+    portfolio.averageEntryPrice = applyFillToAverageCost(
+      { quantity: portfolio.shares, averagePrice: portfolio.averageEntryPrice ?? 0 },
+      side,
+      quantity,
+      fillPrice
+    ).averagePrice;
+    portfolio.cash += cashChange;
+    portfolio.shares += sharesChange;
+    totalFees += fees;
+    totalSlippage += slippage;
+    const trade: Trade = {
+      timestamp: bar.timestamp,
+      date: bar.date,
+      action: side,
+      price: fillPrice,
+      sharesTraded: quantity,
+      cashAfterTrade: portfolio.cash,
+      fees,
+      slippage,
+      tradeType,
+      orderId,
+    };
+    tradeHistory.push(trade);
+    logger.debug(`${tradeType !== 'SIGNAL' ? `${tradeType} ` : ''}${side}: ${quantity} shares of ${symbol} at ${fillPrice} on ${bar.date.toISOString()} via ${selectedStrategy.name}`, { portfolio, fees, slippage });
+    return trade;
+  };
+
+  let protectiveOrders: ActiveProtectiveOrders | null = null; // Exits attached to the current position's entry
+  let protectiveOrdersArmedAt = -1; // Bar index on which protectiveOrders were armed; they are checked from the next bar
+
+  // Builds the protective orders carried by an entry (a fill that opened or added to a position in its direction).
+  // Returns null if the fill was not an entry or carried no valid levels.
+  const armProtectiveOrders = (levels: ProtectiveOrderFields, side: OrderSide, trade: Trade, barIndex: number): ActiveProtectiveOrders | null => {
+    const direction = portfolio.shares > 0 ? 'LONG' : portfolio.shares < 0 ? 'SHORT' : null;
+    const isEntry = (direction === 'LONG' && side === 'BUY') || (direction === 'SHORT' && side === 'SELL');
+    if (!direction || !isEntry) return null;
+    const protectiveOrdersError = validateProtectiveOrders(levels);
+    if (protectiveOrdersError) {
+      logger.warn(`Ignoring protective orders from ${selectedStrategy.name} on ${historicalData[barIndex].date.toISOString()}: ${protectiveOrdersError}`);
+      return null;
+    }
+    return createProtectiveOrders(levels, direction, trade.price);
+  };
+
+  // Protective orders only live as long as the position they protect
+  const dropStaleProtectiveOrders = (): void => {
+    if (protectiveOrders && Math.sign(portfolio.shares) !== (protectiveOrders.direction === 'LONG' ? 1 : -1)) {
+      protectiveOrders = null;
+    }
+  };
+
+  const positionSizing = options.positionSizing;
+  let atrValues: number[] | null = null; // Computed on first use
+
+  // Sizes the order of a BUY/SELL signal at an expected fill price (see sizeSignalOrder in positionSizing.ts)
+  const sizeOrder = (signal: StrategySignal, side: OrderSide, price: number, barIndex: number): number =>
+    sizeSignalOrder(signal, side, positionSizing, {
+      price,
+      position: portfolio.shares,
+      equity: portfolio.cash + portfolio.shares * price,
+      barsPerYear,
+      getAtr: () => {
+        if (!atrValues) {
+          atrValues = calculateATR(
+            historicalData.map(d => d.high),
+            historicalData.map(d => d.low),
+            historicalData.map(d => d.close),
+            positionSizing?.atrPeriod ?? DEFAULT_ATR_PERIOD
+          );
+        }
+        return atrValues[barIndex];
+      },
+    });
+
+  // Market signal waiting for the next bar when executionTiming is NEXT_BAR_OPEN or NEXT_BAR_VWAP
+  let queuedMarketSignal: { signal: StrategySignal; side: OrderSide; quantity: number } | null = null;
+  let droppedFinalBarSignal: StrategySignal | undefined;
+
+  let openOrders: PendingOrder[] = []; // Resting limit/stop orders
+  const orderHistory: OrderEvent[] = [];
+  let orderCounter = 0;
+
+  // Adds a LIMIT or STOP order to the order book, unless an open order already has its id
+  const placeRestingOrder = (signal: StrategySignal, quantity: number, barIndex: number): void => {
+    const orderId = signal.orderId ?? `ORD-${++orderCounter}`;
+    if (openOrders.some(order => order.id === orderId)) {
+      logger.warn(`Ignoring ${signal.orderType} order from ${selectedStrategy.name}: an open order with id '${orderId}' already exists.`);
+      return;
+    }
+    const order = createPendingOrder(signal, orderId, quantity, historicalData[barIndex], barIndex);
+    openOrders.push(order);
+    recordOrderEvent(order, 'PLACED', barIndex, { price: order.limitPrice ?? order.stopPrice });
+  };
+
+  const recordOrderEvent = (order: PendingOrder, event: OrderEventType, barIndex: number, details: { price?: number; reason?: string } = {}): void => {
+    const bar = historicalData[barIndex];
+    orderHistory.push({
+      orderId: order.id,
+      event,
+      timestamp: bar.timestamp,
+      date: bar.date,
+      side: order.side,
+      orderType: order.type,
+      quantity: order.quantity,
+      ...details,
+    });
+    logger.debug(`Order ${order.id} (${order.type} ${order.side} ${order.quantity}) ${event} on ${bar.date.toISOString()}`, details);
+  };
   
   const portfolioHistoryTimeline: { timestamp: number; value: number }[] = []; // For equity curve
   let peakPortfolioValue = initialCash;
@@ -201,7 +494,30 @@ export async function runBacktest(
   }
 
 
+  const progressStep = Math.max(1, Math.ceil(historicalData.length / BACKTEST_PROGRESS_UPDATES));
+  let reportedHistoryLength = 0;
+  let reportedTradeCount = 0;
+  const reportProgress = async (barsProcessed: number) => {
+    if (!options.onProgress) return;
+    const progress: BacktestProgress = {
+      barsProcessed,
+      totalBars: historicalData.length,
+      portfolioHistory: portfolioHistoryTimeline.slice(reportedHistoryLength),
+      trades: tradeHistory.slice(reportedTradeCount),
+    };
+    reportedHistoryLength = portfolioHistoryTimeline.length;
+    reportedTradeCount = tradeHistory.length;
+    await options.onProgress(progress);
+  };
+
+  await selectedStrategy.init?.({ symbols: [symbol], parameters: effectiveStrategyParams });
+
   for (let i = 0; i < historicalData.length; i++) {
+    options.signal?.throwIfAborted();
+    if (i > 0 && i % progressStep === 0) {
+      await reportProgress(i);
+    }
+
     // Record portfolio value at the START of the period (before current data point is processed)
     // or after, depending on when you want to reflect the value.
     // Let's record it *before* processing the current day's signal and potential trade,
@@ -209,6 +525,79 @@ export async function runBacktest(
     // So, at the beginning of the loop, using previous day's close for shares value if i > 0
     // or initial value if i === 0.
     // Simpler: record after current day's processing.
+
+    if (marginSettings) {
+      // Borrow interest for carrying the position from the previous bar into this one
+      if (i > 0) {
+        const interest = calculateBorrowInterest(portfolio, historicalData[i - 1].close, marginSettings.borrowRatePercentAnnual, barsPerYear);
+        portfolio.cash -= interest;
+        totalBorrowInterest += interest;
+      }
+    }
+
+    // Market signal from the previous bar (next-bar execution modes)
+    if (queuedMarketSignal) {
+      const { signal, side, quantity } = queuedMarketSignal;
+      queuedMarketSignal = null;
+      const trade = executeOrder(side, quantity, getExecutionPrice(executionTiming, historicalData[i]), i, 'SIGNAL');
+      const armed = trade ? armProtectiveOrders(signal, side, trade, i) : null;
+      if (armed) {
+        protectiveOrders = armed;
+        protectiveOrdersArmedAt = i;
+      }
+      // A fill that closed or flipped the position must not let the old exits fire on this bar
+      dropStaleProtectiveOrders();
+    }
+
+    // Protective exits trigger intrabar, so they are evaluated before anything that happens at the close
+    if (protectiveOrders && protectiveOrdersArmedAt < i) {
+      const exit = checkProtectiveOrders(protectiveOrders, historicalData[i]);
+      if (exit) {
+        // A take-profit is a resting limit order (maker); stops become market orders (taker)
+        executeOrder(protectiveOrders.direction === 'LONG' ? 'SELL' : 'BUY', Math.abs(portfolio.shares), exit.price, i, exit.reason, exit.reason === 'TAKE_PROFIT' ? 'maker' : 'taker');
+        protectiveOrders = null;
+      } else {
+        updateTrailingStop(protectiveOrders, historicalData[i]);
+      }
+    }
+
+    // Resting orders placed on earlier bars
+    if (openOrders.length > 0) {
+      const stillOpen: PendingOrder[] = [];
+      for (const order of openOrders) {
+        if (isOrderExpired(order, historicalData[i], i, historicalData[order.placedAtIndex + 1])) {
+          recordOrderEvent(order, 'EXPIRED', i, { reason: `timeInForce ${order.timeInForce}` });
+          continue;
+        }
+        const fillPrice = checkOrderFill(order, historicalData[i]);
+        if (fillPrice === null) {
+          stillOpen.push(order);
+          continue;
+        }
+        const trade = executeOrder(order.side, order.quantity, fillPrice, i, 'SIGNAL', order.type === 'LIMIT' ? 'maker' : 'taker', order.id);
+        if (trade) {
+          recordOrderEvent(order, 'FILLED', i, { price: trade.price });
+          // New levels replace the current ones; an entry without levels keeps those already armed
+          const armed = armProtectiveOrders(order, order.side, trade, i);
+          if (armed) {
+            protectiveOrders = armed;
+            protectiveOrdersArmedAt = i;
+          }
+        } else {
+          recordOrderEvent(order, 'REJECTED', i, { reason: 'Insufficient cash, shares or margin at fill time.' });
+        }
+      }
+      openOrders = stillOpen;
+    }
+
+    if (marginSettings) {
+      // Forced liquidation is evaluated at this bar's close, before the strategy sees the bar
+      if (isBelowMaintenanceMargin(portfolio, historicalData[i].close, marginSettings.maintenanceMarginPercent)) {
+        logger.warn(`Maintenance margin breached for ${symbol} on ${historicalData[i].date.toISOString()}. Liquidating ${portfolio.shares} shares.`);
+        executeOrder(portfolio.shares > 0 ? 'SELL' : 'BUY', Math.abs(portfolio.shares), historicalData[i].close, i, 'LIQUIDATION');
+        liquidations++;
+      }
+    }
     
     const context: StrategyContext<Record<string, any>> = { // Explicitly use generic
       symbol: symbol, // Added
@@ -217,52 +606,68 @@ export async function runBacktest(
       portfolio: { ...portfolio }, // Pass a copy to prevent direct modification by strategy
       tradeHistory: [...tradeHistory], // Pass a copy
       parameters: effectiveStrategyParams,
+      openOrders: openOrders.map(order => ({ ...order })), // Pass copies
     };
 
     const signal = await Promise.resolve(selectedStrategy.execute(context)); // Handle sync/async strategies
     
-    // Default to trading 1 share if signal.amount is not specified or is zero/negative
-    // This logic could also be strategy-specific or part of portfolio management.
-    const sharesToTrade = (signal.amount && signal.amount > 0) ? signal.amount : 1;
-    const currentPrice = historicalData[i].close; // Assume trades execute at the closing price of the current period
-
-    if (signal.action === 'BUY') {
-      const cost = currentPrice * sharesToTrade;
-      if (portfolio.cash >= cost) {
-        portfolio.cash -= cost;
-        portfolio.shares += sharesToTrade;
-        const trade: Trade = {
-          timestamp: historicalData[i].timestamp,
-          date: historicalData[i].date,
-          action: 'BUY',
-          price: currentPrice,
-          sharesTraded: sharesToTrade,
-          cashAfterTrade: portfolio.cash,
-        };
-        tradeHistory.push(trade);
-        logger.debug(`BUY: ${sharesToTrade} shares of ${symbol} at ${currentPrice} on ${historicalData[i].date.toISOString()} via ${selectedStrategy.name}`, { portfolio });
+    const currentPrice = historicalData[i].close; // Used to mark the portfolio at the end of the period
+
+    if (signal.cancelOrders) {
+      const idsToCancel = signal.cancelOrders;
+      openOrders = openOrders.filter(order => {
+        if (idsToCancel !== 'ALL' && !idsToCancel.includes(order.id)) return true;
+        recordOrderEvent(order, 'CANCELLED', i, { reason: 'Cancelled by strategy.' });
+        return false;
+      });
+    }
+
+    if (signal.action === 'BUY' || signal.action === 'SELL') {
+      const orderError = validateOrderSignal(signal);
+      // Resting orders are sized at their own price; market orders at this bar's close
+      const sizingPrice = signal.orderType === 'LIMIT' ? signal.limitPrice : signal.orderType === 'STOP' ? signal.stopPrice : currentPrice;
+      const sharesToTrade = orderError ? 0 : sizeOrder(signal, signal.action, sizingPrice as number, i);
+      if (orderError) {
+        logger.warn(`Ignoring ${signal.action} signal from ${selectedStrategy.name} on ${historicalData[i].date.toISOString()}: ${orderError}`);
+      } else if (!(sharesToTrade > 0)) {
+        logger.debug(`Ignoring ${signal.action} signal from ${selectedStrategy.name} on ${historicalData[i].date.toISOString()}: position sizing returned no quantity.`, { signal, positionSizing });
+      } else if (signal.orderType === 'LIMIT' || signal.orderType === 'STOP') {
+        placeRestingOrder(signal, sharesToTrade, i);
+      } else if (isNextBarExecution(executionTiming)) {
+        if (i < historicalData.length - 1) {
+          queuedMarketSignal = { signal, side: signal.action, quantity: sharesToTrade };
+        } else {
+          droppedFinalBarSignal = signal;
+          logger.info(`${signal.action} signal from ${selectedStrategy.name} on the final bar (${historicalData[i].date.toISOString()}) was not executed: ${executionTiming} needs a following bar.`);
+        }
       } else {
-        logger.debug(`Attempted BUY for ${symbol} at ${currentPrice} via ${selectedStrategy.name}, but insufficient cash. Needed ${cost}, have ${portfolio.cash}.`, { portfolio });
+        const trade = executeOrder(signal.action, sharesToTrade, getExecutionPrice(executionTiming, historicalData[i]), i, 'SIGNAL');
+        const armed = trade ? armProtectiveOrders(signal, signal.action, trade, i) : null;
+        if (armed) {
+          protectiveOrders = armed;
+          protectiveOrdersArmedAt = i;
+        }
       }
-    } else if (signal.action === 'SELL') {
-      if (portfolio.shares >= sharesToTrade) {
-        portfolio.cash += currentPrice * sharesToTrade;
-        portfolio.shares -= sharesToTrade;
-        const trade: Trade = {
-          timestamp: historicalData[i].timestamp,
-          date: historicalData[i].date,
-          action: 'SELL',
-          price: currentPrice,
-          sharesTraded: sharesToTrade,
-          cashAfterTrade: portfolio.cash,
-        };
-        tradeHistory.push(trade);
-        logger.debug(`SELL: ${sharesToTrade} shares of ${symbol} at ${currentPrice} on ${historicalData[i].date.toISOString()} via ${selectedStrategy.name}`, { portfolio });
-      } else {
-        logger.debug(`Attempted SELL for ${symbol} at ${currentPrice} via ${selectedStrategy.name}, but insufficient shares. Have ${portfolio.shares}, tried to sell ${sharesToTrade}.`, { portfolio });
+    }
+    // For 'HOLD', no action is taken on the portfolio (other than cancelling and placing resting orders).
+
+    // A ladder of resting orders, each sized at its own price
+    for (const ladderOrder of signal.orders ?? []) {
+      const ladderOrderError = validateLadderOrder(ladderOrder);
+      if (ladderOrderError) {
+        logger.warn(`Ignoring ladder order from ${selectedStrategy.name} on ${historicalData[i].date.toISOString()}: ${ladderOrderError}`);
+        continue;
+      }
+      const orderPrice = (ladderOrder.orderType === 'LIMIT' ? ladderOrder.limitPrice : ladderOrder.stopPrice) as number;
+      const quantity = sizeOrder(ladderOrder, ladderOrder.action, orderPrice, i);
+      if (!(quantity > 0)) {
+        logger.debug(`Ignoring ladder order from ${selectedStrategy.name} on ${historicalData[i].date.toISOString()}: position sizing returned no quantity.`, { ladderOrder, positionSizing });
+        continue;
       }
+      placeRestingOrder(ladderOrder, quantity, i);
     }
-    // For 'HOLD', no action is taken on the portfolio.
+
+    dropStaleProtectiveOrders();
 
     // Update current portfolio value after any potential trade
     portfolio.currentValue = portfolio.cash + portfolio.shares * currentPrice;
@@ -278,69 +683,41 @@ export async function runBacktest(
     portfolioHistoryTimeline.push({ timestamp: historicalData[i].timestamp, value: portfolio.currentValue });
 
 
-    // Collect AI Decision Log if applicable
-    if (selectedStrategy.id === 'ai-selector' && (selectedStrategy as any).lastAIDecision) {
-        const decisionToLog = (selectedStrategy as any).lastAIDecision as AIDecision;
-        // Ensure the decision timestamp matches the current bar's timestamp for consistency in the log
-        if (decisionToLog.timestamp === historicalData[i].timestamp) {
-            aiDecisionLog.push({ ...decisionToLog });
-        } else {
-            // This case might occur if AI selector's execute doesn't make a decision for every bar
-            // or if its internal timestamping logic differs. Log with a warning or adjust as needed.
-            logger.debug(`[runBacktest] AI decision timestamp mismatch. Logged decision for ${new Date(decisionToLog.timestamp).toISOString()} at bar ${new Date(historicalData[i].timestamp).toISOString()}`);
-            aiDecisionLog.push({ 
-                ...decisionToLog, 
-                // Override timestamp/date to match current processing point if strictly desired,
-                // but original timestamp from decision is usually more accurate to when decision was made.
-                // For now, keep original decision timestamp.
-            });
-        }
-        // Reset for next potential decision by AI selector on a subsequent bar
-        (selectedStrategy as any).lastAIDecision = null; 
+    // Collect the AI decision of this bar, from strategies that make one (the AI selector)
+    const aiDecision = selectedStrategy.getAIDecision?.();
+    if (aiDecision) {
+        aiDecisionLog.push({ ...aiDecision });
     }
   }
 
+  options.signal?.throwIfAborted();
+  await reportProgress(historicalData.length);
+  await selectedStrategy.onFinish?.({ symbols: [symbol], parameters: effectiveStrategyParams });
+
+  // Orders still resting when the data runs out never got a chance to fill
+  for (const order of openOrders) {
+    recordOrderEvent(order, 'CANCELLED', historicalData.length - 1, { reason: 'End of backtest data.' });
+  }
+
   const finalPortfolioValue = portfolio.currentValue;
   const totalProfitOrLoss = finalPortfolioValue - portfolio.initialValue;
   const profitOrLossPercentage = portfolio.initialValue === 0 
     ? (totalProfitOrLoss === 0 ? 0 : Infinity) 
     : (totalProfitOrLoss / portfolio.initialValue) * 100;
 
-  // Calculate Sharpe Ratio
-  let sharpeRatio: number | undefined = undefined;
-  if (portfolioHistoryTimeline && portfolioHistoryTimeline.length >= 2) {
-    const periodReturns: number[] = [];
-    for (let k = 1; k < portfolioHistoryTimeline.length; k++) {
-      const prevValue = portfolioHistoryTimeline[k-1].value;
-      const currentValue = portfolioHistoryTimeline[k].value;
-      if (prevValue !== 0) {
-        periodReturns.push((currentValue - prevValue) / prevValue);
-      } else {
-        periodReturns.push(0); // Or handle as appropriate, e.g., if value can go to 0 and recover
-      }
-    }
-
-    if (periodReturns.length > 1) {
-      const averageReturn = periodReturns.reduce((sum, ret) => sum + ret, 0) / periodReturns.length;
-      const stdDevReturns = Math.sqrt(
-        periodReturns.map(ret => Math.pow(ret - averageReturn, 2)).reduce((sum, sq) => sum + sq, 0) / (periodReturns.length -1) // Use n-1 for sample std dev
-      );
-
-      if (stdDevReturns !== 0) {
-        const riskFreeRate = 0; // Assuming Rf = 0 for simplicity
-        const sharpeRatioPeriod = (averageReturn - riskFreeRate) / stdDevReturns;
-        // Annualize Sharpe Ratio, assuming daily data if not specified otherwise (N=252)
-        // A more robust solution would determine N based on data interval
-        const annualizationFactor = Math.sqrt(252);
-        sharpeRatio = sharpeRatioPeriod * annualizationFactor;
-      } else {
-        sharpeRatio = 0; // Or NaN, if averageReturn is non-zero and stdDev is zero (constant returns)
-      }
-    } else {
-      sharpeRatio = 0; // Not enough returns to calculate std dev
-    }
+  const analytics = calculatePerformanceReport(tradeHistory, portfolioHistoryTimeline, barsPerYear);
+  const roundTrips = buildRoundTrips(tradeHistory, historicalData, options.lotMatching);
+
+  // Buy-and-hold benchmark over the same bars, or over another symbol's bars in the same period
+  let benchmark: BenchmarkResult | undefined;
+  const benchmarkSymbol = options.benchmarkSymbol ?? symbol;
+  const benchmarkData = benchmarkSymbol === symbol
+    ? historicalData
+    : await fetchHistoricalDataFromDB(benchmarkSymbol, startDate, endDate, sourceApi, interval);
+  if (benchmarkData && benchmarkData.length > 0) {
+    benchmark = createBenchmarkResult(benchmarkSymbol, portfolioHistoryTimeline, benchmarkData, portfolio.initialValue, barsPerYear);
   } else {
-    sharpeRatio = 0; // Not enough portfolio history points
+    logger.warn(`No historical data found for benchmark ${benchmarkSymbol} between ${startDate.toISOString()} and ${endDate.toISOString()}. The result will have no benchmark.`);
   }
 
   const result: BacktestResult = {
@@ -357,8 +734,19 @@ export async function runBacktest(
     historicalDataUsed: historicalData, // Include the historical data
     portfolioHistory: portfolioHistoryTimeline, // Include portfolio history
     aiDecisionLog: aiDecisionLog.length > 0 ? aiDecisionLog : undefined, // Add AI decision log
-    sharpeRatio: sharpeRatio, // Add Sharpe Ratio to results
+    sharpeRatio: analytics.sharpeRatio, // Annualized with the bars per year of the interval
     maxDrawdown: maxDrawdown, // Add Max Drawdown to results
+    totalFees,
+    totalSlippage,
+    totalTransactionCosts: totalFees + totalSlippage,
+    totalBorrowInterest: marginSettings ? totalBorrowInterest : undefined,
+    liquidations: marginSettings ? liquidations : undefined,
+    orderHistory: orderHistory.length > 0 ? orderHistory : undefined,
+    executionTiming,
+    droppedFinalBarSignal,
+    benchmark,
+    analytics,
+    roundTrips,
   };
 
   const logDetails = {
@@ -367,6 +755,8 @@ export async function runBacktest(
     profitOrLoss: result.totalProfitOrLoss,
     profitPercentage: result.profitOrLossPercentage,
     totalTrades: result.totalTrades,
+    totalTransactionCosts: result.totalTransactionCosts,
+    benchmarkReturnPercentage: benchmark?.returnPercentage,
   };
   if (result.totalTrades === 0) {
     logger.info(`Backtest completed for ${symbol} using strategy ${selectedStrategy.name}. No trades were executed.`, logDetails);
@@ -0,0 +1,216 @@
+// src/backtest/lotMatching.ts
+// Matches exit fills against entry lots to build round-trip records: what each closed position earned, how long it
+// was held and how far the price moved against (MAE) and in favour of (MFE) it while it was open.
+
+import type { HistoricalDataPoint } from '../services/dataService';
+import type { Trade, TradeType } from './index';
+
+// FIFO: exits close the oldest entry lots first, one record per matched lot.
+// AVERAGE_COST: exits close part of the position at its average entry price, one record per exit fill.
+export type LotMatchingMethod = 'FIFO' | 'AVERAGE_COST';
+
+export const DEFAULT_LOT_MATCHING: LotMatchingMethod = 'FIFO';
+
+const LOT_MATCHING_METHODS: LotMatchingMethod[] = ['FIFO', 'AVERAGE_COST'];
+
+// The fill fields needed for matching; portfolio backtests add a symbol
+export type LotFill = Pick<Trade, 'timestamp' | 'date' | 'action' | 'price' | 'sharesTraded' | 'fees' | 'tradeType'> & { symbol?: string };
+
+export interface RoundTripTrade {
+  symbol?: string;
+  direction: 'LONG' | 'SHORT';
+  quantity: number;
+  entryTimestamp: number;
+  entryDate: Date;
+  entryPrice: number;
+  exitTimestamp: number;
+  exitDate: Date;
+  exitPrice: number;
+  exitType: TradeType;       // How the position was closed (signal, stop-loss, liquidation, ...)
+  grossPnl: number;          // Price difference x quantity
+  fees: number;              // Entry and exit fees allocated to this quantity
+  netPnl: number;            // grossPnl - fees
+  returnPercentage: number;  // netPnl / entry value
+  holdingPeriodBars: number;
+  holdingPeriodSeconds: number;
+  mae: number;               // Maximum adverse excursion in quote currency (>= 0)
+  mfe: number;               // Maximum favourable excursion in quote currency (>= 0)
+  maePercentage: number;     // MAE as a percentage of the entry value
+  mfePercentage: number;     // MFE as a percentage of the entry value
+}
+
+interface OpenLot {
+  timestamp: number;
+  date: Date;
+  price: number;
+  quantity: number;
+  fees: number; // Entry fees of the remaining quantity
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Validates the lotMatching option received from an API payload or a JSON config.
+ * @param method - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateLotMatching(method: unknown): string | null {
+  if (method === undefined || method === null) {
+    return null;
+  }
+  if (!LOT_MATCHING_METHODS.includes(method as LotMatchingMethod)) {
+    return `lotMatching must be one of ${LOT_MATCHING_METHODS.join(', ')}.`;
+  }
+  return null;
+}
+
+// Index of the last bar at or before a timestamp (bars are in ascending order)
+function findBarIndex(bars: HistoricalDataPoint[], timestamp: number): number {
+  let low = 0;
+  let high = bars.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].timestamp <= timestamp) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Price excursions of a position held from one bar to another. The entry bar is excluded, because a fill at its close
+ * happened after its high and low; the exit bar is included.
+ * @returns The largest adverse and favourable price moves per unit (both >= 0).
+ */
+function calculateExcursions(
+  bars: HistoricalDataPoint[],
+  entryIndex: number,
+  exitIndex: number,
+  direction: 'LONG' | 'SHORT',
+  entryPrice: number,
+  exitPrice: number
+): { adverse: number; favourable: number } {
+  let lowest = Math.min(entryPrice, exitPrice);
+  let highest = Math.max(entryPrice, exitPrice);
+  for (let k = Math.max(entryIndex + 1, 0); k <= exitIndex && k < bars.length; k++) {
+    lowest = Math.min(lowest, bars[k].low);
+    highest = Math.max(highest, bars[k].high);
+  }
+  return direction === 'LONG'
+    ? { adverse: entryPrice - lowest, favourable: highest - entryPrice }
+    : { adverse: highest - entryPrice, favourable: entryPrice - lowest };
+}
+
+/**
+ * Builds round-trip records from fills in chronological order. Fills of different symbols are matched separately.
+ * A fill that flips the position first closes the open lots and opens a new lot with the remainder; its fees are
+ * split pro rata. Lots still open at the end produce no record.
+ * @param fills - The fills (BacktestResult.trades).
+ * @param bars - The bars of the backtest, or the bars per symbol for a portfolio backtest, used for MAE/MFE and holding periods.
+ * @param method - FIFO (default) or AVERAGE_COST.
+ */
+export function buildRoundTrips(
+  fills: LotFill[],
+  bars: HistoricalDataPoint[] | Record<string, HistoricalDataPoint[]>,
+  method: LotMatchingMethod = DEFAULT_LOT_MATCHING
+): RoundTripTrade[] {
+  const roundTrips: RoundTripTrade[] = [];
+  const openLots = new Map<string, { direction: 'LONG' | 'SHORT'; lots: OpenLot[] }>();
+  const getBars = (symbol?: string): HistoricalDataPoint[] => (Array.isArray(bars) ? bars : bars[symbol ?? ''] ?? []);
+
+  const recordRoundTrip = (fill: LotFill, direction: 'LONG' | 'SHORT', lot: OpenLot, quantity: number, exitFees: number): void => {
+    const symbolBars = getBars(fill.symbol);
+    const entryIndex = findBarIndex(symbolBars, lot.timestamp);
+    const exitIndex = findBarIndex(symbolBars, fill.timestamp);
+    const sign = direction === 'LONG' ? 1 : -1;
+    const entryValue = lot.price * quantity;
+    const grossPnl = sign * (fill.price - lot.price) * quantity;
+    const fees = lot.fees * (quantity / lot.quantity) + exitFees;
+    const { adverse, favourable } = calculateExcursions(symbolBars, entryIndex, exitIndex, direction, lot.price, fill.price);
+    roundTrips.push({
+      symbol: fill.symbol,
+      direction,
+      quantity,
+      entryTimestamp: lot.timestamp,
+      entryDate: lot.date,
+      entryPrice: lot.price,
+      exitTimestamp: fill.timestamp,
+      exitDate: fill.date,
+      exitPrice: fill.price,
+      exitType: fill.tradeType,
+      grossPnl,
+      fees,
+      netPnl: grossPnl - fees,
+      returnPercentage: entryValue !== 0 ? ((grossPnl - fees) / entryValue) * 100 : 0,
+      holdingPeriodBars: Math.max(0, exitIndex - entryIndex),
+      holdingPeriodSeconds: fill.timestamp - lot.timestamp,
+      mae: adverse * quantity,
+      mfe: favourable * quantity,
+      maePercentage: lot.price !== 0 ? (adverse / lot.price) * 100 : 0,
+      mfePercentage: lot.price !== 0 ? (favourable / lot.price) * 100 : 0,
+    });
+  };
+
+  for (const fill of fills) {
+    const key = fill.symbol ?? '';
+    const fillDirection = fill.action === 'BUY' ? 'LONG' : 'SHORT';
+    let quantity = fill.sharesTraded;
+    let fees = fill.fees;
+    const position = openLots.get(key);
+
+    if (position && position.direction !== fillDirection) {
+      const openQuantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const closingQuantity = Math.min(quantity, openQuantity);
+      const closingFees = fees * (closingQuantity / quantity);
+
+      if (method === 'AVERAGE_COST') {
+        // The whole position is one lot at its average entry price, dated from the first entry
+        const averageLot: OpenLot = {
+          timestamp: position.lots[0].timestamp,
+          date: position.lots[0].date,
+          price: position.lots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / openQuantity,
+          quantity: openQuantity,
+          fees: position.lots.reduce((sum, lot) => sum + lot.fees, 0),
+        };
+        recordRoundTrip(fill, position.direction, averageLot, closingQuantity, closingFees);
+        const remainingRatio = (openQuantity - closingQuantity) / openQuantity;
+        position.lots = remainingRatio > EPSILON
+          ? [{ ...averageLot, quantity: openQuantity - closingQuantity, fees: averageLot.fees * remainingRatio }]
+          : [];
+      } else {
+        let remaining = closingQuantity;
+        while (remaining > EPSILON && position.lots.length > 0) {
+          const lot = position.lots[0];
+          const matched = Math.min(remaining, lot.quantity);
+          recordRoundTrip(fill, position.direction, lot, matched, closingFees * (matched / closingQuantity));
+          if (lot.quantity - matched > EPSILON) {
+            lot.fees *= (lot.quantity - matched) / lot.quantity;
+            lot.quantity -= matched;
+          } else {
+            position.lots.shift();
+          }
+          remaining -= matched;
+        }
+      }
+
+      if (position.lots.length === 0) openLots.delete(key);
+      quantity -= closingQuantity;
+      fees -= closingFees;
+    }
+
+    if (quantity > EPSILON) {
+      const lot: OpenLot = { timestamp: fill.timestamp, date: fill.date, price: fill.price, quantity, fees };
+      const current = openLots.get(key);
+      if (current) {
+        current.lots.push(lot);
+      } else {
+        openLots.set(key, { direction: fillDirection, lots: [lot] });
+      }
+    }
+  }
+  return roundTrips;
+}
@@ -0,0 +1,207 @@
+// src/backtest/margin.ts
+// Opt-in margin account rules for runBacktest and runPortfolioBacktest: short positions, a leverage cap,
+// borrow interest accrued per bar and forced liquidation below maintenance margin.
+
+export interface MarginSettings {
+  enabled: boolean;
+  maxLeverage?: number;              // Max gross exposure / equity after a trade (default 1)
+  borrowRatePercentAnnual?: number;  // Annual interest on borrowed cash and on the value of shorted units (default 0)
+  maintenanceMarginPercent?: number; // Liquidate when equity falls below this % of gross exposure (default 25)
+}
+
+export type ResolvedMarginSettings = Required<MarginSettings>;
+
+export const DEFAULT_MAX_LEVERAGE = 1;
+export const DEFAULT_MAINTENANCE_MARGIN_PERCENT = 25;
+
+// Minimal view of the backtest portfolio needed by the margin rules
+interface MarginAccount {
+  cash: number;
+  shares: number;
+}
+
+// Minimal view of a multi-asset portfolio; positions are valued at a price per symbol
+interface MultiAssetMarginAccount {
+  cash: number;
+  positions: Record<string, number>;
+}
+
+/**
+ * Validates margin settings received from an API payload or a JSON config.
+ * @param settings - The settings to validate (may be undefined).
+ * @returns An error message if the settings are invalid, otherwise null.
+ */
+export function validateMarginSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'margin must be an object.';
+  }
+  const { enabled, maxLeverage, borrowRatePercentAnnual, maintenanceMarginPercent } = settings as Record<string, unknown>;
+  if (typeof enabled !== 'boolean') {
+    return 'margin.enabled must be a boolean.';
+  }
+  if (maxLeverage !== undefined && (typeof maxLeverage !== 'number' || isNaN(maxLeverage) || maxLeverage <= 0)) {
+    return 'margin.maxLeverage must be a positive number.';
+  }
+  if (borrowRatePercentAnnual !== undefined && (typeof borrowRatePercentAnnual !== 'number' || isNaN(borrowRatePercentAnnual) || borrowRatePercentAnnual < 0)) {
+    return 'margin.borrowRatePercentAnnual must be a non-negative number.';
+  }
+  if (maintenanceMarginPercent !== undefined && (typeof maintenanceMarginPercent !== 'number' || isNaN(maintenanceMarginPercent) || maintenanceMarginPercent < 0 || maintenanceMarginPercent >= 100)) {
+    return 'margin.maintenanceMarginPercent must be a number between 0 and 100.';
+  }
+  return null;
+}
+
+/**
+ * Fills in defaults for optional margin settings.
+ * @param settings - User supplied settings.
+ * @returns Settings with every field populated, or null if margin mode is disabled.
+ */
+export function resolveMarginSettings(settings?: MarginSettings): ResolvedMarginSettings | null {
+  if (!settings || !settings.enabled) return null;
+  return {
+    enabled: true,
+    maxLeverage: settings.maxLeverage ?? DEFAULT_MAX_LEVERAGE,
+    borrowRatePercentAnnual: settings.borrowRatePercentAnnual ?? 0,
+    maintenanceMarginPercent: settings.maintenanceMarginPercent ?? DEFAULT_MAINTENANCE_MARGIN_PERCENT,
+  };
+}
+
+/**
+ * Account equity marked at a price: cash plus the signed value of the position.
+ */
+export function calculateEquity(account: MarginAccount, price: number): number {
+  return account.cash + account.shares * price;
+}
+
+/**
+ * Absolute market value of the open position (long or short).
+ */
+export function calculateGrossExposure(account: MarginAccount, price: number): number {
+  return Math.abs(account.shares) * price;
+}
+
+/**
+ * Interest owed for holding an account through one bar. Interest is charged on borrowed cash
+ * (negative cash balance from buying on margin) and on the market value of shorted units.
+ * @param account - Cash and position at the start of the bar.
+ * @param price - Price used to value the short position.
+ * @param annualRatePercent - Annual borrow rate in percent.
+ * @param barsPerYear - Number of bars per year for the data interval.
+ * @returns Interest for the bar (>= 0).
+ */
+export function calculateBorrowInterest(
+  account: MarginAccount,
+  price: number,
+  annualRatePercent: number,
+  barsPerYear: number
+): number {
+  if (annualRatePercent <= 0 || barsPerYear <= 0) return 0;
+  const borrowedCash = Math.max(0, -account.cash);
+  const borrowedUnitsValue = account.shares < 0 ? -account.shares * price : 0;
+  return (borrowedCash + borrowedUnitsValue) * (annualRatePercent / 100 / barsPerYear);
+}
+
+/**
+ * Whether a prospective account state respects the leverage cap.
+ * A trade that only shrinks the existing position is always allowed, so a strategy can
+ * de-risk even when the account is already over the cap.
+ * @param before - Account before the trade.
+ * @param after - Account after the trade.
+ * @param price - Price used to value the position.
+ * @param maxLeverage - Leverage cap (gross exposure / equity).
+ */
+export function isWithinLeverageCap(
+  before: MarginAccount,
+  after: MarginAccount,
+  price: number,
+  maxLeverage: number
+): boolean {
+  const isReduction = Math.sign(after.shares) !== -Math.sign(before.shares) && Math.abs(after.shares) <= Math.abs(before.shares);
+  if (isReduction) return true;
+
+  const equity = calculateEquity(after, price);
+  if (equity <= 0) return false;
+  return calculateGrossExposure(after, price) <= maxLeverage * equity + 1e-9;
+}
+
+/**
+ * Whether the account has fallen below the maintenance margin and must be liquidated.
+ */
+export function isBelowMaintenanceMargin(account: MarginAccount, price: number, maintenanceMarginPercent: number): boolean {
+  if (account.shares === 0) return false;
+  const grossExposure = calculateGrossExposure(account, price);
+  return calculateEquity(account, price) < grossExposure * (maintenanceMarginPercent / 100);
+}
+
+/**
+ * Multi-asset account equity: cash plus the signed value of every position.
+ * @param prices - Price of each symbol; symbols without a price are valued at 0.
+ */
+export function calculatePortfolioEquity(account: MultiAssetMarginAccount, prices: Record<string, number>): number {
+  return Object.entries(account.positions).reduce((equity, [symbol, units]) => equity + units * (prices[symbol] ?? 0), account.cash);
+}
+
+/**
+ * Absolute market value of all open positions of a multi-asset account, longs and shorts alike.
+ */
+export function calculatePortfolioGrossExposure(account: MultiAssetMarginAccount, prices: Record<string, number>): number {
+  return Object.entries(account.positions).reduce((exposure, [symbol, units]) => exposure + Math.abs(units) * (prices[symbol] ?? 0), 0);
+}
+
+/**
+ * Interest owed for holding a multi-asset account through one bar: on borrowed cash and on the value of every short.
+ * @see calculateBorrowInterest
+ */
+export function calculatePortfolioBorrowInterest(
+  account: MultiAssetMarginAccount,
+  prices: Record<string, number>,
+  annualRatePercent: number,
+  barsPerYear: number
+): number {
+  if (annualRatePercent <= 0 || barsPerYear <= 0) return 0;
+  const borrowedUnitsValue = Object.entries(account.positions)
+    .reduce((value, [symbol, units]) => value + (units < 0 ? -units * (prices[symbol] ?? 0) : 0), 0);
+  return (Math.max(0, -account.cash) + borrowedUnitsValue) * (annualRatePercent / 100 / barsPerYear);
+}
+
+/**
+ * Whether a trade in one symbol keeps a multi-asset account within the leverage cap (gross exposure of all
+ * positions / equity). As with isWithinLeverageCap, a trade that only shrinks the symbol's position is always allowed.
+ * @param before - Account before the trade.
+ * @param after - Account after the trade.
+ * @param symbol - The traded symbol.
+ * @param prices - Price of each symbol.
+ * @param maxLeverage - Leverage cap.
+ */
+export function isPortfolioWithinLeverageCap(
+  before: MultiAssetMarginAccount,
+  after: MultiAssetMarginAccount,
+  symbol: string,
+  prices: Record<string, number>,
+  maxLeverage: number
+): boolean {
+  const held = before.positions[symbol] ?? 0;
+  const next = after.positions[symbol] ?? 0;
+  const isReduction = Math.sign(next) !== -Math.sign(held) && Math.abs(next) <= Math.abs(held);
+  if (isReduction) return true;
+
+  const equity = calculatePortfolioEquity(after, prices);
+  if (equity <= 0) return false;
+  return calculatePortfolioGrossExposure(after, prices) <= maxLeverage * equity + 1e-9;
+}
+
+/**
+ * Whether a multi-asset account has fallen below the maintenance margin and must be liquidated.
+ */
+export function isPortfolioBelowMaintenanceMargin(
+  account: MultiAssetMarginAccount,
+  prices: Record<string, number>,
+  maintenanceMarginPercent: number
+): boolean {
+  const grossExposure = calculatePortfolioGrossExposure(account, prices);
+  if (grossExposure === 0) return false;
+  return calculatePortfolioEquity(account, prices) < grossExposure * (maintenanceMarginPercent / 100);
+}
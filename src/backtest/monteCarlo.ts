@@ -0,0 +1,322 @@
+// src/backtest/monteCarlo.ts
+// Monte Carlo robustness analysis of a finished backtest: replays its trades and returns in random variations to show
+// how much of the result depends on luck (trade order, which bars happened, which trades were taken).
+
+import { calculateSharpeRatio } from './analytics';
+import { SECONDS_PER_YEAR, getBarsPerYear, inferBarsPerYear } from '../utils/intervals';
+import { createSeededRandom, generateSeed } from '../utils/random';
+
+// tradeShuffle: the round trips' P&L in random order (final equity is unchanged, drawdowns and ruin are not).
+// bootstrap: per-bar returns of the equity curve drawn with replacement.
+// skipTrades: the round trips in their order, each one skipped with probability skipProbability.
+export type MonteCarloMethod = 'tradeShuffle' | 'bootstrap' | 'skipTrades';
+
+export interface MonteCarloSettings {
+  methods?: MonteCarloMethod[];  // Defaults to every method the input has data for
+  simulations?: number;          // Per method; defaults to DEFAULT_SIMULATIONS
+  seed?: number;                 // A random seed is drawn (and reported) when omitted
+  skipProbability?: number;      // skipTrades: chance of skipping each trade, in (0, 1); defaults to 0.1
+  ruinThresholdPercent?: number; // Loss of the initial value, in percent, counted as ruin; defaults to 50
+  percentiles?: number[];        // Reported percentiles in (0, 100); defaults to DEFAULT_PERCENTILES
+  interval?: string;             // Bar interval, to annualize the bootstrap Sharpe ratio; inferred from the curve when omitted
+}
+
+// The parts of a BacktestResult (or its API form) the analysis needs
+export interface MonteCarloInput {
+  initialPortfolioValue: number;
+  portfolioHistory?: { timestamp: number; value: number }[];
+  roundTrips?: { netPnl: number }[];
+}
+
+export interface MonteCarloDistribution {
+  mean: number;
+  values: number[]; // One per requested percentile, in the same order
+}
+
+export interface MonteCarloFanPoint {
+  step: number;       // Trade number (trade methods) or bar number (bootstrap)
+  timestamp?: number; // Bar timestamp (bootstrap only)
+  values: number[];   // Equity at each requested percentile
+}
+
+export interface MonteCarloMethodResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  finalEquity: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution; // Percent
+  sharpeRatio: MonteCarloDistribution; // Annualized
+  riskOfRuin: number;                  // Percent of simulations whose equity reached the ruin level at any point
+  fanChart: MonteCarloFanPoint[];      // At most MAX_FAN_CHART_POINTS points
+}
+
+export interface MonteCarloResult {
+  initialPortfolioValue: number;
+  seed: number;
+  percentiles: number[];
+  ruinThresholdPercent: number;
+  ruinEquity: number;
+  methods: MonteCarloMethodResult[];
+  skippedMethods: { method: MonteCarloMethod; reason: string }[]; // Methods left out for lack of data
+}
+
+export const MONTE_CARLO_METHODS: MonteCarloMethod[] = ['tradeShuffle', 'bootstrap', 'skipTrades'];
+export const DEFAULT_SIMULATIONS = 1000;
+export const MAX_SIMULATIONS = 10000;
+export const DEFAULT_SKIP_PROBABILITY = 0.1;
+export const DEFAULT_RUIN_THRESHOLD_PERCENT = 50;
+export const DEFAULT_PERCENTILES = [5, 25, 50, 75, 95];
+// Steps simulated per method (simulations x path length). The analysis runs during the request, so this bounds how
+// long it holds the server: 1000 simulations allow an equity curve of 10000 points.
+export const MAX_SIMULATED_STEPS = 10_000_000;
+
+// Equity paths are kept at this many steps at most, which bounds the memory and the size of the response
+const MAX_FAN_CHART_POINTS = 200;
+
+/**
+ * Validates Monte Carlo settings received from an API payload or a JSON config.
+ * @param settings - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateMonteCarloSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'monteCarlo must be an object.';
+  }
+  const { methods, simulations, seed, skipProbability, ruinThresholdPercent, percentiles, interval } = settings as MonteCarloSettings;
+  if (methods !== undefined && (!Array.isArray(methods) || methods.length === 0 || methods.some(method => !MONTE_CARLO_METHODS.includes(method)))) {
+    return `monteCarlo.methods must be a non-empty array of ${MONTE_CARLO_METHODS.join(', ')}.`;
+  }
+  if (simulations !== undefined && (typeof simulations !== 'number' || !Number.isInteger(simulations) || simulations <= 0 || simulations > MAX_SIMULATIONS)) {
+    return `monteCarlo.simulations must be an integer between 1 and ${MAX_SIMULATIONS}.`;
+  }
+  if (seed !== undefined && (typeof seed !== 'number' || !Number.isInteger(seed))) {
+    return 'monteCarlo.seed must be an integer.';
+  }
+  if (skipProbability !== undefined && (typeof skipProbability !== 'number' || !(skipProbability > 0 && skipProbability < 1))) {
+    return 'monteCarlo.skipProbability must be between 0 and 1 (exclusive).';
+  }
+  if (ruinThresholdPercent !== undefined && (typeof ruinThresholdPercent !== 'number' || !(ruinThresholdPercent > 0 && ruinThresholdPercent <= 100))) {
+    return 'monteCarlo.ruinThresholdPercent must be greater than 0 and at most 100.';
+  }
+  if (percentiles !== undefined && (!Array.isArray(percentiles) || percentiles.length === 0 || percentiles.some(p => typeof p !== 'number' || !(p > 0 && p < 100)))) {
+    return 'monteCarlo.percentiles must be a non-empty array of numbers between 0 and 100 (exclusive).';
+  }
+  if (interval !== undefined && typeof interval !== 'string') {
+    return 'monteCarlo.interval must be a string.';
+  }
+  return null;
+}
+
+// Why a method cannot run on an input, or null if it can
+function getMissingData(input: MonteCarloInput, method: MonteCarloMethod): string | null {
+  if (method === 'bootstrap') {
+    return (input.portfolioHistory?.length ?? 0) < 2 ? 'bootstrap needs a portfolioHistory with at least 2 points.' : null;
+  }
+  return (input.roundTrips?.length ?? 0) === 0 ? `${method} needs at least one round trip in roundTrips.` : null;
+}
+
+/**
+ * Validates a backtest result posted for Monte Carlo analysis, and that every explicitly requested method has the
+ * data it needs.
+ * @param input - The value to validate.
+ * @param settings - The validated settings.
+ * @returns An error message if the analysis cannot run, otherwise null.
+ */
+export function validateMonteCarloInput(input: unknown, settings: MonteCarloSettings = {}): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'backtestResult must be an object.';
+  }
+  const { initialPortfolioValue, portfolioHistory, roundTrips } = input as MonteCarloInput;
+  if (typeof initialPortfolioValue !== 'number' || !(initialPortfolioValue > 0)) {
+    return 'backtestResult.initialPortfolioValue must be a positive number.';
+  }
+  if (portfolioHistory !== undefined && (!Array.isArray(portfolioHistory) || portfolioHistory.some(point =>
+    typeof point !== 'object' || point === null || typeof point.timestamp !== 'number' || typeof point.value !== 'number' || !isFinite(point.value)))) {
+    return 'backtestResult.portfolioHistory must be an array of { timestamp, value } numbers.';
+  }
+  if (roundTrips !== undefined && (!Array.isArray(roundTrips) || roundTrips.some(trip =>
+    typeof trip !== 'object' || trip === null || typeof trip.netPnl !== 'number' || !isFinite(trip.netPnl)))) {
+    return 'backtestResult.roundTrips must be an array of round trips with a numeric netPnl.';
+  }
+  const simulations = settings.simulations ?? DEFAULT_SIMULATIONS;
+  const maxPathLength = Math.floor(MAX_SIMULATED_STEPS / simulations);
+  const methods = settings.methods ?? MONTE_CARLO_METHODS;
+  if (methods.includes('bootstrap') && (portfolioHistory?.length ?? 0) > maxPathLength) {
+    return `backtestResult.portfolioHistory has ${portfolioHistory!.length} points, more than the ${maxPathLength} allowed with ${simulations} simulations. Resample the equity curve or lower monteCarlo.simulations.`;
+  }
+  if (methods.some(method => method !== 'bootstrap') && (roundTrips?.length ?? 0) + 1 > maxPathLength) {
+    return `backtestResult.roundTrips has ${roundTrips!.length} round trips, more than the ${maxPathLength - 1} allowed with ${simulations} simulations. Lower monteCarlo.simulations.`;
+  }
+  const typedInput = input as MonteCarloInput;
+  if (settings.methods) {
+    for (const method of settings.methods) {
+      const missing = getMissingData(typedInput, method);
+      if (missing) return missing;
+    }
+  } else if (MONTE_CARLO_METHODS.every(method => getMissingData(typedInput, method))) {
+    return 'backtestResult needs roundTrips or a portfolioHistory with at least 2 points.';
+  }
+  return null;
+}
+
+/**
+ * Percentile of sorted values with linear interpolation between the closest ranks.
+ */
+export function percentileOfSorted(sorted: ArrayLike<number>, percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function summarize(values: Float64Array, percentiles: number[]): MonteCarloDistribution {
+  const sorted = Float64Array.from(values).sort();
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / Math.max(sorted.length, 1);
+  return { mean, values: percentiles.map(p => percentileOfSorted(sorted, p)) };
+}
+
+// Largest peak-to-trough decline of an equity path, in percent
+function maxDrawdownPercent(path: number[]): number {
+  let peak = path[0];
+  let maxDrawdown = 0;
+  for (const value of path) {
+    if (value > peak) peak = value;
+    else if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  }
+  return maxDrawdown * 100;
+}
+
+// Steps kept for the fan chart: evenly spread over the path, always including the first and last
+function selectFanSteps(pathLength: number): number[] {
+  if (pathLength <= MAX_FAN_CHART_POINTS) return Array.from({ length: pathLength }, (_, k) => k);
+  return Array.from({ length: MAX_FAN_CHART_POINTS }, (_, k) => Math.round((k * (pathLength - 1)) / (MAX_FAN_CHART_POINTS - 1)));
+}
+
+/**
+ * Runs one method's simulations and summarizes them.
+ * @param simulatePath - Returns the equity path of one simulation, starting at the initial value.
+ * @param pathLength - Length of every path.
+ * @param periodsPerYear - Used to annualize the Sharpe ratio of the paths.
+ */
+function runSimulations(
+  method: MonteCarloMethod,
+  simulatePath: () => number[],
+  pathLength: number,
+  periodsPerYear: number,
+  simulations: number,
+  percentiles: number[],
+  ruinEquity: number,
+  timestamps?: number[]
+): MonteCarloMethodResult {
+  const fanSteps = selectFanSteps(pathLength);
+  const fanValues = fanSteps.map(() => new Float64Array(simulations));
+  const finalEquity = new Float64Array(simulations);
+  const maxDrawdown = new Float64Array(simulations);
+  const sharpeRatio = new Float64Array(simulations);
+  let ruined = 0;
+
+  for (let s = 0; s < simulations; s++) {
+    const path = simulatePath();
+    fanSteps.forEach((step, k) => { fanValues[k][s] = path[step]; });
+    finalEquity[s] = path[path.length - 1];
+    maxDrawdown[s] = maxDrawdownPercent(path);
+    sharpeRatio[s] = calculateSharpeRatio(path, periodsPerYear);
+    if (path.some(value => value <= ruinEquity)) ruined++;
+  }
+
+  return {
+    method,
+    simulations,
+    finalEquity: summarize(finalEquity, percentiles),
+    maxDrawdown: summarize(maxDrawdown, percentiles),
+    sharpeRatio: summarize(sharpeRatio, percentiles),
+    riskOfRuin: (ruined / simulations) * 100,
+    fanChart: fanSteps.map((step, k) => ({
+      step,
+      ...(timestamps ? { timestamp: timestamps[step] } : {}),
+      values: summarize(fanValues[k], percentiles).values,
+    })),
+  };
+}
+
+// Equity path of a sequence of trade P&Ls
+function tradePath(initialValue: number, pnls: number[]): number[] {
+  const path = [initialValue];
+  for (const pnl of pnls) path.push(path[path.length - 1] + pnl);
+  return path;
+}
+
+/**
+ * Runs a Monte Carlo analysis of a backtest result.
+ * @param input - The backtest result (validated with validateMonteCarloInput).
+ * @param settings - Methods, number of simulations, seed and thresholds (validated with validateMonteCarloSettings).
+ * @returns Percentile distributions of final equity, max drawdown and Sharpe ratio, risk of ruin and fan-chart data
+ * per method. Trade methods measure drawdowns between trades, so they miss drawdowns inside a trade.
+ */
+export function runMonteCarlo(input: MonteCarloInput, settings: MonteCarloSettings = {}): MonteCarloResult {
+  const seed = settings.seed ?? generateSeed();
+  const random = createSeededRandom(seed);
+  const simulations = settings.simulations ?? DEFAULT_SIMULATIONS;
+  const percentiles = [...(settings.percentiles ?? DEFAULT_PERCENTILES)].sort((a, b) => a - b);
+  const ruinThresholdPercent = settings.ruinThresholdPercent ?? DEFAULT_RUIN_THRESHOLD_PERCENT;
+  const skipProbability = settings.skipProbability ?? DEFAULT_SKIP_PROBABILITY;
+  const initialValue = input.initialPortfolioValue;
+  const ruinEquity = initialValue * (1 - ruinThresholdPercent / 100);
+
+  const requested = settings.methods ?? MONTE_CARLO_METHODS;
+  const skippedMethods: MonteCarloResult['skippedMethods'] = [];
+  const methods: MonteCarloMethodResult[] = [];
+
+  const history = input.portfolioHistory ?? [];
+  const pnls = (input.roundTrips ?? []).map(trip => trip.netPnl);
+  // Trades per year over the span of the equity curve, to annualize Sharpe ratios of trade paths
+  const spanSeconds = history.length >= 2 ? history[history.length - 1].timestamp - history[0].timestamp : 0;
+  const tradesPerYear = spanSeconds > 0 ? (pnls.length * SECONDS_PER_YEAR) / spanSeconds : pnls.length;
+
+  for (const method of requested) {
+    const missing = getMissingData(input, method);
+    if (missing) {
+      skippedMethods.push({ method, reason: missing });
+      continue;
+    }
+
+    if (method === 'tradeShuffle') {
+      methods.push(runSimulations(method, () => {
+        const shuffled = [...pnls];
+        for (let k = shuffled.length - 1; k > 0; k--) {
+          const j = Math.floor(random() * (k + 1));
+          [shuffled[k], shuffled[j]] = [shuffled[j], shuffled[k]];
+        }
+        return tradePath(initialValue, shuffled);
+      }, pnls.length + 1, tradesPerYear, simulations, percentiles, ruinEquity));
+    } else if (method === 'skipTrades') {
+      // Skipped trades count as a flat step, so every path has the same length
+      methods.push(runSimulations(method, () => tradePath(initialValue, pnls.map(pnl => (random() < skipProbability ? 0 : pnl))),
+        pnls.length + 1, tradesPerYear, simulations, percentiles, ruinEquity));
+    } else {
+      const values = history.map(point => point.value);
+      const returns = values.slice(1).map((value, k) => (values[k] !== 0 ? (value - values[k]) / values[k] : 0));
+      const barsPerYear = settings.interval ? getBarsPerYear(settings.interval) : inferBarsPerYear(history);
+      methods.push(runSimulations(method, () => {
+        const path = [initialValue];
+        for (let k = 0; k < returns.length; k++) {
+          path.push(path[k] * (1 + returns[Math.floor(random() * returns.length)]));
+        }
+        return path;
+      }, returns.length + 1, barsPerYear, simulations, percentiles, ruinEquity, history.map(point => point.timestamp)));
+    }
+  }
+
+  return {
+    initialPortfolioValue: initialValue,
+    seed,
+    percentiles,
+    ruinThresholdPercent,
+    ruinEquity,
+    methods,
+    skippedMethods,
+  };
+}
@@ -0,0 +1,166 @@
+// src/backtest/orderBook.ts
+// Resting limit and stop orders for runBacktest.
+//
+// An order placed on bar i is first eligible to fill on bar i + 1 and is evaluated against each later
+// bar's open, high and low:
+//   - BUY LIMIT fills at the open if the bar opens at or below the limit, otherwise at the limit if the low reaches it.
+//   - SELL LIMIT fills at the open if the bar opens at or above the limit, otherwise at the limit if the high reaches it.
+//   - BUY STOP fills at the open if the bar opens at or above the stop, otherwise at the stop if the high reaches it.
+//   - SELL STOP fills at the open if the bar opens at or below the stop, otherwise at the stop if the low reaches it.
+// Limit fills are charged maker fees without slippage; stop fills become market orders (taker).
+
+import type { HistoricalDataPoint } from '../services/dataService';
+import type { LadderOrder, OrderType, ProtectiveOrderLevel, StrategySignal, TimeInForce } from '../strategies/strategy.types';
+import type { OrderSide } from './costModel';
+
+export type PendingOrderType = Exclude<OrderType, 'MARKET'>;
+
+export interface PendingOrder {
+  id: string;
+  side: OrderSide;
+  type: PendingOrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+  expiresAfterBars?: number;
+  placedAtIndex: number;
+  placedTimestamp: number;
+  // Protective exits armed when the order fills as an entry
+  stopLoss?: ProtectiveOrderLevel;
+  takeProfit?: ProtectiveOrderLevel;
+  trailingStop?: ProtectiveOrderLevel;
+}
+
+export type OrderEventType = 'PLACED' | 'CANCELLED' | 'EXPIRED' | 'FILLED' | 'REJECTED';
+
+export interface OrderEvent {
+  orderId: string;
+  event: OrderEventType;
+  timestamp: number; // Unix epoch seconds of the bar on which the event happened
+  date: Date;
+  side: OrderSide;
+  orderType: PendingOrderType;
+  quantity: number;
+  price?: number;   // Limit/stop price for PLACED, fill price for FILLED
+  reason?: string;  // For CANCELLED, EXPIRED and REJECTED events
+}
+
+type Bar = Pick<HistoricalDataPoint, 'timestamp' | 'open' | 'high' | 'low'>;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Validates the resting-order fields of a strategy signal.
+ * @param signal - The signal returned by a strategy.
+ * @returns An error message if the order fields are invalid, otherwise null.
+ */
+export function validateOrderSignal(signal: StrategySignal): string | null {
+  const orderType = signal.orderType ?? 'MARKET';
+  if (!['MARKET', 'LIMIT', 'STOP'].includes(orderType)) {
+    return `Unknown orderType '${orderType}'.`;
+  }
+  if (orderType === 'LIMIT' && (typeof signal.limitPrice !== 'number' || isNaN(signal.limitPrice) || signal.limitPrice <= 0)) {
+    return 'LIMIT orders need a positive limitPrice.';
+  }
+  if (orderType === 'STOP' && (typeof signal.stopPrice !== 'number' || isNaN(signal.stopPrice) || signal.stopPrice <= 0)) {
+    return 'STOP orders need a positive stopPrice.';
+  }
+  const timeInForce = signal.timeInForce ?? 'GTC';
+  if (!['GTC', 'DAY', 'BARS'].includes(timeInForce)) {
+    return `Unknown timeInForce '${timeInForce}'.`;
+  }
+  if (timeInForce === 'BARS' && (!Number.isInteger(signal.expiresAfterBars) || (signal.expiresAfterBars as number) <= 0)) {
+    return 'timeInForce BARS needs expiresAfterBars to be a positive integer.';
+  }
+  return null;
+}
+
+/**
+ * Validates an order of StrategySignal.orders: a BUY or SELL resting order.
+ * @param order - The ladder order.
+ * @returns An error message if the order is invalid, otherwise null.
+ */
+export function validateLadderOrder(order: LadderOrder): string | null {
+  if (order.action !== 'BUY' && order.action !== 'SELL') {
+    return `Ladder orders must BUY or SELL, not '${order.action}'.`;
+  }
+  if (order.orderType !== 'LIMIT' && order.orderType !== 'STOP') {
+    return 'Ladder orders must be LIMIT or STOP orders.';
+  }
+  return validateOrderSignal(order);
+}
+
+/**
+ * Creates a resting order from a validated LIMIT or STOP signal.
+ * @param signal - The strategy signal (action BUY or SELL).
+ * @param id - Order id.
+ * @param quantity - Number of units to trade.
+ * @param bar - The bar on which the order is placed.
+ * @param barIndex - Index of that bar.
+ */
+export function createPendingOrder(signal: StrategySignal, id: string, quantity: number, bar: Bar, barIndex: number): PendingOrder {
+  return {
+    id,
+    side: signal.action as OrderSide,
+    type: signal.orderType as PendingOrderType,
+    quantity,
+    limitPrice: signal.orderType === 'LIMIT' ? signal.limitPrice : undefined,
+    stopPrice: signal.orderType === 'STOP' ? signal.stopPrice : undefined,
+    timeInForce: signal.timeInForce ?? 'GTC',
+    expiresAfterBars: signal.timeInForce === 'BARS' ? signal.expiresAfterBars : undefined,
+    placedAtIndex: barIndex,
+    placedTimestamp: bar.timestamp,
+    stopLoss: signal.stopLoss,
+    takeProfit: signal.takeProfit,
+    trailingStop: signal.trailingStop,
+  };
+}
+
+/**
+ * Whether an order has expired before it can be evaluated on a bar.
+ * BARS orders can fill on the expiresAfterBars bars following placement.
+ * DAY orders can fill on bars of the UTC day of the first bar after placement.
+ * @param order - The resting order.
+ * @param bar - The bar about to be evaluated.
+ * @param barIndex - Index of that bar.
+ * @param firstActiveBar - The first bar after placement (used for DAY orders).
+ */
+export function isOrderExpired(order: PendingOrder, bar: Bar, barIndex: number, firstActiveBar: Bar): boolean {
+  switch (order.timeInForce) {
+    case 'BARS':
+      return barIndex - order.placedAtIndex > (order.expiresAfterBars ?? 0);
+    case 'DAY':
+      return Math.floor(bar.timestamp / SECONDS_PER_DAY) !== Math.floor(firstActiveBar.timestamp / SECONDS_PER_DAY);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the fill price of a resting order on a bar, following the rules at the top of this file.
+ * @param order - The resting order.
+ * @param bar - The bar being processed.
+ * @returns The fill price, or null if the order does not fill on this bar.
+ */
+export function checkOrderFill(order: PendingOrder, bar: Bar): number | null {
+  if (order.type === 'LIMIT' && order.limitPrice !== undefined) {
+    const limit = order.limitPrice;
+    if (order.side === 'BUY') {
+      if (bar.open <= limit) return bar.open;
+      return bar.low <= limit ? limit : null;
+    }
+    if (bar.open >= limit) return bar.open;
+    return bar.high >= limit ? limit : null;
+  }
+  if (order.type === 'STOP' && order.stopPrice !== undefined) {
+    const stop = order.stopPrice;
+    if (order.side === 'BUY') {
+      if (bar.open >= stop) return bar.open;
+      return bar.high >= stop ? stop : null;
+    }
+    if (bar.open <= stop) return bar.open;
+    return bar.low <= stop ? stop : null;
+  }
+  return null;
+}
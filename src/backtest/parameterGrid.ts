@@ -0,0 +1,179 @@
+// src/backtest/parameterGrid.ts
+// Builds the parameter combinations to optimize a strategy over, from the min/max/step of its parameter definitions
+// or from ranges and explicit value lists given by the caller.
+
+import type { StrategyParameterDefinition } from '../strategies/strategy.types';
+
+export type ParameterValue = number | string | boolean;
+
+// A numeric range (min to max in increments of step) or an explicit list of values
+export interface ParameterRange {
+  min?: number;
+  max?: number;
+  step?: number;
+  values?: ParameterValue[];
+}
+
+export const DEFAULT_MAX_COMBINATIONS = 1000;
+
+// Decimals kept when stepping through a range, so 0.1 + 0.2 gives 0.3
+const RANGE_PRECISION = 1e10;
+
+/**
+ * Validates parameter ranges received from an API payload or a JSON config against a strategy's parameters.
+ * @param ranges - The value to validate (may be undefined).
+ * @param definitions - The strategy's parameter definitions.
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateParameterRanges(ranges: unknown, definitions: StrategyParameterDefinition[]): string | null {
+  if (ranges === undefined || ranges === null) {
+    return null;
+  }
+  if (typeof ranges !== 'object' || Array.isArray(ranges)) {
+    return 'parameterRanges must be an object keyed by parameter name.';
+  }
+  for (const [name, range] of Object.entries(ranges as Record<string, unknown>)) {
+    if (!definitions.some(definition => definition.name === name)) {
+      return `parameterRanges.${name} is not a parameter of this strategy.`;
+    }
+    if (typeof range !== 'object' || range === null) {
+      return `parameterRanges.${name} must be an object with min/max/step or values.`;
+    }
+    const { min, max, step, values } = range as ParameterRange;
+    if (values !== undefined) {
+      if (!Array.isArray(values) || values.length === 0 || values.some(value => !['number', 'string', 'boolean'].includes(typeof value))) {
+        return `parameterRanges.${name}.values must be a non-empty array of numbers, strings or booleans.`;
+      }
+      continue;
+    }
+    if (typeof min !== 'number' || typeof max !== 'number' || typeof step !== 'number' || !isFinite(min) || !isFinite(max) || !isFinite(step)) {
+      return `parameterRanges.${name} must have numeric min, max and step, or values.`;
+    }
+    if (min > max) {
+      return `parameterRanges.${name}.min must not be greater than max.`;
+    }
+    if (step <= 0) {
+      return `parameterRanges.${name}.step must be greater than 0.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Expands a numeric range into its values, from min up to max (inclusive) in increments of step.
+ */
+export function expandRange(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  for (let k = 0; ; k++) {
+    const value = Math.round((min + k * step) * RANGE_PRECISION) / RANGE_PRECISION;
+    if (value > max) break;
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Number of values expandRange gives for a range, computed without expanding it.
+ */
+export function countRangeValues(min: number, max: number, step: number): number {
+  return Math.floor(Math.round(((max - min) / step) * RANGE_PRECISION) / RANGE_PRECISION) + 1;
+}
+
+// The values of an optimized parameter: an explicit list, or a range still to expand
+type ParameterDomain = { values: ParameterValue[] } | { min: number; max: number; step: number };
+
+// A range given by the caller wins; otherwise numeric parameters with min, max and a positive step are optimized
+// over their range, unless marked as not optimizable. Other parameters are not part of the grid.
+function resolveParameterDomains(
+  definitions: StrategyParameterDefinition[],
+  ranges: Record<string, ParameterRange>
+): Record<string, ParameterDomain> {
+  const domainsByName: Record<string, ParameterDomain> = {};
+  for (const definition of definitions) {
+    const range = ranges[definition.name];
+    if (range?.values) {
+      domainsByName[definition.name] = { values: range.values };
+    } else if (range) {
+      domainsByName[definition.name] = { min: range.min as number, max: range.max as number, step: range.step as number };
+    } else if (
+      definition.type === 'number' && definition.optimizable !== false &&
+      definition.min !== undefined && definition.max !== undefined && definition.step !== undefined &&
+      definition.min <= definition.max && definition.step > 0
+    ) {
+      domainsByName[definition.name] = { min: definition.min, max: definition.max, step: definition.step };
+    }
+  }
+  return domainsByName;
+}
+
+/**
+ * Resolves the values to try for each optimized parameter. A range given by the caller wins; otherwise numeric
+ * parameters with min, max and a positive step are optimized over their range, unless marked as not optimizable (order
+ * sizes). Other parameters are not part of the grid and keep the value from the strategy parameters (or their default).
+ * Check the size of the grid with countParameterValues first: ranges are expanded in full.
+ * @param definitions - The strategy's parameter definitions.
+ * @param ranges - Optional ranges or value lists per parameter name (validated with validateParameterRanges).
+ * @returns The values to try, keyed by parameter name.
+ */
+export function resolveParameterValues(
+  definitions: StrategyParameterDefinition[],
+  ranges: Record<string, ParameterRange> = {}
+): Record<string, ParameterValue[]> {
+  const valuesByName: Record<string, ParameterValue[]> = {};
+  for (const [name, domain] of Object.entries(resolveParameterDomains(definitions, ranges))) {
+    valuesByName[name] = 'values' in domain ? [...domain.values] : expandRange(domain.min, domain.max, domain.step);
+  }
+  return valuesByName;
+}
+
+/**
+ * Counts the values resolveParameterValues would try for each optimized parameter, without expanding the ranges.
+ * @returns The number of values, keyed by parameter name.
+ */
+export function countParameterValues(
+  definitions: StrategyParameterDefinition[],
+  ranges: Record<string, ParameterRange> = {}
+): Record<string, number> {
+  const countsByName: Record<string, number> = {};
+  for (const [name, domain] of Object.entries(resolveParameterDomains(definitions, ranges))) {
+    countsByName[name] = 'values' in domain ? domain.values.length : countRangeValues(domain.min, domain.max, domain.step);
+  }
+  return countsByName;
+}
+
+/**
+ * Number of combinations in the Cartesian product of the value lists (1 when nothing is optimized).
+ */
+export function countCombinations(valuesByName: Record<string, ParameterValue[]>): number {
+  return Object.values(valuesByName).reduce((count, values) => count * values.length, 1);
+}
+
+/**
+ * Number of combinations of the value counts from countParameterValues (1 when nothing is optimized).
+ */
+export function countCombinationsOfCounts(countsByName: Record<string, number>): number {
+  return Object.values(countsByName).reduce((count, valueCount) => count * valueCount, 1);
+}
+
+/**
+ * Checks the size of a grid against a limit.
+ * @returns An error message if the grid has more combinations than maxCombinations, otherwise null.
+ */
+export function validateCombinationCount(combinations: number, maxCombinations: number = DEFAULT_MAX_COMBINATIONS): string | null {
+  if (combinations > maxCombinations) {
+    return `The parameter grid has ${combinations} combinations, more than maxCombinations (${maxCombinations}). Narrow parameterRanges or raise maxCombinations.`;
+  }
+  return null;
+}
+
+/**
+ * Enumerates the Cartesian product of the value lists, varying the last parameter fastest.
+ * @returns One parameter set per combination; a single empty set when nothing is optimized.
+ */
+export function generateParameterGrid(valuesByName: Record<string, ParameterValue[]>): Record<string, ParameterValue>[] {
+  let grid: Record<string, ParameterValue>[] = [{}];
+  for (const [name, values] of Object.entries(valuesByName)) {
+    grid = grid.flatMap(combination => values.map(value => ({ ...combination, [name]: value })));
+  }
+  return grid;
+}
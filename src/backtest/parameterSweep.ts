@@ -0,0 +1,166 @@
+// src/backtest/parameterSweep.ts
+// Parameter sweep: runs a strategy once per combination of a parameter grid over the same symbol and dates and
+// returns one row of metrics per combination, so results can be compared across the whole grid (e.g. as a heatmap)
+// rather than only keeping the best one.
+
+import logger from '../utils/logger';
+import { getStrategy, StrategyParameterDefinition } from '../strategies';
+import { runBacktest, BacktestOptions, BacktestResult } from './index';
+import {
+  ParameterRange,
+  ParameterValue,
+  countCombinationsOfCounts,
+  countParameterValues,
+  generateParameterGrid,
+  resolveParameterValues,
+  validateCombinationCount,
+  validateParameterRanges,
+} from './parameterGrid';
+
+export interface SweepSettings {
+  parameterRanges?: Record<string, ParameterRange>; // Defaults to the min/max/step of the strategy's numeric parameters
+  maxCombinations?: number;                         // Defaults to DEFAULT_MAX_COMBINATIONS
+}
+
+export interface SweepMetrics {
+  totalReturn: number;        // Percent
+  finalPortfolioValue: number;
+  cagr: number | null;        // Percent
+  sharpeRatio: number;
+  sortinoRatio: number;
+  maxDrawdown: number;        // Percent
+  winRate: number;            // Percent of round trips
+  profitFactor: number | null;
+  roundTrips: number;
+  totalTrades: number;
+  totalTransactionCosts: number;
+}
+
+export interface SweepRow {
+  parameters: Record<string, ParameterValue>; // Values of the swept parameters
+  metrics: SweepMetrics | null;               // null when the run failed
+  error?: string;
+}
+
+export interface ParameterSweepResult {
+  symbol: string;
+  strategyId: string;
+  startDate: Date;
+  endDate: Date;
+  parameterNames: string[];                        // Swept parameters, in grid order
+  parameterValues: Record<string, ParameterValue[]>; // Values tried per swept parameter
+  combinationsTested: number;
+  rows: SweepRow[];                                // One per combination, in grid order
+}
+
+/**
+ * Checks that a sweep can run for a strategy: the parameter ranges match it, there is at least one parameter to
+ * sweep and the grid is not larger than maxCombinations.
+ * @returns An error message if the sweep cannot run, otherwise null.
+ */
+export function validateSweepPlan(parameters: StrategyParameterDefinition[], settings: SweepSettings): string | null {
+  const rangesError = validateParameterRanges(settings.parameterRanges, parameters);
+  if (rangesError) {
+    return rangesError;
+  }
+  const { maxCombinations } = settings;
+  if (maxCombinations !== undefined && (typeof maxCombinations !== 'number' || !Number.isInteger(maxCombinations) || maxCombinations <= 0)) {
+    return 'maxCombinations must be a positive integer.';
+  }
+  // Counted before anything is expanded, so a huge range is rejected without being built
+  const valueCounts = countParameterValues(parameters, settings.parameterRanges);
+  if (Object.keys(valueCounts).length === 0) {
+    return 'No parameter to sweep: give parameterRanges, or use a strategy with min/max/step on its numeric parameters.';
+  }
+  return validateCombinationCount(countCombinationsOfCounts(valueCounts), maxCombinations);
+}
+
+// The sweep's metrics of one backtest
+function toSweepMetrics(result: BacktestResult): SweepMetrics {
+  return {
+    totalReturn: result.profitOrLossPercentage,
+    finalPortfolioValue: result.finalPortfolioValue,
+    cagr: result.analytics?.cagr ?? null,
+    sharpeRatio: result.analytics?.sharpeRatio ?? result.sharpeRatio ?? 0,
+    sortinoRatio: result.analytics?.sortinoRatio ?? 0,
+    maxDrawdown: result.analytics?.maxDrawdown ?? (result.maxDrawdown ?? 0) * 100,
+    winRate: result.analytics?.winRate ?? 0,
+    profitFactor: result.analytics?.profitFactor ?? null,
+    roundTrips: result.analytics?.roundTrips ?? 0,
+    totalTrades: result.totalTrades,
+    totalTransactionCosts: result.totalTransactionCosts,
+  };
+}
+
+/**
+ * Runs a strategy once per combination of its parameter grid.
+ * @param symbol - The symbol to backtest.
+ * @param startDate - Start of every run.
+ * @param endDate - End of every run.
+ * @param initialCash - Cash of every run.
+ * @param strategyId - The strategy to sweep.
+ * @param strategyParams - Values of the parameters that are not swept.
+ * @param sourceApi - Optional data source.
+ * @param interval - Optional data interval.
+ * @param settings - Parameter ranges and grid size limit.
+ * @param options - Engine options passed to every run.
+ * @throws If the strategy is unknown or the sweep cannot run (see validateSweepPlan). A failing run does not stop
+ * the sweep: its row has no metrics and an error message.
+ */
+export async function runParameterSweep(
+  symbol: string,
+  startDate: Date,
+  endDate: Date,
+  initialCash: number,
+  strategyId: string,
+  strategyParams: Record<string, any>,
+  sourceApi: string | undefined,
+  interval: string | undefined,
+  settings: SweepSettings,
+  options: BacktestOptions = {}
+): Promise<ParameterSweepResult> {
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+    throw new Error(`Strategy not found: ${strategyId}`);
+  }
+  const planError = validateSweepPlan(strategy.parameters, settings);
+  if (planError) {
+    throw new Error(planError);
+  }
+
+  const parameterValues = resolveParameterValues(strategy.parameters, settings.parameterRanges);
+  const grid = generateParameterGrid(parameterValues);
+  logger.info(`Starting parameter sweep for ${symbol} with strategy ${strategy.name}`, {
+    startDate,
+    endDate,
+    combinations: grid.length,
+    parameterValues,
+  });
+
+  const rows: SweepRow[] = [];
+  for (const combination of grid) {
+    try {
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, strategyId, { ...strategyParams, ...combination }, sourceApi, interval, options);
+      rows.push({ parameters: combination, metrics: toSweepMetrics(result) });
+    } catch (error: any) {
+      logger.warn(`Parameter sweep for ${symbol}: run with ${JSON.stringify(combination)} failed: ${error.message}`);
+      rows.push({ parameters: combination, metrics: null, error: error.message });
+    }
+  }
+
+  logger.info(`Parameter sweep completed for ${symbol} using strategy ${strategy.name}.`, {
+    combinationsTested: rows.length,
+    failedRuns: rows.filter(row => row.metrics === null).length,
+  });
+
+  return {
+    symbol,
+    strategyId,
+    startDate,
+    endDate,
+    parameterNames: Object.keys(parameterValues),
+    parameterValues,
+    combinationsTested: rows.length,
+    rows,
+  };
+}
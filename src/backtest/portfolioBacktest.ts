@@ -0,0 +1,573 @@
+// src/backtest/portfolioBacktest.ts
+// Multi-asset portfolio backtest: several symbols traded with one shared cash balance. Bars are aligned on the
+// union of the symbols' timestamps, the portfolio is marked at each symbol's latest close, and the result reports
+// one combined equity curve plus per-symbol P&L attribution.
+//
+// Market signals fill at the close of the signal bar. With margin enabled, positions can be short (e.g. the two legs
+// of a pairs trade) and the margin rules apply to the whole portfolio. Resting orders, protective exits and next-bar
+// execution are single-symbol features of runBacktest and are not available here.
+
+import { fetchHistoricalDataFromDB, HistoricalDataPoint } from '../services/dataService';
+import logger from '../utils/logger';
+import {
+  createStrategy,
+  disposeStrategy,
+  TradingStrategy,
+  StrategyContext,
+  StrategySignal,
+  PortfolioStrategyContext,
+  PortfolioSignal,
+} from '../strategies';
+import type { BacktestOptions, Trade, TradeType } from './index';
+import {
+  resolveMarginSettings,
+  calculatePortfolioBorrowInterest,
+  isPortfolioWithinLeverageCap,
+  isPortfolioBelowMaintenanceMargin,
+} from './margin';
+import { createCostModel, OrderSide } from './costModel';
+import { DEFAULT_ATR_PERIOD, sizeSignalOrder } from './positionSizing';
+import { getBarsPerYear } from '../utils/intervals';
+import { calculateATR } from '../utils/technicalIndicators';
+import { PerformanceReport, calculatePerformanceReport } from './analytics';
+import { RoundTripTrade, buildRoundTrips } from './lotMatching';
+import { applyFillToAverageCost } from './averageCost';
+import { validateUnsupportedSettings } from './backtestRequest';
+
+export interface MultiAssetPortfolio {
+  cash: number; // Can be negative in margin mode (borrowed cash)
+  positions: Record<string, number>; // Units held per symbol, negative for a short position in margin mode
+  initialValue: number;
+  currentValue: number; // Cash plus positions marked at each symbol's latest close
+}
+
+export interface PortfolioTrade extends Trade {
+  symbol: string;
+}
+
+// Contribution of one symbol to the portfolio's P&L. Realized P&L uses the average entry price, of longs and shorts
+// alike; fees are included.
+export interface SymbolAttribution {
+  symbol: string;
+  trades: number;
+  fees: number;
+  slippage: number;
+  finalPosition: number;
+  lastPrice: number | null; // Latest close seen, null if the symbol had no data
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  contributionPercent: number; // totalPnl as a percentage of the initial portfolio value
+}
+
+export interface PortfolioBacktestResult {
+  symbols: string[];
+  startDate: Date;
+  endDate: Date;
+  initialPortfolioValue: number;
+  finalPortfolioValue: number;
+  totalProfitOrLoss: number;
+  profitOrLossPercentage: number;
+  trades: PortfolioTrade[];
+  totalTrades: number;
+  dataPointsProcessed: number; // Number of aligned timestamps
+  portfolioHistory: { timestamp: number; value: number }[];
+  sharpeRatio: number;
+  maxDrawdown: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalTransactionCosts: number;
+  finalPositions: Record<string, number>;
+  attribution: SymbolAttribution[];
+  analytics: PerformanceReport;
+  roundTrips: RoundTripTrade[]; // Closed positions per symbol (see lotMatching.ts)
+  symbolsWithoutData?: string[]; // Requested symbols for which no data was found (left out of the backtest)
+  totalBorrowInterest?: number; // Interest accrued on borrowed cash and shorts (margin mode only)
+  liquidations?: number; // Number of LIQUIDATION trades (margin mode only)
+}
+
+export type PortfolioBacktestOptions = Pick<BacktestOptions, 'costModel' | 'positionSizing' | 'lotMatching' | 'margin'>;
+
+// Per-symbol bookkeeping for attribution
+interface SymbolLedger {
+  trades: number;
+  fees: number;
+  slippage: number;
+  costBasis: number; // Cost of the units currently held, fees included; minus the net proceeds of a short
+  realizedPnl: number;
+}
+
+/**
+ * Validates the symbol list of a portfolio backtest.
+ * @param symbols - The symbols to validate.
+ * @returns An error message if the list is invalid, otherwise null.
+ */
+export function validatePortfolioSymbols(symbols: unknown): string | null {
+  if (!Array.isArray(symbols) || symbols.length === 0) {
+    return 'symbols must be a non-empty array of symbols.';
+  }
+  if (symbols.some(symbol => typeof symbol !== 'string' || symbol.trim() === '')) {
+    return 'symbols must only contain non-empty strings.';
+  }
+  if (new Set(symbols).size !== symbols.length) {
+    return 'symbols must not contain duplicates.';
+  }
+  return null;
+}
+
+// Settings of single-symbol backtests that a portfolio backtest does not apply
+const UNSUPPORTED_PORTFOLIO_SETTINGS = ['executionTiming', 'benchmarkSymbol'] as const;
+
+/**
+ * Rejects settings of single-symbol backtests that a portfolio backtest would otherwise ignore, such as an
+ * executionTiming of NEXT_BAR_OPEN, which would silently fill at the same bar's close instead.
+ * @param settings - The request body.
+ * @returns An error message if an unsupported setting is given, otherwise null.
+ */
+export function validateUnsupportedPortfolioSettings(settings: Record<string, unknown>): string | null {
+  return validateUnsupportedSettings(settings, UNSUPPORTED_PORTFOLIO_SETTINGS, 'portfolio backtests');
+}
+
+/**
+ * Builds the aligned timeline of a portfolio backtest: the sorted union of every symbol's bar timestamps.
+ * @param dataBySymbol - Historical bars per symbol.
+ * @returns Unique timestamps in ascending order.
+ */
+export function alignTimestamps(dataBySymbol: Record<string, HistoricalDataPoint[]>): number[] {
+  const timestamps = new Set<number>();
+  for (const bars of Object.values(dataBySymbol)) {
+    for (const bar of bars) timestamps.add(bar.timestamp);
+  }
+  return Array.from(timestamps).sort((a, b) => a - b);
+}
+
+export async function runPortfolioBacktest(
+  symbols: string[],
+  startDate: Date,
+  endDate: Date,
+  initialCash: number,
+  strategyId: string,
+  strategyParams: Record<string, number | string | boolean>,
+  sourceApi?: string,
+  interval?: string,
+  options: PortfolioBacktestOptions = {}
+): Promise<PortfolioBacktestResult> {
+  const selectedStrategy = createStrategy(strategyId); // A new instance, so concurrent runs do not share strategy state
+  // A single-symbol strategy keeps the state of one symbol (e.g. the safety orders of a DCA cycle or the placed grid
+  // levels), so every symbol gets an instance of its own
+  const symbolStrategies: Record<string, TradingStrategy> = {};
+  try {
+    if (selectedStrategy && !selectedStrategy.executePortfolio) {
+      for (const symbol of symbols) {
+        symbolStrategies[symbol] = createStrategy(strategyId)!;
+      }
+    }
+    return await runPortfolioBacktestWithStrategy(selectedStrategy, symbolStrategies, symbols, startDate, endDate, initialCash, strategyId, strategyParams, sourceApi, interval, options);
+  } finally {
+    for (const strategy of [selectedStrategy, ...Object.values(symbolStrategies)]) {
+      if (strategy) {
+        await disposeStrategy(strategy);
+      }
+    }
+  }
+}
+
+// The body of runPortfolioBacktest, for strategy instances owned by the run: the selected strategy (undefined if it
+// is unknown) and, for a single-symbol strategy, the instance that trades each symbol
+async function runPortfolioBacktestWithStrategy(
+  selectedStrategy: TradingStrategy | undefined,
+  symbolStrategies: Record<string, TradingStrategy>,
+  symbols: string[],
+  startDate: Date,
+  endDate: Date,
+  initialCash: number,
+  strategyId: string,
+  strategyParams: Record<string, number | string | boolean>,
+  sourceApi: string | undefined,
+  interval: string | undefined,
+  options: PortfolioBacktestOptions
+): Promise<PortfolioBacktestResult> {
+  const emptyResult = (symbolsWithoutData?: string[]): PortfolioBacktestResult => ({
+    symbols,
+    startDate,
+    endDate,
+    initialPortfolioValue: initialCash,
+    finalPortfolioValue: initialCash,
+    totalProfitOrLoss: 0,
+    profitOrLossPercentage: 0,
+    trades: [],
+    totalTrades: 0,
+    dataPointsProcessed: 0,
+    portfolioHistory: [],
+    sharpeRatio: 0,
+    maxDrawdown: 0,
+    totalFees: 0,
+    totalSlippage: 0,
+    totalTransactionCosts: 0,
+    finalPositions: Object.fromEntries(symbols.map(symbol => [symbol, 0])),
+    attribution: [],
+    analytics: calculatePerformanceReport([], [], getBarsPerYear(interval)),
+    roundTrips: [],
+    symbolsWithoutData,
+  });
+
+  if (!selectedStrategy) {
+    logger.error(`Strategy with ID '${strategyId}' not found. Aborting portfolio backtest.`);
+    return emptyResult();
+  }
+
+  const effectiveStrategyParams = { ...strategyParams };
+  selectedStrategy.parameters.forEach(paramDef => {
+    if (effectiveStrategyParams[paramDef.name] === undefined) {
+      effectiveStrategyParams[paramDef.name] = paramDef.defaultValue;
+    }
+  });
+
+  logger.info(`Starting portfolio backtest for ${symbols.join(', ')}`, {
+    startDate,
+    endDate,
+    initialCash,
+    strategyId: selectedStrategy.id,
+    strategyName: selectedStrategy.name,
+    strategyParams: effectiveStrategyParams,
+    sourceApi,
+    interval,
+    costModel: options.costModel,
+    positionSizing: options.positionSizing,
+    lotMatching: options.lotMatching,
+    margin: options.margin,
+  });
+
+  const dataBySymbol: Record<string, HistoricalDataPoint[]> = {};
+  const symbolsWithoutData: string[] = [];
+  for (const symbol of symbols) {
+    const data = await fetchHistoricalDataFromDB(symbol, startDate, endDate, sourceApi, interval);
+    if (!data || data.length === 0) {
+      logger.warn(`No historical data found for ${symbol} between ${startDate.toISOString()} and ${endDate.toISOString()}. Leaving it out of the portfolio backtest.`);
+      symbolsWithoutData.push(symbol);
+    } else {
+      dataBySymbol[symbol] = data;
+    }
+  }
+  const activeSymbols = symbols.filter(symbol => dataBySymbol[symbol]);
+  if (activeSymbols.length === 0) {
+    logger.warn(`No historical data found for any of ${symbols.join(', ')}. Cannot run portfolio backtest.`);
+    return emptyResult(symbolsWithoutData);
+  }
+
+  const timestamps = alignTimestamps(dataBySymbol);
+  logger.info(`Processing ${timestamps.length} aligned timestamps for ${activeSymbols.length} symbols using strategy: ${selectedStrategy.name}...`);
+
+  const portfolio: MultiAssetPortfolio = {
+    cash: initialCash,
+    positions: Object.fromEntries(symbols.map(symbol => [symbol, 0])),
+    initialValue: initialCash,
+    currentValue: initialCash,
+  };
+  const ledgers: Record<string, SymbolLedger> = Object.fromEntries(
+    symbols.map(symbol => [symbol, { trades: 0, fees: 0, slippage: 0, costBasis: 0, realizedPnl: 0 }])
+  );
+  const tradeHistory: PortfolioTrade[] = [];
+  const costModel = createCostModel(options.costModel);
+  const marginSettings = resolveMarginSettings(options.margin);
+  const positionSizing = options.positionSizing;
+  const barsPerYear = getBarsPerYear(interval);
+  const barIndices: Record<string, number> = Object.fromEntries(activeSymbols.map(symbol => [symbol, -1]));
+  const lastPrices: Record<string, number | null> = Object.fromEntries(symbols.map(symbol => [symbol, null]));
+  const averageEntryPrices: Record<string, number> = Object.fromEntries(symbols.map(symbol => [symbol, 0]));
+  const atrValues: Record<string, number[]> = {}; // Computed on first use per symbol
+  let totalFees = 0;
+  let totalSlippage = 0;
+  let totalBorrowInterest = 0;
+  let liquidations = 0;
+
+  const markPrices = (): Record<string, number> =>
+    Object.fromEntries(activeSymbols.map(symbol => [symbol, lastPrices[symbol] ?? 0]));
+  const markPortfolio = (): number =>
+    portfolio.cash + activeSymbols.reduce((sum, symbol) => sum + portfolio.positions[symbol] * (lastPrices[symbol] ?? 0), 0);
+
+  // Fills a market order at the symbol's current close. Without margin, BUY needs enough cash for price + fees and
+  // SELL enough units. In margin mode, any order is accepted as long as the portfolio stays within the leverage cap
+  // (or the order only reduces the symbol's position). Liquidations bypass all checks.
+  const executeOrder = (
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    bar: HistoricalDataPoint,
+    tradeType: TradeType = 'SIGNAL'
+  ): PortfolioTrade | null => {
+    const { fillPrice, fees, slippage } = costModel.applyCosts(side, bar.close, quantity);
+    const cashChange = side === 'BUY' ? -(fillPrice * quantity + fees) : fillPrice * quantity - fees;
+    const held = portfolio.positions[symbol];
+    const direction = side === 'BUY' ? 1 : -1;
+
+    if (tradeType !== 'LIQUIDATION') {
+      if (marginSettings) {
+        const after = { cash: portfolio.cash + cashChange, positions: { ...portfolio.positions, [symbol]: held + direction * quantity } };
+        if (!isPortfolioWithinLeverageCap(portfolio, after, symbol, markPrices(), marginSettings.maxLeverage)) {
+          logger.debug(`Attempted ${side} for ${symbol} at ${bar.close} via ${selectedStrategy.name}, but it would exceed the ${marginSettings.maxLeverage}x leverage cap.`);
+          return null;
+        }
+      } else if (side === 'BUY' && portfolio.cash < -cashChange) {
+        logger.debug(`Attempted BUY for ${symbol} at ${bar.close} via ${selectedStrategy.name}, but insufficient cash. Needed ${-cashChange}, have ${portfolio.cash}.`);
+        return null;
+      } else if (side === 'SELL' && held < quantity) {
+        logger.debug(`Attempted SELL for ${symbol} at ${bar.close} via ${selectedStrategy.name}, but insufficient units. Have ${held}, tried to sell ${quantity}.`);
+        return null;
+      }
+    }
+
+    // The part of the order that reduces the position realizes P&L against its average cost; the rest opens or
+    // adds to a position in the order's direction
+    const ledger = ledgers[symbol];
+    const closingQuantity = held * direction < 0 ? Math.min(quantity, Math.abs(held)) : 0;
+    const closingCash = cashChange * (closingQuantity / quantity);
+    if (closingQuantity > 0) {
+      const costOfUnitsClosed = ledger.costBasis * (closingQuantity / Math.abs(held));
+      ledger.costBasis -= costOfUnitsClosed;
+      ledger.realizedPnl += closingCash - costOfUnitsClosed;
+    }
+    ledger.costBasis -= cashChange - closingCash;
+    averageEntryPrices[symbol] = applyFillToAverageCost({ quantity: held, averagePrice: averageEntryPrices[symbol] }, side, quantity, fillPrice).averagePrice;
+    portfolio.cash += cashChange;
+    portfolio.positions[symbol] = held + direction * quantity;
+    ledger.trades++;
+    ledger.fees += fees;
+    ledger.slippage += slippage;
+    totalFees += fees;
+    totalSlippage += slippage;
+
+    const trade: PortfolioTrade = {
+      symbol,
+      timestamp: bar.timestamp,
+      date: bar.date,
+      action: side,
+      price: fillPrice,
+      sharesTraded: quantity,
+      cashAfterTrade: portfolio.cash,
+      fees,
+      slippage,
+      tradeType,
+    };
+    tradeHistory.push(trade);
+    logger.debug(`${tradeType !== 'SIGNAL' ? `${tradeType} ` : ''}${side}: ${quantity} units of ${symbol} at ${fillPrice} on ${bar.date.toISOString()} via ${selectedStrategy.name}`, { cash: portfolio.cash, fees, slippage });
+    return trade;
+  };
+
+  const sizeOrder = (symbol: string, signal: StrategySignal, side: OrderSide, bar: HistoricalDataPoint): number =>
+    sizeSignalOrder(signal, side, positionSizing, {
+      price: bar.close,
+      position: portfolio.positions[symbol],
+      equity: markPortfolio(),
+      barsPerYear,
+      getAtr: () => {
+        const bars = dataBySymbol[symbol];
+        if (!atrValues[symbol]) {
+          atrValues[symbol] = calculateATR(
+            bars.map(d => d.high),
+            bars.map(d => d.low),
+            bars.map(d => d.close),
+            positionSizing?.atrPeriod ?? DEFAULT_ATR_PERIOD
+          );
+        }
+        return atrValues[symbol][barIndices[symbol]];
+      },
+    });
+
+  const portfolioHistory: { timestamp: number; value: number }[] = [{ timestamp: timestamps[0], value: initialCash }];
+  let peakPortfolioValue = initialCash;
+  let maxDrawdown = 0;
+
+  // A portfolio strategy runs on every symbol, the instance of a single-symbol strategy on its own symbol
+  const runInfo = { symbols: activeSymbols, parameters: effectiveStrategyParams };
+  const symbolRunInfo = (symbol: string) => ({ symbols: [symbol], parameters: effectiveStrategyParams });
+  if (selectedStrategy.executePortfolio) {
+    await selectedStrategy.init?.(runInfo);
+  } else {
+    for (const symbol of activeSymbols) {
+      await symbolStrategies[symbol].init?.(symbolRunInfo(symbol));
+    }
+  }
+
+  for (let i = 0; i < timestamps.length; i++) {
+    const timestamp = timestamps[i];
+    if (marginSettings && i > 0) {
+      // Borrow interest for carrying the positions from the previous timestamp into this one, at the previous marks
+      const interest = calculatePortfolioBorrowInterest(portfolio, markPrices(), marginSettings.borrowRatePercentAnnual, barsPerYear);
+      portfolio.cash -= interest;
+      totalBorrowInterest += interest;
+    }
+
+    const currentBars: Record<string, HistoricalDataPoint | null> = {};
+    for (const symbol of activeSymbols) {
+      const bars = dataBySymbol[symbol];
+      const nextIndex = barIndices[symbol] + 1;
+      if (nextIndex < bars.length && bars[nextIndex].timestamp === timestamp) {
+        barIndices[symbol] = nextIndex;
+        currentBars[symbol] = bars[nextIndex];
+        lastPrices[symbol] = bars[nextIndex].close;
+      } else {
+        currentBars[symbol] = null;
+      }
+    }
+    if (marginSettings && isPortfolioBelowMaintenanceMargin(portfolio, markPrices(), marginSettings.maintenanceMarginPercent)) {
+      // Forced liquidation at this timestamp's closes, before the strategy sees the bar. Symbols without a bar
+      // cannot trade and stay open.
+      logger.warn(`Maintenance margin breached for the portfolio at ${new Date(timestamp * 1000).toISOString()}. Liquidating its positions.`);
+      for (const symbol of activeSymbols) {
+        const bar = currentBars[symbol];
+        const held = portfolio.positions[symbol];
+        if (bar && held !== 0) {
+          executeOrder(symbol, held > 0 ? 'SELL' : 'BUY', Math.abs(held), bar, 'LIQUIDATION');
+          liquidations++;
+        }
+      }
+    }
+    portfolio.currentValue = markPortfolio();
+
+    let signals: PortfolioSignal[] = [];
+    if (selectedStrategy.executePortfolio) {
+      const context: PortfolioStrategyContext<Record<string, any>> = {
+        symbols: activeSymbols,
+        timestamps,
+        currentIndex: i,
+        historicalData: dataBySymbol,
+        barIndices: { ...barIndices },
+        currentBars,
+        portfolio: { ...portfolio, positions: { ...portfolio.positions } }, // Pass a copy
+        tradeHistory: [...tradeHistory],
+        parameters: effectiveStrategyParams,
+      };
+      signals = await Promise.resolve(selectedStrategy.executePortfolio(context));
+    } else {
+      // Single-symbol strategies see each symbol on its own, with the shared cash and that symbol's position, and keep
+      // an instance per symbol
+      for (const symbol of activeSymbols) {
+        if (!currentBars[symbol]) continue;
+        const context: StrategyContext<Record<string, any>> = {
+          symbol,
+          historicalData: dataBySymbol[symbol],
+          currentIndex: barIndices[symbol],
+          portfolio: {
+            cash: portfolio.cash,
+            shares: portfolio.positions[symbol],
+            initialValue: portfolio.initialValue,
+            currentValue: portfolio.currentValue,
+            averageEntryPrice: averageEntryPrices[symbol],
+          },
+          tradeHistory: tradeHistory.filter(trade => trade.symbol === symbol),
+          parameters: effectiveStrategyParams,
+        };
+        const signal = await Promise.resolve(symbolStrategies[symbol].execute(context));
+        signals.push({ ...signal, symbol });
+      }
+    }
+
+    for (const signal of signals) {
+      if (signal.orders && signal.orders.length > 0) {
+        logger.warn(`Ignoring ${signal.orders.length} ladder orders from ${selectedStrategy.name} for ${signal.symbol}: resting orders are not supported in portfolio backtests.`);
+      }
+    }
+
+    // Sells go first so that a rotation can spend the cash they free up on the same bar
+    const orders = signals
+      .filter(signal => signal.action === 'BUY' || signal.action === 'SELL')
+      .sort((a, b) => (a.action === b.action ? 0 : a.action === 'SELL' ? -1 : 1));
+    for (const signal of orders) {
+      const bar = activeSymbols.includes(signal.symbol) ? currentBars[signal.symbol] : undefined;
+      if (bar === undefined) {
+        logger.warn(`Ignoring ${signal.action} signal from ${selectedStrategy.name} for unknown symbol '${signal.symbol}'.`);
+        continue;
+      }
+      if (bar === null) {
+        logger.debug(`Ignoring ${signal.action} signal for ${signal.symbol} at ${new Date(timestamp * 1000).toISOString()}: the symbol has no bar at this timestamp.`);
+        continue;
+      }
+      if (signal.orderType === 'LIMIT' || signal.orderType === 'STOP') {
+        logger.warn(`Ignoring ${signal.orderType} order from ${selectedStrategy.name} for ${signal.symbol}: resting orders are not supported in portfolio backtests.`);
+        continue;
+      }
+      const quantity = sizeOrder(signal.symbol, signal, signal.action as OrderSide, bar);
+      if (!(quantity > 0)) {
+        logger.debug(`Ignoring ${signal.action} signal for ${signal.symbol} from ${selectedStrategy.name}: position sizing returned no quantity.`, { signal, positionSizing });
+        continue;
+      }
+      executeOrder(signal.symbol, signal.action as OrderSide, quantity, bar);
+    }
+
+    portfolio.currentValue = markPortfolio();
+    peakPortfolioValue = Math.max(peakPortfolioValue, portfolio.currentValue);
+    if (peakPortfolioValue > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peakPortfolioValue - portfolio.currentValue) / peakPortfolioValue);
+    }
+    portfolioHistory.push({ timestamp, value: portfolio.currentValue });
+  }
+  if (selectedStrategy.executePortfolio) {
+    await selectedStrategy.onFinish?.(runInfo);
+  } else {
+    for (const symbol of activeSymbols) {
+      await symbolStrategies[symbol].onFinish?.(symbolRunInfo(symbol));
+    }
+  }
+
+  const finalPortfolioValue = portfolio.currentValue;
+  const totalProfitOrLoss = finalPortfolioValue - initialCash;
+  const attribution: SymbolAttribution[] = symbols.map(symbol => {
+    const ledger = ledgers[symbol];
+    const finalPosition = portfolio.positions[symbol];
+    const lastPrice = lastPrices[symbol];
+    const unrealizedPnl = finalPosition !== 0 ? finalPosition * (lastPrice ?? 0) - ledger.costBasis : 0;
+    const totalPnl = ledger.realizedPnl + unrealizedPnl;
+    return {
+      symbol,
+      trades: ledger.trades,
+      fees: ledger.fees,
+      slippage: ledger.slippage,
+      finalPosition,
+      lastPrice,
+      realizedPnl: ledger.realizedPnl,
+      unrealizedPnl,
+      totalPnl,
+      contributionPercent: initialCash !== 0 ? (totalPnl / initialCash) * 100 : 0,
+    };
+  });
+
+  const analytics = calculatePerformanceReport(tradeHistory, portfolioHistory, barsPerYear);
+
+  const result: PortfolioBacktestResult = {
+    symbols,
+    startDate,
+    endDate,
+    initialPortfolioValue: initialCash,
+    finalPortfolioValue,
+    totalProfitOrLoss,
+    profitOrLossPercentage: initialCash === 0
+      ? (totalProfitOrLoss === 0 ? 0 : Infinity)
+      : (totalProfitOrLoss / initialCash) * 100,
+    trades: tradeHistory,
+    totalTrades: tradeHistory.length,
+    dataPointsProcessed: timestamps.length,
+    portfolioHistory,
+    sharpeRatio: analytics.sharpeRatio,
+    maxDrawdown,
+    totalFees,
+    totalSlippage,
+    totalTransactionCosts: totalFees + totalSlippage,
+    finalPositions: { ...portfolio.positions },
+    attribution,
+    analytics,
+    roundTrips: buildRoundTrips(tradeHistory, dataBySymbol, options.lotMatching),
+    symbolsWithoutData: symbolsWithoutData.length > 0 ? symbolsWithoutData : undefined,
+    totalBorrowInterest: marginSettings ? totalBorrowInterest : undefined,
+    liquidations: marginSettings ? liquidations : undefined,
+  };
+
+  logger.info(`Portfolio backtest completed for ${symbols.join(', ')} using strategy ${selectedStrategy.name}.`, {
+    initialValue: result.initialPortfolioValue,
+    finalValue: result.finalPortfolioValue,
+    profitOrLoss: result.totalProfitOrLoss,
+    totalTrades: result.totalTrades,
+  });
+
+  return result;
+}
@@ -0,0 +1,167 @@
+// src/backtest/positionSizing.ts
+// Central position sizing for runBacktest. A signal either carries its own amount (in units, or in the unit
+// given by its sizingMode) or omits it and defers to the backtest's positionSizing settings.
+// Quantities are rounded down to the instrument's lot size.
+
+import type { SizingMode, StrategySignal } from '../strategies/strategy.types';
+import type { OrderSide } from './costModel';
+
+export interface PositionSizingSettings {
+  mode: SizingMode;
+  value: number;            // Units, quote notional, % of equity, % of equity at risk, or target annualized volatility %
+  atrPeriod?: number;       // ATR lookback for VOLATILITY_TARGET and the PERCENT_RISK fallback stop (default 14)
+  atrStopMultiple?: number; // PERCENT_RISK without a stop-loss: stop distance = multiple x ATR (default 2)
+  lotSize?: number;         // Quantities are rounded down to a multiple of this (default: no rounding)
+}
+
+export const DEFAULT_ATR_PERIOD = 14;
+export const DEFAULT_ATR_STOP_MULTIPLE = 2;
+
+const SIZING_MODES: SizingMode[] = ['UNITS', 'NOTIONAL', 'PERCENT_EQUITY', 'PERCENT_RISK', 'VOLATILITY_TARGET'];
+
+export interface SizingInput {
+  mode: SizingMode;
+  value: number;
+  price: number;          // Expected fill price
+  equity: number;         // Account equity marked at price
+  stopDistance?: number;  // Distance to the stop-loss, for PERCENT_RISK
+  atr?: number;           // Current ATR, for VOLATILITY_TARGET
+  barsPerYear: number;    // For annualizing ATR in VOLATILITY_TARGET
+}
+
+// Account and market state needed to size a signal in one instrument
+export interface SignalSizingState {
+  price: number;       // Expected fill price
+  position: number;    // Current signed position in the instrument
+  equity: number;      // Account equity marked at price
+  barsPerYear: number;
+  getAtr: () => number | undefined; // Current ATR with the settings' atrPeriod; only called by the ATR-based modes
+}
+
+/**
+ * Validates position sizing settings received from an API payload or a JSON config.
+ * @param settings - The settings to validate (may be undefined).
+ * @returns An error message if the settings are invalid, otherwise null.
+ */
+export function validatePositionSizingSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'positionSizing must be an object.';
+  }
+  const { mode, value, atrPeriod, atrStopMultiple, lotSize } = settings as Record<string, unknown>;
+  if (!SIZING_MODES.includes(mode as SizingMode)) {
+    return `positionSizing.mode must be one of ${SIZING_MODES.join(', ')}.`;
+  }
+  if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+    return 'positionSizing.value must be a positive number.';
+  }
+  if (atrPeriod !== undefined && (!Number.isInteger(atrPeriod) || (atrPeriod as number) <= 0)) {
+    return 'positionSizing.atrPeriod must be a positive integer.';
+  }
+  if (atrStopMultiple !== undefined && (typeof atrStopMultiple !== 'number' || isNaN(atrStopMultiple) || atrStopMultiple <= 0)) {
+    return 'positionSizing.atrStopMultiple must be a positive number.';
+  }
+  if (lotSize !== undefined && (typeof lotSize !== 'number' || isNaN(lotSize) || lotSize <= 0)) {
+    return 'positionSizing.lotSize must be a positive number.';
+  }
+  return null;
+}
+
+/**
+ * Calculates an order quantity (before lot rounding).
+ * @param input - Sizing mode, value and market/account state.
+ * @returns The quantity, or 0 if it cannot be determined (e.g. missing stop distance or ATR, or no equity).
+ */
+export function calculatePositionSize(input: SizingInput): number {
+  const { mode, value, price, equity, stopDistance, atr, barsPerYear } = input;
+  if (!(price > 0)) return 0;
+
+  switch (mode) {
+    case 'UNITS':
+      return value;
+    case 'NOTIONAL':
+      return value / price;
+    case 'PERCENT_EQUITY':
+      return equity > 0 ? (equity * value / 100) / price : 0;
+    case 'PERCENT_RISK':
+      if (equity <= 0 || stopDistance === undefined || !(stopDistance > 0)) return 0;
+      return (equity * value / 100) / stopDistance;
+    case 'VOLATILITY_TARGET': {
+      if (equity <= 0 || atr === undefined || !(atr > 0)) return 0;
+      // ATR as a fraction of price approximates per-bar volatility
+      const annualizedVolatility = (atr / price) * Math.sqrt(barsPerYear);
+      return (equity * (value / 100) / annualizedVolatility) / price;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Rounds a quantity down to a multiple of the lot size.
+ * @param quantity - The raw quantity.
+ * @param lotSize - The lot size; no rounding when undefined.
+ */
+export function roundToLotSize(quantity: number, lotSize?: number): number {
+  if (!lotSize || lotSize <= 0) return quantity;
+  // The small epsilon keeps e.g. 0.3 / 0.1 = 2.9999999999999996 from losing a lot
+  const lots = Math.floor(quantity / lotSize + 1e-9);
+  return parseFloat((lots * lotSize).toPrecision(12));
+}
+
+/**
+ * Sizes the order of a BUY/SELL signal. A signal amount is interpreted according to its sizingMode. Without an
+ * amount the backtest's positionSizing decides, and a signal against the current position closes it. Without
+ * either, 1 unit is traded (legacy default).
+ * @param signal - The strategy signal.
+ * @param side - The order side.
+ * @param settings - The backtest's positionSizing settings, if any.
+ * @param state - Account and market state at the expected fill.
+ * @returns The quantity rounded to the lot size, or 0 if it cannot be determined.
+ */
+export function sizeSignalOrder(
+  signal: Pick<StrategySignal, 'amount' | 'sizingMode' | 'stopLoss'>,
+  side: OrderSide,
+  settings: PositionSizingSettings | undefined,
+  state: SignalSizingState
+): number {
+  const { price, position } = state;
+  let mode: SizingMode;
+  let value: number;
+  if (signal.amount && signal.amount > 0) {
+    mode = signal.sizingMode ?? 'UNITS';
+    value = signal.amount;
+  } else if (settings) {
+    const closesPosition = (side === 'SELL' && position > 0) || (side === 'BUY' && position < 0);
+    if (closesPosition) return Math.abs(position);
+    mode = settings.mode;
+    value = settings.value;
+  } else {
+    return 1;
+  }
+
+  const atr = mode === 'VOLATILITY_TARGET' || mode === 'PERCENT_RISK' ? state.getAtr() : undefined;
+
+  // PERCENT_RISK uses the signal's stop-loss, or a multiple of ATR when the signal has none
+  let stopDistance: number | undefined;
+  if (signal.stopLoss?.price !== undefined) {
+    stopDistance = Math.abs(price - signal.stopLoss.price);
+  } else if (signal.stopLoss?.percent !== undefined) {
+    stopDistance = price * (signal.stopLoss.percent / 100);
+  } else if (atr !== undefined && !isNaN(atr)) {
+    stopDistance = atr * (settings?.atrStopMultiple ?? DEFAULT_ATR_STOP_MULTIPLE);
+  }
+
+  const quantity = calculatePositionSize({
+    mode,
+    value,
+    price,
+    equity: state.equity,
+    stopDistance,
+    atr,
+    barsPerYear: state.barsPerYear,
+  });
+  return roundToLotSize(quantity, settings?.lotSize);
+}
@@ -0,0 +1,154 @@
+// src/backtest/protectiveOrders.ts
+// Stop-loss, take-profit and trailing-stop exits attached to an entry signal.
+//
+// Orders are armed when the entry fills and are evaluated from the bar after the fill onward
+// against that bar's open, high and low:
+//   1. Gaps: if the bar opens beyond a stop or take-profit level, the exit fills at the open.
+//   2. Same-bar rule: if the bar's range touches both a stop (stop-loss or trailing stop) and the
+//      take-profit, the stop is assumed to fill first. OHLC bars do not tell which level was reached
+//      first, so the engine takes the conservative outcome.
+//   3. Otherwise the exit fills at the level that was touched.
+// The trailing stop level used for a bar is based on the best price seen up to the previous bar;
+// the current bar's high (long) or low (short) only moves the stop for the following bars.
+
+import type { HistoricalDataPoint } from '../services/dataService';
+import type { ProtectiveOrderLevel, StrategySignal } from '../strategies/strategy.types';
+
+export type ProtectiveExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
+export type PositionDirection = 'LONG' | 'SHORT';
+
+export interface ActiveProtectiveOrders {
+  direction: PositionDirection;
+  entryPrice: number;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  trailingDistance?: ProtectiveOrderLevel;
+  bestPrice: number; // Highest high (long) or lowest low (short) since entry, for the trailing stop
+}
+
+// Signal fields that carry protective orders (also present on resting entry orders)
+export type ProtectiveOrderFields = Pick<StrategySignal, 'stopLoss' | 'takeProfit' | 'trailingStop'>;
+
+export interface ProtectiveExit {
+  reason: ProtectiveExitReason;
+  price: number;
+}
+
+type Bar = Pick<HistoricalDataPoint, 'open' | 'high' | 'low'>;
+
+/**
+ * Validates the protective order levels of a strategy signal.
+ * @param signal - The signal returned by a strategy (or a resting order carrying its levels).
+ * @returns An error message if a level is invalid, otherwise null.
+ */
+export function validateProtectiveOrders(signal: ProtectiveOrderFields): string | null {
+  const levels: Array<[string, ProtectiveOrderLevel | undefined]> = [
+    ['stopLoss', signal.stopLoss],
+    ['takeProfit', signal.takeProfit],
+    ['trailingStop', signal.trailingStop],
+  ];
+  for (const [name, level] of levels) {
+    if (!level) continue;
+    if (level.price === undefined && level.percent === undefined) {
+      return `${name} needs a price or a percent.`;
+    }
+    if (level.price !== undefined && (typeof level.price !== 'number' || isNaN(level.price) || level.price <= 0)) {
+      return `${name}.price must be a positive number.`;
+    }
+    if (level.percent !== undefined && (typeof level.percent !== 'number' || isNaN(level.percent) || level.percent <= 0)) {
+      return `${name}.percent must be a positive number.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Arms the protective orders requested by an entry signal.
+ * @param signal - The entry signal.
+ * @param direction - Direction of the position after the entry.
+ * @param entryPrice - Fill price of the entry.
+ * @returns The active orders, or null if the signal has no protective orders.
+ */
+export function createProtectiveOrders(
+  signal: ProtectiveOrderFields,
+  direction: PositionDirection,
+  entryPrice: number
+): ActiveProtectiveOrders | null {
+  if (!signal.stopLoss && !signal.takeProfit && !signal.trailingStop) return null;
+  const sign = direction === 'LONG' ? 1 : -1;
+
+  const resolveLevel = (level: ProtectiveOrderLevel | undefined, towardsProfit: boolean): number | undefined => {
+    if (!level) return undefined;
+    if (level.price !== undefined) return level.price;
+    const offset = entryPrice * ((level.percent ?? 0) / 100);
+    return towardsProfit ? entryPrice + sign * offset : entryPrice - sign * offset;
+  };
+
+  return {
+    direction,
+    entryPrice,
+    stopLossPrice: resolveLevel(signal.stopLoss, false),
+    takeProfitPrice: resolveLevel(signal.takeProfit, true),
+    trailingDistance: signal.trailingStop,
+    bestPrice: entryPrice,
+  };
+}
+
+/**
+ * Current trailing stop price, or undefined if no trailing stop is set.
+ */
+export function getTrailingStopPrice(orders: ActiveProtectiveOrders): number | undefined {
+  const distance = orders.trailingDistance;
+  if (!distance) return undefined;
+  const offset = distance.price !== undefined ? distance.price : orders.bestPrice * ((distance.percent ?? 0) / 100);
+  return orders.direction === 'LONG' ? orders.bestPrice - offset : orders.bestPrice + offset;
+}
+
+/**
+ * Checks whether any protective order fills within a bar, following the rules at the top of this file.
+ * @param orders - The active protective orders.
+ * @param bar - The bar being processed.
+ * @returns The exit reason and fill price, or null if nothing triggers.
+ */
+export function checkProtectiveOrders(orders: ActiveProtectiveOrders, bar: Bar): ProtectiveExit | null {
+  const isLong = orders.direction === 'LONG';
+  const trailingStopPrice = getTrailingStopPrice(orders);
+
+  // The tighter of the stop-loss and the trailing stop is the one price reaches first
+  let stop: ProtectiveExit | null = null;
+  const stops: ProtectiveExit[] = [];
+  if (orders.stopLossPrice !== undefined) stops.push({ reason: 'STOP_LOSS', price: orders.stopLossPrice });
+  if (trailingStopPrice !== undefined) stops.push({ reason: 'TRAILING_STOP', price: trailingStopPrice });
+  for (const candidate of stops) {
+    if (!stop || (isLong ? candidate.price > stop.price : candidate.price < stop.price)) {
+      stop = candidate;
+    }
+  }
+  const takeProfitPrice = orders.takeProfitPrice;
+
+  // 1. Gap through a level at the open
+  if (stop && (isLong ? bar.open <= stop.price : bar.open >= stop.price)) {
+    return { reason: stop.reason, price: bar.open };
+  }
+  if (takeProfitPrice !== undefined && (isLong ? bar.open >= takeProfitPrice : bar.open <= takeProfitPrice)) {
+    return { reason: 'TAKE_PROFIT', price: bar.open };
+  }
+
+  // 2./3. Touched within the bar; the stop wins when both are touched
+  if (stop && (isLong ? bar.low <= stop.price : bar.high >= stop.price)) {
+    return stop;
+  }
+  if (takeProfitPrice !== undefined && (isLong ? bar.high >= takeProfitPrice : bar.low <= takeProfitPrice)) {
+    return { reason: 'TAKE_PROFIT', price: takeProfitPrice };
+  }
+  return null;
+}
+
+/**
+ * Moves the trailing stop's reference price with a bar that did not trigger an exit.
+ */
+export function updateTrailingStop(orders: ActiveProtectiveOrders, bar: Bar): void {
+  orders.bestPrice = orders.direction === 'LONG'
+    ? Math.max(orders.bestPrice, bar.high)
+    : Math.min(orders.bestPrice, bar.low);
+}
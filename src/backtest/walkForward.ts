@@ -0,0 +1,325 @@
+// src/backtest/walkForward.ts
+// Walk-forward optimization: the date range is split into in-sample (IS) / out-of-sample (OOS) window pairs. On each
+// IS window every parameter combination is backtested and the best one is then run, unchanged, on the following OOS
+// window. The OOS runs are chained into one equity curve, so the result only reflects parameters chosen on past data.
+//
+// Each OOS run starts flat with the previous run's final equity as cash: a position still open at the end of a window
+// is valued at its last close and carried forward as cash. Windows start without indicator warm-up, so strategies
+// with long lookbacks need IS/OOS windows that are long compared to them.
+
+import logger from '../utils/logger';
+import { getStrategy, StrategyParameterDefinition } from '../strategies';
+import { runBacktest, BacktestOptions, BacktestResult, Trade } from './index';
+import { AnalyticsFill, PerformanceReport, calculatePerformanceReport } from './analytics';
+import type { EquityPoint } from './benchmark';
+import {
+  ParameterRange,
+  ParameterValue,
+  countCombinations,
+  countCombinationsOfCounts,
+  countParameterValues,
+  generateParameterGrid,
+  resolveParameterValues,
+  validateCombinationCount,
+  validateParameterRanges,
+} from './parameterGrid';
+import { getBarsPerYear } from '../utils/intervals';
+
+// ROLLING: the IS window moves forward with the OOS window. ANCHORED: the IS window always starts at the start date.
+export type WalkForwardMode = 'ROLLING' | 'ANCHORED';
+
+// Score maximized on each IS window; same names as the AI selector's evaluationMetric
+export type WalkForwardObjective = 'pnl' | 'sharpe' | 'winRate';
+
+export interface WalkForwardSettings {
+  inSampleDays: number;
+  outOfSampleDays: number;
+  stepDays?: number;             // Distance between window starts; defaults to outOfSampleDays
+  mode?: WalkForwardMode;        // Defaults to ROLLING
+  objective?: WalkForwardObjective; // Defaults to pnl
+  parameterRanges?: Record<string, ParameterRange>; // Defaults to the min/max/step of the strategy's numeric parameters
+  maxCombinations?: number;      // Defaults to DEFAULT_MAX_COMBINATIONS
+}
+
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: Date;
+  inSampleEnd: Date;
+  outOfSampleStart: Date;
+  outOfSampleEnd: Date;
+  bestParameters: Record<string, ParameterValue>;
+  inSampleScore: number;
+  inSampleReturn: number;          // Percent, with the best parameters
+  outOfSampleReturn: number;       // Percent
+  outOfSampleScore: number;
+  outOfSampleTrades: number;
+  efficiency: number | null;       // Annualized OOS return / annualized IS return; null when the IS return is not positive
+}
+
+export type WalkForwardWindowRange = Pick<WalkForwardWindow, 'index' | 'inSampleStart' | 'inSampleEnd' | 'outOfSampleStart' | 'outOfSampleEnd'>;
+
+export interface WalkForwardResult {
+  symbol: string;
+  strategyId: string;
+  startDate: Date;
+  endDate: Date;
+  mode: WalkForwardMode;
+  objective: WalkForwardObjective;
+  combinationsTested: number;      // Per IS window
+  initialPortfolioValue: number;
+  finalPortfolioValue: number;
+  outOfSampleReturn: number;       // Percent, over the stitched OOS curve
+  walkForwardEfficiency: number | null; // Mean annualized OOS return / mean annualized IS return; null when the latter is not positive
+  windows: WalkForwardWindow[];
+  trades: Trade[];                 // OOS trades of all windows
+  equityCurve: EquityPoint[];      // Stitched OOS equity curve
+  analytics: PerformanceReport;    // Of the stitched OOS curve
+}
+
+const DEFAULT_MODE: WalkForwardMode = 'ROLLING';
+const DEFAULT_OBJECTIVE: WalkForwardObjective = 'pnl';
+const MODES: WalkForwardMode[] = ['ROLLING', 'ANCHORED'];
+const OBJECTIVES: WalkForwardObjective[] = ['pnl', 'sharpe', 'winRate'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Validates walk-forward settings received from an API payload or a JSON config. parameterRanges are checked
+ * against the strategy with validateParameterRanges.
+ * @param settings - The value to validate.
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateWalkForwardSettings(settings: unknown): string | null {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return 'walkForward must be an object with inSampleDays and outOfSampleDays.';
+  }
+  const { inSampleDays, outOfSampleDays, stepDays, mode, objective, maxCombinations } = settings as WalkForwardSettings;
+  const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+  if (!isPositiveInteger(inSampleDays)) {
+    return 'walkForward.inSampleDays must be a positive integer.';
+  }
+  if (!isPositiveInteger(outOfSampleDays)) {
+    return 'walkForward.outOfSampleDays must be a positive integer.';
+  }
+  if (stepDays !== undefined && !isPositiveInteger(stepDays)) {
+    return 'walkForward.stepDays must be a positive integer.';
+  }
+  if (mode !== undefined && !MODES.includes(mode)) {
+    return `walkForward.mode must be one of ${MODES.join(', ')}.`;
+  }
+  if (objective !== undefined && !OBJECTIVES.includes(objective)) {
+    return `walkForward.objective must be one of ${OBJECTIVES.join(', ')}.`;
+  }
+  if (maxCombinations !== undefined && !isPositiveInteger(maxCombinations)) {
+    return 'walkForward.maxCombinations must be a positive integer.';
+  }
+  return null;
+}
+
+/**
+ * Splits a date range into IS/OOS window pairs. Each window ends one second before the next one starts, so a bar
+ * never belongs to both. The last OOS window is cut at the end date.
+ * @returns The windows, without results.
+ */
+export function buildWalkForwardWindows(
+  startDate: Date,
+  endDate: Date,
+  settings: WalkForwardSettings
+): WalkForwardWindowRange[] {
+  const mode = settings.mode ?? DEFAULT_MODE;
+  const stepMs = (settings.stepDays ?? settings.outOfSampleDays) * MS_PER_DAY;
+  const windows: WalkForwardWindowRange[] = [];
+  for (let offset = 0; ; offset += stepMs) {
+    const outOfSampleStart = startDate.getTime() + settings.inSampleDays * MS_PER_DAY + offset;
+    if (outOfSampleStart > endDate.getTime()) break;
+    const inSampleStart = mode === 'ANCHORED' ? startDate.getTime() : startDate.getTime() + offset;
+    const outOfSampleEnd = Math.min(outOfSampleStart + settings.outOfSampleDays * MS_PER_DAY - 1000, endDate.getTime());
+    windows.push({
+      index: windows.length,
+      inSampleStart: new Date(inSampleStart),
+      inSampleEnd: new Date(outOfSampleStart - 1000),
+      outOfSampleStart: new Date(outOfSampleStart),
+      outOfSampleEnd: new Date(outOfSampleEnd),
+    });
+  }
+  return windows;
+}
+
+/**
+ * Checks that valid walk-forward settings can run for a strategy and a date range: the parameter ranges match the
+ * strategy, the grid is not larger than maxCombinations and at least one window fits.
+ * @returns An error message if the walk-forward cannot run, otherwise null.
+ */
+export function validateWalkForwardPlan(
+  parameters: StrategyParameterDefinition[],
+  startDate: Date,
+  endDate: Date,
+  settings: WalkForwardSettings
+): string | null {
+  const rangesError = validateParameterRanges(settings.parameterRanges, parameters);
+  if (rangesError) {
+    return rangesError;
+  }
+  // Counted before anything is expanded, so a huge range is rejected without being built
+  const combinationsError = validateCombinationCount(countCombinationsOfCounts(countParameterValues(parameters, settings.parameterRanges)), settings.maxCombinations);
+  if (combinationsError) {
+    return combinationsError;
+  }
+  if (buildWalkForwardWindows(startDate, endDate, settings).length === 0) {
+    return `The date range is shorter than one in-sample window of ${settings.inSampleDays} days.`;
+  }
+  return null;
+}
+
+// Score of a backtest result for an objective
+function scoreResult(result: BacktestResult, objective: WalkForwardObjective): number {
+  switch (objective) {
+    case 'sharpe':
+      return result.analytics?.sharpeRatio ?? result.sharpeRatio ?? 0;
+    case 'winRate':
+      return result.analytics?.winRate ?? 0;
+    default:
+      return result.profitOrLossPercentage;
+  }
+}
+
+// Simple (non-compounded) annualization, which keeps the sign of negative returns
+const annualize = (returnPercentage: number, from: Date, to: Date): number => {
+  const days = (to.getTime() - from.getTime()) / MS_PER_DAY;
+  return days > 0 ? returnPercentage * (DAYS_PER_YEAR / days) : 0;
+};
+
+/**
+ * Runs a walk-forward optimization of a strategy on one symbol.
+ * @param symbol - The symbol to backtest.
+ * @param startDate - Start of the first IS window.
+ * @param endDate - End of the last OOS window.
+ * @param initialCash - Cash of every IS run and of the first OOS run.
+ * @param strategyId - The strategy to optimize.
+ * @param strategyParams - Values of the parameters that are not optimized.
+ * @param sourceApi - Optional data source.
+ * @param interval - Optional data interval.
+ * @param settings - Window sizes, mode, objective and parameter ranges.
+ * @param options - Engine options passed to every run.
+ * @throws If the strategy is unknown or the settings cannot run (see validateWalkForwardSettings and validateWalkForwardPlan).
+ */
+export async function runWalkForward(
+  symbol: string,
+  startDate: Date,
+  endDate: Date,
+  initialCash: number,
+  strategyId: string,
+  strategyParams: Record<string, any>,
+  sourceApi: string | undefined,
+  interval: string | undefined,
+  settings: WalkForwardSettings,
+  options: BacktestOptions = {}
+): Promise<WalkForwardResult> {
+  const strategy = getStrategy(strategyId);
+  if (!strategy) {
+    throw new Error(`Strategy not found: ${strategyId}`);
+  }
+  const settingsError = validateWalkForwardSettings(settings) ?? validateWalkForwardPlan(strategy.parameters, startDate, endDate, settings);
+  if (settingsError) {
+    throw new Error(settingsError);
+  }
+
+  const mode = settings.mode ?? DEFAULT_MODE;
+  const objective = settings.objective ?? DEFAULT_OBJECTIVE;
+  const valuesByName = resolveParameterValues(strategy.parameters, settings.parameterRanges);
+  const combinationsTested = countCombinations(valuesByName);
+  const grid = generateParameterGrid(valuesByName);
+  const windowRanges = buildWalkForwardWindows(startDate, endDate, settings);
+
+  logger.info(`Starting walk-forward optimization for ${symbol} with strategy ${strategy.name}`, {
+    startDate,
+    endDate,
+    mode,
+    objective,
+    windows: windowRanges.length,
+    combinationsTested,
+    optimizedParameters: Object.keys(valuesByName),
+  });
+
+  const windows: WalkForwardWindow[] = [];
+  const trades: Trade[] = [];
+  const analyticsFills: AnalyticsFill[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let equity = initialCash;
+
+  for (const range of windowRanges) {
+    let best: { parameters: Record<string, ParameterValue>; score: number; result: BacktestResult } | null = null;
+    for (const combination of grid) {
+      const parameters = { ...strategyParams, ...combination };
+      const result = await runBacktest(symbol, range.inSampleStart, range.inSampleEnd, initialCash, strategyId, parameters, sourceApi, interval, options);
+      const score = scoreResult(result, objective);
+      if (!best || score > best.score) {
+        best = { parameters: combination, score, result };
+      }
+    }
+    // The grid always has at least one (possibly empty) combination
+    const { parameters: bestParameters, score: inSampleScore, result: inSampleResult } = best!;
+
+    const outOfSampleResult = await runBacktest(
+      symbol, range.outOfSampleStart, range.outOfSampleEnd, equity, strategyId, { ...strategyParams, ...bestParameters }, sourceApi, interval, options
+    );
+
+    const history = outOfSampleResult.portfolioHistory ?? [];
+    // Later windows start at the previous window's final equity, which is already on the curve
+    equityCurve.push(...(equityCurve.length > 0 ? history.slice(1) : history));
+    trades.push(...outOfSampleResult.trades);
+    analyticsFills.push(...outOfSampleResult.trades);
+    // The open position is carried forward as cash: close it at the last bar for the round-trip statistics
+    const openPosition = outOfSampleResult.trades.reduce((sum, trade) => sum + (trade.action === 'BUY' ? trade.sharesTraded : -trade.sharesTraded), 0);
+    const lastBar = outOfSampleResult.historicalDataUsed?.[outOfSampleResult.historicalDataUsed.length - 1];
+    if (Math.abs(openPosition) > 1e-9 && lastBar) {
+      analyticsFills.push({ timestamp: lastBar.timestamp, action: openPosition > 0 ? 'SELL' : 'BUY', price: lastBar.close, sharesTraded: Math.abs(openPosition), fees: 0 });
+    }
+
+    const isAnnualized = annualize(inSampleResult.profitOrLossPercentage, range.inSampleStart, range.inSampleEnd);
+    const oosAnnualized = annualize(outOfSampleResult.profitOrLossPercentage, range.outOfSampleStart, range.outOfSampleEnd);
+    windows.push({
+      ...range,
+      bestParameters,
+      inSampleScore,
+      inSampleReturn: inSampleResult.profitOrLossPercentage,
+      outOfSampleReturn: outOfSampleResult.profitOrLossPercentage,
+      outOfSampleScore: scoreResult(outOfSampleResult, objective),
+      outOfSampleTrades: outOfSampleResult.totalTrades,
+      efficiency: isAnnualized > 0 ? oosAnnualized / isAnnualized : null,
+    });
+    equity = outOfSampleResult.finalPortfolioValue;
+
+    logger.info(`Walk-forward window ${range.index + 1}/${windowRanges.length} for ${symbol}: best parameters ${JSON.stringify(bestParameters)}, IS return ${inSampleResult.profitOrLossPercentage.toFixed(2)}%, OOS return ${outOfSampleResult.profitOrLossPercentage.toFixed(2)}%.`);
+  }
+
+  const meanAnnualized = (key: 'inSample' | 'outOfSample') => windows.reduce((sum, window) => sum + (key === 'inSample'
+    ? annualize(window.inSampleReturn, window.inSampleStart, window.inSampleEnd)
+    : annualize(window.outOfSampleReturn, window.outOfSampleStart, window.outOfSampleEnd)), 0) / windows.length;
+  const meanInSample = meanAnnualized('inSample');
+
+  const result: WalkForwardResult = {
+    symbol,
+    strategyId,
+    startDate,
+    endDate,
+    mode,
+    objective,
+    combinationsTested,
+    initialPortfolioValue: initialCash,
+    finalPortfolioValue: equity,
+    outOfSampleReturn: initialCash !== 0 ? (equity / initialCash - 1) * 100 : 0,
+    walkForwardEfficiency: meanInSample > 0 ? meanAnnualized('outOfSample') / meanInSample : null,
+    windows,
+    trades,
+    equityCurve,
+    analytics: calculatePerformanceReport(analyticsFills, equityCurve, getBarsPerYear(interval)),
+  };
+
+  logger.info(`Walk-forward optimization completed for ${symbol} using strategy ${strategy.name}.`, {
+    windows: windows.length,
+    outOfSampleReturn: result.outOfSampleReturn,
+    walkForwardEfficiency: result.walkForwardEfficiency,
+  });
+  return result;
+}
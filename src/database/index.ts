@@ -77,6 +77,52 @@ function initializeSchema(): void {
     db.exec('CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys (user_id);');
     db.exec('CREATE INDEX IF NOT EXISTS idx_api_keys_user_id_exchange_name ON api_keys (user_id, exchange_name);');
 
+    // Create backtest_runs table (settings, metrics, trades, equity_curve and tags are JSON)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS backtest_runs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        strategy_id TEXT NOT NULL,
+        strategy_version TEXT,
+        symbol TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        metrics TEXT NOT NULL,
+        trades TEXT NOT NULL,
+        equity_curve TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        notes TEXT,
+        created_at INTEGER,
+        updated_at INTEGER,
+        FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Create index on backtest_runs for the per-user history, newest first
+    db.exec('CREATE INDEX IF NOT EXISTS idx_backtest_runs_user_id_created_at ON backtest_runs (user_id, created_at);');
+
+    // Create backtest_jobs table (settings and result are JSON; user_id is NULL for anonymous jobs)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS backtest_jobs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        status TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        bars_processed INTEGER NOT NULL DEFAULT 0,
+        total_bars INTEGER,
+        result TEXT,
+        error TEXT,
+        created_at INTEGER,
+        started_at INTEGER,
+        finished_at INTEGER,
+        updated_at INTEGER,
+        FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Create indexes on backtest_jobs for the per-user list and for resuming unfinished jobs at startup
+    db.exec('CREATE INDEX IF NOT EXISTS idx_backtest_jobs_user_id_created_at ON backtest_jobs (user_id, created_at);');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_backtest_jobs_status ON backtest_jobs (status);');
+
     console.log('Database schema initialized successfully.');
   } catch (error) {
     console.error('Error initializing database schema:', error);
@@ -1,12 +1,21 @@
 // In src/executeBacktestFromJson.ts
 import fs from 'fs';
 import path from 'path';
-import { runBacktest, BacktestResult } from './backtest'; // Assuming runBacktest and BacktestResult are exported from src/backtest/index.ts
+import { runBacktest, validateSingleSymbolStrategy, BacktestResult } from './backtest'; // Assuming runBacktest and BacktestResult are exported from src/backtest/index.ts
+import { CostModelSettings, validateCostModelSettings } from './backtest/costModel';
+import { MarginSettings, validateMarginSettings } from './backtest/margin';
+import { ExecutionTiming, validateExecutionTiming } from './backtest/executionTiming';
+import { PositionSizingSettings, validatePositionSizingSettings } from './backtest/positionSizing';
+import { validateBenchmarkSymbol } from './backtest/benchmark';
+import { LotMatchingMethod, validateLotMatching } from './backtest/lotMatching';
+import { runPortfolioBacktest, validatePortfolioSymbols, PortfolioBacktestResult } from './backtest/portfolioBacktest';
+import { runWalkForward, validateWalkForwardPlan, validateWalkForwardSettings, WalkForwardResult, WalkForwardSettings } from './backtest/walkForward';
 import { getStrategy, getAvailableStrategies } from './strategies'; // Assuming these are exported from src/strategies/index.ts
 import logger from './utils/logger'; // For consistent logging
 
 interface BacktestConfigEntry {
-  symbol: string;
+  symbol?: string;
+  symbols?: string[]; // Runs a multi-asset portfolio backtest instead of a single-symbol one
   startDate: string;
   endDate: string;
   initialCash: number;
@@ -14,6 +23,13 @@ interface BacktestConfigEntry {
   strategyParams: Record<string, number | string | boolean>;
   sourceApi?: string;
   interval?: string;
+  costModel?: CostModelSettings;
+  margin?: MarginSettings;
+  executionTiming?: ExecutionTiming;
+  positionSizing?: PositionSizingSettings;
+  benchmarkSymbol?: string;
+  lotMatching?: LotMatchingMethod;
+  walkForward?: WalkForwardSettings; // Runs a walk-forward optimization instead of a single backtest
 }
 
 async function main() {
@@ -66,26 +82,114 @@ async function main() {
 
   for (let i = 0; i < configs.length; i++) {
     const config = configs[i];
-    logger.info(`Executing backtest ${i + 1} of ${configs.length}: Symbol ${config.symbol}, Strategy ID ${config.strategyId}`);
+    const isPortfolio = config.symbols !== undefined;
+    const label = isPortfolio ? `portfolio [${config.symbols?.join(', ')}]` : config.symbol;
+    logger.info(`Executing backtest ${i + 1} of ${configs.length}: ${isPortfolio ? '' : 'Symbol '}${label}, Strategy ID ${config.strategyId}`);
 
     // Validate required fields
-    if (!config.symbol || !config.startDate || !config.endDate || !config.initialCash || !config.strategyId || !config.strategyParams) {
+    if ((!config.symbol && !isPortfolio) || !config.startDate || !config.endDate || !config.initialCash || !config.strategyId || !config.strategyParams) {
       logger.error('Missing required fields in a configuration entry:', { config });
       continue; // Skip this configuration
     }
 
+    if (isPortfolio) {
+      const symbolsError = validatePortfolioSymbols(config.symbols);
+      if (symbolsError) {
+        logger.error(`Invalid symbols in configuration entry ${i + 1}: ${symbolsError} Skipping this backtest.`);
+        continue; // Skip this configuration
+      }
+      if (config.walkForward) {
+        logger.error(`walkForward is not supported in portfolio backtests (${label}). Skipping this backtest.`);
+        continue; // Skip this configuration
+      }
+      if (config.executionTiming || config.benchmarkSymbol) {
+        logger.warn(`executionTiming and benchmarkSymbol are not supported in portfolio backtests and will be ignored for ${label}.`);
+      }
+    }
+
+    const costModelError = validateCostModelSettings(config.costModel);
+    if (costModelError) {
+      logger.error(`Invalid cost model for ${label}: ${costModelError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    const marginError = validateMarginSettings(config.margin);
+    if (marginError) {
+      logger.error(`Invalid margin settings for ${label}: ${marginError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    const executionTimingError = validateExecutionTiming(config.executionTiming);
+    if (executionTimingError) {
+      logger.error(`Invalid execution timing for ${label}: ${executionTimingError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    const positionSizingError = validatePositionSizingSettings(config.positionSizing);
+    if (positionSizingError) {
+      logger.error(`Invalid position sizing for ${label}: ${positionSizingError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    const benchmarkSymbolError = validateBenchmarkSymbol(config.benchmarkSymbol);
+    if (benchmarkSymbolError) {
+      logger.error(`Invalid benchmark symbol for ${label}: ${benchmarkSymbolError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    const lotMatchingError = validateLotMatching(config.lotMatching);
+    if (lotMatchingError) {
+      logger.error(`Invalid lot matching method for ${label}: ${lotMatchingError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
     const strategyInfo = getStrategy(config.strategyId);
     if (!strategyInfo) {
-      logger.error(`Strategy with ID '${config.strategyId}' not found for symbol ${config.symbol}! Skipping this backtest.`);
+      logger.error(`Strategy with ID '${config.strategyId}' not found for symbol ${label}! Skipping this backtest.`);
       logger.error(`Ensure the strategy ID in your config matches one of the available strategy IDs.`);
       continue; // Skip this configuration
     }
+    const singleSymbolError = isPortfolio ? null : validateSingleSymbolStrategy(strategyInfo);
+    if (singleSymbolError) {
+      logger.error(`Invalid strategy for ${label}: ${singleSymbolError} Skipping this backtest.`);
+      continue; // Skip this configuration
+    }
+
+    if (config.walkForward) {
+      const walkForwardError = validateWalkForwardSettings(config.walkForward)
+        ?? validateWalkForwardPlan(strategyInfo.parameters, new Date(config.startDate), new Date(config.endDate), config.walkForward);
+      if (walkForwardError) {
+        logger.error(`Invalid walk-forward settings for ${label}: ${walkForwardError} Skipping this backtest.`);
+        continue; // Skip this configuration
+      }
+    }
 
     logger.info(`Selected Strategy: ${strategyInfo.name} (ID: ${strategyInfo.id})`);
     if (strategyInfo.description) {
       logger.info(`Description: ${strategyInfo.description}`);
     }
     logger.info(`Parameters to be used for ${strategyInfo.name}:`, config.strategyParams);
+    if (config.costModel) {
+      logger.info('Cost model:', config.costModel);
+    }
+    if (config.margin?.enabled) {
+      logger.info('Margin mode:', config.margin);
+    }
+    if (config.executionTiming) {
+      logger.info(`Execution timing: ${config.executionTiming}`);
+    }
+    if (config.positionSizing) {
+      logger.info('Position sizing:', config.positionSizing);
+    }
+    if (config.benchmarkSymbol) {
+      logger.info(`Benchmark: buy-and-hold ${config.benchmarkSymbol}`);
+    }
+    if (config.lotMatching) {
+      logger.info(`Lot matching: ${config.lotMatching}`);
+    }
+    if (config.walkForward) {
+      logger.info('Walk-forward optimization:', config.walkForward);
+    }
     logger.info('---');
 
     try {
@@ -93,30 +197,77 @@ async function main() {
       const endDate = new Date(config.endDate);
 
       if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-        logger.error(`Invalid date format for startDate or endDate in configuration for ${config.symbol}. Use YYYY-MM-DD. Skipping.`);
+        logger.error(`Invalid date format for startDate or endDate in configuration for ${label}. Use YYYY-MM-DD. Skipping.`);
         continue;
       }
       
-      logger.info(`Running backtest for ${config.symbol} from ${config.startDate} to ${config.endDate} with strategy ${strategyInfo.name}.`);
-
-      const result: BacktestResult = await runBacktest(
-        config.symbol,
-        startDate,
-        endDate,
-        config.initialCash,
-        config.strategyId,
-        config.strategyParams,
-        config.sourceApi,
-        config.interval
-      );
-
-      logger.info(`Backtest Result for ${config.symbol} with strategy ${strategyInfo.name}:`);
+      logger.info(`Running backtest for ${label} from ${config.startDate} to ${config.endDate} with strategy ${strategyInfo.name}.`);
+
+      let result: BacktestResult | PortfolioBacktestResult | WalkForwardResult;
+      if (isPortfolio) {
+        result = await runPortfolioBacktest(
+          config.symbols as string[],
+          startDate,
+          endDate,
+          config.initialCash,
+          config.strategyId,
+          config.strategyParams,
+          config.sourceApi,
+          config.interval,
+          {
+            costModel: config.costModel,
+            positionSizing: config.positionSizing,
+            lotMatching: config.lotMatching,
+            margin: config.margin,
+          }
+        );
+      } else if (config.walkForward) {
+        result = await runWalkForward(
+          config.symbol as string,
+          startDate,
+          endDate,
+          config.initialCash,
+          config.strategyId,
+          config.strategyParams,
+          config.sourceApi,
+          config.interval,
+          config.walkForward,
+          {
+            costModel: config.costModel,
+            margin: config.margin,
+            executionTiming: config.executionTiming,
+            positionSizing: config.positionSizing,
+            lotMatching: config.lotMatching,
+          }
+        );
+      } else {
+        result = await runBacktest(
+          config.symbol as string,
+          startDate,
+          endDate,
+          config.initialCash,
+          config.strategyId,
+          config.strategyParams,
+          config.sourceApi,
+          config.interval,
+          {
+            costModel: config.costModel,
+            margin: config.margin,
+            executionTiming: config.executionTiming,
+            positionSizing: config.positionSizing,
+            benchmarkSymbol: config.benchmarkSymbol,
+            lotMatching: config.lotMatching,
+          }
+        );
+      }
+
+      logger.info(`Backtest Result for ${label} with strategy ${strategyInfo.name}:`);
       // Using console.log for structured output of result for better readability
       console.log(JSON.stringify(result, null, 2)); 
       logger.info('---');
 
     } catch (error) {
-      logger.error(`Error during backtest execution for ${config.symbol} with strategy ${strategyInfo.name}:`, error);
+      logger.error(`Error during backtest execution for ${label} with strategy ${strategyInfo.name}:`, error);
       logger.info('---');
     }
   }
@@ -5,6 +5,7 @@ dotenv.config(); // Load environment variables from .env file
 // Initialize services that depend on environment variables for non-test runs
 // For tests, this is handled in setupEnv.ts or similar.
 import { initializeApiKeyService } from './services/apiKeyService';
+import { resumeBacktestJobs } from './services/backtestJobQueue';
 
 import logger from './utils/logger'; // Existing logger
 import express from 'express'; // Import Express
@@ -21,7 +22,8 @@ export const createApp = () => {
   const app = express(); 
   
   // Middleware for parsing JSON and URL-encoded request bodies
-  app.use(express.json());
+  // Backtest results posted for analysis (e.g. /api/backtest/monte-carlo) exceed express's default 100kb limit
+  app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
 
   // Simple root GET route
@@ -39,6 +41,8 @@ export const createApp = () => {
 if (require.main === module) {
   // Ensure services dependent on env vars are initialized for the running server.
   initializeApiKeyService(); 
+  // Backtest jobs that were queued or running when the server last stopped
+  resumeBacktestJobs();
   
   const appInstance = createApp();
   const port = process.env.PORT || 3000; // Define the port
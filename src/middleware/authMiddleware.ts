@@ -52,3 +52,13 @@ export const authenticateJWT = (req: AuthenticatedRequest, res: Response, next:
     return;
   }
 };
+
+// Like authenticateJWT, but lets requests without an Authorization header through unauthenticated (req.auth unset).
+// A token that is sent must still be valid.
+export const optionalAuthenticateJWT = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization) {
+    next();
+    return;
+  }
+  authenticateJWT(req, res, next);
+};
@@ -0,0 +1,52 @@
+// src/models/backtestJob.types.ts
+import type { BacktestResultAPI, BacktestSettingsAPI, PortfolioHistoryPoint, Trade } from '../types';
+
+// queued -> running -> completed | failed; queued or running jobs can be cancelled
+export type BacktestJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BacktestJob {
+  id: string; // UUID
+  user_id: string | null; // Null for jobs submitted without authentication
+  status: BacktestJobStatus;
+  settings: BacktestSettingsAPI; // The POST /api/backtest request the job runs
+  bars_processed: number;
+  total_bars: number | null; // Known once the job has loaded its data
+  result: BacktestResultAPI | null; // Set when completed
+  error: string | null; // Set when failed
+  created_at: number; // Timestamp
+  started_at: number | null; // Timestamp of the latest start (a job interrupted by a restart starts again)
+  finished_at: number | null; // Timestamp
+  updated_at: number; // Timestamp
+}
+
+// A job without its result, as listed and streamed
+export type BacktestJobSummary = Omit<BacktestJob, 'result'>;
+
+// Type for the data stored in the database, with JSON-encoded fields
+export interface BacktestJobStored {
+  id: string;
+  user_id: string | null;
+  status: BacktestJobStatus;
+  settings: string;
+  bars_processed: number;
+  total_bars: number | null;
+  result: string | null;
+  error: string | null;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  updated_at: number;
+}
+
+// Fields changed as a job progresses (input for updateBacktestJob)
+export type UpdateBacktestJobInput = Partial<
+  Pick<BacktestJob, 'status' | 'bars_processed' | 'total_bars' | 'result' | 'error' | 'started_at' | 'finished_at'>
+>;
+
+// Partial result of a running job: the equity points and trades of the bars processed so far
+export interface BacktestJobProgress {
+  barsProcessed: number;
+  totalBars: number;
+  portfolioHistory: PortfolioHistoryPoint[];
+  trades: Trade[];
+}
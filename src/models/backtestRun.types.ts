@@ -0,0 +1,71 @@
+// src/models/backtestRun.types.ts
+import type { BacktestResultAPI, BacktestSettingsAPI, PortfolioHistoryPoint, Trade } from '../types';
+
+// Headline figures of a run, kept so the history can be listed and compared without loading trades
+export type BacktestRunMetrics = Pick<
+  BacktestResultAPI,
+  | 'initialPortfolioValue'
+  | 'finalPortfolioValue'
+  | 'totalProfitOrLoss'
+  | 'profitOrLossPercentage'
+  | 'totalTrades'
+  | 'sharpeRatio'
+  | 'maxDrawdown'
+  | 'totalFees'
+  | 'totalSlippage'
+  | 'totalTransactionCosts'
+  | 'totalBorrowInterest'
+  | 'liquidations'
+  | 'analytics'
+>;
+
+export interface BacktestRun {
+  id: string; // UUID
+  user_id: string;
+  strategy_id: string;
+  strategy_version: string | null; // Version of the strategy implementation at the time of the run, if it has one
+  symbol: string;
+  settings: BacktestSettingsAPI; // The request the run was made with, enough to re-run it
+  metrics: BacktestRunMetrics;
+  trades: Trade[];
+  equity_curve: PortfolioHistoryPoint[];
+  tags: string[];
+  notes: string | null;
+  created_at: number; // Timestamp
+  updated_at: number; // Timestamp
+}
+
+// A run without its trades and equity curve, as listed in the history
+export type BacktestRunSummary = Omit<BacktestRun, 'trades' | 'equity_curve'>;
+
+// Type for the data stored in the database, with JSON-encoded fields
+export interface BacktestRunStored {
+  id: string;
+  user_id: string;
+  strategy_id: string;
+  strategy_version: string | null;
+  symbol: string;
+  settings: string;
+  metrics: string;
+  trades: string;
+  equity_curve: string;
+  tags: string;
+  notes: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Type for data provided when saving a run (input for createBacktestRun)
+export type CreateBacktestRunInput = Omit<BacktestRun, 'id' | 'tags' | 'notes' | 'created_at' | 'updated_at'> &
+  Partial<Pick<BacktestRun, 'tags' | 'notes'>>;
+
+// Only the tags and notes of a saved run can be changed
+export type UpdateBacktestRunInput = Partial<Pick<BacktestRun, 'tags' | 'notes'>>;
+
+// Filters of the run history
+export interface BacktestRunFilters {
+  strategyId?: string;
+  symbol?: string;
+  tag?: string;
+  limit?: number;
+}
@@ -3,7 +3,7 @@ import { logSafeError } from '../utils/safeLogger';
 import { fetchHistoricalDataFromDB } from './dataService';
 import { getMostRecentClosePrice } from './dataService'; // Will be used later
 import { getAllUniqueSymbols } from '../database'; // Added import
-import { aiSelectorStrategy, getAISelectorActiveState } // Direct import
+import { createAISelectorStrategy } // Direct import
     from '../strategies/implementations/aiSelectorStrategy';
 import * as StrategyManagerModule from '../strategies/strategyManager';
 import { StrategyContext, TradingStrategy } from '../strategies/strategy.types';
@@ -20,6 +20,19 @@ export interface SuggestionResponse {
   message: string; // To provide context or warnings
 }
 
+// The strategy chosen by the AI selector for one symbol, with its simulated scores
+interface SymbolSelectionResult {
+  symbol: string;
+  strategyId: string;
+  strategyName: string;
+  parameters: Record<string, any>;
+  evaluationScore?: number | null;
+  evaluationMetric?: string | null;
+  simulatedPnl?: number | null;
+  simulatedSharpe?: number | null;
+  simulatedWinRate?: number | null;
+}
+
 interface AISelectorStrategyParams {
   evaluationLookbackPeriod: number;
   candidateStrategyIds?: string; // Comma-separated string of strategy IDs
@@ -67,9 +80,9 @@ export async function getCapitalAwareStrategySuggestion(
 
   logger.info(`[AISuggestionService] Global settings: Capital ${initialCapital}, Lookback ${lookbackPeriod}, AISelector Metric ${chosenSelectorMetric}, Optimize ${preferredOptimizeParams}, Risk % ${riskPercentage}, Overall Selection Metric: ${overallSelectionMetric}`);
 
-  const allSymbolResults = [];
-
-  for (const currentSymbol of allSymbols) {
+  // Symbols are analyzed concurrently: their candidate simulations share the worker pool of the AI selector (see
+  // candidateEvaluationPool.ts). Results keep the order of the symbols, so ties sort the same way on every run.
+  const analyzeSymbol = async (currentSymbol: string): Promise<SymbolSelectionResult | null> => {
     logger.info(`[AISuggestionService] Starting analysis for symbol: ${currentSymbol}`);
 
     const endDate = new Date();
@@ -81,12 +94,12 @@ export async function getCapitalAwareStrategySuggestion(
       historicalDataForAI = await fetchHistoricalDataFromDB(currentSymbol, startDate, endDate, aiEvalSourceApi, aiEvalInterval);
       if (!historicalDataForAI || historicalDataForAI.length < lookbackPeriod) {
         logger.warn(`[AISuggestionService] Insufficient historical data for ${currentSymbol} (source: ${aiEvalSourceApi}, interval: ${aiEvalInterval}). Need ${lookbackPeriod}, got ${historicalDataForAI?.length}. Skipping.`);
-        continue;
+        return null;
       }
       logger.info(`[AISuggestionService] Fetched ${historicalDataForAI.length} data points for AI evaluation of ${currentSymbol}.`);
     } catch (e) {
       logSafeError(logger, `[AISuggestionService] Error fetching historical data for AI suggestion for ${currentSymbol}`, e, { symbol: currentSymbol });
-      continue;
+      return null;
     }
 
     const aiSelectorParams: AISelectorStrategyParams = {
@@ -106,9 +119,11 @@ export async function getCapitalAwareStrategySuggestion(
       parameters: aiSelectorParams,
     };
 
+    // Each symbol gets its own selector, so the concurrent analyses do not share a choice
+    const aiSelector = createAISelectorStrategy();
     try {
-      await aiSelectorStrategy.execute(aiContext);
-      const aiChoice = getAISelectorActiveState(currentSymbol);
+      await aiSelector.execute(aiContext);
+      const aiChoice = aiSelector.getAIDecision?.() ?? null;
 
       // Add conditional log for when AISelectorStrategy doesn't yield a chosen strategy
       if (!aiChoice || !aiChoice.chosenStrategyId) {
@@ -118,7 +133,7 @@ export async function getCapitalAwareStrategySuggestion(
       if (aiChoice && aiChoice.chosenStrategyId) {
         const strategyDetails = StrategyManagerModule.getStrategy(aiChoice.chosenStrategyId);
         if (strategyDetails) {
-          allSymbolResults.push({
+          const result: SymbolSelectionResult = {
             symbol: currentSymbol,
             strategyId: aiChoice.chosenStrategyId!,
             strategyName: strategyDetails.name,
@@ -128,21 +143,28 @@ export async function getCapitalAwareStrategySuggestion(
             simulatedPnl: aiChoice.simulatedPnl,
             simulatedSharpe: aiChoice.simulatedSharpe,     // <-- Add/ensure this
             simulatedWinRate: aiChoice.simulatedWinRate,   // <-- Add/ensure this
-          });
+          };
           logger.info(`[AISuggestionService] Best strategy for ${currentSymbol}: ${strategyDetails.name} (ID: ${aiChoice.chosenStrategyId}), ` +
                       `Metric: ${aiChoice.evaluationMetricUsed}, Score: ${aiChoice.evaluationScore?.toFixed(4)}, ` +
                       `P&L: ${aiChoice.simulatedPnl?.toFixed(2)}, Sharpe: ${aiChoice.simulatedSharpe?.toFixed(2)}, WinRate: ${(aiChoice.simulatedWinRate !== undefined && aiChoice.simulatedWinRate !== null ? (aiChoice.simulatedWinRate * 100).toFixed(1) + '%' : 'N/A')}`);
+          return result;
         } else {
           logger.warn(`[AISuggestionService] AI chose strategy ${aiChoice.chosenStrategyId} for ${currentSymbol}, but details not found in StrategyManager.`);
         }
       } else {
-        logger.warn(`[AISuggestionService] AISelectorStrategy did not make a choice for ${currentSymbol}. Message: ${aiChoice?.message}`);
+        logger.warn(`[AISuggestionService] AISelectorStrategy did not make a choice for ${currentSymbol}.`);
       }
     } catch (error) {
       logSafeError(logger, `[AISuggestionService] Error during AI strategy selection for ${currentSymbol}`, error, { symbol: currentSymbol });
-      continue;
+      return null;
+    } finally {
+      await StrategyManagerModule.disposeStrategy(aiSelector);
     }
-  } // End of for...of allSymbols loop
+    return null;
+  };
+
+  const allSymbolResults = (await Promise.all(allSymbols.map(analyzeSymbol)))
+    .filter((result): result is SymbolSelectionResult => result !== null);
 
   if (allSymbolResults.length === 0) {
     // Return an empty array if no suitable strategy could be determined
@@ -0,0 +1,208 @@
+// src/services/backtestJobQueue.ts
+// Runs backtest jobs in the background, in submission order, with at most BACKTEST_JOB_CONCURRENCY jobs at a time.
+// Job state lives in the backtest_jobs table (see backtestJobService.ts), so status and results outlive the process;
+// jobs that were queued or running when it stopped are picked up again by resumeBacktestJobs. Subscribers get the job
+// each time it changes and, while it runs, the equity points and trades of each batch of processed bars.
+// Each job runs on a worker thread (see backtest/backtestRequest.worker.ts), so a slow strategy does not hold up the
+// requests the server is answering. With BACKTEST_JOB_WORKERS=0, jobs run on the server's thread instead and yield
+// to it between bars.
+
+import { EventEmitter } from 'events';
+import path from 'path';
+import { executeBacktestRequest, toApiTrade, BacktestRequestTask } from '../backtest/backtestRequest';
+import type { BacktestProgress } from '../backtest/index';
+import type { BacktestResultAPI, BacktestSettingsAPI } from '../types';
+import { WorkerPool } from '../utils/workerPool';
+import type { BacktestJob, BacktestJobProgress, BacktestJobSummary, UpdateBacktestJobInput } from '../models/backtestJob.types';
+import * as backtestJobService from './backtestJobService';
+import logger from '../utils/logger';
+
+// progress events carry what happened since the previous one (see getBacktestJobProgress for everything so far)
+export type BacktestJobEvent =
+  | { type: 'job'; job: BacktestJobSummary }
+  | { type: 'progress'; progress: BacktestJobProgress };
+
+export type BacktestJobListener = (event: BacktestJobEvent) => void;
+
+export const DEFAULT_BACKTEST_JOB_CONCURRENCY = 2;
+
+// Built as .js next to the backtest module, or run as .ts under ts-node
+const WORKER_SCRIPT = path.join(__dirname, '../backtest', `backtestRequest.worker${path.extname(__filename)}`);
+
+let workerPool: WorkerPool<BacktestRequestTask, BacktestResultAPI, BacktestProgress> | null = null;
+
+const pendingJobIds: string[] = [];
+const runningJobs = new Map<string, AbortController>();
+// Partial results of the running jobs; they are not saved, a job interrupted by a restart starts over anyway
+const jobProgress = new Map<string, BacktestJobProgress>();
+const jobEvents = new EventEmitter();
+// Every open progress stream is a listener
+jobEvents.setMaxListeners(0);
+
+const getConcurrency = (): number => {
+  const concurrency = parseInt(process.env.BACKTEST_JOB_CONCURRENCY ?? '', 10);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_BACKTEST_JOB_CONCURRENCY;
+};
+
+// Jobs run on worker threads unless BACKTEST_JOB_WORKERS is 0
+const areBacktestJobWorkersEnabled = (): boolean => process.env.BACKTEST_JOB_WORKERS?.trim() !== '0';
+
+// One worker per job that may run at the same time
+const getWorkerPool = (): WorkerPool<BacktestRequestTask, BacktestResultAPI, BacktestProgress> | null => {
+  if (!areBacktestJobWorkersEnabled()) {
+    return null;
+  }
+  const size = getConcurrency();
+  if (!workerPool || workerPool.size !== size) {
+    void workerPool?.close();
+    workerPool = new WorkerPool(WORKER_SCRIPT, size);
+    logger.info(`Backtest Jobs: Started a pool of ${size} worker threads.`);
+  }
+  return workerPool;
+};
+
+// Gives pending I/O, such as status requests, a turn between bars of a job running on the server's thread
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+// Saves a change to a job and notifies its subscribers
+const updateJob = (jobId: string, updateData: UpdateBacktestJobInput): BacktestJob | null => {
+  const job = backtestJobService.updateBacktestJob(jobId, updateData);
+  if (job) {
+    jobEvents.emit(jobId, { type: 'job', job: backtestJobService.toBacktestJobSummary(job) });
+  }
+  return job;
+};
+
+async function runJob(jobId: string, controller: AbortController): Promise<void> {
+  const job = backtestJobService.getBacktestJobById(jobId);
+  if (!job || job.status !== 'queued') {
+    return; // Cancelled before it started
+  }
+
+  updateJob(jobId, { status: 'running', started_at: Date.now(), bars_processed: 0, total_bars: null });
+  logger.info(`Backtest Jobs: Started job ${jobId} (${job.settings.strategyId} on ${job.settings.symbol})`);
+
+  const recordProgress = ({ barsProcessed, totalBars, portfolioHistory, trades }: BacktestProgress) => {
+    if (!controller.signal.aborted) {
+      const progress: BacktestJobProgress = { barsProcessed, totalBars, portfolioHistory, trades: trades.map(toApiTrade) };
+      const accumulated = jobProgress.get(jobId);
+      jobProgress.set(jobId, {
+        ...progress,
+        portfolioHistory: (accumulated?.portfolioHistory ?? []).concat(progress.portfolioHistory),
+        trades: (accumulated?.trades ?? []).concat(progress.trades),
+      });
+      jobEvents.emit(jobId, { type: 'progress', progress });
+      updateJob(jobId, { bars_processed: barsProcessed, total_bars: totalBars });
+    }
+  };
+
+  try {
+    const pool = getWorkerPool();
+    const task: BacktestRequestTask = { settings: job.settings, userId: job.user_id ?? undefined };
+    const result = pool
+      ? await pool.run(task, { onMessage: recordProgress, signal: controller.signal })
+      : await executeBacktestRequest(task.settings, task.userId, {
+          onProgress: async progress => {
+            recordProgress(progress);
+            await yieldToEventLoop();
+          },
+          signal: controller.signal,
+        });
+    // A job cancelled while it finished its last bar stays cancelled
+    if (!controller.signal.aborted) {
+      updateJob(jobId, { status: 'completed', result, finished_at: Date.now() });
+      logger.info(`Backtest Jobs: Completed job ${jobId}`);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      const message = error instanceof Error ? error.message : String(error);
+      updateJob(jobId, { status: 'failed', error: message, finished_at: Date.now() });
+      logger.error(`Backtest Jobs: Job ${jobId} failed: ${message}`);
+    }
+  } finally {
+    jobProgress.delete(jobId);
+  }
+}
+
+function startPendingJobs(): void {
+  while (runningJobs.size < getConcurrency() && pendingJobIds.length > 0) {
+    const jobId = pendingJobIds.shift()!;
+    const controller = new AbortController();
+    runningJobs.set(jobId, controller);
+    // Started on a later turn of the event loop, so the submitting request is answered first
+    setImmediate(() => {
+      runJob(jobId, controller)
+        .catch(error => logger.error(`Backtest Jobs: Could not run job ${jobId}: ${error.message}`))
+        .finally(() => {
+          runningJobs.delete(jobId);
+          startPendingJobs();
+        });
+    });
+  }
+}
+
+/**
+ * Saves a job for a validated backtest request and queues it.
+ * @param settings - A request that passed validateBacktestSettings.
+ * @param userId - The user submitting the job, if authenticated; their run is saved to their history when it completes.
+ */
+export const submitBacktestJob = (settings: BacktestSettingsAPI, userId: string | null): BacktestJob => {
+  const job = backtestJobService.createBacktestJob(settings, userId);
+  pendingJobIds.push(job.id);
+  logger.info(`Backtest Jobs: Queued job ${job.id} (${settings.strategyId} on ${settings.symbol})`);
+  startPendingJobs();
+  return job;
+};
+
+/**
+ * Cancels a queued or running job. A running job stops before its next bar.
+ * @returns The job, unchanged if it had already finished, or null if it does not exist.
+ */
+export const cancelBacktestJob = (jobId: string): BacktestJob | null => {
+  const job = backtestJobService.getBacktestJobById(jobId);
+  if (!job || backtestJobService.isBacktestJobFinished(job)) {
+    return job;
+  }
+
+  const pendingIndex = pendingJobIds.indexOf(jobId);
+  if (pendingIndex >= 0) {
+    pendingJobIds.splice(pendingIndex, 1);
+  }
+  runningJobs.get(jobId)?.abort();
+  logger.info(`Backtest Jobs: Cancelled job ${jobId}`);
+  return updateJob(jobId, { status: 'cancelled', finished_at: Date.now() });
+};
+
+/**
+ * The equity points and trades of the bars a running job has processed so far, or null if it is not running.
+ */
+export const getBacktestJobProgress = (jobId: string): BacktestJobProgress | null => jobProgress.get(jobId) ?? null;
+
+/**
+ * Calls the listener with each event of the job, until the returned function is called.
+ */
+export const subscribeToBacktestJob = (jobId: string, listener: BacktestJobListener): (() => void) => {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+};
+
+/**
+ * Queues again the jobs that were queued or running when the server stopped. Interrupted jobs start over.
+ * @returns The number of jobs queued.
+ */
+export const resumeBacktestJobs = (): number => {
+  const jobs = backtestJobService.getUnfinishedBacktestJobs().filter(job => !runningJobs.has(job.id) && !pendingJobIds.includes(job.id));
+  for (const job of jobs) {
+    if (job.status === 'running') {
+      backtestJobService.updateBacktestJob(job.id, { status: 'queued', bars_processed: 0, total_bars: null });
+    }
+    pendingJobIds.push(job.id);
+  }
+  if (jobs.length > 0) {
+    logger.info(`Backtest Jobs: Resumed ${jobs.length} unfinished job(s)`);
+  }
+  startPendingJobs();
+  return jobs.length;
+};
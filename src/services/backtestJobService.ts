@@ -0,0 +1,148 @@
+// src/services/backtestJobService.ts
+import { db } from '../database';
+import { v4 as uuidv4 } from 'uuid';
+import type { BacktestSettingsAPI } from '../types';
+import {
+  BacktestJob,
+  BacktestJobStatus,
+  BacktestJobStored,
+  BacktestJobSummary,
+  UpdateBacktestJobInput,
+} from '../models/backtestJob.types';
+
+export const DEFAULT_BACKTEST_JOB_LIMIT = 100;
+
+export const FINISHED_BACKTEST_JOB_STATUSES: BacktestJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Columns of the job list: everything but the result
+const SUMMARY_COLUMNS = 'id, user_id, status, settings, bars_processed, total_bars, error, created_at, started_at, finished_at, updated_at';
+
+// --- Helpers to convert stored format to service format ---
+const mapStoredToSummary = (stored: Omit<BacktestJobStored, 'result'>): BacktestJobSummary => ({
+  id: stored.id,
+  user_id: stored.user_id,
+  status: stored.status,
+  settings: JSON.parse(stored.settings),
+  bars_processed: stored.bars_processed,
+  total_bars: stored.total_bars,
+  error: stored.error,
+  created_at: stored.created_at,
+  started_at: stored.started_at,
+  finished_at: stored.finished_at,
+  updated_at: stored.updated_at,
+});
+
+const mapStoredToBacktestJob = (stored: BacktestJobStored): BacktestJob => ({
+  ...mapStoredToSummary(stored),
+  result: stored.result === null ? null : JSON.parse(stored.result),
+});
+
+export const isBacktestJobFinished = (job: Pick<BacktestJob, 'status'>): boolean =>
+  FINISHED_BACKTEST_JOB_STATUSES.includes(job.status);
+
+/**
+ * Drops the result of a job, e.g. to list or stream it.
+ */
+export const toBacktestJobSummary = (job: BacktestJob): BacktestJobSummary => {
+  const summary: Partial<BacktestJob> = { ...job };
+  delete summary.result;
+  return summary as BacktestJobSummary;
+};
+
+// --- Service Functions ---
+
+export const createBacktestJob = (settings: BacktestSettingsAPI, userId: string | null): BacktestJob => {
+  const now = Date.now();
+  const job: BacktestJob = {
+    id: uuidv4(),
+    user_id: userId,
+    status: 'queued',
+    settings,
+    bars_processed: 0,
+    total_bars: null,
+    result: null,
+    error: null,
+    created_at: now,
+    started_at: null,
+    finished_at: null,
+    updated_at: now,
+  };
+
+  try {
+    db.prepare(
+      `INSERT INTO backtest_jobs (id, user_id, status, settings, bars_processed, total_bars, result, error, created_at, started_at, finished_at, updated_at)
+       VALUES (@id, @user_id, @status, @settings, @bars_processed, @total_bars, @result, @error, @created_at, @started_at, @finished_at, @updated_at)`
+    ).run({ ...job, settings: JSON.stringify(job.settings), result: null });
+    return job;
+  } catch (error) {
+    console.error('Error saving backtest job in database:', error);
+    throw new Error('Failed to save backtest job.');
+  }
+};
+
+export const getBacktestJobById = (jobId: string): BacktestJob | null => {
+  try {
+    const storedJob = db.prepare('SELECT * FROM backtest_jobs WHERE id = ?').get(jobId) as BacktestJobStored | undefined;
+    return storedJob ? mapStoredToBacktestJob(storedJob) : null;
+  } catch (error) {
+    console.error(`Error fetching backtest job ${jobId}:`, error);
+    throw new Error('Failed to fetch backtest job.');
+  }
+};
+
+/**
+ * Lists a user's jobs, newest first, without their results.
+ */
+export const getBacktestJobsByUserId = (userId: string, limit = DEFAULT_BACKTEST_JOB_LIMIT): BacktestJobSummary[] => {
+  try {
+    const storedJobs = db.prepare(
+      `SELECT ${SUMMARY_COLUMNS} FROM backtest_jobs WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?`
+    ).all(userId, limit) as Omit<BacktestJobStored, 'result'>[];
+    return storedJobs.map(mapStoredToSummary);
+  } catch (error) {
+    console.error(`Error fetching backtest jobs for user ${userId}:`, error);
+    throw new Error('Failed to fetch backtest jobs.');
+  }
+};
+
+/**
+ * Lists the jobs that are queued or running, oldest first.
+ */
+export const getUnfinishedBacktestJobs = (): BacktestJob[] => {
+  try {
+    const storedJobs = db.prepare(
+      "SELECT * FROM backtest_jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC, rowid ASC"
+    ).all() as BacktestJobStored[];
+    return storedJobs.map(mapStoredToBacktestJob);
+  } catch (error) {
+    console.error('Error fetching unfinished backtest jobs:', error);
+    throw new Error('Failed to fetch backtest jobs.');
+  }
+};
+
+export const updateBacktestJob = (jobId: string, updateData: UpdateBacktestJobInput): BacktestJob | null => {
+  const updates: string[] = ['updated_at = @updated_at'];
+  const params: Record<string, string | number | null> = { jobId, updated_at: Date.now() };
+
+  const { result, ...columns } = updateData;
+  for (const [column, value] of Object.entries(columns)) {
+    if (value === undefined) continue;
+    updates.push(`${column} = @${column}`);
+    params[column] = value;
+  }
+  if (result !== undefined) {
+    updates.push('result = @result');
+    params.result = result === null ? null : JSON.stringify(result);
+  }
+
+  try {
+    const info = db.prepare(`UPDATE backtest_jobs SET ${updates.join(', ')} WHERE id = @jobId`).run(params);
+    if (info.changes === 0) {
+      return null; // Job not found
+    }
+    return getBacktestJobById(jobId);
+  } catch (error) {
+    console.error(`Error updating backtest job ${jobId}:`, error);
+    throw new Error('Failed to update backtest job.');
+  }
+};
@@ -0,0 +1,177 @@
+// src/services/backtestRunService.ts
+import { db } from '../database';
+import { v4 as uuidv4 } from 'uuid';
+import type { BacktestResultAPI } from '../types';
+import {
+  BacktestRun,
+  BacktestRunFilters,
+  BacktestRunMetrics,
+  BacktestRunStored,
+  BacktestRunSummary,
+  CreateBacktestRunInput,
+  UpdateBacktestRunInput,
+} from '../models/backtestRun.types';
+
+export const DEFAULT_BACKTEST_RUN_LIMIT = 100;
+export const MAX_BACKTEST_RUN_LIMIT = 1000;
+
+// Columns of the history list: everything but the trades and the equity curve
+const SUMMARY_COLUMNS = 'id, user_id, strategy_id, strategy_version, symbol, settings, metrics, tags, notes, created_at, updated_at';
+
+// --- Helpers to convert stored format to service format ---
+const mapStoredToSummary = (stored: Omit<BacktestRunStored, 'trades' | 'equity_curve'>): BacktestRunSummary => ({
+  id: stored.id,
+  user_id: stored.user_id,
+  strategy_id: stored.strategy_id,
+  strategy_version: stored.strategy_version,
+  symbol: stored.symbol,
+  settings: JSON.parse(stored.settings),
+  metrics: JSON.parse(stored.metrics),
+  tags: JSON.parse(stored.tags),
+  notes: stored.notes,
+  created_at: stored.created_at,
+  updated_at: stored.updated_at,
+});
+
+const mapStoredToBacktestRun = (stored: BacktestRunStored): BacktestRun => ({
+  ...mapStoredToSummary(stored),
+  trades: JSON.parse(stored.trades),
+  equity_curve: JSON.parse(stored.equity_curve),
+});
+
+/**
+ * Trims tags, drops empty ones and duplicates, keeping the first occurrence's position.
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim()).filter(tag => tag !== '')));
+
+/**
+ * Picks the headline figures of a backtest result to store with the run.
+ */
+export const extractBacktestRunMetrics = (result: BacktestResultAPI): BacktestRunMetrics => ({
+  initialPortfolioValue: result.initialPortfolioValue,
+  finalPortfolioValue: result.finalPortfolioValue,
+  totalProfitOrLoss: result.totalProfitOrLoss,
+  profitOrLossPercentage: result.profitOrLossPercentage,
+  totalTrades: result.totalTrades,
+  sharpeRatio: result.sharpeRatio,
+  maxDrawdown: result.maxDrawdown,
+  totalFees: result.totalFees,
+  totalSlippage: result.totalSlippage,
+  totalTransactionCosts: result.totalTransactionCosts,
+  totalBorrowInterest: result.totalBorrowInterest,
+  liquidations: result.liquidations,
+  analytics: result.analytics,
+});
+
+// --- Service Functions ---
+
+export const createBacktestRun = (data: CreateBacktestRunInput): BacktestRun => {
+  const id = uuidv4();
+  const now = Date.now();
+  const run: BacktestRun = {
+    ...data,
+    id,
+    tags: normalizeTags(data.tags ?? []),
+    notes: data.notes ?? null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  try {
+    db.prepare(
+      `INSERT INTO backtest_runs (id, user_id, strategy_id, strategy_version, symbol, settings, metrics, trades, equity_curve, tags, notes, created_at, updated_at)
+       VALUES (@id, @user_id, @strategy_id, @strategy_version, @symbol, @settings, @metrics, @trades, @equity_curve, @tags, @notes, @created_at, @updated_at)`
+    ).run({
+      ...run,
+      settings: JSON.stringify(run.settings),
+      metrics: JSON.stringify(run.metrics),
+      trades: JSON.stringify(run.trades),
+      equity_curve: JSON.stringify(run.equity_curve),
+      tags: JSON.stringify(run.tags),
+    });
+    return run;
+  } catch (error) {
+    console.error('Error saving backtest run in database:', error);
+    throw new Error('Failed to save backtest run.');
+  }
+};
+
+/**
+ * Lists a user's runs, newest first, without their trades and equity curves.
+ */
+export const getBacktestRunsByUserId = (userId: string, filters: BacktestRunFilters = {}): BacktestRunSummary[] => {
+  const conditions = ['user_id = @userId'];
+  if (filters.strategyId !== undefined) conditions.push('strategy_id = @strategyId');
+  if (filters.symbol !== undefined) conditions.push('symbol = @symbol');
+  if (filters.tag !== undefined) conditions.push('EXISTS (SELECT 1 FROM json_each(backtest_runs.tags) WHERE json_each.value = @tag)');
+
+  try {
+    const stmt = db.prepare(
+      `SELECT ${SUMMARY_COLUMNS} FROM backtest_runs WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC, rowid DESC LIMIT @limit`
+    );
+    const storedRuns = stmt.all({
+      userId,
+      strategyId: filters.strategyId,
+      symbol: filters.symbol,
+      tag: filters.tag,
+      limit: Math.min(filters.limit ?? DEFAULT_BACKTEST_RUN_LIMIT, MAX_BACKTEST_RUN_LIMIT),
+    }) as Omit<BacktestRunStored, 'trades' | 'equity_curve'>[];
+    return storedRuns.map(mapStoredToSummary);
+  } catch (error) {
+    console.error(`Error fetching backtest runs for user ${userId}:`, error);
+    throw new Error('Failed to fetch backtest runs.');
+  }
+};
+
+export const getBacktestRunById = (runId: string, userId: string): BacktestRun | null => {
+  try {
+    const stmt = db.prepare('SELECT * FROM backtest_runs WHERE id = ? AND user_id = ?');
+    const storedRun = stmt.get(runId, userId) as BacktestRunStored | undefined;
+    return storedRun ? mapStoredToBacktestRun(storedRun) : null;
+  } catch (error) {
+    console.error(`Error fetching backtest run ${runId} for user ${userId}:`, error);
+    throw new Error('Failed to fetch backtest run.');
+  }
+};
+
+export const updateBacktestRun = (
+  runId: string,
+  userId: string,
+  updateData: UpdateBacktestRunInput
+): BacktestRun | null => {
+  const updates: string[] = ['updated_at = @updated_at'];
+  const params: Record<string, string | number | null> = { runId, userId, updated_at: Date.now() };
+
+  if (updateData.tags !== undefined) {
+    updates.push('tags = @tags');
+    params.tags = JSON.stringify(normalizeTags(updateData.tags));
+  }
+  if (updateData.notes !== undefined) {
+    updates.push('notes = @notes');
+    params.notes = updateData.notes;
+  }
+
+  try {
+    const result = db.prepare(
+      `UPDATE backtest_runs SET ${updates.join(', ')} WHERE id = @runId AND user_id = @userId`
+    ).run(params);
+    if (result.changes === 0) {
+      return null; // Run not found or doesn't belong to user
+    }
+    return getBacktestRunById(runId, userId);
+  } catch (error) {
+    console.error(`Error updating backtest run ${runId}:`, error);
+    throw new Error('Failed to update backtest run.');
+  }
+};
+
+export const deleteBacktestRun = (runId: string, userId: string): boolean => {
+  try {
+    const result = db.prepare('DELETE FROM backtest_runs WHERE id = ? AND user_id = ?').run(runId, userId);
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error deleting backtest run ${runId} for user ${userId}:`, error);
+    throw new Error('Failed to delete backtest run.');
+  }
+};
@@ -0,0 +1,88 @@
+// src/services/candidateEvaluationPool.ts
+// Runs the candidate simulations of the AI selector (see strategies/candidateSimulation.ts) on a shared pool of
+// AI_WORKER_POOL_SIZE worker threads, so candidates and parameter sets are simulated in parallel. The pool is shared by
+// every caller of the selector, backtests and the suggestion service alike. With a size of 0, simulations run in the
+// calling thread.
+
+import os from 'os';
+import path from 'path';
+import { WorkerPool } from '../utils/workerPool';
+import { simulateCandidate, CandidateSimulationTask, SimulatedScores } from '../strategies/candidateSimulation';
+import * as StrategyManagerModule from '../strategies/strategyManager';
+import type { TradingStrategy } from '../strategies/strategy.types';
+import type { HistoricalDataPoint } from './dataService';
+import logger from '../utils/logger';
+
+// Built as .js next to this file, or run as .ts under ts-node
+const WORKER_SCRIPT = path.join(__dirname, '../strategies', `candidateSimulation.worker${path.extname(__filename)}`);
+
+let pool: WorkerPool<CandidateSimulationTask, SimulatedScores> | null = null;
+
+/**
+ * Number of worker threads simulating candidates: AI_WORKER_POOL_SIZE, or by default one less than the available
+ * CPUs (at least one). 0 disables the pool.
+ */
+export function getCandidateEvaluationPoolSize(): number {
+  const size = parseInt(process.env.AI_WORKER_POOL_SIZE ?? '', 10);
+  return Number.isInteger(size) && size >= 0 ? size : Math.max(1, os.availableParallelism() - 1);
+}
+
+/**
+ * How many simulations a caller should keep in flight: the pool size, or 1 when simulations run in the calling
+ * thread, where running them side by side gains nothing.
+ */
+export function getCandidateEvaluationConcurrency(): number {
+  return Math.max(1, getCandidateEvaluationPoolSize());
+}
+
+const getPool = (): WorkerPool<CandidateSimulationTask, SimulatedScores> | null => {
+  const size = getCandidateEvaluationPoolSize();
+  if (size === 0) {
+    return null;
+  }
+  if (!pool || pool.size !== size) {
+    void pool?.close();
+    pool = new WorkerPool(WORKER_SCRIPT, size);
+    logger.info(`CandidateEvaluationPool: Started a pool of ${size} worker threads.`);
+  }
+  return pool;
+};
+
+/**
+ * Simulates a candidate strategy with one parameter set over an evaluation window. Registered strategies run on a
+ * new instance, on the pool or, when the pool is disabled or a worker fails, in the calling thread. Other strategies
+ * run in the calling thread as given.
+ */
+export async function evaluateCandidate(
+  strategy: TradingStrategy,
+  parameters: Record<string, any>,
+  evaluationData: HistoricalDataPoint[],
+  symbol: string
+): Promise<SimulatedScores> {
+  if (!StrategyManagerModule.getAvailableStrategies().includes(strategy)) {
+    return simulateCandidate(strategy, parameters, evaluationData, symbol);
+  }
+  const workerPool = getPool();
+  if (workerPool) {
+    try {
+      return await workerPool.run({ strategyId: strategy.id, parameters, evaluationData, symbol });
+    } catch (error: any) {
+      logger.warn(`CandidateEvaluationPool: Simulation of ${strategy.id} failed on a worker (${error.message}); running it in this thread.`);
+    }
+  }
+  const instance = StrategyManagerModule.createStrategy(strategy.id) ?? strategy;
+  try {
+    return await simulateCandidate(instance, parameters, evaluationData, symbol);
+  } finally {
+    await StrategyManagerModule.disposeStrategy(instance);
+  }
+}
+
+/**
+ * Stops the worker threads; the next evaluation starts a new pool.
+ */
+export async function closeCandidateEvaluationPool(): Promise<void> {
+  const closing = pool;
+  pool = null;
+  await closing?.close();
+}
@@ -0,0 +1,362 @@
+// src/services/optimizerService.ts
+// Searches a strategy's parameter space for the values that maximize an objective. The search algorithms (grid,
+// random, Latin hypercube and a Tree-structured Parzen Estimator) share one interface, so callers choose one by name
+// and get the same budget, early stopping and seed handling.
+
+import logger from '../utils/logger';
+import { createSeededRandom, generateSeed } from '../utils/random';
+import { DEFAULT_MAX_COMBINATIONS, ParameterValue, countCombinations } from '../backtest/parameterGrid';
+
+export type OptimizerAlgorithm = 'grid' | 'random' | 'latinHypercube' | 'tpe';
+
+export interface OptimizerSettings {
+  algorithm?: OptimizerAlgorithm; // Defaults to grid
+  budget?: number;                // Maximum number of evaluations; defaults to DEFAULT_OPTIMIZER_BUDGET (grid: DEFAULT_MAX_COMBINATIONS)
+  earlyStoppingRounds?: number;   // Stop after this many evaluations without a better score
+  seed?: number;                  // Seed of the random algorithms; a random seed is drawn (and reported) when omitted
+  initialSamples?: number;        // tpe: random evaluations before the model is used; defaults to DEFAULT_TPE_INITIAL_SAMPLES
+}
+
+// The objective to maximize; a non-finite score is never the best
+export type ObjectiveFunction = (parameters: Record<string, ParameterValue>) => Promise<number>;
+
+export interface OptimizationTrial {
+  parameters: Record<string, ParameterValue>;
+  score: number;
+}
+
+export interface OptimizationResult {
+  algorithm: OptimizerAlgorithm;
+  seed: number;
+  bestParameters: Record<string, ParameterValue> | null; // null when no evaluation had a finite score
+  bestScore: number | null;
+  evaluations: number;
+  stoppedEarly: boolean;
+  trials: OptimizationTrial[];                           // In evaluation order
+}
+
+/**
+ * A search algorithm proposes the next point to evaluate from the points evaluated so far. Points are value indices
+ * into the search space's value lists, one per parameter in space order.
+ */
+export interface ParameterSearch {
+  // The next point to evaluate, or null when every point of the space has been proposed
+  next(history: ReadonlyArray<{ point: number[]; score: number }>): number[] | null;
+}
+
+export const OPTIMIZER_ALGORITHMS: OptimizerAlgorithm[] = ['grid', 'random', 'latinHypercube', 'tpe'];
+export const DEFAULT_OPTIMIZER_ALGORITHM: OptimizerAlgorithm = 'grid';
+export const DEFAULT_OPTIMIZER_BUDGET = 100;
+export const DEFAULT_TPE_INITIAL_SAMPLES = 10;
+
+// Share of the evaluated points that the TPE model treats as good
+const TPE_GAMMA = 0.25;
+// Points drawn from the good density per TPE proposal; the one most likely to be good is proposed
+const TPE_CANDIDATES = 24;
+// Random draws tried before falling back to the first point not yet proposed
+const MAX_RANDOM_ATTEMPTS = 1000;
+
+const isPositiveInteger = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Validates optimizer settings received from an API payload, a JSON config or strategy parameters.
+ * @param settings - The value to validate (may be undefined).
+ * @returns An error message if the value is invalid, otherwise null.
+ */
+export function validateOptimizerSettings(settings: unknown): string | null {
+  if (settings === undefined || settings === null) {
+    return null;
+  }
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'optimizer must be an object.';
+  }
+  const { algorithm, budget, earlyStoppingRounds, seed, initialSamples } = settings as OptimizerSettings;
+  if (algorithm !== undefined && !OPTIMIZER_ALGORITHMS.includes(algorithm)) {
+    return `optimizer.algorithm must be one of ${OPTIMIZER_ALGORITHMS.join(', ')}.`;
+  }
+  if (budget !== undefined && !isPositiveInteger(budget)) {
+    return 'optimizer.budget must be a positive integer.';
+  }
+  if (earlyStoppingRounds !== undefined && !isPositiveInteger(earlyStoppingRounds)) {
+    return 'optimizer.earlyStoppingRounds must be a positive integer.';
+  }
+  if (seed !== undefined && (typeof seed !== 'number' || !Number.isInteger(seed))) {
+    return 'optimizer.seed must be an integer.';
+  }
+  if (initialSamples !== undefined && !isPositiveInteger(initialSamples)) {
+    return 'optimizer.initialSamples must be a positive integer.';
+  }
+  return null;
+}
+
+interface PointRegistry {
+  total: number;                        // Number of points in the space
+  has(point: number[]): boolean;
+  add(point: number[]): number[];
+  exhausted(): boolean;
+  pointAt(position: number): number[];  // The point at a position of the grid order, varying the last parameter fastest
+  randomUnproposed(random: () => number): number[] | null;
+}
+
+// Tracks proposed points and finds points not proposed yet
+function createPointRegistry(sizes: number[]): PointRegistry {
+  const proposed = new Set<string>();
+  const total = sizes.reduce((count, size) => count * size, 1);
+
+  const has = (point: number[]): boolean => proposed.has(point.join(','));
+  const add = (point: number[]): number[] => {
+    proposed.add(point.join(','));
+    return point;
+  };
+  const exhausted = (): boolean => proposed.size >= total;
+  const pointAt = (position: number): number[] => {
+    const point = new Array<number>(sizes.length);
+    for (let k = sizes.length - 1; k >= 0; k--) {
+      point[k] = position % sizes[k];
+      position = Math.floor(position / sizes[k]);
+    }
+    return point;
+  };
+
+  // A uniformly drawn point not proposed yet, or the first one in grid order if random draws keep colliding
+  const randomUnproposed = (random: () => number): number[] | null => {
+    if (exhausted()) return null;
+    for (let attempt = 0; attempt < MAX_RANDOM_ATTEMPTS; attempt++) {
+      const point = sizes.map(size => Math.floor(random() * size));
+      if (!has(point)) return add(point);
+    }
+    for (let position = 0; position < total; position++) {
+      const point = pointAt(position);
+      if (!has(point)) return add(point);
+    }
+    return null;
+  };
+
+  return { total, has, add, exhausted, pointAt, randomUnproposed };
+}
+
+function createGridSearch(sizes: number[]): ParameterSearch {
+  const registry = createPointRegistry(sizes);
+  let position = 0;
+  return {
+    next: () => (position < registry.total ? registry.pointAt(position++) : null),
+  };
+}
+
+function createRandomSearch(sizes: number[], random: () => number): ParameterSearch {
+  const registry = createPointRegistry(sizes);
+  return {
+    next: () => registry.randomUnproposed(random),
+  };
+}
+
+// Shuffles 0..n-1 (Fisher-Yates)
+function permutation(n: number, random: () => number): number[] {
+  const values = Array.from({ length: n }, (_, k) => k);
+  for (let k = n - 1; k > 0; k--) {
+    const j = Math.floor(random() * (k + 1));
+    [values[k], values[j]] = [values[j], values[k]];
+  }
+  return values;
+}
+
+/**
+ * Latin hypercube sampling: each parameter's range is cut into as many equal strata as there are samples and each
+ * stratum is sampled once, so every parameter is covered evenly even with a small budget. Samples that land on an
+ * already proposed point (possible when a parameter has fewer values than the budget) are replaced by random ones.
+ */
+function createLatinHypercubeSearch(sizes: number[], budget: number, random: () => number): ParameterSearch {
+  const registry = createPointRegistry(sizes);
+  const sampleCount = Math.min(budget, registry.total);
+  const strata = sizes.map(() => permutation(sampleCount, random));
+  let sample = 0;
+  return {
+    next: () => {
+      while (sample < sampleCount) {
+        const k = sample++;
+        const point = sizes.map((size, p) => Math.floor(((strata[p][k] + random()) / sampleCount) * size));
+        if (!registry.has(point)) return registry.add(point);
+      }
+      return registry.randomUnproposed(random);
+    },
+  };
+}
+
+/**
+ * Parzen density over the value indices of one parameter: a uniform prior plus a kernel per observation. Numeric
+ * values are ordered, so observations also raise the density of neighbouring values; other values only their own.
+ */
+function parzenDensity(size: number, observations: number[], ordered: boolean): number[] {
+  const bandwidth = Math.max(1, size / 10);
+  const density = new Array<number>(size).fill(1 / size);
+  for (const observed of observations) {
+    if (!ordered) {
+      density[observed] += 1;
+      continue;
+    }
+    for (let k = 0; k < size; k++) {
+      density[k] += Math.exp(-0.5 * ((k - observed) / bandwidth) ** 2);
+    }
+  }
+  const total = density.reduce((sum, value) => sum + value, 0);
+  return density.map(value => value / total);
+}
+
+function sampleIndex(density: number[], random: () => number): number {
+  let threshold = random();
+  for (let k = 0; k < density.length; k++) {
+    threshold -= density[k];
+    if (threshold < 0) return k;
+  }
+  return density.length - 1;
+}
+
+/**
+ * Tree-structured Parzen Estimator (Bergstra et al., 2011). After initialSamples random points, the evaluated points
+ * are split into the best TPE_GAMMA share and the rest; per parameter a density is fitted to each group, and the next
+ * point is the candidate drawn from the good densities with the highest good/bad density ratio.
+ */
+function createTpeSearch(sizes: number[], ordered: boolean[], initialSamples: number, random: () => number): ParameterSearch {
+  const registry = createPointRegistry(sizes);
+  return {
+    next: history => {
+      const scored = history.filter(entry => isFinite(entry.score));
+      if (registry.exhausted()) return null;
+      if (scored.length < initialSamples) return registry.randomUnproposed(random);
+
+      const sorted = [...scored].sort((a, b) => b.score - a.score);
+      const goodCount = Math.max(1, Math.ceil(TPE_GAMMA * sorted.length));
+      const good = sorted.slice(0, goodCount);
+      const bad = sorted.slice(goodCount);
+      const goodDensities = sizes.map((size, p) => parzenDensity(size, good.map(entry => entry.point[p]), ordered[p]));
+      const badDensities = sizes.map((size, p) => parzenDensity(size, bad.map(entry => entry.point[p]), ordered[p]));
+
+      let bestPoint: number[] | null = null;
+      let bestRatio = -Infinity;
+      for (let candidate = 0; candidate < TPE_CANDIDATES; candidate++) {
+        const point = goodDensities.map(density => sampleIndex(density, random));
+        if (registry.has(point)) continue;
+        const ratio = point.reduce((sum, index, p) => sum + Math.log(goodDensities[p][index]) - Math.log(badDensities[p][index]), 0);
+        if (ratio > bestRatio) {
+          bestRatio = ratio;
+          bestPoint = point;
+        }
+      }
+      return bestPoint ? registry.add(bestPoint) : registry.randomUnproposed(random);
+    },
+  };
+}
+
+/**
+ * Creates the search of an algorithm over a space given as value-list sizes.
+ * @param algorithm - The search algorithm.
+ * @param sizes - Number of values per parameter.
+ * @param ordered - Per parameter, whether its values are numbers (neighbouring values behave alike).
+ * @param budget - Evaluations that will be requested (used by Latin hypercube to size its strata).
+ * @param random - Source of random numbers in [0, 1).
+ * @param initialSamples - Random evaluations before the TPE model is used.
+ */
+export function createParameterSearch(
+  algorithm: OptimizerAlgorithm,
+  sizes: number[],
+  ordered: boolean[],
+  budget: number,
+  random: () => number,
+  initialSamples: number = DEFAULT_TPE_INITIAL_SAMPLES
+): ParameterSearch {
+  switch (algorithm) {
+    case 'random':
+      return createRandomSearch(sizes, random);
+    case 'latinHypercube':
+      return createLatinHypercubeSearch(sizes, budget, random);
+    case 'tpe':
+      return createTpeSearch(sizes, ordered, initialSamples, random);
+    default:
+      return createGridSearch(sizes);
+  }
+}
+
+/**
+ * Maximizes an objective over a parameter space. Each point is evaluated at most once.
+ * @param parameterValues - The values to search, keyed by parameter name (see resolveParameterValues).
+ * @param objective - Evaluates one parameter set; higher is better.
+ * @param settings - Algorithm, budget, early stopping and seed (validated with validateOptimizerSettings).
+ * @param concurrency - Evaluations run at the same time. Grid, random and Latin hypercube proposals do not depend on
+ *   scores, so the result is the same for any concurrency; tpe uses every score so far and always evaluates one at a time.
+ * @returns The best parameters and every trial. When nothing is searched, the only trial is the empty parameter set.
+ */
+export async function runOptimization(
+  parameterValues: Record<string, ParameterValue[]>,
+  objective: ObjectiveFunction,
+  settings: OptimizerSettings = {},
+  concurrency: number = 1
+): Promise<OptimizationResult> {
+  const algorithm = settings.algorithm ?? DEFAULT_OPTIMIZER_ALGORITHM;
+  const seed = settings.seed ?? generateSeed();
+  const names = Object.keys(parameterValues);
+  const sizes = names.map(name => parameterValues[name].length);
+  const ordered = names.map(name => parameterValues[name].every(value => typeof value === 'number'));
+  const spaceSize = countCombinations(parameterValues);
+  const budget = Math.min(settings.budget ?? (algorithm === 'grid' ? DEFAULT_MAX_COMBINATIONS : DEFAULT_OPTIMIZER_BUDGET), spaceSize);
+
+  if (algorithm === 'grid' && spaceSize > budget) {
+    logger.warn(`Optimizer: the grid has ${spaceSize} combinations but the budget is ${budget}; only the first ${budget} are evaluated. Use a random, latinHypercube or tpe search to cover the whole space.`);
+  }
+
+  const search = createParameterSearch(algorithm, sizes, ordered, budget, createSeededRandom(seed), settings.initialSamples);
+  const batchSize = algorithm === 'tpe' ? 1 : Math.max(1, Math.floor(concurrency));
+  const history: Array<{ point: number[]; score: number }> = [];
+  const trials: OptimizationTrial[] = [];
+  let bestIndex = -1;
+  let evaluationsSinceImprovement = 0;
+  let stoppedEarly = false;
+  let exhausted = false;
+  let stopped = false;
+
+  while (trials.length < budget && !exhausted && !stopped) {
+    const batch: Array<{ point: number[]; parameters: Record<string, ParameterValue> }> = [];
+    while (batch.length < Math.min(batchSize, budget - trials.length)) {
+      const point = search.next(history);
+      if (!point) {
+        exhausted = true;
+        break;
+      }
+      const parameters: Record<string, ParameterValue> = {};
+      names.forEach((name, p) => { parameters[name] = parameterValues[name][point[p]]; });
+      batch.push({ point, parameters });
+    }
+    const rawScores = await Promise.all(batch.map(({ parameters }) => objective(parameters)));
+
+    // Scores are recorded in proposal order, so early stopping ends where it would have one evaluation at a time
+    for (let b = 0; b < batch.length; b++) {
+      const { point, parameters } = batch[b];
+      const score = isFinite(rawScores[b]) ? rawScores[b] : -Infinity;
+      history.push({ point, score });
+      trials.push({ parameters, score });
+
+      if (isFinite(score) && (bestIndex < 0 || score > trials[bestIndex].score)) {
+        bestIndex = trials.length - 1;
+        evaluationsSinceImprovement = 0;
+      } else {
+        evaluationsSinceImprovement++;
+        if (settings.earlyStoppingRounds !== undefined && evaluationsSinceImprovement >= settings.earlyStoppingRounds) {
+          stoppedEarly = trials.length < budget;
+          stopped = true;
+          break;
+        }
+      }
+    }
+  }
+
+  logger.verbose(`Optimizer (${algorithm}, seed ${seed}): ${trials.length} of ${spaceSize} combinations evaluated${stoppedEarly ? ', stopped early' : ''}.`);
+
+  return {
+    algorithm,
+    seed,
+    bestParameters: bestIndex >= 0 ? trials[bestIndex].parameters : null,
+    bestScore: bestIndex >= 0 ? trials[bestIndex].score : null,
+    evaluations: trials.length,
+    stoppedEarly,
+    trials,
+  };
+}
@@ -0,0 +1,124 @@
+// src/strategies/candidateSimulation.ts
+// The AI selector scores each candidate strategy by simulating it over a recent window of bars. A simulation only
+// depends on its task, so it runs the same in the calling thread or on a worker of the candidate evaluation pool
+// (see services/candidateEvaluationPool.ts).
+
+import type { TradingStrategy, StrategyContext } from './strategy.types';
+import type { Portfolio } from '../backtest';
+import type { HistoricalDataPoint } from '../services/dataService';
+
+// A simulation as sent to a worker, which looks the strategy up in its own registry
+export interface CandidateSimulationTask {
+  strategyId: string;
+  parameters: Record<string, any>;
+  evaluationData: HistoricalDataPoint[];
+  symbol: string;
+}
+
+interface SimulatedPosition {
+  entryPrice: number;
+  type: 'long' | 'short';
+}
+
+export interface SimulatedScores {
+  pnl: number;
+  sharpe: number;
+  winRate: number;
+}
+
+// Simulates a candidate strategy with one parameter set over the evaluation window (one unit, long or short). The
+// simulation is a run of its own: it calls init and onFinish; the caller owns the instance and disposes it.
+export async function simulateCandidate(
+  strategy: TradingStrategy,
+  parameters: Record<string, any>,
+  evaluationData: HistoricalDataPoint[],
+  symbol: string
+): Promise<SimulatedScores> {
+  let simulatedPnl = 0;
+  let simulatedTrades = 0;
+  let profitableSimulatedTrades = 0;
+  const periodReturns: number[] = [];
+  let currentSimulatedPosition: SimulatedPosition | null = null;
+  let lastPrice = evaluationData.length > 0 ? evaluationData[0].close : 0;
+  await strategy.init?.({ symbols: [symbol], parameters });
+
+  for (let i = 0; i < evaluationData.length; i++) {
+    const currentBar = evaluationData[i];
+    if (!currentBar) continue; 
+
+    const currentPrice = currentBar.close;
+    const previousPrice = (i > 0) ? evaluationData[i-1].close : currentPrice;
+
+    const simulationContext: StrategyContext<Record<string, any>> = {
+      symbol,
+      historicalData: evaluationData,
+      currentIndex: i,
+      parameters,
+      portfolio: { 
+        getCash: () => 100000,
+        getPosition: () => currentSimulatedPosition ? { quantity: currentSimulatedPosition.type === 'long' ? 1 : -1, averagePrice: currentSimulatedPosition.entryPrice } : { quantity: 0, averagePrice: 0 },
+        getTrades: () => [], recordTrade: () => {}, getMarketValue: () => 0, getHistoricalPnl: () => [],
+      } as unknown as Portfolio, 
+      tradeHistory: [], 
+      signalHistory: [],
+    };
+
+    const signalResult = await strategy.execute(simulationContext);
+    const signalAction = typeof signalResult === 'string' ? signalResult : signalResult.action;
+
+    if (signalAction === 'BUY') {
+      if (!currentSimulatedPosition) {
+        currentSimulatedPosition = { entryPrice: currentPrice, type: 'long' };
+        simulatedTrades++;
+      } else if (currentSimulatedPosition.type === 'short') {
+        const pnlFromTrade = currentSimulatedPosition.entryPrice - currentPrice;
+        simulatedPnl += pnlFromTrade;
+        if (pnlFromTrade > 0) profitableSimulatedTrades++;
+        currentSimulatedPosition = null;
+      }
+    } else if (signalAction === 'SELL') {
+      if (!currentSimulatedPosition) {
+        currentSimulatedPosition = { entryPrice: currentPrice, type: 'short' };
+        simulatedTrades++;
+      } else if (currentSimulatedPosition.type === 'long') {
+        const pnlFromTrade = currentPrice - currentSimulatedPosition.entryPrice;
+        simulatedPnl += pnlFromTrade;
+        if (pnlFromTrade > 0) profitableSimulatedTrades++;
+        currentSimulatedPosition = null;
+      }
+    }
+
+    let candleReturn = 0;
+    if (currentSimulatedPosition) {
+      if (currentSimulatedPosition.type === 'long') candleReturn = previousPrice > 0 ? (currentPrice - previousPrice) / previousPrice : 0;
+      else candleReturn = previousPrice > 0 ? (previousPrice - currentPrice) / previousPrice : 0;
+    }
+    periodReturns.push(candleReturn);
+    lastPrice = currentPrice;
+  }
+  await strategy.onFinish?.({ symbols: [symbol], parameters });
+
+  if (currentSimulatedPosition && evaluationData.length > 0) {
+    if (currentSimulatedPosition.type === 'long') {
+      const pnlFromTrade = lastPrice - currentSimulatedPosition.entryPrice;
+      simulatedPnl += pnlFromTrade;
+      if (pnlFromTrade > 0) profitableSimulatedTrades++;
+    } else {
+      const pnlFromTrade = currentSimulatedPosition.entryPrice - lastPrice;
+      simulatedPnl += pnlFromTrade;
+      if (pnlFromTrade > 0) profitableSimulatedTrades++;
+    }
+  }
+  
+  const pnlScore = simulatedPnl;
+  const winRateScore = simulatedTrades > 0 ? profitableSimulatedTrades / simulatedTrades : 0;
+  let sharpeScore = 0;
+  if (periodReturns.length >= 2) {
+    const averageReturn = periodReturns.reduce((a, b) => a + b, 0) / periodReturns.length;
+    const stdDev = Math.sqrt(periodReturns.map(x => Math.pow(x - averageReturn, 2)).reduce((a, b) => a + b, 0) / (periodReturns.length -1));
+    if (stdDev === 0) sharpeScore = averageReturn > 0 ? 1000 : (averageReturn < 0 ? -1000 : 0); // Assign large/small fixed Sharpe for zero std dev
+    else sharpeScore = averageReturn / stdDev;
+  }
+
+  return { pnl: pnlScore, sharpe: sharpeScore, winRate: winRateScore };
+}
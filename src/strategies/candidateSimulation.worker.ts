@@ -0,0 +1,20 @@
+// src/strategies/candidateSimulation.worker.ts
+// Worker thread of the candidate evaluation pool (see services/candidateEvaluationPool.ts). Each worker loads its own
+// copy of the registered strategies.
+
+import { serveWorkerTasks } from '../utils/workerPool';
+import { createStrategy, disposeStrategy } from './strategyManager';
+import { simulateCandidate, CandidateSimulationTask, SimulatedScores } from './candidateSimulation';
+
+serveWorkerTasks<CandidateSimulationTask, SimulatedScores>(async ({ strategyId, parameters, evaluationData, symbol }) => {
+  // A new instance per simulation, so a simulation does not depend on what the worker ran before
+  const strategy = createStrategy(strategyId);
+  if (!strategy) {
+    throw new Error(`Strategy '${strategyId}' is not registered.`);
+  }
+  try {
+    return await simulateCandidate(strategy, parameters, evaluationData, symbol);
+  } finally {
+    await disposeStrategy(strategy);
+  }
+});
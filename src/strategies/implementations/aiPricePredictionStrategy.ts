@@ -1,4 +1,5 @@
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
 import { HistoricalDataPoint } from '../../services/dataService';
 import { createPriceSequences, normalizeData } from '../../utils/aiDataUtils';
 import { createModel, compileModel } from '../../aiModels/simplePricePredictorModel';
@@ -15,13 +16,14 @@ const aiPricePredictionStrategyParameters: StrategyParameterDefinition[] = [
   { name: 'denseUnits', label: 'Dense Units (0 for none)', type: 'number', defaultValue: 16, min: 0, max: 64, step: 1 },
   { name: 'buyThreshold', label: 'Buy Signal Threshold', type: 'number', defaultValue: 0.6, min: 0.5, max: 1.0, step: 0.01 },
   { name: 'sellThreshold', label: 'Sell Signal Threshold', type: 'number', defaultValue: 0.4, min: 0.0, max: 0.5, step: 0.01 },
-  { name: 'tradeAmount', label: 'Trade Amount', type: 'number', defaultValue: 1, min: 0.001, max: 1000, step: 0.001 }, // Added max
+  { name: 'tradeAmount', label: 'Trade Amount', type: 'number', defaultValue: 1, min: 0, max: 1000, step: 0.001, optimizable: false, description: 'Units to trade per signal (0 = use the backtest position sizing).' }, // Added max
 ];
 
 class AIPricePredictionStrategy implements TradingStrategy {
   id: string = 'ai-price-prediction';
   name: string = 'AI Price Prediction Strategy (Experimental)';
   description: string = 'Uses a simple neural network to predict price movements. Trains once per backtest run.';
+  version: string = '1.0.0';
   parameters: StrategyParameterDefinition[] = aiPricePredictionStrategyParameters;
 
   private model: tf.Sequential | null = null;
@@ -37,8 +39,9 @@ class AIPricePredictionStrategy implements TradingStrategy {
     });
   }
   
-  resetState(): void {
-    logger.info(`[${this.id}] Resetting strategy state. Disposing model if exists.`);
+  // Called by the engine at the end of the run; the instance is not used afterwards
+  dispose(): void {
+    logger.info(`[${this.id}] Disposing strategy state. Disposing model if exists.`);
     if (this.model) {
         this.model.dispose();
     }
@@ -160,15 +163,15 @@ class AIPricePredictionStrategy implements TradingStrategy {
         const currentPrice = historicalData[currentIndex].close;
 
         if (predictionValue >= buyThreshold) {
-          if (portfolio.cash >= currentPrice * tradeAmount) {
+          if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
             // logger.info(`[${this.id}] BUY signal: Prediction ${predictionValue.toFixed(3)} >= ${buyThreshold}. Price ${currentPrice.toFixed(2)}`);
-            return { action: 'BUY', amount: tradeAmount };
+            return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
           }
           // logger.debug(`[${this.id}] BUY condition met (Pred: ${predictionValue.toFixed(3)}) but insufficient cash. Holding.`);
         } else if (predictionValue <= sellThreshold) {
-          if (portfolio.shares >= tradeAmount) {
+          if (canSell(portfolio, tradeAmount)) {
             // logger.info(`[${this.id}] SELL signal: Prediction ${predictionValue.toFixed(3)} <= ${sellThreshold}. Price ${currentPrice.toFixed(2)}`);
-            return { action: 'SELL', amount: tradeAmount };
+            return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
           }
           // logger.debug(`[${this.id}] SELL condition met (Pred: ${predictionValue.toFixed(3)}) but insufficient shares. Holding.`);
         } else {
@@ -182,18 +185,12 @@ class AIPricePredictionStrategy implements TradingStrategy {
       logger.error(`[${this.id}] Error during execute:`, error);
       // If error occurs, reset model so it retrains on next valid opportunity if that's desired,
       // or handle more gracefully. For now, just log and hold.
-      // this.resetState(); // Optional: uncomment to force retrain on next call after an error
+      // this.dispose(); // Optional: uncomment to force retrain on next call after an error
     }
 
     return { action: 'HOLD' };
   }
 }
 
-export const aiPricePredictionStrategy = new AIPricePredictionStrategy();
-
-// Add a method to the class prototype for StrategyManager to call upon new backtest run if needed.
-// This is important because the class instance is created once when StrategyManager loads it.
-// For multiple backtests (e.g. via JSON config), state needs to be reset.
-(AIPricePredictionStrategy.prototype as any).reset = function() {
-    (this as AIPricePredictionStrategy).resetState();
-};
+// The model is trained on the first bar of a run and kept for the following ones, so every run needs its own instance
+export const createAIPricePredictionStrategy = (): TradingStrategy => new AIPricePredictionStrategy();
@@ -1,15 +1,24 @@
-import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition, AIDecision } from '../strategy.types';
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition, AIDecision, MarketRegime } from '../strategy.types';
 import * as StrategyManagerModule from '../strategyManager';
 import logger from '../../utils/logger';
-import { Portfolio } from '../../backtest';
 import { HistoricalDataPoint } from '../../services/dataService'; // Added for evaluationData type
+import { resolveParameterValues } from '../../backtest/parameterGrid';
+import {
+  runOptimization,
+  OptimizerAlgorithm,
+  OptimizerSettings,
+  OPTIMIZER_ALGORITHMS,
+} from '../../services/optimizerService';
+import { evaluateCandidate, getCandidateEvaluationConcurrency } from '../../services/candidateEvaluationPool';
+import { SimulatedScores } from '../candidateSimulation';
 // import { Trade } from '../../portfolio/trade';
 // TechnicalIndicators might not be directly needed if strategies encapsulate their own indicator use.
 
-// Module-scoped stateful properties
-let currentChoicesBySymbol = new Map<string, string>();
-// Updated optimizedParamsForChoice to include evaluation details
-let optimizedParamsForChoice = new Map<string, {
+// Latest choice of any selector run for each symbol, reported by getAISelectorActiveState. Runs never read it back:
+// their own state lives on their strategy instance. It is not per run, and it only sees runs on this thread: backtest
+// jobs on worker threads (see BACKTEST_JOB_WORKERS) update a copy of their own. The choices of one run are in its
+// BacktestResult.aiDecisionLog.
+const latestChoicesBySymbol = new Map<string, {
     strategyId: string,
     params: Record<string, any>,
     evaluationScore?: number,    // Score for the primary metric
@@ -18,7 +27,6 @@ let optimizedParamsForChoice = new Map<string, {
     simulatedSharpe?: number | null; // <-- Add this
     simulatedWinRate?: number | null; // <-- Add this
 }>();
-let lastAIDecision: AIDecision | null = null;
 
 // AIDecision is imported from strategy.types.ts, which should already include evaluationScore and evaluationMetricUsed
 
@@ -27,93 +35,225 @@ interface AISelectorStrategyParams {
   candidateStrategyIds?: string; // Corrected type to string
   evaluationMetric?: 'pnl' | 'sharpe' | 'winRate' | string;
   optimizeParameters?: boolean;
+  optimizationAlgorithm?: OptimizerAlgorithm;
+  optimizationBudget?: number;
+  optimizationEarlyStoppingRounds?: number;
+  optimizationSeed?: number;
+  reevaluationInterval?: number;
+  reevaluateOnRegimeChange?: boolean;
+  minScoreMargin?: number;
+  minHoldingPeriod?: number;
+  switchingCost?: number;
 }
 
-// Helper function for Grid Search
-function generateParameterCombinations(
-    optimizableParams: Array<{ name: string; min: number; max: number; step: number; }>,
-    paramDefaults: Record<string, number | string | boolean>
-): Array<Record<string, any>> {
-    const combinations: Array<Record<string, any>> = [];
-    const tempCombination: Record<string, any> = { ...paramDefaults };
-
-    function recurse(paramIndex: number) {
-        if (paramIndex === optimizableParams.length) {
-            combinations.push({ ...tempCombination });
-            return;
-        }
+const DEFAULT_OPTIMIZATION_ALGORITHM: OptimizerAlgorithm = 'tpe';
+const DEFAULT_OPTIMIZATION_BUDGET = 50;
+// A fixed seed keeps the selector's choices, and therefore backtests using it, reproducible
+const DEFAULT_OPTIMIZATION_SEED = 42;
+// Efficiency ratio (net move over the sum of bar-to-bar moves) from which the evaluation window counts as trending
+const TRENDING_EFFICIENCY_RATIO = 0.3;
+
+// The best parameters of a candidate over the evaluation window, with their simulated scores
+interface CandidateEvaluation {
+  strategyId: string;
+  params: Record<string, any>;
+  score: number; // Score for the evaluation metric
+  pnl: number | null;
+  sharpe: number | null;
+  winRate: number | null;
+}
 
-        const param = optimizableParams[paramIndex];
-        // Ensure min, max, step are valid numbers
-        const min = Number(param.min);
-        const max = Number(param.max);
-        const step = Number(param.step);
+// The selector's choice for one symbol of a run, kept between bars
+interface SelectionState {
+  choice: CandidateEvaluation | null;
+  chosenAtIndex: number;    // Bar the current choice was made on
+  evaluatedAtIndex: number; // Bar of the last ranking of the candidates
+  lastIndex: number;        // Bar of the last call
+  regime: MarketRegime | null;
+  switchCount: number;
+  strategies: Map<string, TradingStrategy>; // Instances of the strategies chosen so far, by id, kept for the run
+}
 
-        if (isNaN(min) || isNaN(max) || isNaN(step)) {
-             logger.warn(`[generateParameterCombinations] Invalid min/max/step for param ${param.name}. Skipping.`);
-             recurse(paramIndex + 1); // Try next parameter
-             return;
-        }
-        if (step <= 0) { // Prevent infinite loops or no progress
-            logger.warn(`[generateParameterCombinations] Invalid step value ${step} for param ${param.name}. Using default value only.`);
-            tempCombination[param.name] = paramDefaults[param.name] !== undefined ? paramDefaults[param.name] : min; // Use default or min
-            recurse(paramIndex + 1);
-            return;
-        }
+const createSelectionState = (): SelectionState => ({
+  choice: null, chosenAtIndex: -1, evaluatedAtIndex: -1, lastIndex: -1, regime: null, switchCount: 0, strategies: new Map(),
+});
 
-        let currentValue = min;
-        while (currentValue <= max) {
-            tempCombination[param.name] = currentValue;
-            recurse(paramIndex + 1);
-            if (currentValue === max && step > 0) break; // Ensure max is included but avoid overshooting with large steps
-            currentValue += step;
-            if (currentValue > max && (currentValue - step) < max) { // Add max if step overshoots it
-                tempCombination[param.name] = max;
-                recurse(paramIndex + 1);
-                break;
-            }
-        }
-    }
-    
-    if (optimizableParams.length === 0) {
-        return [paramDefaults]; // No optimizable params, return defaults
+const disposeSelectionState = (state: SelectionState): Promise<void[]> =>
+  Promise.all(Array.from(state.strategies.values(), strategy => StrategyManagerModule.disposeStrategy(strategy)));
+
+// Classifies the evaluation window with Kaufman's efficiency ratio: a mostly one-way move is a trend
+function detectMarketRegime(evaluationData: HistoricalDataPoint[]): MarketRegime {
+  let path = 0;
+  for (let i = 1; i < evaluationData.length; i++) {
+    path += Math.abs(evaluationData[i].close - evaluationData[i - 1].close);
+  }
+  const netMove = evaluationData.length > 0 ? evaluationData[evaluationData.length - 1].close - evaluationData[0].close : 0;
+  if (path === 0 || Math.abs(netMove) / path < TRENDING_EFFICIENCY_RATIO) {
+    return 'ranging';
+  }
+  return netMove > 0 ? 'trendingUp' : 'trendingDown';
+}
+
+const toDecisionDate = (bar: HistoricalDataPoint): string =>
+  bar.date ? (typeof bar.date === 'string' ? bar.date : new Date(bar.date).toISOString().split('T')[0]) : new Date(bar.timestamp * 1000).toISOString().split('T')[0];
+
+function scoreForMetric(scores: SimulatedScores, metric: string): number {
+  switch (metric) {
+    case 'winRate': return scores.winRate;
+    case 'sharpe': return scores.sharpe;
+    default: return scores.pnl;
+  }
+}
+
+const nonNegative = (value: unknown): number => (typeof value === 'number' && isFinite(value) && value > 0 ? value : 0);
+
+// Simulates every candidate, in parallel on the candidate evaluation pool, and returns those with a finite score in
+// candidate order, so the ranking does not depend on which simulation finishes first
+async function rankCandidates(
+  candidateStrategies: TradingStrategy[],
+  evaluationData: HistoricalDataPoint[],
+  symbol: string,
+  metric: string,
+  optimizeParameters: boolean,
+  optimizerSettings: OptimizerSettings
+): Promise<CandidateEvaluation[]> {
+  const concurrency = getCandidateEvaluationConcurrency();
+  const evaluations = await Promise.all(candidateStrategies.map(async (candidateStrategy): Promise<CandidateEvaluation | null> => {
+    const defaultParams: Record<string, any> = {};
+    (candidateStrategy.parameters || []).forEach((p: StrategyParameterDefinition) => defaultParams[p.name] = p.defaultValue);
+    // Without optimization only the defaults are simulated (an empty search space has a single, empty point)
+    const parameterValues = optimizeParameters ? resolveParameterValues(candidateStrategy.parameters || []) : {};
+
+    const scoresByParams = new Map<string, SimulatedScores>();
+    const optimization = await runOptimization(parameterValues, async (combination) => {
+      const scores = await evaluateCandidate(candidateStrategy, { ...defaultParams, ...combination }, evaluationData, symbol);
+      scoresByParams.set(JSON.stringify(combination), scores);
+      return scoreForMetric(scores, metric);
+    }, optimizerSettings, concurrency);
+    logger.verbose(`[AISelectorStrategy] Simulated ${candidateStrategy.id} with ${optimization.evaluations} param sets (${optimization.algorithm}).`);
+
+    const bestCombination = optimization.bestParameters;
+    if (!bestCombination || optimization.bestScore === null) {
+      logger.info(`AISelectorStrategy for ${symbol}: Candidate ${candidateStrategy.id} - No finite score using metric ${metric}`);
+      return null;
     }
+    const bestScores = scoresByParams.get(JSON.stringify(bestCombination)) ?? null;
+    const evaluation: CandidateEvaluation = {
+      strategyId: candidateStrategy.id,
+      params: { ...defaultParams, ...bestCombination },
+      score: optimization.bestScore,
+      pnl: bestScores?.pnl ?? null,
+      sharpe: bestScores?.sharpe ?? null,
+      winRate: bestScores?.winRate ?? null,
+    };
+    logger.info(`AISelectorStrategy for ${symbol}: Candidate ${candidateStrategy.id} - Best score achieved: ${evaluation.score.toFixed(4)} using metric ${metric}`);
+    logger.verbose(`AISelectorStrategy for ${symbol}: Candidate ${candidateStrategy.id} (details) - Metric (${metric}): ${evaluation.score.toFixed(4)}, P&L: ${evaluation.pnl?.toFixed(2)}, Sharpe: ${evaluation.sharpe?.toFixed(3)}, WinRate: ${evaluation.winRate !== null ? (evaluation.winRate * 100).toFixed(1) + '%' : 'N/A'}. Optimized Params: ${optimizeParameters ? JSON.stringify(evaluation.params) : "N/A"}`);
+    return evaluation;
+  }));
+  return evaluations.filter((evaluation): evaluation is CandidateEvaluation => evaluation !== null);
+}
 
-    recurse(0);
-    return combinations.length > 0 ? combinations : [paramDefaults]; // Fallback if recursion somehow yields no combos
+// Why the best candidate may not replace the current choice yet, or null if it may
+function getSwitchBlocker(
+  challenger: CandidateEvaluation,
+  incumbent: CandidateEvaluation | null,
+  heldBars: number,
+  { minHoldingPeriod, minScoreMargin, switchingCost }: AISelectorStrategyParams
+): string | null {
+  const holdingPeriod = nonNegative(minHoldingPeriod);
+  if (heldBars < holdingPeriod) {
+    return `held for ${heldBars} of at least ${holdingPeriod} bars`;
+  }
+  if (!incumbent) {
+    return null;
+  }
+  const margin = nonNegative(minScoreMargin) * Math.abs(incumbent.score);
+  const cost = nonNegative(switchingCost);
+  if (challenger.score - cost <= incumbent.score + margin) {
+    return `score ${challenger.score.toFixed(4)} less a switching cost of ${cost} does not beat ${incumbent.score.toFixed(4)} by the margin of ${margin.toFixed(4)}`;
+  }
+  return null;
 }
 
 
-export const aiSelectorStrategy: TradingStrategy<AISelectorStrategyParams> = {
-  id: "ai-selector",
-  name: "AI Strategy Selector",
-  description: "A meta-strategy that dynamically selects and executes an underlying trading strategy based on recent performance.",
-  parameters: [
+class AISelectorStrategy implements TradingStrategy<AISelectorStrategyParams> {
+  id: string = "ai-selector";
+  name: string = "AI Strategy Selector";
+  description: string = "A meta-strategy that dynamically selects and executes an underlying trading strategy based on recent performance.";
+  version: string = "1.0.0";
+  parameters: StrategyParameterDefinition[] = [
     { name: 'evaluationLookbackPeriod', label: 'Evaluation Lookback Period', type: 'number', defaultValue: 30, min: 5, max: 200, step: 5, description: 'Number of recent data points to evaluate candidate strategies.' },
     { name: 'candidateStrategyIds', label: 'Candidate Strategy IDs (comma-separated)', type: 'string', defaultValue: "", description: 'Optional. A comma-separated list of strategy IDs to consider. If empty, all available strategies (excluding self) will be candidates.' },
     { name: 'evaluationMetric', label: 'Evaluation Metric for AI Selection', type: 'string', defaultValue: 'pnl', description: "Metric to evaluate candidate strategies. Options: 'pnl' (Profit/Loss), 'sharpe' (Sharpe Ratio), 'winRate' (Win Rate).", options: [ { value: 'pnl', label: 'Profit/Loss' }, { value: 'sharpe', label: 'Sharpe Ratio' }, { value: 'winRate', label: 'Win Rate' }] },
-    { name: 'optimizeParameters', label: 'Optimize Parameters of Candidate Strategies', type: 'boolean', defaultValue: false, description: 'If true, AI will attempt to optimize parameters of candidate strategies using Grid Search. Significantly increases execution time.' }
-  ],
+    { name: 'optimizeParameters', label: 'Optimize Parameters of Candidate Strategies', type: 'boolean', defaultValue: false, description: 'If true, AI will attempt to optimize parameters of candidate strategies with the selected search algorithm. Significantly increases execution time.' },
+    { name: 'optimizationAlgorithm', label: 'Optimization Algorithm', type: 'string', defaultValue: DEFAULT_OPTIMIZATION_ALGORITHM, description: "Search algorithm used when optimizing parameters. 'grid' tries combinations in order, the others spread the budget over the whole parameter space.", options: [ { value: 'grid', label: 'Grid Search' }, { value: 'random', label: 'Random Search' }, { value: 'latinHypercube', label: 'Latin Hypercube' }, { value: 'tpe', label: 'Bayesian (TPE)' }] },
+    { name: 'optimizationBudget', label: 'Optimization Budget', type: 'number', defaultValue: DEFAULT_OPTIMIZATION_BUDGET, description: 'Maximum parameter sets simulated per candidate strategy when optimizing.' },
+    { name: 'optimizationEarlyStoppingRounds', label: 'Optimization Early Stopping', type: 'number', defaultValue: 0, description: 'Stop optimizing a candidate after this many parameter sets without improvement. 0 disables early stopping.' },
+    { name: 'optimizationSeed', label: 'Optimization Seed', type: 'number', defaultValue: DEFAULT_OPTIMIZATION_SEED, description: 'Seed of the random search algorithms, for reproducible choices.' },
+    { name: 'reevaluationInterval', label: 'Re-evaluation Interval', type: 'number', defaultValue: 1, min: 1, max: 100, step: 1, description: 'Bars between two rankings of the candidates. The chosen strategy keeps running in between.' },
+    { name: 'reevaluateOnRegimeChange', label: 'Re-evaluate on Regime Change', type: 'boolean', defaultValue: false, description: 'Also rank the candidates as soon as the evaluation window changes regime (trending up, trending down or ranging).' },
+    { name: 'minScoreMargin', label: 'Minimum Score Margin', type: 'number', defaultValue: 0, min: 0, max: 1, step: 0.05, description: "Share of the current choice's score by which another candidate must beat it to replace it (0.1 = 10% better)." },
+    { name: 'minHoldingPeriod', label: 'Minimum Holding Period', type: 'number', defaultValue: 0, min: 0, max: 200, step: 1, description: 'Bars a choice is kept before another candidate can replace it.' },
+    { name: 'switchingCost', label: 'Switching Cost', type: 'number', defaultValue: 0, description: 'Penalty, in units of the evaluation metric, subtracted from the score of a candidate that would replace the current choice.' }
+  ];
+
+  // Per symbol, as a portfolio backtest runs the selector on each of its symbols
+  private selectionStates = new Map<string, SelectionState>();
+  private lastAIDecision: AIDecision | null = null;
+
+  // A call on a bar at or before the previous one starts over, as a new run over the data
+  private getSelectionState(symbol: string, currentIndex: number): SelectionState {
+    let state = this.selectionStates.get(symbol);
+    if (!state || currentIndex <= state.lastIndex) {
+      if (state) {
+        void disposeSelectionState(state);
+      }
+      state = createSelectionState();
+      this.selectionStates.set(symbol, state);
+    }
+    state.lastIndex = currentIndex;
+    return state;
+  }
+
+  // The instance of a chosen strategy for this run, created (and initialized) the first time it is chosen
+  private async getChosenStrategy(state: SelectionState, choice: CandidateEvaluation, symbol: string): Promise<TradingStrategy | undefined> {
+    let strategy = state.strategies.get(choice.strategyId);
+    if (!strategy) {
+      strategy = StrategyManagerModule.createStrategy(choice.strategyId);
+      if (!strategy) {
+        return undefined;
+      }
+      state.strategies.set(choice.strategyId, strategy);
+      await strategy.init?.({ symbols: [symbol], parameters: choice.params });
+    }
+    return strategy;
+  }
 
-  // Static cache to store symbol -> chosenStrategyId
-  // This needs to be part of the object, but 'static' is for classes.
-  // We'll make it a property of the strategy object itself.
-  // currentChoicesBySymbol: new Map<string, string>(), // Will be initialized properly later
-  // Map to store best parameters found for each chosen strategy ID, if optimization was run
-  // This might be better managed externally or passed differently for final execution
-  // optimizedParamsForChoice: new Map<string, Record<string, any>>(), // Removed
-  // lastAIDecision: null as AIDecision | null, // Removed
+  getAIDecision(): AIDecision | null {
+    return this.lastAIDecision;
+  }
 
+  async dispose(): Promise<void> {
+    const states = Array.from(this.selectionStates.values());
+    this.selectionStates.clear();
+    await Promise.all(states.map(disposeSelectionState));
+  }
 
   async execute(context: StrategyContext<AISelectorStrategyParams>): Promise<StrategySignal> {
     // Reset lastAIDecision at the beginning of each execution
-    lastAIDecision = null; // Use module-scoped variable
+    this.lastAIDecision = null;
 
     const {
         evaluationLookbackPeriod,
         candidateStrategyIds: candidateStrategyIdsString,
         evaluationMetric: rawEvaluationMetric,
-        optimizeParameters
+        optimizeParameters,
+        optimizationAlgorithm,
+        optimizationBudget,
+        optimizationEarlyStoppingRounds,
+        optimizationSeed,
+        reevaluationInterval,
+        reevaluateOnRegimeChange
     } = context.parameters;
     const symbol = context.symbol;
 
@@ -133,8 +273,9 @@ export const aiSelectorStrategy: TradingStrategy<AISelectorStrategyParams> = {
       : [];
 
     // Fetch and filter candidate strategies
+    // Multi-symbol strategies (executePortfolio) cannot be simulated on this symbol alone
     let candidateStrategies = StrategyManagerModule.getAvailableStrategies().filter(
-      (s: TradingStrategy) => s.id !== this.id // Exclude self
+      (s: TradingStrategy) => s.id !== this.id && !s.executePortfolio // Exclude self
       // Potentially add a flag to strategies like `isMetaStrategy` to exclude them all
     );
 
@@ -167,259 +308,145 @@ export const aiSelectorStrategy: TradingStrategy<AISelectorStrategyParams> = {
       return { action: 'HOLD' };
     }
 
-    logger.verbose(`AISelectorStrategy for ${symbol}: Evaluating ${candidateStrategies.length} candidates over ${evaluationData.length} periods using metric: ${metric}.`);
-    let bestStrategyId: string | null = null;
-    let currentBestMetricValue = -Infinity;
-    let pnlForOverallBestStrategy: number | null = null;
-    let sharpeForOverallBestStrategy: number | null = null; // Added
-    let winRateForOverallBestStrategy: number | null = null; // Added
-
-    interface SimulatedPosition {
-      entryPrice: number;
-      type: 'long' | 'short';
-    }
-
-    let bestOverallParams: Record<string, any> | null = null;
-
-    for (const candidateStrategy of candidateStrategies) {
-      let bestParamsForCandidate: Record<string, any> | null = null;
-      let bestMetricScoreForCandidate = -Infinity;
-      let pnlForWinningParamsOfCandidate: number | null = null; // Renamed for clarity
-      let sharpeForWinningParamsOfCandidate: number | null = null; // Added
-      let winRateForWinningParamsOfCandidate: number | null = null; // Added
-      const paramSetsToSimulate: Array<Record<string, any>> = [];
-
-      if (optimizeParameters) {
-        const optimizableParams = (candidateStrategy.parameters || []).filter(
-          (p: StrategyParameterDefinition) => p.type === 'number' && p.min !== undefined && p.max !== undefined && p.step !== undefined && p.min <= p.max && p.step > 0
-        ).map((p: StrategyParameterDefinition) => ({ name: p.name, min: p.min!, max: p.max!, step: p.step! }));
-        
-        const defaultParams: Record<string, any> = {};
-        (candidateStrategy.parameters || []).forEach((p: StrategyParameterDefinition) => defaultParams[p.name] = p.defaultValue);
-
-        if (optimizableParams.length > 0) {
-          const combinations = generateParameterCombinations(optimizableParams, defaultParams);
-          if (combinations.length > 1000) {
-            logger.warn(`[AISelectorStrategy] Candidate ${candidateStrategy.id} has ${combinations.length} param combinations. This may be slow.`);
-          }
-          paramSetsToSimulate.push(...combinations);
-        } else {
-          paramSetsToSimulate.push(defaultParams);
-        }
-      } else {
-        const defaultParams: Record<string, any> = {};
-        (candidateStrategy.parameters || []).forEach((p: StrategyParameterDefinition) => defaultParams[p.name] = p.defaultValue);
-        paramSetsToSimulate.push(defaultParams);
+    const state = this.getSelectionState(symbol, context.currentIndex);
+    const regime = detectMarketRegime(evaluationData);
+    const interval = Number.isInteger(reevaluationInterval) && reevaluationInterval! > 0 ? reevaluationInterval! : 1;
+    const regimeChanged = reevaluateOnRegimeChange === true && state.regime !== null && regime !== state.regime;
+    const reevaluate = state.choice === null || context.currentIndex - state.evaluatedAtIndex >= interval || regimeChanged;
+    const currentBarForDecision = context.historicalData[context.currentIndex];
+    let switched = false;
+
+    if (reevaluate) {
+      logger.verbose(`AISelectorStrategy for ${symbol}: Evaluating ${candidateStrategies.length} candidates over ${evaluationData.length} periods using metric: ${metric}${regimeChanged ? ` (regime changed from ${state.regime} to ${regime})` : ''}.`);
+      // Invalid optimization settings fall back to the defaults, like the evaluation metric
+      const optimizerSettings: OptimizerSettings = {
+        algorithm: optimizationAlgorithm && OPTIMIZER_ALGORITHMS.includes(optimizationAlgorithm) ? optimizationAlgorithm : DEFAULT_OPTIMIZATION_ALGORITHM,
+        budget: Number.isInteger(optimizationBudget) && optimizationBudget! > 0 ? optimizationBudget : DEFAULT_OPTIMIZATION_BUDGET,
+        earlyStoppingRounds: Number.isInteger(optimizationEarlyStoppingRounds) && optimizationEarlyStoppingRounds! > 0 ? optimizationEarlyStoppingRounds : undefined,
+        seed: Number.isInteger(optimizationSeed) ? optimizationSeed : DEFAULT_OPTIMIZATION_SEED,
+      };
+      const evaluations = await rankCandidates(candidateStrategies, evaluationData, symbol, metric, optimizeParameters === true, optimizerSettings);
+      state.evaluatedAtIndex = context.currentIndex;
+      state.regime = regime;
+
+      // The first candidate with the best score, so ties go to the earlier candidate
+      const best = evaluations.reduce<CandidateEvaluation | null>((leader, evaluation) => (!leader || evaluation.score > leader.score ? evaluation : leader), null);
+      if (!best) {
+        logger.warn(`AISelectorStrategy for ${symbol}: Could not determine a best strategy after evaluating all candidates. Holding.`);
+        state.choice = null;
+        this.lastAIDecision = {
+          timestamp: currentBarForDecision.timestamp,
+          date: toDecisionDate(currentBarForDecision),
+          chosenStrategyId: null,
+          chosenStrategyName: null,
+          parametersUsed: null,
+          evaluationScore: null,
+          evaluationMetricUsed: metric,
+          simulatedPnl: null,
+          simulatedSharpe: null,
+          simulatedWinRate: null,
+          reevaluated: true,
+          switched: false,
+          switchCount: state.switchCount,
+          marketRegime: regime,
+        };
+        return { action: 'HOLD' };
       }
-      
-      logger.verbose(`[AISelectorStrategy] Simulating ${candidateStrategy.id} with ${paramSetsToSimulate.length} param sets.`);
-
-      for (const currentCandidateParams of paramSetsToSimulate) {
-        let simulatedPnl = 0;
-        let simulatedTrades = 0;
-        let profitableSimulatedTrades = 0;
-        const periodReturns: number[] = [];
-        let currentSimulatedPosition: SimulatedPosition | null = null;
-        let lastPrice = evaluationData.length > 0 ? evaluationData[0].close : 0;
-
-        for (let i = 0; i < evaluationData.length; i++) {
-          const currentBar = evaluationData[i];
-          if (!currentBar) continue; 
-
-          const currentPrice = currentBar.close;
-          const previousPrice = (i > 0) ? evaluationData[i-1].close : currentPrice;
-
-          const simulationContext: StrategyContext<Record<string, any>> = {
-            symbol: context.symbol,
-            historicalData: evaluationData,
-            currentIndex: i,
-            parameters: currentCandidateParams,
-            portfolio: { 
-              getCash: () => 100000,
-              getPosition: () => currentSimulatedPosition ? { quantity: currentSimulatedPosition.type === 'long' ? 1 : -1, averagePrice: currentSimulatedPosition.entryPrice } : { quantity: 0, averagePrice: 0 },
-              getTrades: () => [], recordTrade: () => {}, getMarketValue: () => 0, getHistoricalPnl: () => [],
-            } as unknown as Portfolio, 
-            tradeHistory: [], 
-            signalHistory: [],
-          };
-
-          const signalResult = await candidateStrategy.execute(simulationContext);
-          const signalAction = typeof signalResult === 'string' ? signalResult : signalResult.action;
-
-          if (signalAction === 'BUY') {
-            if (!currentSimulatedPosition) {
-              currentSimulatedPosition = { entryPrice: currentPrice, type: 'long' };
-              simulatedTrades++;
-            } else if (currentSimulatedPosition.type === 'short') {
-              const pnlFromTrade = currentSimulatedPosition.entryPrice - currentPrice;
-              simulatedPnl += pnlFromTrade;
-              if (pnlFromTrade > 0) profitableSimulatedTrades++;
-              currentSimulatedPosition = null;
-            }
-          } else if (signalAction === 'SELL') {
-            if (!currentSimulatedPosition) {
-              currentSimulatedPosition = { entryPrice: currentPrice, type: 'short' };
-              simulatedTrades++;
-            } else if (currentSimulatedPosition.type === 'long') {
-              const pnlFromTrade = currentPrice - currentSimulatedPosition.entryPrice;
-              simulatedPnl += pnlFromTrade;
-              if (pnlFromTrade > 0) profitableSimulatedTrades++;
-              currentSimulatedPosition = null;
-            }
-          }
-
-          let candleReturn = 0;
-          if (currentSimulatedPosition) {
-            if (currentSimulatedPosition.type === 'long') candleReturn = previousPrice > 0 ? (currentPrice - previousPrice) / previousPrice : 0;
-            else candleReturn = previousPrice > 0 ? (previousPrice - currentPrice) / previousPrice : 0;
-          }
-          periodReturns.push(candleReturn);
-          lastPrice = currentPrice;
-        }
 
-        if (currentSimulatedPosition && evaluationData.length > 0) {
-          if (currentSimulatedPosition.type === 'long') {
-            const pnlFromTrade = lastPrice - currentSimulatedPosition.entryPrice;
-            simulatedPnl += pnlFromTrade;
-            if (pnlFromTrade > 0) profitableSimulatedTrades++;
-          } else {
-            const pnlFromTrade = currentSimulatedPosition.entryPrice - lastPrice;
-            simulatedPnl += pnlFromTrade;
-            if (pnlFromTrade > 0) profitableSimulatedTrades++;
-          }
-        }
-        
-        const pnlScore = simulatedPnl;
-        const winRateScore = simulatedTrades > 0 ? profitableSimulatedTrades / simulatedTrades : 0;
-        let sharpeScore = 0;
-        if (periodReturns.length >= 2) {
-          const averageReturn = periodReturns.reduce((a, b) => a + b, 0) / periodReturns.length;
-          const stdDev = Math.sqrt(periodReturns.map(x => Math.pow(x - averageReturn, 2)).reduce((a, b) => a + b, 0) / (periodReturns.length -1));
-          if (stdDev === 0) sharpeScore = averageReturn > 0 ? 1000 : (averageReturn < 0 ? -1000 : 0); // Assign large/small fixed Sharpe for zero std dev
-          else sharpeScore = averageReturn / stdDev;
-        }
-
-        let currentCombinationScore = 0;
-        switch (metric) {
-          case 'pnl': currentCombinationScore = pnlScore; break;
-          case 'winRate': currentCombinationScore = winRateScore; break;
-          case 'sharpe': currentCombinationScore = sharpeScore; break;
-          default: currentCombinationScore = pnlScore;
-        }
-
-        if (currentCombinationScore > bestMetricScoreForCandidate) {
-          bestMetricScoreForCandidate = currentCombinationScore;
-          bestParamsForCandidate = { ...currentCandidateParams };
-          pnlForWinningParamsOfCandidate = pnlScore;
-          sharpeForWinningParamsOfCandidate = sharpeScore;
-          winRateForWinningParamsOfCandidate = winRateScore;
+      const incumbent = state.choice;
+      if (!incumbent) {
+        state.choice = best;
+        state.chosenAtIndex = context.currentIndex;
+      } else if (best.strategyId === incumbent.strategyId) {
+        state.choice = best;
+      } else {
+        // The current choice is compared on its fresh score; a candidate that could not be scored any more is replaced
+        const incumbentEvaluation = evaluations.find(evaluation => evaluation.strategyId === incumbent.strategyId) ?? null;
+        const heldBars = context.currentIndex - state.chosenAtIndex;
+        const switchReason = getSwitchBlocker(best, incumbentEvaluation, heldBars, context.parameters);
+        if (switchReason === null) {
+          logger.info(`AISelectorStrategy for ${symbol}: Switching from ${incumbent.strategyId} to ${best.strategyId} after ${heldBars} bars.`);
+          state.choice = best;
+          state.chosenAtIndex = context.currentIndex;
+          state.switchCount++;
+          switched = true;
+        } else {
+          logger.info(`AISelectorStrategy for ${symbol}: Keeping ${incumbent.strategyId} over ${best.strategyId} (${switchReason}).`);
+          state.choice = incumbentEvaluation ?? incumbent;
         }
       }
-      
-      // Log the bestMetricScoreForCandidate for the current candidateStrategy
-      logger.info(`AISelectorStrategy for ${symbol}: Candidate ${candidateStrategy.id} - Best score achieved: ${bestMetricScoreForCandidate.toFixed(4)} using metric ${metric}`);
-
-      const calculatedMetricValueForCandidate = bestMetricScoreForCandidate;
-      // Log all three scores for the best parameters of this candidate (existing verbose log, can be kept for more detail if needed)
-      logger.verbose(`AISelectorStrategy for ${symbol}: Candidate ${candidateStrategy.id} (details) - Metric (${metric}): ${calculatedMetricValueForCandidate.toFixed(4)}, P&L: ${pnlForWinningParamsOfCandidate?.toFixed(2)}, Sharpe: ${sharpeForWinningParamsOfCandidate?.toFixed(3)}, WinRate: ${winRateForWinningParamsOfCandidate !== null ? (winRateForWinningParamsOfCandidate * 100).toFixed(1) + '%' : 'N/A'}. Optimized Params: ${optimizeParameters && bestParamsForCandidate ? JSON.stringify(bestParamsForCandidate) : "N/A"}`);
-      
-      if (calculatedMetricValueForCandidate > currentBestMetricValue) {
-        currentBestMetricValue = calculatedMetricValueForCandidate;
-        bestStrategyId = candidateStrategy.id;
-        bestOverallParams = bestParamsForCandidate;
-        pnlForOverallBestStrategy = pnlForWinningParamsOfCandidate;
-        sharpeForOverallBestStrategy = sharpeForWinningParamsOfCandidate;
-        winRateForOverallBestStrategy = winRateForWinningParamsOfCandidate;
-      }
-    }
-
-    if (!bestStrategyId) {
-      logger.warn(`AISelectorStrategy for ${symbol}: Could not determine a best strategy after evaluating all candidates. Best overall metric score was ${currentBestMetricValue}. Holding.`);
-      const currentBarForDecision = context.historicalData[context.currentIndex];
-      lastAIDecision = {
-        timestamp: currentBarForDecision.timestamp,
-        date: currentBarForDecision.date ? (typeof currentBarForDecision.date === 'string' ? currentBarForDecision.date : new Date(currentBarForDecision.date).toISOString().split('T')[0]) : new Date(currentBarForDecision.timestamp * 1000).toISOString().split('T')[0],
-        chosenStrategyId: null,
-        chosenStrategyName: null,
-        parametersUsed: null,
-        evaluationScore: null,
-        evaluationMetricUsed: metric,
-        simulatedPnl: null,
-        simulatedSharpe: null, // <-- Add this
-        simulatedWinRate: null, // <-- Add this
-      };
-      return { action: 'HOLD' };
+    } else {
+      logger.verbose(`AISelectorStrategy for ${symbol}: Keeping ${state.choice!.strategyId} until the next evaluation (every ${interval} bars).`);
     }
 
-    const finalSelectedStrategy = StrategyManagerModule.getStrategy(bestStrategyId);
+    // Set above when the selector had no choice yet
+    const choice = state.choice!;
+    const finalSelectedStrategy = await this.getChosenStrategy(state, choice, symbol);
     if (!finalSelectedStrategy) {
-      logger.error(`AISelectorStrategy for ${symbol}: Failed to retrieve chosen strategy ${bestStrategyId} from manager. Holding.`);
-      const currentBarForDecision = context.historicalData[context.currentIndex];
-      lastAIDecision = {
+      logger.error(`AISelectorStrategy for ${symbol}: Failed to retrieve chosen strategy ${choice.strategyId} from manager. Holding.`);
+      this.lastAIDecision = {
         timestamp: currentBarForDecision.timestamp,
-        date: currentBarForDecision.date ? (typeof currentBarForDecision.date === 'string' ? currentBarForDecision.date : new Date(currentBarForDecision.date).toISOString().split('T')[0]) : new Date(currentBarForDecision.timestamp*1000).toISOString().split('T')[0],
-        chosenStrategyId: bestStrategyId,
+        date: toDecisionDate(currentBarForDecision),
+        chosenStrategyId: choice.strategyId,
         chosenStrategyName: "Error: Strategy not found in manager",
-        parametersUsed: bestOverallParams,
-        evaluationScore: currentBestMetricValue,
+        parametersUsed: choice.params,
+        evaluationScore: choice.score,
         evaluationMetricUsed: metric,
-        simulatedPnl: pnlForOverallBestStrategy,
-        simulatedSharpe: sharpeForOverallBestStrategy, // <-- Add this
-        simulatedWinRate: winRateForOverallBestStrategy, // <-- Add this
+        simulatedPnl: choice.pnl,
+        simulatedSharpe: choice.sharpe,
+        simulatedWinRate: choice.winRate,
+        reevaluated: reevaluate,
+        switched,
+        switchCount: state.switchCount,
+        marketRegime: regime,
       };
       return { action: 'HOLD' };
     }
-    
-    logger.info(`AISelectorStrategy for ${symbol}: Chose strategy ${bestStrategyId} using metric '${metric}' with score ${currentBestMetricValue.toFixed(4)}.`);
-    currentChoicesBySymbol.set(symbol, bestStrategyId);
 
-    let paramsToStoreAndExecuteWith: Record<string, any>;
-    const defaultSelectedStrategyParams: Record<string, any> = {};
-    (finalSelectedStrategy.parameters || []).forEach((p: StrategyParameterDefinition) => {
-        defaultSelectedStrategyParams[p.name] = p.defaultValue;
-    });
-
-    if (optimizeParameters && bestOverallParams && Object.keys(bestOverallParams).length > 0) {
-        paramsToStoreAndExecuteWith = { ...defaultSelectedStrategyParams, ...bestOverallParams };
-        logger.info(`AISelectorStrategy for ${symbol}: Storing OPTIMIZED params for ${bestStrategyId}: ${JSON.stringify(paramsToStoreAndExecuteWith)}`);
-    } else {
-        paramsToStoreAndExecuteWith = defaultSelectedStrategyParams;
-        logger.info(`AISelectorStrategy for ${symbol}: Storing DEFAULT params for ${bestStrategyId} as optimization was off or yielded no improvement.`);
+    if (reevaluate) {
+      logger.info(`AISelectorStrategy for ${symbol}: Chose strategy ${choice.strategyId} using metric '${metric}' with score ${choice.score.toFixed(4)}.`);
+      logger.info(`AISelectorStrategy for ${symbol}: Storing ${optimizeParameters ? 'OPTIMIZED' : 'DEFAULT'} params for ${choice.strategyId}: ${JSON.stringify(choice.params)}`);
     }
-    optimizedParamsForChoice.set(symbol, {
-        strategyId: bestStrategyId,
-        params: paramsToStoreAndExecuteWith,
-        evaluationScore: currentBestMetricValue, // Score for the primary metric
-        evaluationMetric: metric,                // The primary metric
-        simulatedPnl: pnlForOverallBestStrategy,
-        simulatedSharpe: sharpeForOverallBestStrategy, // <-- Add this
-        simulatedWinRate: winRateForOverallBestStrategy  // <-- Add this
+    latestChoicesBySymbol.set(symbol, {
+        strategyId: choice.strategyId,
+        params: choice.params,
+        evaluationScore: choice.score, // Score for the primary metric
+        evaluationMetric: metric,      // The primary metric
+        simulatedPnl: choice.pnl,
+        simulatedSharpe: choice.sharpe,
+        simulatedWinRate: choice.winRate,
     });
-    
-    const currentBarForDecision = context.historicalData[context.currentIndex];
-    lastAIDecision = {
+
+    this.lastAIDecision = {
       timestamp: currentBarForDecision.timestamp,
-      date: currentBarForDecision.date ? (typeof currentBarForDecision.date === 'string' ? currentBarForDecision.date : new Date(currentBarForDecision.date).toISOString().split('T')[0]) : new Date(currentBarForDecision.timestamp*1000).toISOString().split('T')[0],
-      chosenStrategyId: bestStrategyId,
+      date: toDecisionDate(currentBarForDecision),
+      chosenStrategyId: choice.strategyId,
       chosenStrategyName: finalSelectedStrategy.name,
-      parametersUsed: paramsToStoreAndExecuteWith,
-      evaluationScore: currentBestMetricValue,
+      parametersUsed: choice.params,
+      evaluationScore: choice.score,
       evaluationMetricUsed: metric,
-      simulatedPnl: pnlForOverallBestStrategy,
-      simulatedSharpe: sharpeForOverallBestStrategy, // <-- Add this
-      simulatedWinRate: winRateForOverallBestStrategy  // <-- Add this
+      simulatedPnl: choice.pnl,
+      simulatedSharpe: choice.sharpe,
+      simulatedWinRate: choice.winRate,
+      reevaluated: reevaluate,
+      switched,
+      switchCount: state.switchCount,
+      marketRegime: regime,
     };
 
     const strategyContextForExecution: StrategyContext<Record<string, any>> = {
         ...context,
-        parameters: paramsToStoreAndExecuteWith, 
+        parameters: choice.params,
     };
-    
+
     logger.info(`AISelectorStrategy for ${symbol}: Executing ${finalSelectedStrategy.id} with effective parameters: ${JSON.stringify(strategyContextForExecution.parameters)}`);
-    
-    return finalSelectedStrategy.execute(strategyContextForExecution); 
+
+    return finalSelectedStrategy.execute(strategyContextForExecution);
   }
-};
+}
+
+// The choices, and the strategies they run, belong to one run, so every run needs its own instance
+export const createAISelectorStrategy = (): TradingStrategy<AISelectorStrategyParams> => new AISelectorStrategy();
 
 export interface AISelectorChoiceState {
     chosenStrategyId: string | null;
@@ -434,7 +461,7 @@ export interface AISelectorChoiceState {
 }
 
 export function getAISelectorActiveState(symbol: string): AISelectorChoiceState {
-    const choiceData = optimizedParamsForChoice.get(symbol);
+    const choiceData = latestChoicesBySymbol.get(symbol);
     
     if (choiceData && choiceData.strategyId) {
         const strategyDetails = StrategyManagerModule.getStrategy(choiceData.strategyId);
@@ -451,29 +478,6 @@ export function getAISelectorActiveState(symbol: string): AISelectorChoiceState
         };
     }
     
-    // Fallback to currentChoicesBySymbol (might not have score/metric readily)
-    // This path is less likely if optimizedParamsForChoice is always set after a successful selection.
-    const chosenStrategyIdFromCurrent = currentChoicesBySymbol.get(symbol);
-    if (chosenStrategyIdFromCurrent) {
-        const strategyDetails = StrategyManagerModule.getStrategy(chosenStrategyIdFromCurrent);
-        let params: Record<string, any> | null = null;
-        if (strategyDetails && strategyDetails.parameters) {
-            params = {};
-            strategyDetails.parameters.forEach((p: StrategyParameterDefinition) => params![p.name] = p.defaultValue);
-        }
-        return {
-            chosenStrategyId: chosenStrategyIdFromCurrent,
-            chosenStrategyName: strategyDetails ? strategyDetails.name : "Unknown Strategy",
-            parametersUsed: params, // These would be default params
-            evaluationScore: null,
-            evaluationMetricUsed: null,
-            simulatedPnl: null,
-            simulatedSharpe: null, // <-- Add this
-            simulatedWinRate: null, // <-- Add this
-            message: "Strategy choice retrieved (default params); detailed evaluation metrics for this specific state might not be available."
-        };
-    }
-
     return {
         chosenStrategyId: null,
         chosenStrategyName: null,
@@ -0,0 +1,95 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
+import { calculateATR } from '../../utils/technicalIndicators';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+const atrBreakoutStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'atrPeriod',
+    label: 'ATR Period',
+    type: 'number',
+    defaultValue: 14,
+    description: 'The period of the Average True Range measuring normal volatility.',
+    min: 2,
+    max: 50,
+    step: 1,
+  },
+  {
+    name: 'atrMultiplier',
+    label: 'ATR Multiplier',
+    type: 'number',
+    defaultValue: 1.5,
+    description: 'How many ATRs the close must move from the previous close to count as a breakout.',
+    min: 0.5,
+    max: 5,
+    step: 0.1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+export const atrBreakoutStrategy: TradingStrategy = {
+  id: 'atr-breakout',
+  name: 'ATR Volatility Breakout Strategy',
+  description: 'Generates BUY signals when the close rises more than a multiple of the ATR above the previous close, and SELL signals when it falls more than that multiple below it.',
+  version: '1.0.0',
+  parameters: atrBreakoutStrategyParameters,
+
+  execute: (context: StrategyContext): StrategySignal => {
+    const { historicalData, currentIndex, portfolio, parameters } = context;
+    const { atrPeriod, atrMultiplier, tradeAmount } = parameters as {
+      atrPeriod: number;
+      atrMultiplier: number;
+      tradeAmount: number;
+    };
+
+    if (currentIndex < 1) {
+      return { action: 'HOLD' };
+    }
+
+    const closingPrices = historicalData.map((d: HistoricalDataPoint) => d.close);
+    const atrValues = calculateATR(
+      historicalData.map((d: HistoricalDataPoint) => d.high),
+      historicalData.map((d: HistoricalDataPoint) => d.low),
+      closingPrices,
+      atrPeriod
+    );
+
+    // The previous bar's ATR, so the breakout bar does not widen its own threshold
+    const previousATR = atrValues[currentIndex - 1];
+    if (isNaN(previousATR)) {
+      return { action: 'HOLD' };
+    }
+
+    const currentPrice = closingPrices[currentIndex];
+    const move = currentPrice - closingPrices[currentIndex - 1];
+    const threshold = atrMultiplier * previousATR;
+
+    // BUY Signal: upside volatility breakout
+    if (move > threshold) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // SELL Signal: downside volatility breakout
+    if (move < -threshold) {
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    return { action: 'HOLD' };
+  },
+};
@@ -0,0 +1,168 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import type { Trade } from '../../backtest';
+
+interface DCAStrategyParams {
+  baseOrderAmount: number;
+  buyIntervalBars: number;
+  safetyOrderAmount: number;
+  safetyOrderStepPercent: number;
+  safetyOrderVolumeScale: number;
+  maxSafetyOrders: number;
+  takeProfitPercent: number;
+}
+
+const dcaStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'baseOrderAmount',
+    label: 'Base Order Amount',
+    type: 'number',
+    defaultValue: 100,
+    description: 'Quote-currency amount of each periodic buy, or of the first buy of a cycle.',
+    min: 1,
+    max: 100000,
+    step: 1,
+    optimizable: false,
+  },
+  {
+    name: 'buyIntervalBars',
+    label: 'Buy Interval (bars)',
+    type: 'number',
+    defaultValue: 0,
+    description: 'Buys the base order every this many bars. 0 buys it only when there is no position, at the start of each cycle.',
+    min: 0,
+    max: 500,
+    step: 1,
+  },
+  {
+    name: 'safetyOrderAmount',
+    label: 'Safety Order Amount',
+    type: 'number',
+    defaultValue: 100,
+    description: 'Quote-currency amount of the first safety order.',
+    min: 1,
+    max: 100000,
+    step: 1,
+    optimizable: false,
+  },
+  {
+    name: 'safetyOrderStepPercent',
+    label: 'Safety Order Step (%)',
+    type: 'number',
+    defaultValue: 2,
+    description: 'A safety order is bought when the price is this percentage below the last buy.',
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+  },
+  {
+    name: 'safetyOrderVolumeScale',
+    label: 'Safety Order Volume Scale',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Each safety order of a cycle is this many times the amount of the previous one.',
+    min: 1,
+    max: 3,
+    step: 0.1,
+  },
+  {
+    name: 'maxSafetyOrders',
+    label: 'Max Safety Orders',
+    type: 'number',
+    defaultValue: 5,
+    description: 'Safety orders allowed per cycle.',
+    min: 0,
+    max: 20,
+    step: 1,
+  },
+  {
+    name: 'takeProfitPercent',
+    label: 'Take Profit (%)',
+    type: 'number',
+    defaultValue: 3,
+    description: 'Sells the whole position once the price is this percentage above its average cost, ending the cycle. 0 never sells.',
+    min: 0,
+    max: 50,
+    step: 0.5,
+  }
+];
+
+class DCAStrategy implements TradingStrategy<DCAStrategyParams> {
+  id: string = 'dca';
+  name: string = 'DCA (Dollar-Cost Averaging) Strategy';
+  description: string = 'A DCA bot: buys a base amount periodically or at the start of each cycle, adds safety orders of growing size as the price falls below the last buy, and sells the whole position at a take-profit above its average cost.';
+  version: string = '1.0.0';
+  parameters: StrategyParameterDefinition[] = dcaStrategyParameters;
+
+  // Safety orders filled in the current cycle, and the trade count when the last safety order was signalled
+  // (it counts once a BUY has filled after it, which may be on the next bar)
+  private safetyOrdersFilled = 0;
+  private pendingSafetyOrderAt: number | null = null;
+
+  init(): void {
+    this.safetyOrdersFilled = 0;
+    this.pendingSafetyOrderAt = null;
+  }
+
+  execute(context: StrategyContext<DCAStrategyParams>): StrategySignal {
+    const { historicalData, currentIndex, portfolio, tradeHistory, parameters } = context;
+    const {
+      baseOrderAmount,
+      buyIntervalBars,
+      safetyOrderAmount,
+      safetyOrderStepPercent,
+      safetyOrderVolumeScale,
+      maxSafetyOrders,
+      takeProfitPercent,
+    } = parameters;
+
+    if (this.pendingSafetyOrderAt !== null) {
+      if (tradeHistory.slice(this.pendingSafetyOrderAt).some((trade: Trade) => trade.action === 'BUY')) {
+        this.safetyOrdersFilled++;
+      }
+      this.pendingSafetyOrderAt = null;
+    }
+    // A cycle ends when the position is gone
+    if (!(portfolio.shares > 0)) {
+      this.safetyOrdersFilled = 0;
+    }
+
+    const currentPrice = historicalData[currentIndex]?.close;
+    if (!(currentPrice > 0)) {
+      return { action: 'HOLD' };
+    }
+
+    // Take-profit on the average cost of every buy of the cycle
+    const averageEntryPrice = portfolio.averageEntryPrice ?? 0;
+    if (takeProfitPercent > 0 && portfolio.shares > 0 && averageEntryPrice > 0 && currentPrice >= averageEntryPrice * (1 + takeProfitPercent / 100)) {
+      return { action: 'SELL', amount: portfolio.shares };
+    }
+
+    let lastBuy: Trade | undefined;
+    for (let t = tradeHistory.length - 1; t >= 0 && !lastBuy; t--) {
+      if (tradeHistory[t].action === 'BUY') lastBuy = tradeHistory[t];
+    }
+
+    // Safety order: the price has fallen a step below the last buy of the cycle
+    if (portfolio.shares > 0 && lastBuy && this.safetyOrdersFilled < maxSafetyOrders && currentPrice <= lastBuy.price * (1 - safetyOrderStepPercent / 100)) {
+      const amount = safetyOrderAmount * Math.pow(safetyOrderVolumeScale, this.safetyOrdersFilled);
+      if (portfolio.cash >= amount) {
+        this.pendingSafetyOrderAt = tradeHistory.length;
+        return { action: 'BUY', amount, sizingMode: 'NOTIONAL' };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // Base order: every buyIntervalBars bars since the last buy, or at the start of a cycle
+    const baseOrderDue = buyIntervalBars > 0
+      ? !lastBuy || (currentIndex >= buyIntervalBars && lastBuy.timestamp <= historicalData[currentIndex - buyIntervalBars].timestamp)
+      : !(portfolio.shares > 0);
+    if (baseOrderDue && portfolio.cash >= baseOrderAmount) {
+      return { action: 'BUY', amount: baseOrderAmount, sizingMode: 'NOTIONAL' };
+    }
+
+    return { action: 'HOLD' };
+  }
+}
+
+// The safety orders of the current cycle are counted between bars, so every run needs its own instance
+export const createDCAStrategy = (): TradingStrategy<DCAStrategyParams> => new DCAStrategy();
@@ -0,0 +1,87 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
+import { calculateDonchianChannels } from '../../utils/technicalIndicators';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+const donchianBreakoutStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'entryPeriod',
+    label: 'Entry Channel Period',
+    type: 'number',
+    defaultValue: 20,
+    description: 'A close above the highest high of this many previous bars opens a position (20 in the original turtle system).',
+    min: 5,
+    max: 100,
+    step: 1,
+  },
+  {
+    name: 'exitPeriod',
+    label: 'Exit Channel Period',
+    type: 'number',
+    defaultValue: 10,
+    description: 'A close below the lowest low of this many previous bars closes the position (10 in the original turtle system).',
+    min: 2,
+    max: 100,
+    step: 1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+export const donchianBreakoutStrategy: TradingStrategy = {
+  id: 'donchian-breakout',
+  name: 'Donchian Channel Breakout Strategy',
+  description: 'Turtle-style breakout: BUY when the close breaks above the entry-period Donchian channel while flat, SELL when it breaks below the shorter exit-period channel.',
+  version: '1.0.0',
+  parameters: donchianBreakoutStrategyParameters,
+
+  execute: (context: StrategyContext): StrategySignal => {
+    const { historicalData, currentIndex, portfolio, parameters } = context;
+    const { entryPeriod, exitPeriod, tradeAmount } = parameters as {
+      entryPeriod: number;
+      exitPeriod: number;
+      tradeAmount: number;
+    };
+
+    const highs = historicalData.map((d: HistoricalDataPoint) => d.high);
+    const lows = historicalData.map((d: HistoricalDataPoint) => d.low);
+    const entryChannel = calculateDonchianChannels(highs, lows, entryPeriod);
+    const exitChannel = calculateDonchianChannels(highs, lows, exitPeriod);
+
+    const entryHigh = entryChannel.upper[currentIndex];
+    const exitLow = exitChannel.lower[currentIndex];
+    if (isNaN(entryHigh) || isNaN(exitLow)) {
+      return { action: 'HOLD' };
+    }
+
+    const currentPrice = historicalData[currentIndex].close;
+
+    // BUY Signal: breakout above the entry channel. A breakout lasts several bars in a trend, so only the first
+    // one while flat opens a position.
+    if (currentPrice > entryHigh && portfolio.shares <= 0) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // SELL Signal: breakdown below the exit channel
+    if (currentPrice < exitLow) {
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    return { action: 'HOLD' };
+  },
+};
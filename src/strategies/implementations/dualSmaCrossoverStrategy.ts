@@ -0,0 +1,98 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
+import { calculateSMA } from '../../utils/technicalIndicators';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+const dualSmaCrossoverStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'shortPeriod',
+    label: 'Short SMA Period',
+    type: 'number',
+    defaultValue: 10,
+    description: 'The period for the faster Simple Moving Average.',
+    min: 2,
+    max: 100,
+    step: 1,
+  },
+  {
+    name: 'longPeriod',
+    label: 'Long SMA Period',
+    type: 'number',
+    defaultValue: 30,
+    description: 'The period for the slower Simple Moving Average.',
+    min: 5, // Must be greater than shortPeriod
+    max: 300,
+    step: 1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+export const dualSmaCrossoverStrategy: TradingStrategy = {
+  id: 'dual-sma-crossover',
+  name: 'Dual SMA Crossover Strategy',
+  description: 'Generates BUY signals when the short SMA crosses above the long SMA (golden cross), and SELL signals when it crosses below (death cross).',
+  version: '1.0.0',
+  parameters: dualSmaCrossoverStrategyParameters,
+
+  execute: (context: StrategyContext): StrategySignal => {
+    const { historicalData, currentIndex, portfolio, parameters } = context;
+    const { shortPeriod, longPeriod, tradeAmount } = parameters as {
+      shortPeriod: number;
+      longPeriod: number;
+      tradeAmount: number;
+    };
+
+    // A crossover needs the previous bar's averages
+    if (currentIndex < 1) {
+      return { action: 'HOLD' };
+    }
+
+    // Parameter combinations with the averages swapped or equal come up during optimization; they never trade
+    if (longPeriod <= shortPeriod) {
+      return { action: 'HOLD' };
+    }
+
+    const closingPrices = historicalData.map((d: HistoricalDataPoint) => d.close);
+    const shortSMA = calculateSMA(closingPrices, shortPeriod);
+    const longSMA = calculateSMA(closingPrices, longPeriod);
+
+    const currentShort = shortSMA[currentIndex];
+    const previousShort = shortSMA[currentIndex - 1];
+    const currentLong = longSMA[currentIndex];
+    const previousLong = longSMA[currentIndex - 1];
+
+    if (isNaN(currentShort) || isNaN(previousShort) || isNaN(currentLong) || isNaN(previousLong)) {
+      return { action: 'HOLD' };
+    }
+
+    const currentPrice = historicalData[currentIndex].close;
+
+    // BUY Signal: short SMA crosses above long SMA
+    if (previousShort <= previousLong && currentShort > currentLong) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // SELL Signal: short SMA crosses below long SMA
+    if (previousShort >= previousLong && currentShort < currentLong) {
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    return { action: 'HOLD' };
+  },
+};
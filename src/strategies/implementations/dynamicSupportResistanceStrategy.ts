@@ -0,0 +1,116 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
+import { calculateFractalLevels, calculatePivotLevels } from '../../utils/technicalIndicators';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+type LevelMethod = 'fractal' | 'pivot';
+
+const dynamicSupportResistanceStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'levelMethod',
+    label: 'Level Method',
+    type: 'string',
+    defaultValue: 'fractal',
+    description: "How support and resistance are found. 'fractal': the latest swing low/high. 'pivot': rolling floor-trader pivots (S1/R1).",
+    options: [
+      { value: 'fractal', label: 'Fractal Swing Highs/Lows' },
+      { value: 'pivot', label: 'Rolling Pivot Points' },
+    ],
+  },
+  {
+    name: 'lookbackPeriod',
+    label: 'Lookback Period',
+    type: 'number',
+    defaultValue: 20,
+    description: 'Bars the pivots are computed from, or the maximum age of the swing point a fractal level comes from.',
+    min: 5,
+    max: 200,
+    step: 1,
+  },
+  {
+    name: 'pivotStrength',
+    label: 'Swing Strength',
+    type: 'number',
+    defaultValue: 2,
+    description: 'Bars on each side a swing high/low must exceed (fractal method only). A swing is confirmed this many bars later.',
+    min: 1,
+    max: 10,
+    step: 1,
+  },
+  {
+    name: 'tolerancePercent',
+    label: 'Level Tolerance (%)',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Distance from a level, in percent, within which the price counts as touching it.',
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+export const dynamicSupportResistanceStrategy: TradingStrategy = {
+  id: 'dynamic-support-resistance',
+  name: 'Dynamic Support/Resistance Strategy',
+  description: 'Generates BUY signals when the price bounces off support, and SELL signals when it is rejected at resistance or breaks below support. Levels come from fractal swing highs/lows or rolling pivot points.',
+  version: '1.0.0',
+  parameters: dynamicSupportResistanceStrategyParameters,
+
+  execute: (context: StrategyContext): StrategySignal => {
+    const { historicalData, currentIndex, portfolio, parameters } = context;
+    const { levelMethod, lookbackPeriod, pivotStrength, tolerancePercent, tradeAmount } = parameters as {
+      levelMethod: LevelMethod;
+      lookbackPeriod: number;
+      pivotStrength: number;
+      tolerancePercent: number;
+      tradeAmount: number;
+    };
+
+    const highs = historicalData.map((d: HistoricalDataPoint) => d.high);
+    const lows = historicalData.map((d: HistoricalDataPoint) => d.low);
+    const levels = levelMethod === 'pivot'
+      ? calculatePivotLevels(highs, lows, historicalData.map((d: HistoricalDataPoint) => d.close), lookbackPeriod)
+      : calculateFractalLevels(highs, lows, pivotStrength, lookbackPeriod);
+
+    const support = levels.support[currentIndex];
+    const resistance = levels.resistance[currentIndex];
+    // Levels that overlap give no room to trade between them
+    if (isNaN(support) || isNaN(resistance) || support >= resistance) {
+      return { action: 'HOLD' };
+    }
+
+    const { high, low, close } = historicalData[currentIndex];
+    const tolerance = tolerancePercent / 100;
+
+    // BUY Signal: the bar dipped into the support zone and closed back above support
+    if (low <= support * (1 + tolerance) && close > support) {
+      if (canAffordBuy(portfolio, close, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // SELL Signal: the bar reached the resistance zone and closed below resistance, or closed through support
+    const rejectedAtResistance = high >= resistance * (1 - tolerance) && close < resistance;
+    const brokeSupport = close < support * (1 - tolerance);
+    if (rejectedAtResistance || brokeSupport) {
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    return { action: 'HOLD' };
+  },
+};
@@ -0,0 +1,203 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition, LadderOrder } from '../strategy.types';
+import type { PendingOrder } from '../../backtest/orderBook';
+import type { Trade } from '../../backtest';
+
+export type GridSpacing = 'arithmetic' | 'geometric';
+
+interface GridTradingParams {
+  lowerPrice: number;
+  upperPrice: number;
+  rangePercent: number;
+  gridLevels: number;
+  spacing: GridSpacing;
+  orderSize: number;
+  orderSizeMode: 'UNITS' | 'NOTIONAL';
+}
+
+const gridTradingStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'lowerPrice',
+    label: 'Lower Price',
+    type: 'number',
+    defaultValue: 0,
+    description: 'Bottom of the grid. Leave lower and upper price at 0 to center the grid on the first close.',
+    min: 0,
+  },
+  {
+    name: 'upperPrice',
+    label: 'Upper Price',
+    type: 'number',
+    defaultValue: 0,
+    description: 'Top of the grid. Leave lower and upper price at 0 to center the grid on the first close.',
+    min: 0,
+  },
+  {
+    name: 'rangePercent',
+    label: 'Range (%)',
+    type: 'number',
+    defaultValue: 10,
+    description: 'Without lower and upper prices, the grid spans the first close plus and minus this percentage.',
+    min: 1,
+    max: 50,
+    step: 1,
+  },
+  {
+    name: 'gridLevels',
+    label: 'Grid Levels',
+    type: 'number',
+    defaultValue: 10,
+    description: 'Number of price levels from the lower to the upper price, both included.',
+    min: 2,
+    max: 100,
+    step: 1,
+  },
+  {
+    name: 'spacing',
+    label: 'Spacing',
+    type: 'string',
+    defaultValue: 'arithmetic',
+    description: 'Arithmetic: the same price step between levels. Geometric: the same percentage step.',
+    options: [
+      { value: 'arithmetic', label: 'Arithmetic' },
+      { value: 'geometric', label: 'Geometric' },
+    ],
+  },
+  {
+    name: 'orderSize',
+    label: 'Order Size',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Size of the buy order at each level, in units or in quote currency (see order size mode).',
+    min: 0.001,
+    max: 100000,
+    step: 0.001,
+    optimizable: false,
+  },
+  {
+    name: 'orderSizeMode',
+    label: 'Order Size Mode',
+    type: 'string',
+    defaultValue: 'UNITS',
+    description: 'Whether the order size is a number of units or a quote-currency amount per level.',
+    options: [
+      { value: 'UNITS', label: 'Units' },
+      { value: 'NOTIONAL', label: 'Quote amount' },
+    ],
+  }
+];
+
+// Ids of the grid's orders: grid-<level>-<buy|sell>-<bar index of placement>
+const GRID_ORDER_ID = /^grid-(\d+)-(buy|sell)-\d+$/;
+
+/**
+ * Price levels of a grid, from the lower to the upper price.
+ * @param lowerPrice - Bottom level (> 0).
+ * @param upperPrice - Top level (> lowerPrice).
+ * @param levels - Number of levels, both ends included (>= 2).
+ * @param spacing - Equal price steps (arithmetic) or equal percentage steps (geometric).
+ * @returns The levels in ascending order, or an empty array if the band or the number of levels is invalid.
+ */
+export function calculateGridLevels(lowerPrice: number, upperPrice: number, levels: number, spacing: GridSpacing): number[] {
+  if (!(lowerPrice > 0) || !(upperPrice > lowerPrice) || !Number.isInteger(levels) || levels < 2) {
+    return [];
+  }
+  return Array.from({ length: levels }, (_, k) => {
+    const fraction = k / (levels - 1);
+    return spacing === 'geometric'
+      ? lowerPrice * Math.pow(upperPrice / lowerPrice, fraction)
+      : lowerPrice + (upperPrice - lowerPrice) * fraction;
+  });
+}
+
+// The grid level an order or fill belongs to, or null if it is not one of the grid's orders
+function getGridLevel(orderId: string | undefined): number | null {
+  const match = orderId ? GRID_ORDER_ID.exec(orderId) : null;
+  return match ? Number(match[1]) : null;
+}
+
+class GridTradingStrategy implements TradingStrategy<GridTradingParams> {
+  id: string = 'grid-trading';
+  name: string = 'Grid Trading Strategy';
+  description: string = 'A grid bot: lays buy limit orders at the price levels of a band below the price. Each filled buy is paired with a sell limit one level higher, and each filled sell re-arms the buy below it, so the strategy earns the level spacing on every oscillation through the grid.';
+  version: string = '1.0.0';
+  parameters: StrategyParameterDefinition[] = gridTradingStrategyParameters;
+
+  // Grid orders placed and not yet seen filled or gone, by id, with their level. One that leaves the order book
+  // without a fill was rejected by the engine (insufficient cash or shares at fill time).
+  private placedOrderLevels = new Map<string, number>();
+  // Levels whose last order was rejected, with the number of fills at the time. Nothing a retry needs changes until
+  // another fill, so the level waits for one instead of being rejected again on every bar.
+  private rejectedLevels = new Map<number, number>();
+
+  init(): void {
+    this.placedOrderLevels = new Map();
+    this.rejectedLevels = new Map();
+  }
+
+  execute(context: StrategyContext<GridTradingParams>): StrategySignal {
+    const { historicalData, currentIndex, tradeHistory, parameters } = context;
+    const { lowerPrice, upperPrice, rangePercent, gridLevels, spacing, orderSize, orderSizeMode } = parameters;
+
+    const openOrderIds = new Set((context.openOrders ?? []).map((order: PendingOrder) => order.id));
+    const filledOrderIds = new Set(tradeHistory.map((trade: Trade) => trade.orderId));
+    for (const [orderId, level] of this.placedOrderLevels) {
+      if (openOrderIds.has(orderId)) continue;
+      this.placedOrderLevels.delete(orderId);
+      if (!filledOrderIds.has(orderId)) {
+        this.rejectedLevels.set(level, tradeHistory.length);
+      }
+    }
+
+    if (!(orderSize > 0)) {
+      return { action: 'HOLD' };
+    }
+    // Without an explicit band, the grid is centered on the first close of the data
+    const useFirstClose = !(lowerPrice > 0) && !(upperPrice > 0);
+    const firstClose = historicalData[0]?.close;
+    const levels = useFirstClose
+      ? calculateGridLevels(firstClose * (1 - rangePercent / 100), firstClose * (1 + rangePercent / 100), gridLevels, spacing)
+      : calculateGridLevels(lowerPrice, upperPrice, gridLevels, spacing);
+    const currentPrice = historicalData[currentIndex]?.close;
+    if (levels.length === 0 || !(currentPrice > 0)) {
+      return { action: 'HOLD' };
+    }
+
+    // Level k trades between a buy at levels[k] and a sell at levels[k + 1]. A level with a resting order waits for
+    // it; otherwise its last fill tells which order comes next.
+    const openOrderLevels = new Set(
+      (context.openOrders ?? []).map((order: PendingOrder) => getGridLevel(order.id)).filter(level => level !== null)
+    );
+    const lastFills = new Map<number, Trade>();
+    for (const trade of tradeHistory) {
+      const level = getGridLevel(trade.orderId);
+      if (level !== null) lastFills.set(level, trade);
+    }
+
+    const orders: LadderOrder[] = [];
+    for (let k = 0; k < levels.length - 1; k++) {
+      if (openOrderLevels.has(k)) continue;
+      if (this.rejectedLevels.has(k)) {
+        if (this.rejectedLevels.get(k) === tradeHistory.length) continue;
+        this.rejectedLevels.delete(k);
+      }
+      const lastFill = lastFills.get(k);
+      let order: LadderOrder | null = null;
+      if (lastFill?.action === 'BUY') {
+        // Sell what the level bought, one level higher
+        order = { action: 'SELL', amount: lastFill.sharesTraded, orderType: 'LIMIT', limitPrice: levels[k + 1], orderId: `grid-${k}-sell-${currentIndex}` };
+      } else if (levels[k] < currentPrice) {
+        // Only below the price, so the buy waits for a dip instead of filling at once
+        order = { action: 'BUY', amount: orderSize, sizingMode: orderSizeMode === 'NOTIONAL' ? 'NOTIONAL' : 'UNITS', orderType: 'LIMIT', limitPrice: levels[k], orderId: `grid-${k}-buy-${currentIndex}` };
+      }
+      if (order) {
+        orders.push(order);
+        this.placedOrderLevels.set(order.orderId as string, k);
+      }
+    }
+
+    return orders.length > 0 ? { action: 'HOLD', orders } : { action: 'HOLD' };
+  }
+}
+
+// The orders in flight and the rejected levels are tracked between bars, so every run needs its own instance
+export const createGridTradingStrategy = (): TradingStrategy<GridTradingParams> => new GridTradingStrategy();
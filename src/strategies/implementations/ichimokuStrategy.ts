@@ -1,6 +1,7 @@
 // In src/strategies/implementations/ichimokuStrategy.ts
 import { HistoricalDataPoint } from '../../services/dataService';
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
 import logger from '../../utils/logger'; // Corrected import
 
 // --- Helper Functions for Ichimoku Calculations ---
@@ -184,10 +185,11 @@ const ichimokuStrategyParameters: StrategyParameterDefinition[] = [
     label: 'Trade Amount', 
     type: 'number', 
     defaultValue: 1, 
-    description: 'Number of shares to trade or units of asset.',
-    min: 0.1,
+    description: 'Number of shares to trade or units of asset (0 = use the backtest position sizing).',
+    min: 0,
     max: 100,
-    step: 0.1
+    step: 0.1,
+    optimizable: false
   }
 ];
 
@@ -195,6 +197,7 @@ export const ichimokuCloudStrategy: TradingStrategy = {
   id: 'ichimoku-cloud',
   name: 'Ichimoku Cloud Strategy',
   description: 'A trend-following strategy based on the Ichimoku Kinko Hyo indicator. It uses multiple lines (Tenkan-sen, Kijun-sen), a projected cloud (Kumo), and a lagging span (Chikou) to identify trends and generate signals.',
+  version: '1.0.0',
   parameters: ichimokuStrategyParameters,
 
   execute: (context: StrategyContext): StrategySignal => {
@@ -300,8 +303,8 @@ export const ichimokuCloudStrategy: TradingStrategy = {
     const futureKumoBullish = ichimoku.futureSenkouSpanA > ichimoku.futureSenkouSpanB;
 
     if (tenkanKijunBullishCross && priceAboveKumo && chikouAboveCurrentKumo && futureKumoBullish) {
-      if (portfolio.cash >= currentPrice * tradeAmount) {
-        return { action: 'BUY', amount: tradeAmount };
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
       }
     }
 
@@ -319,8 +322,8 @@ export const ichimokuCloudStrategy: TradingStrategy = {
     const futureKumoBearish = ichimoku.futureSenkouSpanA < ichimoku.futureSenkouSpanB;
 
     if (tenkanKijunBearishCross && priceBelowKumo && chikouBelowCurrentKumo && futureKumoBearish) {
-      if (portfolio.shares >= tradeAmount) {
-        return { action: 'SELL', amount: tradeAmount };
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
       }
     }
 
@@ -0,0 +1,110 @@
+import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
+import { calculateKeltnerChannels } from '../../utils/technicalIndicators';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+const keltnerBreakoutStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'emaPeriod',
+    label: 'EMA Period',
+    type: 'number',
+    defaultValue: 20,
+    description: 'The period of the EMA forming the middle line of the channel.',
+    min: 5,
+    max: 100,
+    step: 1,
+  },
+  {
+    name: 'atrPeriod',
+    label: 'ATR Period',
+    type: 'number',
+    defaultValue: 10,
+    description: 'The period of the Average True Range setting the channel width.',
+    min: 2,
+    max: 50,
+    step: 1,
+  },
+  {
+    name: 'atrMultiplier',
+    label: 'ATR Multiplier',
+    type: 'number',
+    defaultValue: 2,
+    description: 'Distance of the upper and lower bands from the middle line, in ATRs.',
+    min: 0.5,
+    max: 5,
+    step: 0.1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+export const keltnerBreakoutStrategy: TradingStrategy = {
+  id: 'keltner-breakout',
+  name: 'Keltner Channel Breakout Strategy',
+  description: 'Generates BUY signals when the close crosses above the upper Keltner band, and SELL signals when it falls back below the middle line (EMA).',
+  version: '1.0.0',
+  parameters: keltnerBreakoutStrategyParameters,
+
+  execute: (context: StrategyContext): StrategySignal => {
+    const { historicalData, currentIndex, portfolio, parameters } = context;
+    const { emaPeriod, atrPeriod, atrMultiplier, tradeAmount } = parameters as {
+      emaPeriod: number;
+      atrPeriod: number;
+      atrMultiplier: number;
+      tradeAmount: number;
+    };
+
+    // A crossover needs the previous bar's close and bands
+    if (currentIndex < 1) {
+      return { action: 'HOLD' };
+    }
+
+    const closingPrices = historicalData.map((d: HistoricalDataPoint) => d.close);
+    const channels = calculateKeltnerChannels(
+      historicalData.map((d: HistoricalDataPoint) => d.high),
+      historicalData.map((d: HistoricalDataPoint) => d.low),
+      closingPrices,
+      emaPeriod,
+      atrPeriod,
+      atrMultiplier
+    );
+
+    const currentUpper = channels.upper[currentIndex];
+    const previousUpper = channels.upper[currentIndex - 1];
+    const currentMiddle = channels.middle[currentIndex];
+    const previousMiddle = channels.middle[currentIndex - 1];
+    if (isNaN(currentUpper) || isNaN(previousUpper) || isNaN(currentMiddle) || isNaN(previousMiddle)) {
+      return { action: 'HOLD' };
+    }
+
+    const currentPrice = closingPrices[currentIndex];
+    const previousPrice = closingPrices[currentIndex - 1];
+
+    // BUY Signal: close crosses above the upper band
+    if (previousPrice <= previousUpper && currentPrice > currentUpper) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    // SELL Signal: close crosses below the middle line, the breakout has failed or run its course
+    if (previousPrice >= previousMiddle && currentPrice < currentMiddle) {
+      if (canSell(portfolio, tradeAmount)) {
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
+      }
+      return { action: 'HOLD' };
+    }
+
+    return { action: 'HOLD' };
+  },
+};
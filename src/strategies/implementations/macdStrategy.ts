@@ -1,4 +1,5 @@
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
 import { calculateMACD } from '../../utils/technicalIndicators';
 import { HistoricalDataPoint } from '../../services/dataService';
 import logger from '../../utils/logger'; // Optional for debugging
@@ -39,10 +40,11 @@ const macdStrategyParameters: StrategyParameterDefinition[] = [
     label: 'Trade Amount',
     type: 'number',
     defaultValue: 1,
-    description: 'Number of shares/units to trade per signal.',
-    min: 0.001,
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0,
     max: 1000, // Added max for consistency
     step: 0.001,
+    optimizable: false,
   }
 ];
 
@@ -50,6 +52,7 @@ export const macdStrategy: TradingStrategy = {
   id: 'macd-crossover',
   name: 'MACD Crossover Strategy',
   description: 'Generates BUY signals when the MACD line crosses above the Signal line, and SELL signals when it crosses below.',
+  version: '1.0.0',
   parameters: macdStrategyParameters,
 
   execute: (context: StrategyContext): StrategySignal => {
@@ -100,9 +103,9 @@ export const macdStrategy: TradingStrategy = {
 
     // BUY Signal: MACD line crosses above Signal line
     if (previousMACD < previousSignal && currentMACD > currentSignal) {
-      if (portfolio.cash >= currentPrice * tradeAmount) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
         // logger.info(`[${macdStrategy.id}] BUY signal at index ${currentIndex}: MACD (${currentMACD.toFixed(2)}) crossed above Signal (${currentSignal.toFixed(2)})`);
-        return { action: 'BUY', amount: tradeAmount };
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
       } else {
         // logger.debug(`[${macdStrategy.id}] BUY signal triggered but insufficient cash at index ${currentIndex}. Holding.`);
         return { action: 'HOLD' };
@@ -111,9 +114,9 @@ export const macdStrategy: TradingStrategy = {
 
     // SELL Signal: MACD line crosses below Signal line
     if (previousMACD > previousSignal && currentMACD < currentSignal) {
-      if (portfolio.shares >= tradeAmount) {
+      if (canSell(portfolio, tradeAmount)) {
         // logger.info(`[${macdStrategy.id}] SELL signal at index ${currentIndex}: MACD (${currentMACD.toFixed(2)}) crossed below Signal (${currentSignal.toFixed(2)})`);
-        return { action: 'SELL', amount: tradeAmount };
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
       } else {
         // logger.debug(`[${macdStrategy.id}] SELL signal triggered but insufficient shares at index ${currentIndex}. Holding.`);
         return { action: 'HOLD' };
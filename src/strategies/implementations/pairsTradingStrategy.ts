@@ -0,0 +1,207 @@
+import {
+  TradingStrategy,
+  StrategySignal,
+  StrategyParameterDefinition,
+  PortfolioStrategyContext,
+  PortfolioSignal,
+} from '../strategy.types';
+import { CointegrationSignificance, engleGrangerTest } from '../../utils/cointegration';
+import { HistoricalDataPoint } from '../../services/dataService';
+
+interface PairsTradingParams {
+  lookbackPeriod: number;
+  entryZScore: number;
+  exitZScore: number;
+  stopZScore: number;
+  significance: CointegrationSignificance;
+  adfLags: number;
+  tradeAmount: number;
+}
+
+const pairsTradingStrategyParameters: StrategyParameterDefinition[] = [
+  {
+    name: 'lookbackPeriod',
+    label: 'Lookback Period',
+    type: 'number',
+    defaultValue: 60,
+    description: 'Common bars of both symbols used to estimate the hedge ratio, the spread z-score and the cointegration test.',
+    min: 20,
+    max: 500,
+    step: 5,
+  },
+  {
+    name: 'entryZScore',
+    label: 'Entry Z-Score',
+    type: 'number',
+    defaultValue: 2,
+    description: 'Opens a position when the spread is this many standard deviations from its mean.',
+    min: 0.5,
+    max: 4,
+    step: 0.1,
+  },
+  {
+    name: 'exitZScore',
+    label: 'Exit Z-Score',
+    type: 'number',
+    defaultValue: 0.5,
+    description: 'Closes the position once the spread has reverted to within this many standard deviations.',
+    min: 0,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    name: 'stopZScore',
+    label: 'Stop Z-Score',
+    type: 'number',
+    defaultValue: 4,
+    description: 'Closes the position when the spread diverges beyond this many standard deviations.',
+    min: 2,
+    max: 8,
+    step: 0.5,
+  },
+  {
+    name: 'significance',
+    label: 'Cointegration Significance',
+    type: 'number',
+    defaultValue: 0.05,
+    description: 'Significance level of the Engle-Granger test. Positions are closed, and none opened, while the pair is not cointegrated.',
+    options: [
+      { value: 0.01, label: '1%' },
+      { value: 0.05, label: '5%' },
+      { value: 0.1, label: '10%' },
+    ],
+  },
+  {
+    name: 'adfLags',
+    label: 'ADF Lags',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Lagged differences in the Augmented Dickey-Fuller regression of the cointegration test.',
+    min: 0,
+    max: 5,
+    step: 1,
+  },
+  {
+    name: 'tradeAmount',
+    label: 'Trade Amount',
+    type: 'number',
+    defaultValue: 1,
+    description: 'Units of the first symbol per trade; the second leg is the hedge ratio times as many units.',
+    min: 0.001,
+    max: 1000,
+    step: 0.001,
+    optimizable: false,
+  }
+];
+
+/**
+ * Closes of the latest `length` timestamps at which both symbols have a bar, ending at their current bars.
+ * Walks both series back from the current bars, so it is O(length) per call for aligned data.
+ * @returns The aligned closes, oldest first, or null if fewer than `length` common bars are available.
+ */
+export function getAlignedCloses(
+  first: HistoricalDataPoint[],
+  second: HistoricalDataPoint[],
+  firstIndex: number,
+  secondIndex: number,
+  length: number
+): { first: number[]; second: number[] } | null {
+  const firstCloses: number[] = [];
+  const secondCloses: number[] = [];
+  let i = firstIndex;
+  let j = secondIndex;
+  while (i >= 0 && j >= 0 && firstCloses.length < length) {
+    if (first[i].timestamp === second[j].timestamp) {
+      firstCloses.push(first[i].close);
+      secondCloses.push(second[j].close);
+      i--;
+      j--;
+    } else if (first[i].timestamp > second[j].timestamp) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  if (firstCloses.length < length) {
+    return null;
+  }
+  return { first: firstCloses.reverse(), second: secondCloses.reverse() };
+}
+
+export const pairsTradingStrategy: TradingStrategy<PairsTradingParams> = {
+  id: 'pairs-trading',
+  name: 'Pairs Trading Strategy',
+  description: 'Statistical arbitrage on two symbols (a portfolio backtest with margin enabled). Trades the z-score of the spread between the first symbol and the second times a rolling OLS hedge ratio, and stops out when the Engle-Granger test no longer finds the pair cointegrated.',
+  version: '1.0.0',
+  parameters: pairsTradingStrategyParameters,
+
+  // A pair cannot be traded on one symbol; single-symbol backtests reject the strategy (see validateSingleSymbolStrategy)
+  execute: (): StrategySignal => ({ action: 'HOLD' }),
+
+  executePortfolio: (context: PortfolioStrategyContext<PairsTradingParams>): PortfolioSignal[] => {
+    const { symbols, historicalData, barIndices, currentBars, portfolio, parameters } = context;
+    const { lookbackPeriod, entryZScore, exitZScore, stopZScore, significance, adfLags, tradeAmount } = parameters;
+
+    // The first symbol is the dependent leg (y), the second the hedge leg (x). Both legs must be able to trade.
+    if (symbols.length !== 2) {
+      return [];
+    }
+    const [ySymbol, xSymbol] = symbols;
+    if (!currentBars[ySymbol] || !currentBars[xSymbol]) {
+      return [];
+    }
+
+    const closes = getAlignedCloses(historicalData[ySymbol], historicalData[xSymbol], barIndices[ySymbol], barIndices[xSymbol], lookbackPeriod);
+    if (!closes) {
+      return [];
+    }
+    const level: CointegrationSignificance = [0.01, 0.05, 0.1].includes(significance) ? significance : 0.05;
+    const test = engleGrangerTest(closes.first, closes.second, level, adfLags);
+    if (!test) {
+      return [];
+    }
+
+    // OLS residuals have zero mean, so the z-score is the current residual over their standard deviation
+    const residuals = test.residuals;
+    const spreadStdDev = Math.sqrt(residuals.reduce((sum, residual) => sum + residual ** 2, 0) / residuals.length);
+    if (!(spreadStdDev > 0)) {
+      return [];
+    }
+    const zScore = residuals[residuals.length - 1] / spreadStdDev;
+
+    const yPosition = portfolio.positions[ySymbol] ?? 0;
+    const xPosition = portfolio.positions[xSymbol] ?? 0;
+    if (yPosition !== 0 || xPosition !== 0) {
+      const isLongSpread = yPosition > 0 || xPosition < 0;
+      const reverted = isLongSpread ? zScore >= -exitZScore : zScore <= exitZScore;
+      const stoppedOut = !test.isCointegrated || Math.abs(zScore) >= stopZScore;
+      if (!reverted && !stoppedOut) {
+        return [];
+      }
+      const closeLeg = (symbol: string, position: number): PortfolioSignal[] =>
+        position === 0 ? [] : [{ symbol, action: position > 0 ? 'SELL' : 'BUY', amount: Math.abs(position) }];
+      return [...closeLeg(ySymbol, yPosition), ...closeLeg(xSymbol, xPosition)];
+    }
+
+    // A negative hedge ratio would put both legs on the same side, which is not a spread
+    if (!test.isCointegrated || test.hedgeRatio <= 0 || Math.abs(zScore) >= stopZScore) {
+      return [];
+    }
+    const hedgeAmount = test.hedgeRatio * tradeAmount;
+    if (zScore <= -entryZScore) {
+      // Spread below its mean: buy y, short x
+      return [
+        { symbol: ySymbol, action: 'BUY', amount: tradeAmount },
+        { symbol: xSymbol, action: 'SELL', amount: hedgeAmount },
+      ];
+    }
+    if (zScore >= entryZScore) {
+      // Spread above its mean: short y, buy x
+      return [
+        { symbol: ySymbol, action: 'SELL', amount: tradeAmount },
+        { symbol: xSymbol, action: 'BUY', amount: hedgeAmount },
+      ];
+    }
+    return [];
+  },
+};
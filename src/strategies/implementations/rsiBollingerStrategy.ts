@@ -1,4 +1,5 @@
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
 import { calculateRSI, calculateBollingerBands } from '../../utils/technicalIndicators';
 import { HistoricalDataPoint } from '../../services/dataService'; // Assuming OHLCV is part of HistoricalDataPoint or equivalent
 import logger from '../../utils/logger'; // Corrected import
@@ -59,10 +60,11 @@ const rsiBollingerStrategyParameters: StrategyParameterDefinition[] = [
     label: 'Trade Amount', 
     type: 'number', 
     defaultValue: 1,
-    description: 'Number of shares/units to trade per signal.',
-    min: 0.001, // Assuming fractional shares/units might be possible
+    description: 'Number of shares/units to trade per signal (0 = use the backtest position sizing).',
+    min: 0, // 0 defers sizing to the backtest; fractional shares/units are allowed
     max: 1000,  // Added max for consistency
     step: 0.001,
+    optimizable: false,
   }
 ];
 
@@ -70,6 +72,7 @@ export const rsiBollingerStrategy: TradingStrategy = {
   id: 'rsi-bollinger',
   name: 'RSI + Bollinger Bands Strategy',
   description: 'Generates BUY signals when RSI is oversold and price is at/below lower Bollinger Band. Generates SELL signals when RSI is overbought and price is at/above upper Bollinger Band.',
+  version: '1.0.0',
   parameters: rsiBollingerStrategyParameters,
 
   execute: (context: StrategyContext): StrategySignal => {
@@ -122,9 +125,9 @@ export const rsiBollingerStrategy: TradingStrategy = {
 
     // BUY Signal
     if (currentRSI < rsiOversold && currentPrice <= currentBollingerLower) {
-      if (portfolio.cash >= currentPrice * tradeAmount) {
+      if (canAffordBuy(portfolio, currentPrice, tradeAmount)) {
         // logger.info(`[${rsiBollingerStrategy.id}] BUY signal at index ${currentIndex}: RSI (${currentRSI.toFixed(2)}) < ${rsiOversold} AND Price (${currentPrice.toFixed(2)}) <= Lower BB (${currentBollingerLower.toFixed(2)})`);
-        return { action: 'BUY', amount: tradeAmount };
+        return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
       } else {
         // logger.debug(`[${rsiBollingerStrategy.id}] BUY signal triggered but insufficient cash at index ${currentIndex}. Holding.`);
         return { action: 'HOLD' };
@@ -133,9 +136,9 @@ export const rsiBollingerStrategy: TradingStrategy = {
 
     // SELL Signal
     if (currentRSI > rsiOverbought && currentPrice >= currentBollingerUpper) {
-      if (portfolio.shares >= tradeAmount) {
+      if (canSell(portfolio, tradeAmount)) {
         // logger.info(`[${rsiBollingerStrategy.id}] SELL signal at index ${currentIndex}: RSI (${currentRSI.toFixed(2)}) > ${rsiOverbought} AND Price (${currentPrice.toFixed(2)}) >= Upper BB (${currentBollingerUpper.toFixed(2)})`);
-        return { action: 'SELL', amount: tradeAmount };
+        return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
       } else {
         // logger.debug(`[${rsiBollingerStrategy.id}] SELL signal triggered but insufficient shares at index ${currentIndex}. Holding.`);
         return { action: 'HOLD' };
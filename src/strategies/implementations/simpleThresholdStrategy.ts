@@ -1,5 +1,6 @@
 // In src/strategies/implementations/simpleThresholdStrategy.ts
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition } from '../strategy.types';
+import { canAffordBuy, canSell, getSignalAmount } from '../tradeAmount';
 
 const simpleThresholdStrategyParams: StrategyParameterDefinition[] = [
   { 
@@ -27,10 +28,11 @@ const simpleThresholdStrategyParams: StrategyParameterDefinition[] = [
     label: 'Trade Amount', 
     type: 'number', 
     defaultValue: 1, 
-    description: 'Number of shares to trade.',
-    min: 0.1, // Assuming fractional shares might be possible or for crypto
+    description: 'Number of shares to trade (0 = use the backtest position sizing).',
+    min: 0, // 0 defers sizing to the backtest; fractional shares are allowed for crypto
     max: 100, // Arbitrary max
-    step: 0.1
+    step: 0.1,
+    optimizable: false
   }
 ];
 
@@ -38,6 +40,7 @@ export const adaptedSimpleThresholdStrategy: TradingStrategy = {
   id: 'simple-threshold',
   name: 'Simple Threshold Strategy',
   description: 'Buys if price > upperThreshold, Sells if price < lowerThreshold.',
+  version: '1.0.0',
   parameters: simpleThresholdStrategyParams,
   execute: (context: StrategyContext): StrategySignal => {
     const currentDataPoint = context.historicalData[context.currentIndex];
@@ -47,10 +50,10 @@ export const adaptedSimpleThresholdStrategy: TradingStrategy = {
     const lowerThreshold = context.parameters.lowerThreshold as number;
     const tradeAmount = context.parameters.tradeAmount as number;
 
-    if (price > upperThreshold && context.portfolio.cash >= price * tradeAmount) {
-      return { action: 'BUY', amount: tradeAmount };
-    } else if (price < lowerThreshold && context.portfolio.shares >= tradeAmount) {
-      return { action: 'SELL', amount: tradeAmount };
+    if (price > upperThreshold && canAffordBuy(context.portfolio, price, tradeAmount)) {
+      return { action: 'BUY', amount: getSignalAmount(tradeAmount) };
+    } else if (price < lowerThreshold && canSell(context.portfolio, tradeAmount)) {
+      return { action: 'SELL', amount: getSignalAmount(tradeAmount) };
     } else {
       return { action: 'HOLD' };
     }
@@ -1,6 +1,8 @@
 // In src/strategies/strategy.types.ts
 import { HistoricalDataPoint } from '../services/dataService'; // Direct import for internal use
 import type { Portfolio, Trade } from '../backtest'; // Direct import for internal use, assuming they are exported from backtest
+import type { PendingOrder } from '../backtest/orderBook';
+import type { MultiAssetPortfolio, PortfolioTrade } from '../backtest/portfolioBacktest';
 
 
 export type StrategyParameterType = 'number' | 'string' | 'boolean';
@@ -15,6 +17,7 @@ export interface StrategyParameterDefinition {
   min?: number;    // New: for numerical parameters
   max?: number;    // New: for numerical parameters
   step?: number;   // New: for numerical parameters, defines increment for grid search
+  optimizable?: boolean; // false keeps the parameter out of the default search space (e.g. order sizes); defaults to true
 }
 
 export interface StrategyContext<T_Params extends Record<string, any> = Record<string, any>> {
@@ -25,28 +28,121 @@ export interface StrategyContext<T_Params extends Record<string, any> = Record<s
   tradeHistory: Trade[];
   parameters: T_Params; // Strategy-specific parameters
   signalHistory?: StrategySignal[]; // Added
+  openOrders?: PendingOrder[]; // Limit/stop orders still resting in the backtest order book
+}
+
+// What TradingStrategy.init and onFinish are told about a run
+export interface StrategyRunInfo<T_Params extends Record<string, any> = Record<string, any>> {
+  symbols: string[];    // The backtested symbol, or every symbol a portfolio strategy trades
+  parameters: T_Params; // Parameters of the run, defaults included
 }
 
 export type StrategyAction = 'BUY' | 'SELL' | 'HOLD';
 
+// How StrategySignal.amount (or the backtest's positionSizing value) is turned into a quantity:
+// UNITS: number of units. NOTIONAL: quote-currency value. PERCENT_EQUITY: % of account equity.
+// PERCENT_RISK: % of equity lost if the stop-loss is hit. VOLATILITY_TARGET: target annualized volatility (%) of the position,
+// estimated from ATR. See src/backtest/positionSizing.ts.
+export type SizingMode = 'UNITS' | 'NOTIONAL' | 'PERCENT_EQUITY' | 'PERCENT_RISK' | 'VOLATILITY_TARGET';
+
+// MARKET executes immediately; LIMIT and STOP rest in the backtest order book until filled, cancelled or expired
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP';
+// GTC: until filled or cancelled. DAY: until the end of the (UTC) day the order becomes active. BARS: for expiresAfterBars bars.
+export type TimeInForce = 'GTC' | 'DAY' | 'BARS';
+
+// A protective order level. Give either an absolute price or a percentage; price wins if both are set.
+// For stop-loss and take-profit the percentage is measured from the entry fill price.
+// For a trailing stop, price is the absolute distance and percent the distance from the best price since entry.
+export interface ProtectiveOrderLevel {
+  price?: number;
+  percent?: number;
+}
+
 export interface StrategySignal {
   action: StrategyAction;
-  amount?: number; // Number of shares or percentage of portfolio to trade
+  amount?: number; // Size of the order, interpreted according to sizingMode. Omit to let the backtest's positionSizing decide.
+  sizingMode?: SizingMode; // Defaults to UNITS when amount is given
+  // Optional exits attached to an entry (BUY opening/adding to a long, or SELL opening/adding to a short in margin mode).
+  // The backtest engine evaluates them intrabar against each following bar's high/low (see src/backtest/protectiveOrders.ts).
+  stopLoss?: ProtectiveOrderLevel;
+  takeProfit?: ProtectiveOrderLevel;
+  trailingStop?: ProtectiveOrderLevel;
+  // Resting orders (see src/backtest/orderBook.ts). Defaults to a MARKET order.
+  orderType?: OrderType;
+  limitPrice?: number;       // Required for LIMIT orders
+  stopPrice?: number;        // Required for STOP orders
+  timeInForce?: TimeInForce; // Defaults to GTC
+  expiresAfterBars?: number; // Required when timeInForce is BARS
+  orderId?: string;          // Optional id for a resting order, so it can be cancelled later
+  cancelOrders?: string[] | 'ALL'; // Ids of resting orders to cancel before this signal is processed
+  orders?: LadderOrder[]; // Further resting orders placed on the same bar, after this signal's own order (e.g. a grid's levels)
+}
+
+// A resting order placed through StrategySignal.orders, so one signal can lay a ladder of orders at several prices.
+// It is sized like a signal, at its limit or stop price, and fills like any other resting order.
+export interface LadderOrder {
+  action: 'BUY' | 'SELL';
+  amount?: number;
+  sizingMode?: SizingMode;
+  orderType: 'LIMIT' | 'STOP';
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  expiresAfterBars?: number;
+  orderId?: string;
+}
+
+// Context for TradingStrategy.executePortfolio in a multi-asset portfolio backtest (see src/backtest/portfolioBacktest.ts).
+// Bars of all symbols are aligned on the union of their timestamps.
+export interface PortfolioStrategyContext<T_Params extends Record<string, any> = Record<string, any>> {
+  symbols: string[];
+  timestamps: number[];   // Aligned timeline
+  currentIndex: number;   // Index of the current timestamp
+  historicalData: Record<string, HistoricalDataPoint[]>; // Each symbol's own bars
+  barIndices: Record<string, number>; // Index of each symbol's latest bar at or before the current timestamp (-1 before its first bar)
+  currentBars: Record<string, HistoricalDataPoint | null>; // Bar at the current timestamp, null if the symbol has none (it cannot trade)
+  portfolio: MultiAssetPortfolio;
+  tradeHistory: PortfolioTrade[];
+  parameters: T_Params;
+}
+
+// A market order for one symbol of a portfolio backtest
+export interface PortfolioSignal extends StrategySignal {
+  symbol: string;
 }
 
 export interface TradingStrategy<T_Parameters extends Record<string, any> = Record<string, any>> {
   id: string; // Unique identifier (e.g., 'ichimoku-cloud', 'rsi-bollinger')
   name: string; // User-friendly name (e.g., 'Ichimoku Cloud Strategy', 'RSI + Bollinger Bands')
   description?: string;
+  version?: string; // Bumped when a change to the strategy alters its signals; stored with saved backtest runs
   parameters: StrategyParameterDefinition[]; // Definitions of parameters this strategy uses
 
   // Function to execute the strategy for a given historical data point and context
   execute: (context: StrategyContext<T_Parameters>) => StrategySignal | Promise<StrategySignal>; // Allow async strategies
 
+  // Optional: Multi-symbol decision for portfolio backtests, e.g. rotation between symbols. Strategies without it
+  // are run with execute() on each symbol separately, sharing the portfolio's cash.
+  executePortfolio?: (context: PortfolioStrategyContext<T_Parameters>) => PortfolioSignal[] | Promise<PortfolioSignal[]>;
+
+  // Lifecycle of a run. Each run gets its own instance from createStrategy (see strategyManager.ts) and calls, in order:
+  // init once before the first bar, execute (or executePortfolio) on every bar, onFinish after the last bar, and
+  // dispose once the run is over, also when it failed or was cancelled. State kept between bars belongs on the instance.
+  init?: (run: StrategyRunInfo<T_Parameters>) => void | Promise<void>;
+  onFinish?: (run: StrategyRunInfo<T_Parameters>) => void | Promise<void>;
+  dispose?: () => void | Promise<void>;
+
+  // Optional: The decision a meta-strategy (the AI selector) made on the last bar, or null if it made none.
+  // The backtest engine collects it into BacktestResult.aiDecisionLog.
+  getAIDecision?: () => AIDecision | null;
+
   // Optional: Function to calculate and return any indicators the strategy might expose for plotting/logging
   // getIndicators?: (context: StrategyContext<T_Parameters>) => Record<string, number | null>;
 }
 
+// Market regime of a window of bars, as classified by the AI selector
+export type MarketRegime = 'trendingUp' | 'trendingDown' | 'ranging';
+
 export interface AIDecision {
   timestamp: number;
   date: string; // Assuming date is stored as string in historical data
@@ -58,4 +154,8 @@ export interface AIDecision {
   simulatedPnl?: number | null;
   simulatedSharpe?: number | null; // <-- Add this
   simulatedWinRate?: number | null; // <-- Add this
+  reevaluated?: boolean;   // Whether the candidates were ranked on this bar (see reevaluationInterval)
+  switched?: boolean;      // Whether the choice changed to another strategy on this bar
+  switchCount?: number;    // Switches since the start of the run
+  marketRegime?: MarketRegime; // Regime of the AI selector's evaluation window
 }
@@ -7,35 +7,87 @@ import { adaptedSimpleThresholdStrategy } from './implementations/simpleThreshol
 import { ichimokuCloudStrategy } from './implementations/ichimokuStrategy'; // Import Ichimoku strategy
 import { rsiBollingerStrategy } from './implementations/rsiBollingerStrategy';
 import { macdStrategy } from './implementations/macdStrategy';
-import { aiPricePredictionStrategy } from './implementations/aiPricePredictionStrategy';
-import { aiSelectorStrategy } from './implementations/aiSelectorStrategy'; // Import AI Selector Strategy
+import { dualSmaCrossoverStrategy } from './implementations/dualSmaCrossoverStrategy';
+import { dynamicSupportResistanceStrategy } from './implementations/dynamicSupportResistanceStrategy';
+import { donchianBreakoutStrategy } from './implementations/donchianBreakoutStrategy';
+import { keltnerBreakoutStrategy } from './implementations/keltnerBreakoutStrategy';
+import { atrBreakoutStrategy } from './implementations/atrBreakoutStrategy';
+import { pairsTradingStrategy } from './implementations/pairsTradingStrategy';
+import { createGridTradingStrategy } from './implementations/gridTradingStrategy';
+import { createDCAStrategy } from './implementations/dcaStrategy';
+import { createAIPricePredictionStrategy } from './implementations/aiPricePredictionStrategy';
+import { createAISelectorStrategy } from './implementations/aiSelectorStrategy'; // Import AI Selector Strategy
 // ... import other strategies here as they are created
 
-const strategyRegistry = new Map<string, TradingStrategy<any>>();
+// Creates a fresh instance of a strategy, with its own state, for one run
+export type StrategyFactory<T_Parameters extends Record<string, any> = Record<string, any>> = () => TradingStrategy<T_Parameters>;
 
-export function registerStrategy(strategy: TradingStrategy<any>): void {
-  if (!strategy || !strategy.id) {
+interface RegisteredStrategy {
+  definition: TradingStrategy<any>; // Describes the strategy (id, name, parameters); never run
+  create: StrategyFactory<any>;
+}
+
+const strategyRegistry = new Map<string, RegisteredStrategy>();
+
+function addToRegistry(definition: TradingStrategy<any>, create: StrategyFactory<any>): void {
+  if (!definition || !definition.id) {
     logger.error('StrategyManager: Attempted to register an invalid or ID-less strategy.');
     return;
   }
-  if (strategyRegistry.has(strategy.id)) {
-    logger.warn(`StrategyManager: Strategy with ID '${strategy.id}' is already registered. It will be overwritten.`);
+  if (strategyRegistry.has(definition.id)) {
+    logger.warn(`StrategyManager: Strategy with ID '${definition.id}' is already registered. It will be overwritten.`);
   }
-  strategyRegistry.set(strategy.id, strategy);
-  logger.info(`StrategyManager: Strategy '${strategy.name}' (ID: ${strategy.id}) registered.`);
+  strategyRegistry.set(definition.id, { definition, create });
+  logger.info(`StrategyManager: Strategy '${definition.name}' (ID: ${definition.id}) registered.`);
+}
+
+/**
+ * Registers a stateless strategy: every run shares the given object.
+ */
+export function registerStrategy(strategy: TradingStrategy<any>): void {
+  addToRegistry(strategy, () => strategy);
 }
 
+/**
+ * Registers a strategy that keeps state between bars: every run gets a new instance from the factory.
+ * The factory is called once here for the strategy's definition.
+ */
+export function registerStrategyFactory(factory: StrategyFactory<any>): void {
+  addToRegistry(factory(), factory);
+}
+
+/**
+ * The definition of a strategy (id, name, parameters), shared by every caller. Runs use createStrategy instead.
+ */
 export function getStrategy(id: string): TradingStrategy<any> | undefined {
-  const strategy = strategyRegistry.get(id);
-  if (strategy && typeof (strategy as any).reset === 'function') {
-    logger.info(`[StrategyManager] Resetting state for strategy ID: ${id}`);
-    (strategy as any).reset();
+  return strategyRegistry.get(id)?.definition;
+}
+
+/**
+ * A strategy instance for one run. The caller drives its lifecycle (see TradingStrategy) and disposes it.
+ */
+export function createStrategy(id: string): TradingStrategy<any> | undefined {
+  const registered = strategyRegistry.get(id);
+  if (!registered) {
+    return undefined;
+  }
+  logger.debug(`[StrategyManager] Creating an instance of strategy ID: ${id}`);
+  return registered.create();
+}
+
+/**
+ * Disposes a strategy instance at the end of a run. A failing dispose is logged, so it does not hide the run's outcome.
+ */
+export async function disposeStrategy(strategy: TradingStrategy<any>): Promise<void> {
+  try {
+    await strategy.dispose?.();
+  } catch (error: any) {
+    logger.error(`StrategyManager: Disposing strategy ${strategy.id} failed: ${error?.message ?? error}`);
   }
-  return strategy;
 }
 
 export function getAvailableStrategies(): TradingStrategy<any>[] {
-  return Array.from(strategyRegistry.values());
+  return Array.from(strategyRegistry.values(), registered => registered.definition);
 }
 
 // --- Auto-register imported strategies ---
@@ -66,10 +118,61 @@ if (macdStrategy) {
   logger.error('StrategyManager: macdStrategy is undefined and cannot be registered.');
 }
 
-if (aiPricePredictionStrategy) {
-  registerStrategy(aiPricePredictionStrategy);
+if (dualSmaCrossoverStrategy) {
+  registerStrategy(dualSmaCrossoverStrategy);
+} else {
+  logger.error('StrategyManager: dualSmaCrossoverStrategy is undefined and cannot be registered.');
+}
+
+if (dynamicSupportResistanceStrategy) {
+  registerStrategy(dynamicSupportResistanceStrategy);
+} else {
+  logger.error('StrategyManager: dynamicSupportResistanceStrategy is undefined and cannot be registered.');
+}
+
+if (donchianBreakoutStrategy) {
+  registerStrategy(donchianBreakoutStrategy);
+} else {
+  logger.error('StrategyManager: donchianBreakoutStrategy is undefined and cannot be registered.');
+}
+
+if (keltnerBreakoutStrategy) {
+  registerStrategy(keltnerBreakoutStrategy);
+} else {
+  logger.error('StrategyManager: keltnerBreakoutStrategy is undefined and cannot be registered.');
+}
+
+if (atrBreakoutStrategy) {
+  registerStrategy(atrBreakoutStrategy);
+} else {
+  logger.error('StrategyManager: atrBreakoutStrategy is undefined and cannot be registered.');
+}
+
+if (pairsTradingStrategy) {
+  registerStrategy(pairsTradingStrategy);
+} else {
+  logger.error('StrategyManager: pairsTradingStrategy is undefined and cannot be registered.');
+}
+
+// The grid bot tracks its orders in flight between bars, and the DCA bot counts the safety orders of its current
+// cycle, so each run gets its own instance
+if (createGridTradingStrategy) {
+  registerStrategyFactory(createGridTradingStrategy);
+} else {
+  logger.error('StrategyManager: createGridTradingStrategy is undefined and cannot be registered.');
+}
+
+if (createDCAStrategy) {
+  registerStrategyFactory(createDCAStrategy);
+} else {
+  logger.error('StrategyManager: createDCAStrategy is undefined and cannot be registered.');
+}
+
+// The AI strategies keep state during a run (a trained model, the current choice), so each run gets its own instance
+if (createAIPricePredictionStrategy) {
+  registerStrategyFactory(createAIPricePredictionStrategy);
 } else {
-  logger.error('StrategyManager: aiPricePredictionStrategy is undefined and cannot be registered.');
+  logger.error('StrategyManager: createAIPricePredictionStrategy is undefined and cannot be registered.');
 }
 
 // Example: Register more strategies if they were imported
@@ -78,10 +181,10 @@ if (aiPricePredictionStrategy) {
 //   registerStrategy(anotherStrategy);
 // }
 
-if (aiSelectorStrategy) {
-  registerStrategy(aiSelectorStrategy);
+if (createAISelectorStrategy) {
+  registerStrategyFactory(createAISelectorStrategy);
 } else {
-  logger.error('StrategyManager: aiSelectorStrategy is undefined and cannot be registered.');
+  logger.error('StrategyManager: createAISelectorStrategy is undefined and cannot be registered.');
 }
 
 logger.info(`StrategyManager: Initialized with ${strategyRegistry.size} strategies.`);
@@ -0,0 +1,35 @@
+// src/strategies/tradeAmount.ts
+// Helpers for the `tradeAmount` parameter shared by the built-in strategies.
+// A tradeAmount of 0 defers sizing to the backtest engine: signals are sent without an amount and the
+// engine sizes them from its positionSizing settings (see src/backtest/positionSizing.ts).
+import type { Portfolio } from '../backtest';
+
+/**
+ * Whether the strategy leaves the order size to the backtest's position sizing.
+ */
+export function defersToPositionSizing(tradeAmount: number): boolean {
+  return !(tradeAmount > 0);
+}
+
+/**
+ * The amount to put on a BUY/SELL signal: the fixed tradeAmount, or undefined to defer to the engine.
+ */
+export function getSignalAmount(tradeAmount: number): number | undefined {
+  return defersToPositionSizing(tradeAmount) ? undefined : tradeAmount;
+}
+
+/**
+ * Whether the portfolio can pay for a BUY. When sizing is deferred, any positive cash balance is enough
+ * (the engine rejects orders it cannot fill).
+ */
+export function canAffordBuy(portfolio: Portfolio, price: number, tradeAmount: number): boolean {
+  return defersToPositionSizing(tradeAmount) ? portfolio.cash > 0 : portfolio.cash >= price * tradeAmount;
+}
+
+/**
+ * Whether the portfolio holds enough units for a SELL. When sizing is deferred, any long position is enough
+ * (the engine then closes it).
+ */
+export function canSell(portfolio: Portfolio, tradeAmount: number): boolean {
+  return defersToPositionSizing(tradeAmount) ? portfolio.shares > 0 : portfolio.shares >= tradeAmount;
+}
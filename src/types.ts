@@ -1,4 +1,18 @@
 // src/types.ts
+import type { CostModelSettings } from './backtest/costModel';
+import type { MarginSettings } from './backtest/margin';
+import type { ExecutionTiming } from './backtest/executionTiming';
+import type { PositionSizingSettings } from './backtest/positionSizing';
+import type { StrategySignal } from './strategies/strategy.types';
+import type { SymbolAttribution } from './backtest/portfolioBacktest';
+import type { BenchmarkResult } from './backtest/benchmark';
+import type { PerformanceReport } from './backtest/analytics';
+import type { LotMatchingMethod, RoundTripTrade as InternalRoundTripTrade } from './backtest/lotMatching';
+import type { ParameterRange } from './backtest/parameterGrid';
+import type { ParameterSweepResult } from './backtest/parameterSweep';
+import type { MonteCarloInput, MonteCarloSettings } from './backtest/monteCarlo';
+import type { ComparisonRunInput, ComparisonSettings } from './backtest/comparison';
+import type { WalkForwardSettings, WalkForwardWindow as InternalWalkForwardWindow, WalkForwardMode, WalkForwardObjective } from './backtest/walkForward';
 
 // Parameters for a trading strategy
 export type TradingStrategyParameters = Record<string, number | string | boolean>;
@@ -13,6 +27,12 @@ export interface BacktestSettingsAPI {
   initialCash: number;
   sourceApi?: string;
   interval?: string;
+  costModel?: CostModelSettings; // Optional fees and slippage applied to every fill
+  margin?: MarginSettings; // Optional short selling / leverage (disabled by default)
+  executionTiming?: ExecutionTiming; // When market signals fill (default SAME_BAR_CLOSE)
+  positionSizing?: PositionSizingSettings; // Sizing for signals without an amount (default: 1 unit)
+  benchmarkSymbol?: string; // Buy-and-hold benchmark symbol (default: the backtested symbol)
+  lotMatching?: LotMatchingMethod; // How exits are matched to entries in roundTrips (default FIFO)
 }
 
 // Structure of a trade (can be refined or imported if defined elsewhere)
@@ -23,6 +43,29 @@ export interface Trade {
   price: number;
   sharesTraded: number;
   cashAfterTrade: number;
+  fees: number;
+  slippage: number;
+  tradeType: 'SIGNAL' | 'LIQUIDATION' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
+  orderId?: string;
+}
+
+// Closed position matched from the fills (aligns with src/backtest/lotMatching.ts RoundTripTrade)
+export interface RoundTripTrade extends Omit<InternalRoundTripTrade, 'entryDate' | 'exitDate'> {
+  entryDate: string; // Date string
+  exitDate: string;  // Date string
+}
+
+// Lifecycle event of a resting limit/stop order (aligns with src/backtest/orderBook.ts OrderEvent)
+export interface OrderEvent {
+  orderId: string;
+  event: 'PLACED' | 'CANCELLED' | 'EXPIRED' | 'FILLED' | 'REJECTED';
+  timestamp: number;
+  date: string; // Date string
+  side: 'BUY' | 'SELL';
+  orderType: 'LIMIT' | 'STOP';
+  quantity: number;
+  price?: number;
+  reason?: string;
 }
 
 // Structure for historical data points (can be refined)
@@ -51,6 +94,10 @@ export interface AIDecision {
   parametersUsed?: Record<string, any> | null;
   evaluationScore?: number | null;
   evaluationMetricUsed?: string | null;
+  reevaluated?: boolean;   // Whether the candidates were ranked on this bar (see reevaluationInterval)
+  switched?: boolean;      // Whether the choice changed to another strategy on this bar
+  switchCount?: number;    // Switches since the start of the run
+  marketRegime?: 'trendingUp' | 'trendingDown' | 'ranging'; // Regime of the evaluation window
 }
 
 
@@ -72,4 +119,148 @@ export interface BacktestResultAPI {
   aiDecisionLog?: AIDecision[];
   sharpeRatio?: number; // Added for Sharpe Ratio
   maxDrawdown?: number; // Added for Maximum Drawdown
+  totalFees: number;
+  totalSlippage: number;
+  totalTransactionCosts: number;
+  totalBorrowInterest?: number;
+  liquidations?: number;
+  orderHistory?: OrderEvent[];
+  executionTiming: ExecutionTiming;
+  droppedFinalBarSignal?: StrategySignal;
+  benchmark?: BenchmarkResult;
+  analytics?: PerformanceReport;
+  roundTrips?: RoundTripTrade[];
+  runId?: string; // Id of the saved run in the history (GET /api/backtest-runs/:id), set for authenticated requests
+}
+
+// Settings for a multi-asset portfolio backtest received by the API (POST /api/backtest/portfolio)
+export interface PortfolioBacktestSettingsAPI {
+  strategyId: string;
+  strategyParams: TradingStrategyParameters;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  initialCash: number;
+  sourceApi?: string;
+  interval?: string;
+  costModel?: CostModelSettings;
+  positionSizing?: PositionSizingSettings;
+  lotMatching?: LotMatchingMethod;
+  margin?: MarginSettings; // Opt-in short positions and leverage, e.g. for the legs of a pairs trade
+}
+
+export interface PortfolioTrade extends Trade {
+  symbol: string;
+}
+
+// Result of a portfolio backtest (aligns with src/backtest/portfolioBacktest.ts PortfolioBacktestResult)
+export interface PortfolioBacktestResultAPI {
+  symbols: string[];
+  startDate: string; // Dates as strings
+  endDate: string;   // Dates as strings
+  initialPortfolioValue: number;
+  finalPortfolioValue: number;
+  totalProfitOrLoss: number;
+  profitOrLossPercentage: number;
+  trades: PortfolioTrade[];
+  totalTrades: number;
+  dataPointsProcessed: number;
+  portfolioHistory: PortfolioHistoryPoint[];
+  sharpeRatio: number;
+  maxDrawdown: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalTransactionCosts: number;
+  finalPositions: Record<string, number>;
+  attribution: SymbolAttribution[];
+  analytics: PerformanceReport;
+  roundTrips: RoundTripTrade[];
+  symbolsWithoutData?: string[];
+  totalBorrowInterest?: number; // Margin mode only
+  liquidations?: number;        // Margin mode only
+}
+
+// Settings for a walk-forward optimization received by the API (POST /api/backtest/walk-forward)
+export interface WalkForwardSettingsAPI {
+  strategyId: string;
+  strategyParams?: TradingStrategyParameters; // Values of the parameters that are not optimized
+  symbol: string;
+  startDate: string;
+  endDate: string;
+  initialCash: number;
+  sourceApi?: string;
+  interval?: string;
+  costModel?: CostModelSettings;
+  margin?: MarginSettings;
+  executionTiming?: ExecutionTiming;
+  positionSizing?: PositionSizingSettings;
+  lotMatching?: LotMatchingMethod; // How round trips are matched, which the winRate objective is computed from
+  walkForward: WalkForwardSettings;
+}
+
+export interface WalkForwardWindow extends Omit<InternalWalkForwardWindow, 'inSampleStart' | 'inSampleEnd' | 'outOfSampleStart' | 'outOfSampleEnd'> {
+  inSampleStart: string; // Date strings
+  inSampleEnd: string;
+  outOfSampleStart: string;
+  outOfSampleEnd: string;
+}
+
+// Result of a walk-forward optimization (aligns with src/backtest/walkForward.ts WalkForwardResult)
+export interface WalkForwardResultAPI {
+  symbol: string;
+  strategyId: string;
+  startDate: string; // Dates as strings
+  endDate: string;   // Dates as strings
+  mode: WalkForwardMode;
+  objective: WalkForwardObjective;
+  combinationsTested: number;
+  initialPortfolioValue: number;
+  finalPortfolioValue: number;
+  outOfSampleReturn: number;
+  walkForwardEfficiency: number | null;
+  windows: WalkForwardWindow[];
+  trades: Trade[];
+  equityCurve: PortfolioHistoryPoint[];
+  analytics: PerformanceReport;
+}
+
+// Settings for a parameter sweep received by the API (POST /api/backtest/sweep)
+export interface ParameterSweepSettingsAPI {
+  strategyId: string;
+  strategyParams?: TradingStrategyParameters; // Values of the parameters that are not swept
+  symbol: string;
+  startDate: string;
+  endDate: string;
+  initialCash: number;
+  sourceApi?: string;
+  interval?: string;
+  costModel?: CostModelSettings;
+  margin?: MarginSettings;
+  executionTiming?: ExecutionTiming;
+  positionSizing?: PositionSizingSettings;
+  lotMatching?: LotMatchingMethod; // How round trips are matched, which winRate, profitFactor and roundTrips are computed from
+  parameterRanges?: Record<string, ParameterRange>; // Default: the min/max/step of the strategy's numeric parameters
+  maxCombinations?: number;
+}
+
+// Result of a parameter sweep (aligns with src/backtest/parameterSweep.ts ParameterSweepResult)
+export interface ParameterSweepResultAPI extends Omit<ParameterSweepResult, 'startDate' | 'endDate'> {
+  startDate: string; // Dates as strings
+  endDate: string;   // Dates as strings
+}
+
+// Request of a Monte Carlo analysis (POST /api/backtest/monte-carlo). backtestResult is a BacktestResultAPI or
+// PortfolioBacktestResultAPI; only initialPortfolioValue, portfolioHistory and roundTrips are read. The response is a
+// MonteCarloResult (src/backtest/monteCarlo.ts), which has no dates.
+export interface MonteCarloRequestAPI {
+  backtestResult: MonteCarloInput;
+  monteCarlo?: MonteCarloSettings;
+}
+
+// Request of a side-by-side comparison (POST /api/backtest/compare). Each run's result is a BacktestResultAPI or
+// PortfolioBacktestResultAPI; only portfolioHistory and trades are read. The response is a ComparisonResult
+// (src/backtest/comparison.ts), which has Unix timestamps instead of dates.
+export interface ComparisonRequestAPI {
+  runs: ComparisonRunInput[];
+  comparison?: ComparisonSettings;
 }
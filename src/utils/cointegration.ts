@@ -0,0 +1,179 @@
+// src/utils/cointegration.ts
+// Ordinary least squares and the Engle-Granger two-step cointegration test, used by the pairs trading strategy to
+// estimate the hedge ratio between two price series and to tell whether their spread is still mean-reverting.
+
+export interface LinearRegressionResult {
+  intercept: number;
+  slope: number;
+  residuals: number[]; // y - (intercept + slope * x)
+}
+
+export type CointegrationSignificance = 0.01 | 0.05 | 0.1;
+
+export interface EngleGrangerResult {
+  hedgeRatio: number;     // Slope of y on x
+  intercept: number;
+  residuals: number[];    // The spread y - intercept - hedgeRatio * x
+  adfStatistic: number;   // Augmented Dickey-Fuller t-statistic of the residuals
+  criticalValue: number;  // At the requested significance, for the number of observations
+  isCointegrated: boolean; // adfStatistic < criticalValue
+}
+
+// MacKinnon (2010) response surface for the Engle-Granger test with two variables and a constant:
+// critical value = tauInf + tau1 / T + tau2 / T^2
+const ENGLE_GRANGER_CRITICAL_VALUES: Record<CointegrationSignificance, [number, number, number]> = {
+  0.01: [-3.89644, -10.9519, -22.527],
+  0.05: [-3.33613, -6.1101, -6.823],
+  0.1: [-3.04445, -4.2412, -2.72],
+};
+
+/**
+ * Fits y = intercept + slope * x by ordinary least squares.
+ * @param x - Independent values.
+ * @param y - Dependent values, as many as x.
+ * @returns The coefficients and residuals, or null if the series differ in length, have fewer than two points or
+ * x is constant.
+ */
+export function linearRegression(x: number[], y: number[]): LinearRegressionResult | null {
+  const n = x.length;
+  if (n < 2 || y.length !== n) {
+    return null;
+  }
+  const meanX = x.reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+  }
+  if (varianceX === 0) {
+    return null;
+  }
+  const slope = covariance / varianceX;
+  const intercept = meanY - slope * meanX;
+  return { intercept, slope, residuals: y.map((value, i) => value - intercept - slope * x[i]) };
+}
+
+// Solves A b = c for a small system by Gaussian elimination with partial pivoting; null if A is singular
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const size = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      return null;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = col + 1; row < size; row++) {
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= size; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  const solution: number[] = Array(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let value = rows[row][size];
+    for (let k = row + 1; k < size; k++) value -= rows[row][k] * solution[k];
+    solution[row] = value / rows[row][row];
+  }
+  return solution;
+}
+
+// Inverts a small matrix column by column; null if it is singular
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const columns: number[][] = [];
+  for (let col = 0; col < size; col++) {
+    const column = solveLinearSystem(matrix, Array.from({ length: size }, (_, i) => (i === col ? 1 : 0)));
+    if (!column) return null;
+    columns.push(column);
+  }
+  return columns[0].map((_, row) => columns.map(column => column[row]));
+}
+
+/**
+ * Augmented Dickey-Fuller t-statistic of a series without constant or trend, as used on cointegration residuals:
+ * the t-statistic of gamma in diff(e)[t] = gamma * e[t-1] + sum of phi[j] * diff(e)[t-j] for j = 1..lags.
+ * The more negative, the stronger the evidence that the series is mean-reverting.
+ * @param series - The series to test (e.g. regression residuals).
+ * @param lags - Number of lagged differences.
+ * @returns The statistic, or NaN if the series is too short or degenerate.
+ */
+export function calculateADFStatistic(series: number[], lags: number = 1): number {
+  const diffs = series.slice(1).map((value, i) => value - series[i]);
+  const observations = diffs.length - lags;
+  const regressorCount = lags + 1;
+  if (lags < 0 || observations <= regressorCount + 1) {
+    return NaN;
+  }
+
+  // Rows: [e[t-1], diff[t-1], ..., diff[t-lags]] explaining diff[t], for t = lags..diffs.length-1 (diff indices)
+  const xtx: number[][] = Array.from({ length: regressorCount }, () => Array(regressorCount).fill(0));
+  const xty: number[] = Array(regressorCount).fill(0);
+  const rows: number[][] = [];
+  const targets: number[] = [];
+  for (let t = lags; t < diffs.length; t++) {
+    const row = [series[t], ...Array.from({ length: lags }, (_, j) => diffs[t - 1 - j])];
+    rows.push(row);
+    targets.push(diffs[t]);
+    for (let a = 0; a < regressorCount; a++) {
+      xty[a] += row[a] * diffs[t];
+      for (let b = 0; b < regressorCount; b++) xtx[a][b] += row[a] * row[b];
+    }
+  }
+
+  const coefficients = solveLinearSystem(xtx, xty);
+  const inverse = invertMatrix(xtx);
+  if (!coefficients || !inverse) {
+    return NaN;
+  }
+  const sumOfSquaredErrors = rows.reduce((sum, row, i) => {
+    const fitted = row.reduce((value, regressor, k) => value + regressor * coefficients[k], 0);
+    return sum + (targets[i] - fitted) ** 2;
+  }, 0);
+  const residualVariance = sumOfSquaredErrors / (observations - regressorCount);
+  const standardError = Math.sqrt(residualVariance * inverse[0][0]);
+  return standardError > 0 ? coefficients[0] / standardError : NaN;
+}
+
+/**
+ * Critical value of the Engle-Granger test (two series, with constant) for a number of observations.
+ */
+export function getEngleGrangerCriticalValue(observations: number, significance: CointegrationSignificance = 0.05): number {
+  const [tauInf, tau1, tau2] = ENGLE_GRANGER_CRITICAL_VALUES[significance];
+  return tauInf + tau1 / observations + tau2 / observations ** 2;
+}
+
+/**
+ * Engle-Granger two-step cointegration test of y and x: regresses y on x by OLS, then tests the residuals for a unit
+ * root with the ADF statistic. The series are cointegrated when the statistic is below the critical value.
+ * @param y - Dependent price series.
+ * @param x - Independent price series, aligned with y.
+ * @param significance - Significance level of the test.
+ * @param lags - Lagged differences in the ADF regression.
+ * @returns The test result, or null if the regression cannot be fitted.
+ */
+export function engleGrangerTest(
+  y: number[],
+  x: number[],
+  significance: CointegrationSignificance = 0.05,
+  lags: number = 1
+): EngleGrangerResult | null {
+  const regression = linearRegression(x, y);
+  if (!regression) {
+    return null;
+  }
+  const adfStatistic = calculateADFStatistic(regression.residuals, lags);
+  const criticalValue = getEngleGrangerCriticalValue(y.length, significance);
+  return {
+    hedgeRatio: regression.slope,
+    intercept: regression.intercept,
+    residuals: regression.residuals,
+    adfStatistic,
+    criticalValue,
+    isCointegrated: !isNaN(adfStatistic) && adfStatistic < criticalValue,
+  };
+}
@@ -0,0 +1,65 @@
+// src/utils/intervals.ts
+// Helpers for converting bar interval strings (as stored in financial_data.interval) into durations.
+
+const SECONDS_PER_MINUTE = 60;
+const SECONDS_PER_HOUR = 60 * SECONDS_PER_MINUTE;
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+export const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+// Bars per year assumed when the interval is unknown: daily bars of an exchange-traded market.
+export const DEFAULT_BARS_PER_YEAR = 252;
+
+/**
+ * Parses an interval string such as '1m', '5min', '1h', '4h', '1d', '1w' or '1M' into seconds.
+ * Note that 'm' is minutes and 'M' is months (Binance convention).
+ * @param interval - The interval string.
+ * @returns The duration of one bar in seconds, or null if the interval is missing or unrecognised.
+ */
+export function getIntervalSeconds(interval?: string): number | null {
+  if (!interval) return null;
+  const match = interval.trim().match(/^(\d+)\s*(min|m|h|d|w|M)$/);
+  if (!match) return null;
+
+  const count = parseInt(match[1], 10);
+  if (count <= 0) return null;
+
+  switch (match[2]) {
+    case 'm':
+    case 'min':
+      return count * SECONDS_PER_MINUTE;
+    case 'h':
+      return count * SECONDS_PER_HOUR;
+    case 'd':
+      return count * SECONDS_PER_DAY;
+    case 'w':
+      return count * 7 * SECONDS_PER_DAY;
+    case 'M':
+      return count * (SECONDS_PER_YEAR / 12);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the number of bars in a year for an interval, assuming a market that trades around
+ * the clock (365 days a year), e.g. 8760 for '1h' crypto bars.
+ * @param interval - The interval string.
+ * @returns Bars per year, or DEFAULT_BARS_PER_YEAR when the interval is unknown.
+ */
+export function getBarsPerYear(interval?: string): number {
+  const seconds = getIntervalSeconds(interval);
+  if (!seconds) return DEFAULT_BARS_PER_YEAR;
+  return SECONDS_PER_YEAR / seconds;
+}
+
+/**
+ * Infers the number of bars in a year from the median spacing of timestamps, for data whose interval is not known
+ * (e.g. an equity curve received from a client).
+ * @param points - Points with Unix timestamps in seconds, in chronological order.
+ * @returns Bars per year, or DEFAULT_BARS_PER_YEAR with fewer than two distinct timestamps.
+ */
+export function inferBarsPerYear(points: { timestamp: number }[]): number {
+  const gaps = points.slice(1).map((point, k) => point.timestamp - points[k].timestamp).filter(gap => gap > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return DEFAULT_BARS_PER_YEAR;
+  return SECONDS_PER_YEAR / gaps[Math.floor(gaps.length / 2)];
+}
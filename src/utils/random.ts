@@ -0,0 +1,25 @@
+// src/utils/random.ts
+// Seeded pseudo-random numbers, so that randomized searches and simulations can be reproduced.
+
+/**
+ * Creates a pseudo-random number generator (mulberry32) from a seed.
+ * @param seed - Any number; it is truncated to a 32-bit integer.
+ * @returns A function returning numbers in [0, 1), like Math.random.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A random seed for callers that were not given one; report it so the run can be repeated.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
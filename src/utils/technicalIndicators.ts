@@ -237,3 +237,174 @@ export function calculateMACD(
 
   return { macdLine, signalLine, histogram };
 }
+
+/**
+ * Calculates the Average True Range (ATR) using Wilder's smoothing.
+ * The true range of the first bar is its high - low; later bars also consider the gap from the previous close.
+ * @param highs - An array of high prices.
+ * @param lows - An array of low prices.
+ * @param closes - An array of closing prices.
+ * @param period - The ATR period (typically 14).
+ * @returns An array of ATR values, padded with NaN at the beginning.
+ */
+export function calculateATR(highs: number[], lows: number[], closes: number[], period: number): number[] {
+  const length = closes.length;
+  const atrValues: number[] = Array(length).fill(NaN);
+  if (period <= 0 || highs.length !== length || lows.length !== length || length < period) {
+    return atrValues;
+  }
+
+  const trueRanges: number[] = highs.map((high, i) => {
+    const range = high - lows[i];
+    if (i === 0) return range;
+    return Math.max(range, Math.abs(high - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]));
+  });
+
+  let atr = trueRanges.slice(0, period).reduce((sum, tr) => sum + tr, 0) / period;
+  atrValues[period - 1] = atr;
+  for (let i = period; i < length; i++) {
+    atr = (atr * (period - 1) + trueRanges[i]) / period;
+    atrValues[i] = atr;
+  }
+  return atrValues;
+}
+
+/**
+ * Calculates support and resistance levels from fractal swing points. A bar is a swing high (low) when its high (low)
+ * is strictly above (below) that of the `strength` bars on each side, so it is only confirmed `strength` bars later.
+ * The level at a bar is the most recent swing point confirmed by that bar and at most `lookback` bars old.
+ * @param highs - An array of high prices.
+ * @param lows - An array of low prices.
+ * @param strength - Number of bars on each side of a swing point.
+ * @param lookback - Maximum age, in bars, of the swing point a level comes from.
+ * @returns Support (swing lows) and resistance (swing highs) arrays, NaN where no swing point is in range.
+ */
+export function calculateFractalLevels(
+  highs: number[],
+  lows: number[],
+  strength: number,
+  lookback: number
+): { support: number[]; resistance: number[] } {
+  const length = highs.length;
+  const support: number[] = Array(length).fill(NaN);
+  const resistance: number[] = Array(length).fill(NaN);
+  if (strength < 1 || lookback < 1 || lows.length !== length) {
+    return { support, resistance };
+  }
+
+  const isSwing = (values: number[], j: number, beats: (value: number, other: number) => boolean): boolean => {
+    for (let k = 1; k <= strength; k++) {
+      if (!beats(values[j], values[j - k]) || !beats(values[j], values[j + k])) return false;
+    }
+    return true;
+  };
+
+  let lastSwingHigh = -1;
+  let lastSwingLow = -1;
+  for (let i = 2 * strength; i < length; i++) {
+    const candidate = i - strength; // Its right-hand bars are complete at bar i
+    if (isSwing(highs, candidate, (value, other) => value > other)) lastSwingHigh = candidate;
+    if (isSwing(lows, candidate, (value, other) => value < other)) lastSwingLow = candidate;
+
+    if (lastSwingHigh >= 0 && i - lastSwingHigh <= lookback) resistance[i] = highs[lastSwingHigh];
+    if (lastSwingLow >= 0 && i - lastSwingLow <= lookback) support[i] = lows[lastSwingLow];
+  }
+  return { support, resistance };
+}
+
+/**
+ * Calculates rolling floor-trader pivot levels. The pivot of a bar comes from the `period` bars before it:
+ * P = (highest high + lowest low + last close) / 3, support S1 = 2P - highest high, resistance R1 = 2P - lowest low.
+ * @param highs - An array of high prices.
+ * @param lows - An array of low prices.
+ * @param closes - An array of closing prices.
+ * @param period - Number of previous bars the pivot is computed from.
+ * @returns Pivot, support and resistance arrays, padded with NaN at the beginning.
+ */
+export function calculatePivotLevels(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number
+): { pivot: number[]; support: number[]; resistance: number[] } {
+  const length = closes.length;
+  const pivot: number[] = Array(length).fill(NaN);
+  const support: number[] = Array(length).fill(NaN);
+  const resistance: number[] = Array(length).fill(NaN);
+  if (period <= 0 || highs.length !== length || lows.length !== length) {
+    return { pivot, support, resistance };
+  }
+
+  for (let i = period; i < length; i++) {
+    const highest = Math.max(...highs.slice(i - period, i));
+    const lowest = Math.min(...lows.slice(i - period, i));
+    const p = (highest + lowest + closes[i - 1]) / 3;
+    pivot[i] = p;
+    support[i] = 2 * p - highest;
+    resistance[i] = 2 * p - lowest;
+  }
+  return { pivot, support, resistance };
+}
+
+/**
+ * Calculates Donchian channels: the highest high and lowest low of the `period` bars before each bar.
+ * The current bar is left out, so a close above the upper channel is a breakout of the previous range.
+ * @param highs - An array of high prices.
+ * @param lows - An array of low prices.
+ * @param period - Number of previous bars in the channel (typically 20).
+ * @returns Upper, middle and lower channel arrays, padded with NaN at the beginning.
+ */
+export function calculateDonchianChannels(
+  highs: number[],
+  lows: number[],
+  period: number
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const length = highs.length;
+  const upper: number[] = Array(length).fill(NaN);
+  const middle: number[] = Array(length).fill(NaN);
+  const lower: number[] = Array(length).fill(NaN);
+  if (period <= 0 || lows.length !== length) {
+    return { upper, middle, lower };
+  }
+
+  for (let i = period; i < length; i++) {
+    upper[i] = Math.max(...highs.slice(i - period, i));
+    lower[i] = Math.min(...lows.slice(i - period, i));
+    middle[i] = (upper[i] + lower[i]) / 2;
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * Calculates Keltner channels: an EMA of the closes with bands a multiple of the ATR above and below it.
+ * @param highs - An array of high prices.
+ * @param lows - An array of low prices.
+ * @param closes - An array of closing prices.
+ * @param emaPeriod - The period of the middle line EMA (typically 20).
+ * @param atrPeriod - The ATR period (typically 10).
+ * @param multiplier - Band distance from the middle line, in ATRs (typically 2).
+ * @returns Upper, middle and lower band arrays, NaN until both the EMA and the ATR are available.
+ */
+export function calculateKeltnerChannels(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  emaPeriod: number,
+  atrPeriod: number,
+  multiplier: number
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = calculateEMA(closes, emaPeriod);
+  const atr = calculateATR(highs, lows, closes, atrPeriod);
+  const upper: number[] = Array(closes.length).fill(NaN);
+  const lower: number[] = Array(closes.length).fill(NaN);
+
+  for (let i = 0; i < closes.length; i++) {
+    if (isNaN(middle[i]) || isNaN(atr[i])) {
+      middle[i] = NaN;
+      continue;
+    }
+    upper[i] = middle[i] + multiplier * atr[i];
+    lower[i] = middle[i] - multiplier * atr[i];
+  }
+  return { upper, middle, lower };
+}
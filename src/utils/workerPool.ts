@@ -0,0 +1,209 @@
+// src/utils/workerPool.ts
+// A fixed-size pool of worker threads that all run one script. Tasks are handed to idle workers in submission order
+// and each worker runs one task at a time; the script answers them with serveWorkerTasks. A running task can post
+// messages to its caller (e.g. progress) and be asked to cancel. Workers are started on demand, replaced when they
+// crash, and do not keep the process alive while idle.
+
+import path from 'path';
+import { Worker, parentPort } from 'worker_threads';
+import logger from './logger';
+
+type TaskMessage<TTask> = { id: number; task: TTask } | { id: number; cancel: true };
+
+type ResultMessage<TResult, TMessage> =
+  | { id: number; result: TResult }
+  | { id: number; error: string }
+  | { id: number; message: TMessage };
+
+export interface WorkerTaskOptions<TMessage> {
+  onMessage?: (message: TMessage) => void; // Called with each message the task posts while it runs
+  signal?: AbortSignal; // Aborting drops a queued task, or asks the worker to cancel a running one
+}
+
+// What a task handler gets besides its task
+export interface WorkerTaskContext<TMessage> {
+  signal: AbortSignal; // Aborted when the caller cancels the task
+  postMessage: (message: TMessage) => void;
+}
+
+interface PendingTask<TTask, TResult, TMessage> {
+  id: number;
+  task: TTask;
+  options: WorkerTaskOptions<TMessage>;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker<TTask, TResult, TMessage> {
+  worker: Worker;
+  current: PendingTask<TTask, TResult, TMessage> | null;
+}
+
+// A TypeScript script (when running under ts-node or ts-jest) is compiled in the worker; built scripts are JavaScript
+const createWorker = (scriptPath: string): Worker => {
+  if (path.extname(scriptPath) === '.ts') {
+    return new Worker(`require('ts-node/register/transpile-only'); require(${JSON.stringify(scriptPath)});`, { eval: true });
+  }
+  return new Worker(scriptPath);
+};
+
+export class WorkerPool<TTask, TResult, TMessage = never> {
+  private readonly workers: PoolWorker<TTask, TResult, TMessage>[] = [];
+  private readonly queue: PendingTask<TTask, TResult, TMessage>[] = [];
+  private nextTaskId = 1;
+  private closed = false;
+
+  /**
+   * @param scriptPath - Absolute path of the worker script.
+   * @param size - Maximum number of workers.
+   */
+  constructor(private readonly scriptPath: string, readonly size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`WorkerPool: size must be a positive integer, got ${size}.`);
+    }
+  }
+
+  /**
+   * Runs a task on the next idle worker. Rejects with the error thrown by the worker's handler, or if the worker dies.
+   * A task aborted while queued is rejected with the signal's reason; a running one once its handler gives up.
+   */
+  run(task: TTask, options: WorkerTaskOptions<TMessage> = {}): Promise<TResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('WorkerPool: the pool is closed.'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+    return new Promise<TResult>((resolve, reject) => {
+      const pending: PendingTask<TTask, TResult, TMessage> = { id: this.nextTaskId++, task, options, resolve, reject };
+      const onAbort = () => this.cancel(pending);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      pending.resolve = result => {
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      pending.reject = error => {
+        options.signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      };
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops every worker. Queued and running tasks are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('WorkerPool: the pool was closed.');
+    this.queue.splice(0).forEach(pending => pending.reject(error));
+    const workers = this.workers.splice(0);
+    workers.forEach(poolWorker => poolWorker.current?.reject(error));
+    await Promise.all(workers.map(poolWorker => poolWorker.worker.terminate()));
+  }
+
+  private cancel(pending: PendingTask<TTask, TResult, TMessage>): void {
+    const queueIndex = this.queue.indexOf(pending);
+    if (queueIndex >= 0) {
+      this.queue.splice(queueIndex, 1);
+      pending.reject(pending.options.signal?.reason);
+      return;
+    }
+    this.workers
+      .find(poolWorker => poolWorker.current === pending)
+      ?.worker.postMessage({ id: pending.id, cancel: true } as TaskMessage<TTask>);
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker = this.workers.find(candidate => candidate.current === null);
+      if (!poolWorker) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        poolWorker = this.startWorker();
+      }
+      const pending = this.queue.shift()!;
+      poolWorker.current = pending;
+      poolWorker.worker.ref();
+      poolWorker.worker.postMessage({ id: pending.id, task: pending.task } as TaskMessage<TTask>);
+    }
+  }
+
+  private startWorker(): PoolWorker<TTask, TResult, TMessage> {
+    const poolWorker: PoolWorker<TTask, TResult, TMessage> = { worker: createWorker(this.scriptPath), current: null };
+
+    poolWorker.worker.on('message', (message: ResultMessage<TResult, TMessage>) => {
+      const pending = poolWorker.current;
+      if (!pending || pending.id !== message.id) {
+        return;
+      }
+      if ('message' in message) {
+        pending.options.onMessage?.(message.message);
+        return;
+      }
+      poolWorker.current = null;
+      poolWorker.worker.unref();
+      if ('error' in message) {
+        pending.reject(new Error(message.error));
+      } else {
+        pending.resolve(message.result);
+      }
+      this.dispatch();
+    });
+
+    // A worker that crashed is dropped with its task; the next task starts a new one
+    const onFailure = (error: Error) => {
+      const index = this.workers.indexOf(poolWorker);
+      if (index < 0) {
+        return; // Already dropped, or the pool was closed
+      }
+      this.workers.splice(index, 1);
+      logger.error(`WorkerPool: worker of ${path.basename(this.scriptPath)} stopped: ${error.message}`);
+      poolWorker.current?.reject(error);
+      poolWorker.current = null;
+      this.dispatch();
+    };
+    poolWorker.worker.on('error', onFailure);
+    poolWorker.worker.on('exit', code => onFailure(new Error(`Worker exited with code ${code}.`)));
+
+    poolWorker.worker.unref();
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+}
+
+/**
+ * Answers the tasks of a WorkerPool. Called once by the worker script.
+ * @param handler - Runs one task; what it throws is reported to the caller of WorkerPool.run. Its context posts
+ * messages to the caller and is aborted when the caller cancels the task.
+ */
+export function serveWorkerTasks<TTask, TResult, TMessage = never>(
+  handler: (task: TTask, context: WorkerTaskContext<TMessage>) => Promise<TResult> | TResult
+): void {
+  const port = parentPort;
+  if (!port) {
+    throw new Error('serveWorkerTasks must be called from a worker thread.');
+  }
+  const controllers = new Map<number, AbortController>();
+  port.on('message', async (taskMessage: TaskMessage<TTask>) => {
+    const { id } = taskMessage;
+    if ('cancel' in taskMessage) {
+      controllers.get(id)?.abort(new Error('The task was cancelled.'));
+      return;
+    }
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const postMessage = (message: TMessage) => port.postMessage({ id, message } as ResultMessage<TResult, TMessage>);
+    let result: ResultMessage<TResult, TMessage>;
+    try {
+      result = { id, result: await handler(taskMessage.task, { signal: controller.signal, postMessage }) };
+    } catch (error) {
+      result = { id, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      controllers.delete(id);
+    }
+    port.postMessage(result);
+  });
+}
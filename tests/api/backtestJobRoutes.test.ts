@@ -0,0 +1,214 @@
+// tests/api/backtestJobRoutes.test.ts
+import request from 'supertest';
+import { createApp } from '../../src/index';
+import { db, initializeSchema } from '../../src/database';
+import { runBacktest, BacktestOptions, BacktestResult } from '../../src/backtest/index';
+import * as backtestJobService from '../../src/services/backtestJobService';
+import * as backtestJobQueue from '../../src/services/backtestJobQueue';
+import logger from '../../src/utils/logger';
+
+jest.mock('../../src/backtest/index', () => ({
+  ...jest.requireActual('../../src/backtest/index'),
+  runBacktest: jest.fn(),
+}));
+
+jest.spyOn(logger, 'info').mockImplementation(() => logger);
+jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+jest.spyOn(logger, 'error').mockImplementation(() => logger);
+
+const mockedRunBacktest = runBacktest as jest.MockedFunction<typeof runBacktest>;
+
+let app: any;
+let authToken: string;
+let otherAuthToken: string;
+
+const backtestRequest = {
+  strategyId: 'macd-crossover',
+  strategyParams: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  symbol: 'BTCUSDT',
+  startDate: '2023-01-01',
+  endDate: '2023-06-30',
+  initialCash: 10000,
+};
+
+const backtestResult = {
+  symbol: 'BTCUSDT',
+  startDate: new Date('2023-01-01'),
+  endDate: new Date('2023-06-30'),
+  initialPortfolioValue: 10000,
+  finalPortfolioValue: 10500,
+  totalProfitOrLoss: 500,
+  profitOrLossPercentage: 5,
+  trades: [],
+  totalTrades: 0,
+  dataPointsProcessed: 2,
+  portfolioHistory: [{ timestamp: 1672531200, value: 10000 }, { timestamp: 1688083200, value: 10500 }],
+  totalFees: 0,
+  totalSlippage: 0,
+  totalTransactionCosts: 0,
+  executionTiming: 'SAME_BAR_CLOSE',
+} as BacktestResult;
+
+const registerAndLogin = async (email: string): Promise<string> => {
+  await request(app).post('/api/auth/register').send({ email, password: 'Password123!' });
+  const loginRes = await request(app).post('/api/auth/login').send({ email, password: 'Password123!' });
+  return loginRes.body.token;
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+const waitForStatus = async (jobId: string, status: string): Promise<void> =>
+  waitFor(() => backtestJobService.getBacktestJobById(jobId)?.status === status);
+
+const firstTrade = {
+  timestamp: 1672531200,
+  date: new Date('2023-01-01'),
+  action: 'BUY',
+  price: 100,
+  sharesTraded: 1,
+  cashAfterTrade: 9900,
+  fees: 0,
+  slippage: 0,
+  tradeType: 'SIGNAL',
+} as BacktestResult['trades'][number];
+
+// Runs two bars, reporting progress, and waits for release() before the second
+const createControlledRun = () => {
+  let release: () => void = () => undefined;
+  const released = new Promise<void>(resolve => { release = resolve; });
+  mockedRunBacktest.mockImplementation(async (...args: Parameters<typeof runBacktest>) => {
+    const options = args[8] as BacktestOptions;
+    await options.onProgress!({ barsProcessed: 1, totalBars: 2, portfolioHistory: [backtestResult.portfolioHistory![0]], trades: [firstTrade] });
+    await Promise.race([
+      released,
+      new Promise((_, reject) => options.signal!.addEventListener('abort', () => reject(options.signal!.reason))),
+    ]);
+    await options.onProgress!({ barsProcessed: 2, totalBars: 2, portfolioHistory: [backtestResult.portfolioHistory![1]], trades: [] });
+    return backtestResult;
+  });
+  return () => release();
+};
+
+beforeAll(async () => {
+  app = createApp();
+  initializeSchema();
+  authToken = await registerAndLogin('backtestjobs-user@example.com');
+  otherAuthToken = await registerAndLogin('backtestjobs-other@example.com');
+});
+
+beforeEach(() => {
+  db.exec('DELETE FROM backtest_jobs;');
+  db.exec('DELETE FROM backtest_runs;');
+  mockedRunBacktest.mockReset();
+  mockedRunBacktest.mockResolvedValue(backtestResult);
+});
+
+describe('Backtest Job API Endpoints (/api/backtest-jobs)', () => {
+  it('should queue a job, run it in the background and return its result', async () => {
+    const submitted = await request(app).post('/api/backtest-jobs').send(backtestRequest);
+    expect(submitted.status).toBe(202);
+    expect(submitted.body).toMatchObject({ status: 'queued', user_id: null, settings: backtestRequest, bars_processed: 0 });
+    expect(submitted.body.result).toBeUndefined();
+
+    await waitForStatus(submitted.body.id, 'completed');
+    const job = await request(app).get(`/api/backtest-jobs/${submitted.body.id}`);
+    expect(job.status).toBe(200);
+    expect(job.body.result).toMatchObject({ startDate: '2023-01-01', finalPortfolioValue: 10500 });
+    expect(job.body.finished_at).toEqual(expect.any(Number));
+    expect(mockedRunBacktest.mock.calls[0][8]).toMatchObject({ signal: expect.any(AbortSignal), onProgress: expect.any(Function) });
+  });
+
+  it('should reject invalid requests', async () => {
+    const response = await request(app).post('/api/backtest-jobs').send({ ...backtestRequest, endDate: '2022-12-31' });
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('End date must be after start date.');
+
+    const pairs = await request(app).post('/api/backtest-jobs').send({ ...backtestRequest, strategyId: 'pairs-trading', strategyParams: {} });
+    expect(pairs.status).toBe(400);
+    expect(pairs.body.message).toMatch(/^Strategy 'pairs-trading' trades several symbols together and only runs in a portfolio backtest/);
+  });
+
+  it('should save the run of an authenticated user and keep the job private', async () => {
+    const submitted = await request(app).post('/api/backtest-jobs').set('Authorization', `Bearer ${authToken}`).send(backtestRequest);
+    await waitForStatus(submitted.body.id, 'completed');
+
+    const job = await request(app).get(`/api/backtest-jobs/${submitted.body.id}`).set('Authorization', `Bearer ${authToken}`);
+    expect(job.body.result.runId).toEqual(expect.any(String));
+
+    const list = await request(app).get('/api/backtest-jobs').set('Authorization', `Bearer ${authToken}`);
+    expect(list.body.map((listed: any) => listed.id)).toEqual([submitted.body.id]);
+
+    const anonymous = await request(app).get(`/api/backtest-jobs/${submitted.body.id}`);
+    expect(anonymous.status).toBe(404);
+    const other = await request(app).post(`/api/backtest-jobs/${submitted.body.id}/cancel`).set('Authorization', `Bearer ${otherAuthToken}`);
+    expect(other.status).toBe(404);
+  });
+
+  it('should report progress and cancel a running job', async () => {
+    createControlledRun();
+    const submitted = await request(app).post('/api/backtest-jobs').send(backtestRequest);
+    await waitFor(() => backtestJobService.getBacktestJobById(submitted.body.id)?.bars_processed === 1);
+
+    const running = await request(app).get(`/api/backtest-jobs/${submitted.body.id}`);
+    expect(running.body).toMatchObject({ status: 'running', bars_processed: 1, total_bars: 2 });
+
+    const cancelled = await request(app).post(`/api/backtest-jobs/${submitted.body.id}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.status).toBe('cancelled');
+    // The run stops once aborted; the job stays cancelled
+    await expect(mockedRunBacktest.mock.results[0].value).rejects.toBeDefined();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(backtestJobService.getBacktestJobById(submitted.body.id)).toMatchObject({ status: 'cancelled', result: null });
+    const again = await request(app).post(`/api/backtest-jobs/${submitted.body.id}/cancel`);
+    expect(again.status).toBe(409);
+  });
+
+  it('should stream job updates until the job finishes', async () => {
+    const release = createControlledRun();
+    const subscribe = jest.spyOn(backtestJobQueue, 'subscribeToBacktestJob');
+    const submitted = await request(app).post('/api/backtest-jobs').send(backtestRequest);
+    await waitForStatus(submitted.body.id, 'running');
+
+    const stream = request(app)
+      .get(`/api/backtest-jobs/${submitted.body.id}/events`)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.on('data', (chunk: Buffer) => { text += chunk.toString(); });
+        res.on('end', () => callback(null, text));
+      })
+      .then(response => response);
+    await waitFor(() => subscribe.mock.calls.length > 0);
+    release();
+
+    const response = await stream;
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = (response.body as string).trim().split('\n\n').map(event => {
+      const [typeLine, dataLine] = event.split('\n');
+      return { type: typeLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+    expect(events[0]).toMatchObject({ type: 'job', data: { status: 'running', bars_processed: 1 } });
+    // Everything so far when the stream opens, then what each batch of bars added
+    const progress = events.filter(event => event.type === 'progress').map(event => event.data);
+    expect(progress[0]).toMatchObject({ barsProcessed: 1, portfolioHistory: [{ value: 10000 }], trades: [{ date: '2023-01-01', action: 'BUY' }] });
+    expect(progress[1]).toMatchObject({ barsProcessed: 2, portfolioHistory: [{ value: 10500 }], trades: [] });
+    expect(events[events.length - 1]).toMatchObject({ type: 'job', data: { status: 'completed', bars_processed: 2 } });
+    expect(backtestJobQueue.getBacktestJobProgress(submitted.body.id)).toBeNull();
+    subscribe.mockRestore();
+  });
+
+  it('should resume jobs that were interrupted by a restart', async () => {
+    const interrupted = backtestJobService.createBacktestJob(backtestRequest, null);
+    backtestJobService.updateBacktestJob(interrupted.id, { status: 'running', bars_processed: 50, total_bars: 100 });
+
+    expect(backtestJobQueue.resumeBacktestJobs()).toBe(1);
+    await waitForStatus(interrupted.id, 'completed');
+    expect(mockedRunBacktest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,126 @@
+// tests/api/backtestRunRoutes.test.ts
+import request from 'supertest';
+import { createApp } from '../../src/index';
+import { db, initializeSchema } from '../../src/database';
+import { runBacktest } from '../../src/backtest/index';
+import logger from '../../src/utils/logger';
+
+jest.mock('../../src/backtest/index', () => ({
+  ...jest.requireActual('../../src/backtest/index'),
+  runBacktest: jest.fn(),
+}));
+
+jest.spyOn(logger, 'info').mockImplementation(() => logger);
+jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+jest.spyOn(logger, 'error').mockImplementation(() => logger);
+
+const mockedRunBacktest = runBacktest as jest.MockedFunction<typeof runBacktest>;
+
+let app: any;
+let authToken: string;
+let otherAuthToken: string;
+
+const backtestRequest = {
+  strategyId: 'macd-crossover',
+  strategyParams: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  symbol: 'BTCUSDT',
+  startDate: '2023-01-01',
+  endDate: '2023-06-30',
+  initialCash: 10000,
+};
+
+const registerAndLogin = async (email: string): Promise<string> => {
+  await request(app).post('/api/auth/register').send({ email, password: 'Password123!' });
+  const loginRes = await request(app).post('/api/auth/login').send({ email, password: 'Password123!' });
+  return loginRes.body.token;
+};
+
+beforeAll(async () => {
+  app = createApp();
+  initializeSchema();
+  authToken = await registerAndLogin('backtestruns-user@example.com');
+  otherAuthToken = await registerAndLogin('backtestruns-other@example.com');
+});
+
+beforeEach(() => {
+  db.exec('DELETE FROM backtest_runs;');
+  mockedRunBacktest.mockResolvedValue({
+    symbol: 'BTCUSDT',
+    startDate: new Date('2023-01-01'),
+    endDate: new Date('2023-06-30'),
+    initialPortfolioValue: 10000,
+    finalPortfolioValue: 10500,
+    totalProfitOrLoss: 500,
+    profitOrLossPercentage: 5,
+    trades: [],
+    totalTrades: 0,
+    dataPointsProcessed: 2,
+    portfolioHistory: [{ timestamp: 1672531200, value: 10000 }, { timestamp: 1688083200, value: 10500 }],
+    totalFees: 0,
+    totalSlippage: 0,
+    totalTransactionCosts: 0,
+    executionTiming: 'SAME_BAR_CLOSE',
+  } as any);
+});
+
+describe('Backtest Run API Endpoints (/api/backtest-runs)', () => {
+  it('should save the runs of authenticated users only', async () => {
+    const anonymous = await request(app).post('/api/backtest').send(backtestRequest);
+    expect(anonymous.status).toBe(200);
+    expect(anonymous.body.runId).toBeUndefined();
+
+    const authenticated = await request(app).post('/api/backtest').set('Authorization', `Bearer ${authToken}`).send(backtestRequest);
+    expect(authenticated.status).toBe(200);
+    expect(authenticated.body.runId).toEqual(expect.any(String));
+
+    const run = await request(app).get(`/api/backtest-runs/${authenticated.body.runId}`).set('Authorization', `Bearer ${authToken}`);
+    expect(run.status).toBe(200);
+    expect(run.body).toMatchObject({
+      strategy_id: 'macd-crossover',
+      strategy_version: '1.0.0',
+      symbol: 'BTCUSDT',
+      settings: backtestRequest,
+      metrics: { finalPortfolioValue: 10500, totalProfitOrLoss: 500 },
+      equity_curve: [{ timestamp: 1672531200, value: 10000 }, { timestamp: 1688083200, value: 10500 }],
+      tags: [],
+      notes: null,
+    });
+
+    const invalidToken = await request(app).post('/api/backtest').set('Authorization', 'Bearer not-a-token').send(backtestRequest);
+    expect(invalidToken.status).toBe(403);
+  });
+
+  it('should require authentication and hide the runs of other users', async () => {
+    const saved = await request(app).post('/api/backtest').set('Authorization', `Bearer ${authToken}`).send(backtestRequest);
+
+    expect((await request(app).get('/api/backtest-runs')).status).toBe(401);
+    const otherList = await request(app).get('/api/backtest-runs').set('Authorization', `Bearer ${otherAuthToken}`);
+    expect(otherList.body).toEqual([]);
+    const otherGet = await request(app).get(`/api/backtest-runs/${saved.body.runId}`).set('Authorization', `Bearer ${otherAuthToken}`);
+    expect(otherGet.status).toBe(404);
+    const otherDelete = await request(app).delete(`/api/backtest-runs/${saved.body.runId}`).set('Authorization', `Bearer ${otherAuthToken}`);
+    expect(otherDelete.status).toBe(404);
+  });
+
+  it('should tag, annotate, list and delete runs', async () => {
+    const saved = await request(app).post('/api/backtest').set('Authorization', `Bearer ${authToken}`).send(backtestRequest);
+    const runUrl = `/api/backtest-runs/${saved.body.runId}`;
+
+    const tagged = await request(app).patch(runUrl).set('Authorization', `Bearer ${authToken}`)
+      .send({ tags: ['baseline', ' shared '], notes: 'Compare with the RSI run.' });
+    expect(tagged.status).toBe(200);
+    expect(tagged.body).toMatchObject({ tags: ['baseline', 'shared'], notes: 'Compare with the RSI run.' });
+
+    const list = await request(app).get('/api/backtest-runs?tag=shared').set('Authorization', `Bearer ${authToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).not.toHaveProperty('trades');
+
+    expect((await request(app).patch(runUrl).set('Authorization', `Bearer ${authToken}`).send({ tags: 'baseline' })).status).toBe(400);
+    expect((await request(app).patch(runUrl).set('Authorization', `Bearer ${authToken}`).send({})).status).toBe(400);
+    expect((await request(app).get('/api/backtest-runs?limit=0').set('Authorization', `Bearer ${authToken}`)).status).toBe(400);
+
+    expect((await request(app).delete(runUrl).set('Authorization', `Bearer ${authToken}`)).status).toBe(204);
+    expect((await request(app).get(runUrl).set('Authorization', `Bearer ${authToken}`)).status).toBe(404);
+  });
+});
@@ -87,6 +87,10 @@ describe('Strategy API Endpoints', () => {
       trades: [],
       totalTrades: 0,
       dataPointsProcessed: 90,
+      totalFees: 0,
+      totalSlippage: 0,
+      totalTransactionCosts: 0,
+      executionTiming: 'SAME_BAR_CLOSE',
       // aiDecisionLog is optional, so not included in this general mock result
     };
 
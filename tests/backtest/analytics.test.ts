@@ -0,0 +1,122 @@
+import {
+  extractRoundTrips,
+  calculateSharpeRatio,
+  calculateMonthlyReturns,
+  calculatePerformanceReport,
+  AnalyticsFill,
+} from '../../src/backtest/analytics';
+
+const DAY = 24 * 60 * 60;
+const fill = (timestamp: number, action: 'BUY' | 'SELL', price: number, sharesTraded: number, fees = 0, symbol?: string): AnalyticsFill =>
+  ({ timestamp, action, price, sharesTraded, fees, symbol });
+
+describe('Performance Analytics', () => {
+  describe('extractRoundTrips', () => {
+    it('should pair entries and exits into round trips net of fees', () => {
+      const trips = extractRoundTrips([
+        fill(1, 'BUY', 100, 2, 1),
+        fill(2, 'BUY', 110, 1, 1),
+        fill(3, 'SELL', 120, 3, 1),
+        fill(4, 'BUY', 120, 1),
+      ]);
+
+      expect(trips).toEqual([{ symbol: undefined, direction: 'LONG', entryTimestamp: 1, exitTimestamp: 3, pnl: 360 - 310 - 3 }]);
+    });
+
+    it('should split a fill that flips the position', () => {
+      const trips = extractRoundTrips([
+        fill(1, 'BUY', 100, 1, 2),
+        fill(2, 'SELL', 90, 2, 2), // Closes the long and opens a short of 1; the fee is split 1/1
+        fill(3, 'BUY', 80, 1),
+      ]);
+
+      expect(trips.map(trip => [trip.direction, trip.pnl])).toEqual([['LONG', -10 - 2 - 1], ['SHORT', 10 - 1]]);
+    });
+
+    it('should track symbols separately', () => {
+      const trips = extractRoundTrips([
+        fill(1, 'BUY', 10, 1, 0, 'BTC'),
+        fill(1, 'BUY', 20, 1, 0, 'ETH'),
+        fill(2, 'SELL', 25, 1, 0, 'ETH'),
+        fill(3, 'SELL', 8, 1, 0, 'BTC'),
+      ]);
+
+      expect(trips.map(trip => [trip.symbol, trip.pnl])).toEqual([['ETH', 5], ['BTC', -2]]);
+    });
+  });
+
+  it('should annualize the Sharpe ratio with the given bars per year', () => {
+    const values = [100, 101, 100, 102, 101];
+    expect(calculateSharpeRatio(values, 8760)).toBeCloseTo(calculateSharpeRatio(values, 252) * Math.sqrt(8760 / 252));
+    expect(calculateSharpeRatio([100, 100, 100], 252)).toBe(0);
+  });
+
+  it('should compute monthly returns from month-end values', () => {
+    const jan31 = Date.UTC(2023, 0, 31) / 1000;
+    const returns = calculateMonthlyReturns([
+      { timestamp: jan31 - DAY, value: 100 },
+      { timestamp: jan31, value: 110 },
+      { timestamp: jan31 + DAY, value: 99 },
+      { timestamp: jan31 + 2 * DAY, value: 121 },
+    ]);
+
+    expect(returns.map(r => r.month)).toEqual(['2023-01', '2023-02']);
+    expect(returns[0].returnPercentage).toBeCloseTo(10);
+    expect(returns[1].returnPercentage).toBeCloseTo(10);
+  });
+
+  describe('calculatePerformanceReport', () => {
+    const start = Date.UTC(2023, 0, 1) / 1000;
+    const equityCurve = [100, 100, 120, 90, 96, 130, 117].map((value, k) => ({ timestamp: start + Math.max(0, k - 1) * DAY, value }));
+    const fills = [
+      fill(start, 'BUY', 10, 10),
+      fill(start + DAY, 'SELL', 12, 10),   // +20
+      fill(start + 2 * DAY, 'BUY', 10, 10),
+      fill(start + 3 * DAY, 'SELL', 9, 10), // -10
+      fill(start + 4 * DAY, 'BUY', 10, 10),
+      fill(start + 4 * DAY, 'SELL', 9.5, 10), // -5
+    ];
+
+    it('should report drawdown depth, duration and recovery', () => {
+      const report = calculatePerformanceReport(fills, equityCurve, 365);
+
+      expect(report.maxDrawdown).toBeCloseTo(25);           // 120 -> 90
+      expect(report.maxDrawdownDurationBars).toBe(2);       // 90 and 96 below the peak of 120
+      expect(report.maxDrawdownRecoveryBars).toBe(2);       // From the trough at 90 to 130
+      expect(report.totalReturn).toBeCloseTo(17);
+      expect(report.cagr).toBeCloseTo((Math.pow(1.17, 365 / 5) - 1) * 100, 0);
+      expect(report.calmarRatio).toBeCloseTo(report.cagr! / 25);
+      expect(report.sortinoRatio).toBeGreaterThan(0);
+      expect(report.annualizedVolatility).toBeGreaterThan(0);
+    });
+
+    it('should report round trip statistics', () => {
+      const report = calculatePerformanceReport(fills, equityCurve, 365);
+
+      expect(report.roundTrips).toBe(3);
+      expect(report.winRate).toBeCloseTo(100 / 3);
+      expect(report.profitFactor).toBeCloseTo(20 / 15);
+      expect(report.expectancy).toBeCloseTo(5 / 3);
+      expect(report).toMatchObject({
+        averageWin: 20,
+        averageLoss: -7.5,
+        largestWin: 20,
+        largestLoss: -10,
+        maxConsecutiveWins: 1,
+        maxConsecutiveLosses: 2,
+      });
+    });
+
+    it('should measure the time spent in the market', () => {
+      // Open on the first and third bars only (the last round trip opens and closes on the same bar)
+      const report = calculatePerformanceReport(fills, equityCurve, 365);
+      expect(report.exposureTime).toBeCloseTo(200 / 6);
+    });
+
+    it('should handle a backtest without data', () => {
+      const report = calculatePerformanceReport([], [], 252);
+
+      expect(report).toMatchObject({ totalReturn: 0, cagr: null, sharpeRatio: 0, maxDrawdown: 0, roundTrips: 0, profitFactor: null, monthlyReturns: [] });
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { applyFillToAverageCost } from '../../src/backtest/averageCost';
+
+describe('Average Cost', () => {
+  const flat = { quantity: 0, averagePrice: 0 };
+
+  it('should average the fills that build up a position', () => {
+    const first = applyFillToAverageCost(flat, 'BUY', 1, 100);
+    const second = applyFillToAverageCost(first, 'BUY', 3, 80);
+    expect(second).toEqual({ quantity: 4, averagePrice: 85 });
+
+    const short = applyFillToAverageCost(applyFillToAverageCost(flat, 'SELL', 2, 50), 'SELL', 2, 60);
+    expect(short).toEqual({ quantity: -4, averagePrice: 55 });
+  });
+
+  it('should keep the average when the position is reduced and reset it when closed', () => {
+    const position = { quantity: 4, averagePrice: 85 };
+    expect(applyFillToAverageCost(position, 'SELL', 1, 120)).toEqual({ quantity: 3, averagePrice: 85 });
+    expect(applyFillToAverageCost(position, 'SELL', 4, 120)).toEqual(flat);
+  });
+
+  it('should open the remainder of a flipping fill at its own price', () => {
+    expect(applyFillToAverageCost({ quantity: 2, averagePrice: 85 }, 'SELL', 5, 90)).toEqual({ quantity: -3, averagePrice: 90 });
+  });
+});
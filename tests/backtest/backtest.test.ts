@@ -13,10 +13,14 @@ jest.mock('../../src/utils/logger', () => ({
   }
 }));
 // Mock strategyManager's getStrategy
-jest.mock('../../src/strategies/strategyManager', () => ({
-  ...jest.requireActual('../../src/strategies/strategyManager'), // Import and retain default behavior
-  getStrategy: jest.fn(),
-}));
+jest.mock('../../src/strategies/strategyManager', () => {
+  const getStrategy = jest.fn();
+  return {
+    ...jest.requireActual('../../src/strategies/strategyManager'), // Import and retain default behavior
+    getStrategy,
+    createStrategy: jest.fn((id: string) => getStrategy(id)), // Runs use the mocked strategy as their instance
+  };
+});
 
 import {
   runBacktest,
@@ -31,7 +35,8 @@ import { HistoricalDataPoint } from '../../src/services/dataService'; // Actual
 import logger from '../../src/utils/logger'; // Corrected import, Mocked logger
 import { getStrategy as mockGetStrategy } from '../../src/strategies/strategyManager'; // Mocked getStrategy
 import { adaptedSimpleThresholdStrategy } from '../../src/strategies/implementations/simpleThresholdStrategy'; // Import actual strategy for mock return
-import { StrategyContext } from '../../src/strategies/strategy.types'; // Import StrategyContext
+import { createGridTradingStrategy } from '../../src/strategies/implementations/gridTradingStrategy';
+import { StrategyContext, StrategySignal, AIDecision } from '../../src/strategies/strategy.types'; // Import StrategyContext
 
 
 // --- Test Setup ---
@@ -305,10 +310,761 @@ describe('Backtesting Module Tests', () => {
     });
   });
 
+  describe('runBacktest with a cost model', () => {
+    const costData: HistoricalDataPoint[] = [
+      createDataPoint(new Date('2023-01-01'), 145), // Hold
+      createDataPoint(new Date('2023-01-02'), 151), // BUY
+      createDataPoint(new Date('2023-01-03'), 139), // SELL
+    ];
+
+    test('should apply fees and slippage to fills and report total costs', async () => {
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(costData);
+      const costModel = { fixedFeePerTrade: 1, takerFeePercent: 0.1, slippageBps: 10 };
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'simple-threshold', defaultStrategyParams, undefined, undefined, { costModel });
+
+      const buyPrice = 151 * 1.001;
+      const buyFees = 1 + buyPrice * 0.001;
+      const sellPrice = 139 * 0.999;
+      const sellFees = 1 + sellPrice * 0.001;
+
+      expect(result.totalTrades).toBe(2);
+      expect(result.trades[0].price).toBeCloseTo(buyPrice);
+      expect(result.trades[0].fees).toBeCloseTo(buyFees);
+      expect(result.trades[0].slippage).toBeCloseTo(0.151);
+      expect(result.trades[0].cashAfterTrade).toBeCloseTo(initialCash - buyPrice - buyFees);
+      expect(result.trades[1].price).toBeCloseTo(sellPrice);
+      expect(result.trades[1].fees).toBeCloseTo(sellFees);
+
+      expect(result.totalFees).toBeCloseTo(buyFees + sellFees);
+      expect(result.totalSlippage).toBeCloseTo(0.151 + 0.139);
+      expect(result.totalTransactionCosts).toBeCloseTo(result.totalFees + result.totalSlippage);
+      expect(result.finalPortfolioValue).toBeCloseTo(initialCash - buyPrice - buyFees + sellPrice - sellFees);
+    });
+
+    test('should report zero costs when no cost model is given', async () => {
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(costData);
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'simple-threshold', defaultStrategyParams);
+
+      expect(result.trades[0]).toMatchObject({ price: 151, fees: 0, slippage: 0 });
+      expect(result.totalTransactionCosts).toBe(0);
+    });
+
+    test('should reject a BUY when cash cannot cover price plus fees', async () => {
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([createDataPoint(new Date('2023-01-01'), 151)]);
+      const result = await runBacktest(symbol, startDate, endDate, 151.5, 'simple-threshold', defaultStrategyParams, undefined, undefined, { costModel: { fixedFeePerTrade: 1 } });
+
+      expect(result.totalTrades).toBe(0);
+      expect(result.finalPortfolioValue).toBe(151.5);
+    });
+  });
+
+  describe('runBacktest with margin enabled', () => {
+    // Strategy that replays a fixed list of signals, one per bar, so positions can go short
+    const createScriptedStrategy = (actions: Array<'BUY' | 'SELL' | 'HOLD'>) => ({
+      id: 'scripted',
+      name: 'Scripted Strategy',
+      description: 'Replays fixed signals',
+      parameters: [],
+      execute: (context: StrategyContext<Record<string, any>>) => ({ action: actions[context.currentIndex] ?? 'HOLD', amount: 1 }),
+    });
+
+    const useScriptedStrategy = (actions: Array<'BUY' | 'SELL' | 'HOLD'>) => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => createScriptedStrategy(actions));
+    };
+
+    test('should open a short position with a SELL when no shares are held', async () => {
+      useScriptedStrategy(['SELL', 'HOLD', 'BUY']);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 95),
+        createDataPoint(new Date('2023-01-03'), 90),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, '1d', { margin: { enabled: true } });
+
+      expect(result.totalTrades).toBe(2);
+      expect(result.trades[0]).toMatchObject({ action: 'SELL', price: 100, cashAfterTrade: initialCash + 100, tradeType: 'SIGNAL' });
+      expect(result.trades[1]).toMatchObject({ action: 'BUY', price: 90, tradeType: 'SIGNAL' });
+      expect(result.finalPortfolioValue).toBeCloseTo(initialCash + 10);
+      expect(result.totalBorrowInterest).toBe(0);
+      expect(result.liquidations).toBe(0);
+    });
+
+    test('should keep rejecting SELLs without shares when margin is disabled', async () => {
+      useScriptedStrategy(['SELL']);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([createDataPoint(new Date('2023-01-01'), 100)]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.totalTrades).toBe(0);
+      expect(result.totalBorrowInterest).toBeUndefined();
+      expect(result.liquidations).toBeUndefined();
+    });
+
+    test('should reject orders that exceed the leverage cap', async () => {
+      useScriptedStrategy(['SELL', 'BUY', 'BUY']);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 139), // Short 1 unit: exposure 139 > 1x equity of 100
+        createDataPoint(new Date('2023-01-02'), 80),  // Long 1 unit: exposure 80 <= 100
+        createDataPoint(new Date('2023-01-03'), 80),  // Long 2 units: exposure 160 > 100
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, 100, 'scripted', {}, undefined, '1d', { margin: { enabled: true, maxLeverage: 1 } });
+
+      expect(result.totalTrades).toBe(1);
+      expect(result.trades[0]).toMatchObject({ action: 'BUY', price: 80 });
+    });
+
+    test('should accrue borrow interest on short positions every bar', async () => {
+      useScriptedStrategy(['SELL', 'HOLD', 'HOLD']);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 100),
+        createDataPoint(new Date('2023-01-03'), 100),
+      ]);
+
+      // 36.5% a year on daily bars (365 bars per year) is 0.1% of the shorted value per bar
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, '1d', { margin: { enabled: true, borrowRatePercentAnnual: 36.5 } });
+
+      expect(result.totalBorrowInterest).toBeCloseTo(0.2);
+      expect(result.finalPortfolioValue).toBeCloseTo(initialCash - 0.2);
+    });
+
+    test('should liquidate the position when equity falls below the maintenance margin', async () => {
+      useScriptedStrategy(['SELL', 'HOLD', 'HOLD']);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 180), // Equity 200 - 180 = 20 < 25% of 180
+        createDataPoint(new Date('2023-01-03'), 250),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, 100, 'scripted', {}, undefined, '1d', { margin: { enabled: true, maxLeverage: 2 } });
+
+      expect(result.liquidations).toBe(1);
+      expect(result.totalTrades).toBe(2);
+      expect(result.trades[1]).toMatchObject({ action: 'BUY', price: 180, sharesTraded: 1, tradeType: 'LIQUIDATION' });
+      expect(result.finalPortfolioValue).toBeCloseTo(20);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Maintenance margin breached'));
+    });
+  });
+
+  describe('runBacktest with protective orders', () => {
+    const useSignals = (signals: StrategySignal[]) => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>) => signals[context.currentIndex] ?? { action: 'HOLD' },
+      }));
+    };
+
+    test('should exit intrabar at the stop-loss and record the reason', async () => {
+      useSignals([{ action: 'BUY', amount: 2, stopLoss: { percent: 5 }, takeProfit: { percent: 20 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 98, 100, 101, 93), // Low 93 touches the 95 stop
+        createDataPoint(new Date('2023-01-03'), 130),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.totalTrades).toBe(2);
+      expect(result.trades[0].tradeType).toBe('SIGNAL');
+      expect(result.trades[1]).toMatchObject({ action: 'SELL', price: 95, sharesTraded: 2, tradeType: 'STOP_LOSS' });
+      expect(result.finalPortfolioValue).toBeCloseTo(initialCash - 10);
+    });
+
+    test('should exit at the take-profit without slippage', async () => {
+      useSignals([{ action: 'BUY', amount: 1, takeProfit: { price: 110 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 105, 101, 111, 100),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { costModel: { slippageBps: 10 } });
+
+      expect(result.trades[1]).toMatchObject({ action: 'SELL', price: 110, slippage: 0, tradeType: 'TAKE_PROFIT' });
+    });
+
+    test('should apply the stop first when a bar touches both levels', async () => {
+      useSignals([{ action: 'BUY', amount: 1, stopLoss: { price: 95 }, takeProfit: { price: 110 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 100, 100, 115, 90),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades[1]).toMatchObject({ price: 95, tradeType: 'STOP_LOSS' });
+    });
+
+    test('should follow the best price with a trailing stop', async () => {
+      useSignals([{ action: 'BUY', amount: 1, trailingStop: { percent: 10 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 118, 101, 120, 100), // Stop moves to 108 after this bar
+        createDataPoint(new Date('2023-01-03'), 104, 115, 116, 103),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades[1].tradeType).toBe('TRAILING_STOP');
+      expect(result.trades[1].price).toBeCloseTo(108);
+    });
+
+    test('should cancel protective orders once the strategy closes the position', async () => {
+      useSignals([{ action: 'BUY', amount: 1, stopLoss: { price: 95 } }, { action: 'SELL', amount: 1 }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 101),
+        createDataPoint(new Date('2023-01-03'), 90),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.totalTrades).toBe(2);
+      expect(result.trades.map(t => t.tradeType)).toEqual(['SIGNAL', 'SIGNAL']);
+    });
+
+    test('should not fire the old exits when a next-bar fill closes or flips the position', async () => {
+      const bars = [
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 100),
+        createDataPoint(new Date('2023-01-03'), 96, 100, 100, 90), // Would touch the long's 95 stop
+      ];
+      const options = { executionTiming: 'NEXT_BAR_OPEN' as const, margin: { enabled: true, maxLeverage: 3 } };
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(bars);
+
+      useSignals([{ action: 'BUY', amount: 10, stopLoss: { price: 95 } }, { action: 'SELL', amount: 20 }]);
+      const flipped = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, options);
+      expect(flipped.trades.map(t => `${t.action} ${t.sharesTraded} ${t.tradeType}`)).toEqual(['BUY 10 SIGNAL', 'SELL 20 SIGNAL']);
+
+      useSignals([{ action: 'BUY', amount: 10, stopLoss: { price: 95 } }, { action: 'SELL', amount: 10 }]);
+      const closed = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, options);
+      expect(closed.trades.map(t => `${t.action} ${t.sharesTraded} ${t.tradeType}`)).toEqual(['BUY 10 SIGNAL', 'SELL 10 SIGNAL']);
+    });
+  });
+
+  describe('runBacktest with resting limit and stop orders', () => {
+    const useSignals = (signals: StrategySignal[]) => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>) => signals[context.currentIndex] ?? { action: 'HOLD' },
+      }));
+    };
+
+    test('should fill a BUY LIMIT on a later bar and record the order lifecycle', async () => {
+      useSignals([{ action: 'BUY', amount: 2, orderType: 'LIMIT', limitPrice: 95 }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 99, 100, 101, 97),
+        createDataPoint(new Date('2023-01-03'), 96, 98, 99, 94), // Low reaches the limit
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { costModel: { slippageBps: 10 } });
+
+      expect(result.totalTrades).toBe(1);
+      expect(result.trades[0]).toMatchObject({ action: 'BUY', price: 95, sharesTraded: 2, slippage: 0, orderId: 'ORD-1' });
+      expect(result.trades[0].date).toEqual(new Date('2023-01-03'));
+      expect(result.orderHistory?.map(e => e.event)).toEqual(['PLACED', 'FILLED']);
+      expect(result.orderHistory?.[0]).toMatchObject({ orderId: 'ORD-1', orderType: 'LIMIT', side: 'BUY', price: 95 });
+    });
+
+    test('should fill a BUY STOP on a breakout and arm its protective orders', async () => {
+      useSignals([{ action: 'BUY', amount: 1, orderType: 'STOP', stopPrice: 110, stopLoss: { price: 105 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 111, 101, 112, 100), // Breakout through 110
+        createDataPoint(new Date('2023-01-03'), 104, 110, 110, 103), // Stop-loss at 105
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[0]).toMatchObject({ action: 'BUY', price: 110, orderId: 'ORD-1' });
+      expect(result.trades[1]).toMatchObject({ action: 'SELL', price: 105, tradeType: 'STOP_LOSS' });
+    });
+
+    test('should expire BARS orders that did not fill in time', async () => {
+      useSignals([{ action: 'BUY', orderType: 'LIMIT', limitPrice: 90, timeInForce: 'BARS', expiresAfterBars: 1 }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 95),
+        createDataPoint(new Date('2023-01-03'), 85),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.totalTrades).toBe(0);
+      expect(result.orderHistory?.map(e => e.event)).toEqual(['PLACED', 'EXPIRED']);
+    });
+
+    test('should let strategies cancel orders by id and see the open orders', async () => {
+      const seenOpenOrders: number[] = [];
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>): StrategySignal => {
+          seenOpenOrders.push(context.openOrders?.length ?? 0);
+          if (context.currentIndex === 0) return { action: 'BUY', orderType: 'LIMIT', limitPrice: 90, orderId: 'dip' };
+          if (context.currentIndex === 1) return { action: 'HOLD', cancelOrders: ['dip'] };
+          return { action: 'HOLD' };
+        },
+      }));
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 98),
+        createDataPoint(new Date('2023-01-03'), 80),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(seenOpenOrders).toEqual([0, 1, 0]);
+      expect(result.totalTrades).toBe(0);
+      expect(result.orderHistory?.map(e => `${e.orderId}:${e.event}`)).toEqual(['dip:PLACED', 'dip:CANCELLED']);
+    });
+
+    test('should cancel orders still open when the data ends and omit orderHistory when unused', async () => {
+      useSignals([{ action: 'SELL', orderType: 'LIMIT', limitPrice: 200 }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([createDataPoint(new Date('2023-01-01'), 100)]);
+      const withOrders = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+      expect(withOrders.orderHistory?.[1]).toMatchObject({ event: 'CANCELLED', reason: 'End of backtest data.' });
+
+      useSignals([{ action: 'HOLD' }]);
+      const withoutOrders = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+      expect(withoutOrders.orderHistory).toBeUndefined();
+    });
+
+    test('should place a ladder of orders from one signal and fill several levels on one bar', async () => {
+      useSignals([{
+        action: 'HOLD',
+        orders: [
+          { action: 'BUY', amount: 1, orderType: 'LIMIT', limitPrice: 95, orderId: 'level-95' },
+          { action: 'BUY', amount: 190, sizingMode: 'NOTIONAL', orderType: 'LIMIT', limitPrice: 95 }, // 2 units at the limit
+          { action: 'BUY', amount: 1, orderType: 'LIMIT', limitPrice: 90, orderId: 'level-90' },
+          { action: 'BUY', amount: 1, orderType: 'MARKET' } as any, // Not a resting order: ignored
+        ],
+      }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 93, 99, 99, 92), // Reaches 95 but not 90
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades.map(trade => [trade.orderId, trade.sharesTraded])).toEqual([['level-95', 1], ['ORD-1', 2]]);
+      expect(result.orderHistory?.map(e => `${e.orderId}:${e.event}`)).toEqual([
+        'level-95:PLACED', 'ORD-1:PLACED', 'level-90:PLACED', 'level-95:FILLED', 'ORD-1:FILLED', 'level-90:CANCELLED',
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Ladder orders must be LIMIT or STOP orders.'));
+    });
+
+    test('should run a grid strategy through the order book', async () => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => createGridTradingStrategy());
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 102),
+        createDataPoint(new Date('2023-01-02'), 96, 101, 101, 96), // Fills the buy at 100
+        createDataPoint(new Date('2023-01-03'), 104, 97, 106, 97), // Fills its sell at 105
+        createDataPoint(new Date('2023-01-04'), 103),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'grid-trading', {
+        lowerPrice: 90, upperPrice: 110, gridLevels: 5, spacing: 'arithmetic', orderSize: 2, orderSizeMode: 'UNITS',
+      });
+
+      expect(result.trades.map(trade => [trade.action, trade.price, trade.orderId])).toEqual([
+        ['BUY', 100, 'grid-2-buy-0'],
+        ['SELL', 105, 'grid-2-sell-1'],
+      ]);
+      expect(result.finalPortfolioValue).toBe(initialCash + 10);
+      // The level is re-armed after the sell and left open at the end
+      expect(result.orderHistory?.filter(e => e.event === 'PLACED').map(e => e.orderId)).toContain('grid-2-buy-2');
+    });
+
+    test('should not re-place a rejected grid level on every bar', async () => {
+      // The grid, plus a market sell of its position on the second bar, so the sell of the level is rejected
+      (mockGetStrategy as jest.Mock).mockImplementation(() => {
+        const grid = createGridTradingStrategy();
+        return {
+          ...grid,
+          init: grid.init?.bind(grid),
+          execute: (context: StrategyContext<Record<string, any>>) => {
+            const signal = grid.execute(context as StrategyContext<any>) as StrategySignal;
+            return context.currentIndex === 1 ? { ...signal, action: 'SELL', amount: 1 } : signal;
+          },
+        };
+      });
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 102),
+        createDataPoint(new Date('2023-01-02'), 99, 101, 101, 99), // Fills the buy at 100
+        createDataPoint(new Date('2023-01-03'), 106, 104, 106, 104), // Reaches its sell at 105, without shares
+        createDataPoint(new Date('2023-01-04'), 107, 107, 108, 106),
+        createDataPoint(new Date('2023-01-05'), 107, 107, 108, 106),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'grid-trading', {
+        lowerPrice: 90, upperPrice: 110, gridLevels: 5, spacing: 'arithmetic', orderSize: 1, orderSizeMode: 'UNITS',
+      });
+
+      expect(result.trades.map(trade => [trade.action, trade.price, trade.orderId])).toEqual([
+        ['BUY', 100, 'grid-2-buy-0'],
+        ['SELL', 99, undefined],
+      ]);
+      expect(result.orderHistory?.filter(e => e.event === 'REJECTED').map(e => e.orderId)).toEqual(['grid-2-sell-1']);
+      // Only the buy of the next level up is placed after the rejection
+      expect(result.orderHistory?.filter(e => e.event === 'PLACED' && e.timestamp > result.trades[1].timestamp).map(e => e.orderId))
+        .toEqual(['grid-3-buy-2']);
+    });
+
+    test('should show strategies the average entry price of their position', async () => {
+      const seenAverages: (number | undefined)[] = [];
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>): StrategySignal => {
+          seenAverages.push(context.portfolio.averageEntryPrice);
+          return [{ action: 'BUY', amount: 1 }, { action: 'BUY', amount: 3 }, { action: 'SELL', amount: 2 }, { action: 'SELL', amount: 2 }][context.currentIndex] as StrategySignal ?? { action: 'HOLD' };
+        },
+      }));
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        createDataPoint(new Date('2023-01-01'), 100),
+        createDataPoint(new Date('2023-01-02'), 80),
+        createDataPoint(new Date('2023-01-03'), 120),
+        createDataPoint(new Date('2023-01-04'), 110),
+        createDataPoint(new Date('2023-01-05'), 110),
+      ]);
+
+      await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(seenAverages).toEqual([0, 100, 85, 85, 0]);
+    });
+  });
+
+  describe('runBacktest execution timing', () => {
+    const useSignals = (signals: StrategySignal[]) => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>) => signals[context.currentIndex] ?? { action: 'HOLD' },
+      }));
+    };
+    const timingData = [
+      createDataPoint(new Date('2023-01-01'), 100),
+      createDataPoint(new Date('2023-01-02'), 106, 102, 112, 94),
+      createDataPoint(new Date('2023-01-03'), 110, 108, 111, 107),
+    ];
+
+    test('should fill at the signal bar close by default and record the timing', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(timingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.executionTiming).toBe('SAME_BAR_CLOSE');
+      expect(result.trades[0]).toMatchObject({ price: 100, date: new Date('2023-01-01') });
+    });
+
+    test('should fill at the next bar open with NEXT_BAR_OPEN', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(timingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { executionTiming: 'NEXT_BAR_OPEN' });
+
+      expect(result.executionTiming).toBe('NEXT_BAR_OPEN');
+      expect(result.trades[0]).toMatchObject({ price: 102, date: new Date('2023-01-02') });
+    });
+
+    test('should fill at the next bar typical price with NEXT_BAR_VWAP', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(timingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { executionTiming: 'NEXT_BAR_VWAP' });
+
+      expect(result.trades[0].price).toBeCloseTo((112 + 94 + 106) / 3);
+    });
+
+    test('should drop a market signal on the final bar with next-bar execution', async () => {
+      useSignals([{ action: 'HOLD' }, { action: 'HOLD' }, { action: 'BUY', amount: 3 }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(timingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { executionTiming: 'NEXT_BAR_OPEN' });
+
+      expect(result.totalTrades).toBe(0);
+      expect(result.droppedFinalBarSignal).toEqual({ action: 'BUY', amount: 3 });
+    });
+
+    test('should check protective orders of a next-bar entry from the following bar', async () => {
+      useSignals([{ action: 'BUY', stopLoss: { price: 96 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([
+        ...timingData.slice(0, 2), // Entry at 102; this bar's low of 94 does not trigger the stop
+        createDataPoint(new Date('2023-01-03'), 95, 100, 101, 95),
+      ]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, { executionTiming: 'NEXT_BAR_OPEN' });
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[1]).toMatchObject({ price: 96, tradeType: 'STOP_LOSS', date: new Date('2023-01-03') });
+    });
+  });
+
+  describe('runBacktest position sizing', () => {
+    const useSignals = (signals: StrategySignal[]) => {
+      (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+        id: 'scripted',
+        name: 'Scripted Strategy',
+        parameters: [],
+        execute: (context: StrategyContext<Record<string, any>>) => signals[context.currentIndex] ?? { action: 'HOLD' },
+      }));
+    };
+    const sizingData = [
+      createDataPoint(new Date('2023-01-01'), 100),
+      createDataPoint(new Date('2023-01-02'), 110),
+      createDataPoint(new Date('2023-01-03'), 120),
+    ];
+
+    test('should trade a single unit when neither the signal nor the settings give a size', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades[0].sharesTraded).toBe(1);
+    });
+
+    test('should size signals without an amount from a percentage of equity', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, {
+        positionSizing: { mode: 'PERCENT_EQUITY', value: 50 },
+      });
+
+      expect(result.trades[0].sharesTraded).toBe(50); // 50% of 10000 at 100
+    });
+
+    test('should round notional sizing down to the lot size', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, {
+        positionSizing: { mode: 'NOTIONAL', value: 1234, lotSize: 5 },
+      });
+
+      expect(result.trades[0].sharesTraded).toBe(10); // 12.34 units rounded down to lots of 5
+    });
+
+    test('should size risk-based positions from the signal stop-loss', async () => {
+      useSignals([{ action: 'BUY', stopLoss: { price: 95 } }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, {
+        positionSizing: { mode: 'PERCENT_RISK', value: 1 },
+      });
+
+      expect(result.trades[0].sharesTraded).toBe(20); // 1% of 10000 risked over a 5 point stop
+    });
+
+    test('should close the open position on a SELL without an amount', async () => {
+      useSignals([{ action: 'BUY', amount: 7 }, { action: 'SELL' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, {
+        positionSizing: { mode: 'PERCENT_EQUITY', value: 10 },
+      });
+
+      expect(result.trades.map(t => t.sharesTraded)).toEqual([7, 7]);
+      expect(result.finalPortfolioValue).toBeCloseTo(initialCash + 70);
+    });
+
+    test('should interpret a signal amount according to its sizingMode', async () => {
+      useSignals([{ action: 'BUY', amount: 20, sizingMode: 'PERCENT_EQUITY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {});
+
+      expect(result.trades[0].sharesTraded).toBe(20); // 20% of 10000 at 100
+    });
+
+    test('should skip the order when the sized quantity is zero', async () => {
+      useSignals([{ action: 'BUY' }]);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(sizingData);
+
+      // No stop-loss and too little history for ATR: the risk-based size cannot be determined
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'scripted', {}, undefined, undefined, {
+        positionSizing: { mode: 'PERCENT_RISK', value: 1 },
+      });
+
+      expect(result.totalTrades).toBe(0);
+    });
+  });
+
+  describe('runBacktest benchmark', () => {
+    const benchmarkData = [
+      createDataPoint(new Date('2023-01-01'), 100),
+      createDataPoint(new Date('2023-01-02'), 110),
+      createDataPoint(new Date('2023-01-03'), 121),
+    ];
+    const holdStrategy = {
+      id: 'hold',
+      name: 'Hold Strategy',
+      parameters: [],
+      execute: (): StrategySignal => ({ action: 'HOLD' }),
+    };
+
+    test('should compare the result with buy-and-hold of the backtested symbol', async () => {
+      (mockGetStrategy as jest.Mock).mockReturnValue(holdStrategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(benchmarkData);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'hold', {});
+
+      expect(result.benchmark).toMatchObject({ symbol, initialValue: initialCash });
+      expect(result.benchmark!.finalValue).toBeCloseTo(12100);
+      expect(result.benchmark!.excessReturn).toBeCloseTo(-21);
+      expect(result.benchmark!.beta).toBe(0);
+      expect(result.benchmark!.equityCurve.map(point => point.timestamp)).toEqual(result.portfolioHistory!.map(point => point.timestamp));
+    });
+
+    test('should use another symbol as the benchmark when benchmarkSymbol is set', async () => {
+      (mockGetStrategy as jest.Mock).mockReturnValue(holdStrategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock)
+        .mockResolvedValueOnce(benchmarkData)
+        .mockResolvedValueOnce([createDataPoint(new Date('2023-01-01'), 20), createDataPoint(new Date('2023-01-03'), 10)]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'hold', {}, 'TestSource', '1d', { benchmarkSymbol: 'BTCUSDT' });
+
+      expect(mockFetchHistoricalDataFromDB).toHaveBeenLastCalledWith('BTCUSDT', startDate, endDate, 'TestSource', '1d');
+      expect(result.benchmark).toMatchObject({ symbol: 'BTCUSDT', finalValue: 5000, returnPercentage: -50 });
+      expect(result.benchmark!.excessReturn).toBeCloseTo(50);
+    });
+
+    test('should leave out the benchmark when the benchmark symbol has no data', async () => {
+      (mockGetStrategy as jest.Mock).mockReturnValue(holdStrategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValueOnce(benchmarkData).mockResolvedValueOnce([]);
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'hold', {}, undefined, undefined, { benchmarkSymbol: 'UNKNOWN' });
+
+      expect(result.benchmark).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('No historical data found for benchmark UNKNOWN'));
+    });
+  });
+
+  describe('runBacktest progress and cancellation', () => {
+    const longData = Array.from({ length: 250 }, (_, k) => createDataPoint(new Date(Date.UTC(2023, 0, 1 + k)), 100 + k));
+    const holdStrategy = {
+      id: 'hold',
+      name: 'Hold Strategy',
+      parameters: [],
+      execute: (): StrategySignal => ({ action: 'HOLD' }),
+    };
+
+    test('should report throttled progress and the last bar', async () => {
+      (mockGetStrategy as jest.Mock).mockReturnValue(holdStrategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(longData);
+      const onProgress = jest.fn();
+
+      await runBacktest(symbol, startDate, endDate, initialCash, 'hold', {}, undefined, undefined, { onProgress });
+
+      const reported = onProgress.mock.calls.map(([progress]) => progress.barsProcessed);
+      expect(reported.length).toBeLessThanOrEqual(101);
+      expect(reported[0]).toBe(3); // Every ceil(250 / 100) bars
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ barsProcessed: 250, totalBars: 250 }));
+    });
+
+    test('should report the equity points and trades added since the previous report', async () => {
+      (mockGetStrategy as jest.Mock).mockReturnValue({
+        ...holdStrategy,
+        execute: (context: StrategyContext): StrategySignal => (context.currentIndex % 50 === 0 ? { action: 'BUY', amount: 1 } : { action: 'HOLD' }),
+      });
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(longData);
+      const onProgress = jest.fn();
+
+      const result = await runBacktest(symbol, startDate, endDate, initialCash, 'hold', {}, undefined, undefined, { onProgress });
+
+      const progress = onProgress.mock.calls.map(([call]) => call);
+      expect(progress.flatMap(call => call.portfolioHistory)).toEqual(result.portfolioHistory);
+      expect(progress.flatMap(call => call.trades)).toEqual(result.trades);
+      expect(result.trades).toHaveLength(5);
+    });
+
+    test('should stop before the next bar once aborted', async () => {
+      const controller = new AbortController();
+      const execute = jest.fn((context: StrategyContext): StrategySignal => {
+        if (context.currentIndex === 9) controller.abort(new Error('Cancelled'));
+        return { action: 'HOLD' };
+      });
+      (mockGetStrategy as jest.Mock).mockReturnValue({ ...holdStrategy, execute });
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(longData);
+
+      await expect(runBacktest(symbol, startDate, endDate, initialCash, 'hold', {}, undefined, undefined, { signal: controller.signal }))
+        .rejects.toThrow('Cancelled');
+      expect(execute).toHaveBeenCalledTimes(10);
+    });
+  });
+
+  describe('runBacktest strategy lifecycle', () => {
+    const lifecycleData = [
+      createDataPoint(new Date('2023-01-01'), 100),
+      createDataPoint(new Date('2023-01-02'), 101),
+      createDataPoint(new Date('2023-01-03'), 102),
+    ];
+
+    // Records the lifecycle calls of one instance
+    const createRecordingStrategy = (calls: string[]) => ({
+      id: 'recording',
+      name: 'Recording Strategy',
+      parameters: [{ name: 'period', label: 'Period', type: 'number', defaultValue: 5 }],
+      init: jest.fn(() => { calls.push('init'); }),
+      execute: jest.fn((context: StrategyContext): StrategySignal => { calls.push(`bar ${context.currentIndex}`); return { action: 'HOLD' }; }),
+      onFinish: jest.fn(() => { calls.push('finish'); }),
+      dispose: jest.fn(() => { calls.push('dispose'); }),
+    });
+
+    test('should run init, every bar, onFinish and dispose in order on the instance of the run', async () => {
+      const calls: string[] = [];
+      const strategy = createRecordingStrategy(calls);
+      (mockGetStrategy as jest.Mock).mockReturnValue(strategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(lifecycleData);
+
+      await runBacktest(symbol, startDate, endDate, initialCash, 'recording', {});
+
+      expect(calls).toEqual(['init', 'bar 0', 'bar 1', 'bar 2', 'finish', 'dispose']);
+      expect(strategy.init).toHaveBeenCalledWith({ symbols: [symbol], parameters: { period: 5 } });
+    });
+
+    test('should dispose the instance when the run is cancelled', async () => {
+      const calls: string[] = [];
+      const strategy = createRecordingStrategy(calls);
+      (mockGetStrategy as jest.Mock).mockReturnValue(strategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(lifecycleData);
+
+      await expect(runBacktest(symbol, startDate, endDate, initialCash, 'recording', {}, undefined, undefined, { signal: AbortSignal.abort(new Error('Cancelled')) }))
+        .rejects.toThrow('Cancelled');
+      expect(calls).toEqual(['init', 'dispose']);
+    });
+
+    test('should reject a strategy that only trades a portfolio of symbols', async () => {
+      const calls: string[] = [];
+      const strategy = { ...createRecordingStrategy(calls), id: 'portfolio-only', executePortfolio: jest.fn(() => []) };
+      (mockGetStrategy as jest.Mock).mockReturnValue(strategy);
+      (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue(lifecycleData);
+
+      await expect(runBacktest(symbol, startDate, endDate, initialCash, 'portfolio-only', {}))
+        .rejects.toThrow("Strategy 'portfolio-only' trades several symbols together and only runs in a portfolio backtest");
+      expect(calls).toEqual(['dispose']);
+    });
+  });
+
   describe('runBacktest with AISelectorStrategy', () => {
     const aiSelectorStrategyId = 'ai-selector';
     let mockAISelectorStrategy: any; // Use 'any' for flexible mocking of instance properties
     let mockCandidateStrategy: any;
+    let lastAIDecision: AIDecision | null;
 
     const aiTestData: HistoricalDataPoint[] = [
         createDataPoint(new Date('2023-01-01'), 100),
@@ -317,6 +1073,7 @@ describe('Backtesting Module Tests', () => {
     ];
 
     beforeEach(() => {
+        lastAIDecision = null;
         // Mock the AI Selector Strategy and its candidate
         mockCandidateStrategy = {
             id: 'candidateA',
@@ -333,9 +1090,9 @@ describe('Backtesting Module Tests', () => {
                 { name: 'evaluationMetric', type: 'string', defaultValue: 'pnl' },
                 { name: 'optimizeParameters', type: 'boolean', defaultValue: false },
             ],
-            // Mock the execute method and the lastAIDecision property
+            // Mock the execute method and the decision it reports through getAIDecision
             execute: jest.fn().mockImplementation(async (context: StrategyContext) => {
-                // Simulate AI making a decision and setting lastAIDecision
+                // Simulate AI making a decision
                 // This is a simplified mock; the actual AI selector has complex logic
                 const currentDataPoint = context.historicalData[context.currentIndex];
                 const decisionTimestamp = currentDataPoint.timestamp;
@@ -344,7 +1101,7 @@ describe('Backtesting Module Tests', () => {
                     ? currentDataPoint.date 
                     : (currentDataPoint.date?.toISOString().split('T')[0] || new Date(decisionTimestamp * 1000).toISOString().split('T')[0]);
                 
-                mockAISelectorStrategy.lastAIDecision = {
+                lastAIDecision = {
                     timestamp: decisionTimestamp,
                     date: decisionDate,
                     chosenStrategyId: 'candidateA',
@@ -356,10 +1113,9 @@ describe('Backtesting Module Tests', () => {
                 // Simulate the chosen strategy's action (e.g., HOLD for simplicity here)
                 return { action: 'HOLD' };
             }),
-            lastAIDecision: null,
+            getAIDecision: jest.fn(() => lastAIDecision),
             // Mock other properties if needed by StrategyManager or runBacktest
             description: 'Mock AI Selector',
-            optimizedParamsForChoice: new Map(), // Add this if getAISelectorActiveState relies on it
         };
 
         (mockGetStrategy as jest.Mock).mockImplementation((id: string) => {
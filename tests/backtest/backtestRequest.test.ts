@@ -0,0 +1,47 @@
+import { validateBacktestRunSettings, validateBacktestSettings, validateUnsupportedSettings } from '../../src/backtest/backtestRequest';
+
+describe('Backtest Request Validation', () => {
+  const settings = {
+    strategyId: 'macd-crossover',
+    strategyParams: {},
+    symbol: 'BTCUSDT',
+    startDate: '2023-01-01',
+    endDate: '2023-06-30',
+    initialCash: 10000,
+  };
+  const portfolioFields = ['strategyId', 'strategyParams', 'symbols', 'startDate', 'endDate', 'initialCash'];
+
+  it('should validate the settings every backtest endpoint shares', () => {
+    expect(validateBacktestSettings(settings)).toBeNull();
+    expect(validateBacktestSettings({ ...settings, symbol: '' }))
+      .toBe('Missing required fields: strategyId, strategyParams, symbol, startDate, endDate, initialCash are required.');
+    expect(validateBacktestSettings({ ...settings, endDate: '2022-12-31' })).toBe('End date must be after start date.');
+    expect(validateBacktestSettings({ ...settings, initialCash: 0 })).toBe('initialCash must be a positive number.');
+    expect(validateBacktestSettings({ ...settings, initialCash: '10000' })).toBe('initialCash must be a positive number.');
+    expect(validateBacktestSettings({ ...settings, interval: 60 })).toBe('interval must be a string.');
+  });
+
+  it('should check the fields each endpoint requires and the same engine settings for all', () => {
+    const portfolio = { ...settings, symbol: undefined, symbols: ['AAA', 'BBB'] };
+    expect(validateBacktestRunSettings(portfolio, portfolioFields)).toBeNull();
+    expect(validateBacktestRunSettings({ ...portfolio, symbols: undefined }, portfolioFields))
+      .toBe('Missing required fields: strategyId, strategyParams, symbols, startDate, endDate, initialCash are required.');
+
+    const timingError = 'executionTiming must be one of SAME_BAR_CLOSE, NEXT_BAR_OPEN, NEXT_BAR_VWAP.';
+    expect(validateBacktestRunSettings({ ...portfolio, executionTiming: 'LATER' }, portfolioFields)).toBe(timingError);
+    expect(validateBacktestSettings({ ...settings, executionTiming: 'LATER' })).toBe(timingError);
+  });
+
+  it('should reject the settings an endpoint would ignore', () => {
+    expect(validateUnsupportedSettings({ ...settings, lotMatching: 'AVERAGE_COST' }, ['benchmarkSymbol'], 'parameter sweeps')).toBeNull();
+    expect(validateUnsupportedSettings({ ...settings, benchmarkSymbol: null }, ['benchmarkSymbol'], 'parameter sweeps')).toBeNull();
+    expect(validateUnsupportedSettings({ ...settings, benchmarkSymbol: 'BTCUSDT' }, ['benchmarkSymbol'], 'parameter sweeps'))
+      .toBe('benchmarkSymbol is not supported in parameter sweeps.');
+  });
+
+  it('should reject a strategy that only runs on a portfolio in single-symbol requests only', () => {
+    const pairs = { ...settings, strategyId: 'pairs-trading' };
+    expect(validateBacktestSettings(pairs)).toMatch(/^Strategy 'pairs-trading' trades several symbols together/);
+    expect(validateBacktestRunSettings({ ...pairs, symbols: ['AAA', 'BBB'] }, portfolioFields)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  validateBenchmarkSymbol,
+  buildBuyAndHoldCurve,
+  calculateRelativePerformance,
+  createBenchmarkResult,
+} from '../../src/backtest/benchmark';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+
+const createBar = (timestamp: number, close: number): HistoricalDataPoint => ({
+  timestamp,
+  date: new Date(timestamp * 1000),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  interval: '1d',
+  source_api: 'TestSource',
+  symbol: 'BENCH',
+});
+
+const curve = (values: number[]) => values.map((value, k) => ({ timestamp: k + 1, value }));
+
+describe('Benchmark', () => {
+  it('should value a buy-and-hold position at the latest close of each timestamp', () => {
+    const bars = [createBar(2, 50), createBar(4, 60)];
+
+    const result = buildBuyAndHoldCurve([1, 2, 3, 4], bars, 1000);
+
+    // Nothing to buy before the first bar; then bought at 50 and marked at the latest close
+    expect(result.map(point => point.value)).toEqual([1000, 1000, 1000, 1200]);
+  });
+
+  it('should report identical curves as no excess return with a beta of 1', () => {
+    const values = curve([100, 110, 99, 120]);
+
+    const performance = calculateRelativePerformance(values, values, 252);
+
+    expect(performance.excessReturn).toBeCloseTo(0);
+    expect(performance.beta).toBeCloseTo(1);
+    expect(performance.alpha).toBeCloseTo(0);
+    expect(performance.trackingError).toBeCloseTo(0);
+    expect(performance.informationRatio).toBe(0);
+  });
+
+  it('should measure a leveraged curve against its benchmark', () => {
+    const benchmark = curve([100, 110, 99, 108.9]); // +10%, -10%, +10%
+    const strategy = curve([100, 120, 96, 115.2]);  // +20%, -20%, +20%
+
+    const performance = calculateRelativePerformance(strategy, benchmark, 4);
+
+    expect(performance.beta).toBeCloseTo(2);
+    expect(performance.excessReturn).toBeCloseTo(15.2 - 8.9);
+    // Mean per-bar returns are 0.1/3 and 0.2/3, so alpha = (0.2/3 - 2 * 0.1/3) * 4 = 0
+    expect(performance.alpha).toBeCloseTo(0);
+    // Excess returns of 10%, -10%, 10%: sample std dev of 0.11547 annualized with sqrt(4)
+    expect(performance.trackingError).toBeCloseTo(0.11547 * 2 * 100, 2);
+    expect(performance.informationRatio).toBeCloseTo((0.1 / 3 / 0.11547) * 2, 3);
+  });
+
+  it('should build a benchmark result on the strategy timestamps', () => {
+    const strategyCurve = [{ timestamp: 1, value: 1000 }, { timestamp: 1, value: 1000 }, { timestamp: 2, value: 1050 }];
+
+    const result = createBenchmarkResult('BENCH', strategyCurve, [createBar(1, 10), createBar(2, 12)], 1000, 252);
+
+    expect(result).toMatchObject({ symbol: 'BENCH', initialValue: 1000, finalValue: 1200 });
+    expect(result.returnPercentage).toBeCloseTo(20);
+    expect(result.excessReturn).toBeCloseTo(-15);
+    expect(result.equityCurve.map(point => point.timestamp)).toEqual([1, 1, 2]);
+  });
+
+  it('should validate the benchmark symbol', () => {
+    expect(validateBenchmarkSymbol(undefined)).toBeNull();
+    expect(validateBenchmarkSymbol('BTCUSDT')).toBeNull();
+    expect(validateBenchmarkSymbol('')).toBe('benchmarkSymbol must be a non-empty string.');
+    expect(validateBenchmarkSymbol(42)).toBe('benchmarkSymbol must be a non-empty string.');
+  });
+});
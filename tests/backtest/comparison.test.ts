@@ -0,0 +1,101 @@
+import {
+  compareBacktests,
+  flattenSettings,
+  validateComparisonRuns,
+  validateComparisonSettings,
+  ComparisonRunInput,
+} from '../../src/backtest/comparison';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const START = Math.floor(new Date('2023-01-01').getTime() / 1000);
+
+const curve = (step: number, values: number[], offset = 0) =>
+  values.map((value, k) => ({ timestamp: START + offset + k * step, value }));
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1e6) / 1e6);
+
+describe('Backtest Comparison', () => {
+  // Daily run over 4 days, and a 12-hourly run starting a day later
+  const daily: ComparisonRunInput = {
+    label: 'Daily',
+    result: { portfolioHistory: curve(DAY, [1000, 1100, 990, 1210]) },
+    settings: { symbol: 'BTCUSDT', interval: '1d', strategyParams: { fastPeriod: 12, slowPeriod: 26 } },
+  };
+  const halfDaily: ComparisonRunInput = {
+    result: { portfolioHistory: curve(12 * HOUR, [5000, 5500, 5000, 6000, 6000], DAY) },
+    settings: { symbol: 'BTCUSDT', interval: '12h', strategyParams: { fastPeriod: 8, slowPeriod: 26 }, costModel: { feeBps: 10 } },
+  };
+
+  it('should validate settings and runs', () => {
+    expect(validateComparisonSettings(undefined)).toBeNull();
+    expect(validateComparisonSettings({ alignment: 'union', maxPoints: 100 })).toBeNull();
+    expect(validateComparisonSettings({ alignment: 'left' })).toBe('comparison.alignment must be one of overlap, union.');
+    expect(validateComparisonSettings({ maxPoints: 1 })).toBe('comparison.maxPoints must be an integer between 2 and 5000.');
+
+    expect(validateComparisonRuns([daily, halfDaily])).toBeNull();
+    expect(validateComparisonRuns([daily])).toBe('runs must be an array of 2 to 10 runs.');
+    expect(validateComparisonRuns([daily, { result: { portfolioHistory: curve(DAY, [1]) } }]))
+      .toBe('runs[1].result.portfolioHistory must be an array of at least 2 { timestamp, value } numbers.');
+    expect(validateComparisonRuns([daily, { result: { portfolioHistory: [...curve(DAY, [1, 2])].reverse() } }]))
+      .toBe('runs[1].result.portfolioHistory must be in chronological order.');
+
+    const later: ComparisonRunInput = { result: { portfolioHistory: curve(DAY, [1, 2], 10 * DAY) } };
+    expect(validateComparisonRuns([daily, later])).toBe('The runs do not cover a common period; use comparison.alignment "union" to compare them anyway.');
+    expect(validateComparisonRuns([daily, later], { alignment: 'union' })).toBeNull();
+  });
+
+  it('should align runs of different intervals on the overlapping period, rebased to 100', () => {
+    const result = compareBacktests([daily, halfDaily]);
+
+    expect(result.labels).toEqual(['Daily', 'Run 2']);
+    expect(result.startTimestamp).toBe(START + DAY);
+    expect(result.endTimestamp).toBe(START + 3 * DAY);
+    // Every 12 hours from day 1 to day 3; the daily run keeps its value between its points
+    expect(result.points.map(point => point.timestamp)).toEqual([0, 1, 2, 3, 4].map(k => START + DAY + k * 12 * HOUR));
+    expect(result.points.map(point => round(point.equity[0]))).toEqual([100, 100, 90, 90, 110]);
+    expect(result.points.map(point => round(point.equity[1]))).toEqual([100, 110, 100, 120, 120]);
+    expect(result.points[2].drawdown[0]).toBeCloseTo(-10);
+    expect(result.points[2].drawdown[1]).toBeCloseTo(-100 / 11);
+    expect(result.points[4].drawdown).toEqual([0, 0]);
+  });
+
+  it('should compute metrics over the compared period of each run', () => {
+    const result = compareBacktests([daily, halfDaily]);
+
+    expect(result.metrics[0]).toMatchObject({ startTimestamp: START + DAY, endTimestamp: START + 3 * DAY, barsPerYear: 365 });
+    expect(result.metrics[0].totalReturn).toBeCloseTo(10);
+    expect(result.metrics[0].maxDrawdown).toBeCloseTo(10);
+    expect(result.metrics[1].totalReturn).toBeCloseTo(20);
+    expect(result.metrics[1].barsPerYear).toBe(730);
+  });
+
+  it('should cover every run with the union alignment, leaving gaps before a run starts', () => {
+    const result = compareBacktests([daily, halfDaily], { alignment: 'union' });
+
+    expect(result.startTimestamp).toBe(START);
+    expect(result.points[0].equity).toEqual([100, null]);
+    expect(result.points[0].drawdown).toEqual([0, null]);
+    expect(result.points[result.points.length - 1].equity[0]).toBeCloseTo(121);
+    expect(result.metrics[0].totalReturn).toBeCloseTo(21);
+  });
+
+  it('should flag the settings that differ between runs', () => {
+    const result = compareBacktests([daily, halfDaily]);
+    const rows = Object.fromEntries(result.settings.map(row => [row.key, row]));
+
+    expect(rows['symbol']).toEqual({ key: 'symbol', values: ['BTCUSDT', 'BTCUSDT'], differs: false });
+    expect(rows['strategyParams.fastPeriod']).toEqual({ key: 'strategyParams.fastPeriod', values: [12, 8], differs: true });
+    expect(rows['strategyParams.slowPeriod'].differs).toBe(false);
+    expect(rows['costModel.feeBps']).toEqual({ key: 'costModel.feeBps', values: [null, 10], differs: true });
+    expect(flattenSettings({ a: { b: [1, 2] }, c: undefined })).toEqual({ 'a.b': [1, 2] });
+  });
+
+  it('should thin out long timelines, keeping the first and last points', () => {
+    const long: ComparisonRunInput = { result: { portfolioHistory: curve(HOUR, Array.from({ length: 500 }, (_, k) => 1000 + k)) } };
+    const result = compareBacktests([long, long], { maxPoints: 50 });
+
+    expect(result.points).toHaveLength(50);
+    expect(result.points[0].timestamp).toBe(START);
+    expect(result.points[49].timestamp).toBe(START + 499 * HOUR);
+  });
+});
@@ -0,0 +1,65 @@
+import { createCostModel, validateCostModelSettings } from '../../src/backtest/costModel';
+
+describe('Cost Model', () => {
+  describe('createCostModel', () => {
+    it('should fill at the reference price with no costs when settings are empty', () => {
+      const costModel = createCostModel();
+      expect(costModel.applyCosts('BUY', 100, 2)).toEqual({ fillPrice: 100, fees: 0, slippage: 0 });
+      expect(costModel.applyCosts('SELL', 100, 2)).toEqual({ fillPrice: 100, fees: 0, slippage: 0 });
+    });
+
+    it('should charge the fixed fee plus the taker percentage on market fills', () => {
+      const costModel = createCostModel({ fixedFeePerTrade: 1, takerFeePercent: 0.1, makerFeePercent: 0.02 });
+      const { fillPrice, fees, slippage } = costModel.applyCosts('BUY', 200, 5);
+      expect(fillPrice).toBe(200);
+      expect(fees).toBeCloseTo(1 + 200 * 5 * 0.001);
+      expect(slippage).toBe(0);
+    });
+
+    it('should charge the maker percentage on maker fills', () => {
+      const costModel = createCostModel({ takerFeePercent: 0.1, makerFeePercent: 0.02 });
+      const { fees } = costModel.applyCosts('SELL', 200, 5, 'maker');
+      expect(fees).toBeCloseTo(200 * 5 * 0.0002);
+    });
+
+    it('should move the fill price against the trader by slippage plus half the spread', () => {
+      const costModel = createCostModel({ slippageBps: 10, spreadBps: 20 }); // 10 + 10 = 20 bps
+      const buy = costModel.applyCosts('BUY', 100, 3);
+      const sell = costModel.applyCosts('SELL', 100, 3);
+
+      expect(buy.fillPrice).toBeCloseTo(100.2);
+      expect(sell.fillPrice).toBeCloseTo(99.8);
+      expect(buy.slippage).toBeCloseTo(0.6);
+      expect(sell.slippage).toBeCloseTo(0.6);
+    });
+
+    it('should not apply slippage or spread to maker fills', () => {
+      const costModel = createCostModel({ slippageBps: 10, spreadBps: 20 });
+      expect(costModel.applyCosts('BUY', 100, 3, 'maker')).toEqual({ fillPrice: 100, fees: 0, slippage: 0 });
+    });
+
+    it('should compute percentage fees on the slipped fill price', () => {
+      const costModel = createCostModel({ takerFeePercent: 1, slippageBps: 100 });
+      const { fillPrice, fees } = costModel.applyCosts('BUY', 100, 1);
+      expect(fillPrice).toBeCloseTo(101);
+      expect(fees).toBeCloseTo(1.01);
+    });
+  });
+
+  describe('validateCostModelSettings', () => {
+    it('should accept undefined and valid settings', () => {
+      expect(validateCostModelSettings(undefined)).toBeNull();
+      expect(validateCostModelSettings({ fixedFeePerTrade: 0, takerFeePercent: 0.1 })).toBeNull();
+    });
+
+    it('should reject negative or non-numeric fields', () => {
+      expect(validateCostModelSettings({ slippageBps: -1 })).toBe('costModel.slippageBps must be a non-negative number.');
+      expect(validateCostModelSettings({ takerFeePercent: '0.1' })).toBe('costModel.takerFeePercent must be a non-negative number.');
+    });
+
+    it('should reject non-object settings', () => {
+      expect(validateCostModelSettings(5)).toBe('costModel must be an object.');
+      expect(validateCostModelSettings([])).toBe('costModel must be an object.');
+    });
+  });
+});
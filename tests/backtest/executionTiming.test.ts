@@ -0,0 +1,23 @@
+import { validateExecutionTiming, isNextBarExecution, getExecutionPrice } from '../../src/backtest/executionTiming';
+
+describe('Execution Timing', () => {
+  const bar = { open: 100, high: 112, low: 94, close: 106 };
+
+  it('should price fills at the close, the open or the typical price', () => {
+    expect(getExecutionPrice('SAME_BAR_CLOSE', bar)).toBe(106);
+    expect(getExecutionPrice('NEXT_BAR_OPEN', bar)).toBe(100);
+    expect(getExecutionPrice('NEXT_BAR_VWAP', bar)).toBeCloseTo((112 + 94 + 106) / 3);
+  });
+
+  it('should defer execution only for the next-bar modes', () => {
+    expect(isNextBarExecution('SAME_BAR_CLOSE')).toBe(false);
+    expect(isNextBarExecution('NEXT_BAR_OPEN')).toBe(true);
+    expect(isNextBarExecution('NEXT_BAR_VWAP')).toBe(true);
+  });
+
+  it('should validate execution timing values', () => {
+    expect(validateExecutionTiming(undefined)).toBeNull();
+    expect(validateExecutionTiming('NEXT_BAR_OPEN')).toBeNull();
+    expect(validateExecutionTiming('next-bar')).toBe('executionTiming must be one of SAME_BAR_CLOSE, NEXT_BAR_OPEN, NEXT_BAR_VWAP.');
+  });
+});
@@ -0,0 +1,100 @@
+import { buildRoundTrips, validateLotMatching, LotFill } from '../../src/backtest/lotMatching';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+
+const DAY = 24 * 60 * 60;
+const START = Math.floor(new Date('2023-01-01').getTime() / 1000);
+
+const createBar = (day: number, low: number, high: number, close: number, symbol = 'TEST'): HistoricalDataPoint => ({
+  timestamp: START + day * DAY,
+  date: new Date((START + day * DAY) * 1000),
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000,
+  interval: '1d',
+  source_api: 'TestSource',
+  symbol,
+});
+
+const fill = (day: number, action: 'BUY' | 'SELL', price: number, sharesTraded: number, fees = 0, symbol?: string): LotFill => ({
+  timestamp: START + day * DAY,
+  date: new Date((START + day * DAY) * 1000),
+  action,
+  price,
+  sharesTraded,
+  fees,
+  tradeType: 'SIGNAL',
+  symbol,
+});
+
+describe('Lot Matching', () => {
+  const bars = [
+    createBar(0, 95, 105, 100),
+    createBar(1, 90, 112, 110),
+    createBar(2, 105, 130, 120),
+    createBar(3, 115, 125, 120),
+  ];
+
+  it('should validate the lot matching method', () => {
+    expect(validateLotMatching(undefined)).toBeNull();
+    expect(validateLotMatching('FIFO')).toBeNull();
+    expect(validateLotMatching('AVERAGE_COST')).toBeNull();
+    expect(validateLotMatching('LIFO')).toBe('lotMatching must be one of FIFO, AVERAGE_COST.');
+  });
+
+  it('should close the oldest lots first with FIFO', () => {
+    const roundTrips = buildRoundTrips([
+      fill(0, 'BUY', 100, 2, 2),
+      fill(1, 'BUY', 110, 2, 2),
+      fill(2, 'SELL', 120, 3, 3),
+    ], bars);
+
+    expect(roundTrips.map(trip => [trip.entryPrice, trip.quantity, trip.holdingPeriodBars])).toEqual([[100, 2, 2], [110, 1, 1]]);
+    expect(roundTrips[0]).toMatchObject({ direction: 'LONG', grossPnl: 40, fees: 2 + 2, netPnl: 36, holdingPeriodSeconds: 2 * DAY, exitType: 'SIGNAL' });
+    expect(roundTrips[0].returnPercentage).toBeCloseTo(18);
+    expect(roundTrips[1]).toMatchObject({ grossPnl: 10, fees: 1 + 1, netPnl: 8 });
+  });
+
+  it('should close at the average entry price with AVERAGE_COST', () => {
+    const roundTrips = buildRoundTrips([
+      fill(0, 'BUY', 100, 2, 2),
+      fill(1, 'BUY', 110, 2, 2),
+      fill(2, 'SELL', 120, 3, 3),
+      fill(3, 'SELL', 120, 1, 1),
+    ], bars, 'AVERAGE_COST');
+
+    expect(roundTrips).toHaveLength(2);
+    expect(roundTrips[0]).toMatchObject({ entryPrice: 105, quantity: 3, grossPnl: 45, fees: 3 + 3, netPnl: 39, holdingPeriodBars: 2 });
+    expect(roundTrips[1]).toMatchObject({ entryPrice: 105, quantity: 1, grossPnl: 15, fees: 1 + 1, holdingPeriodBars: 3 });
+  });
+
+  it('should compute MAE and MFE from the bars after the entry bar', () => {
+    const [roundTrip] = buildRoundTrips([fill(0, 'BUY', 100, 2), fill(2, 'SELL', 120, 2)], bars);
+
+    // The entry bar's low of 95 is ignored; the lowest low afterwards is 90 and the highest high 130
+    expect(roundTrip).toMatchObject({ mae: 20, mfe: 60, maePercentage: 10, mfePercentage: 30 });
+  });
+
+  it('should mirror excursions for shorts and split a flipping fill', () => {
+    const roundTrips = buildRoundTrips([
+      fill(0, 'BUY', 100, 1, 2),
+      fill(1, 'SELL', 110, 2, 2), // Closes the long and opens a short of 1; the fee is split 1/1
+      fill(3, 'BUY', 120, 1),
+    ], bars);
+
+    expect(roundTrips.map(trip => [trip.direction, trip.netPnl])).toEqual([['LONG', 10 - 2 - 1], ['SHORT', -10 - 1]]);
+    expect(roundTrips[1]).toMatchObject({ mae: 20, mfe: 5 }); // Highest high after the entry bar 130, lowest low 105
+  });
+
+  it('should match symbols separately and skip lots still open', () => {
+    const roundTrips = buildRoundTrips([
+      fill(0, 'BUY', 10, 1, 0, 'BTC'),
+      fill(0, 'BUY', 20, 1, 0, 'ETH'),
+      fill(1, 'SELL', 25, 1, 0, 'ETH'),
+    ], { BTC: [createBar(0, 10, 10, 10, 'BTC')], ETH: [createBar(0, 20, 20, 20, 'ETH'), createBar(1, 18, 26, 25, 'ETH')] });
+
+    expect(roundTrips).toHaveLength(1);
+    expect(roundTrips[0]).toMatchObject({ symbol: 'ETH', grossPnl: 5, mae: 2, mfe: 6, holdingPeriodBars: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  validateMarginSettings,
+  resolveMarginSettings,
+  calculateEquity,
+  calculateBorrowInterest,
+  isWithinLeverageCap,
+  isBelowMaintenanceMargin,
+  calculatePortfolioEquity,
+  calculatePortfolioBorrowInterest,
+  isPortfolioWithinLeverageCap,
+  isPortfolioBelowMaintenanceMargin,
+  DEFAULT_MAX_LEVERAGE,
+  DEFAULT_MAINTENANCE_MARGIN_PERCENT,
+} from '../../src/backtest/margin';
+
+describe('Margin', () => {
+  describe('resolveMarginSettings', () => {
+    it('should return null when margin is missing or disabled', () => {
+      expect(resolveMarginSettings()).toBeNull();
+      expect(resolveMarginSettings({ enabled: false, maxLeverage: 3 })).toBeNull();
+    });
+
+    it('should fill in defaults for optional fields', () => {
+      expect(resolveMarginSettings({ enabled: true })).toEqual({
+        enabled: true,
+        maxLeverage: DEFAULT_MAX_LEVERAGE,
+        borrowRatePercentAnnual: 0,
+        maintenanceMarginPercent: DEFAULT_MAINTENANCE_MARGIN_PERCENT,
+      });
+    });
+  });
+
+  describe('calculateBorrowInterest', () => {
+    it('should charge interest on borrowed cash and on shorted units', () => {
+      expect(calculateBorrowInterest({ cash: -1000, shares: 20 }, 100, 10, 100)).toBeCloseTo(1);
+      expect(calculateBorrowInterest({ cash: 3000, shares: -10 }, 100, 10, 100)).toBeCloseTo(1);
+    });
+
+    it('should charge nothing for a cash-funded long position or a zero rate', () => {
+      expect(calculateBorrowInterest({ cash: 500, shares: 5 }, 100, 10, 252)).toBe(0);
+      expect(calculateBorrowInterest({ cash: -1000, shares: 20 }, 100, 0, 252)).toBe(0);
+    });
+  });
+
+  describe('isWithinLeverageCap', () => {
+    it('should compare gross exposure with equity after the trade', () => {
+      const flat = { cash: 1000, shares: 0 };
+      expect(isWithinLeverageCap(flat, { cash: -1000, shares: 20 }, 100, 2)).toBe(true);   // 2000 / 1000 = 2x
+      expect(isWithinLeverageCap(flat, { cash: -1100, shares: 21 }, 100, 2)).toBe(false); // 2100 / 1000 > 2x
+      expect(isWithinLeverageCap(flat, { cash: 2000, shares: -10 }, 100, 1)).toBe(true);  // 1000 / 1000 = 1x short
+    });
+
+    it('should always allow trades that only reduce the position', () => {
+      const overLevered = { cash: -1900, shares: 20 }; // Equity 100, exposure 2000
+      expect(calculateEquity(overLevered, 100)).toBe(100);
+      expect(isWithinLeverageCap(overLevered, { cash: -900, shares: 10 }, 100, 2)).toBe(true);
+      expect(isWithinLeverageCap(overLevered, { cash: 2100, shares: -20 }, 100, 2)).toBe(false); // Flipping short is not a reduction
+    });
+  });
+
+  describe('isBelowMaintenanceMargin', () => {
+    it('should flag accounts whose equity is below the maintenance percentage of exposure', () => {
+      expect(isBelowMaintenanceMargin({ cash: 200, shares: -1 }, 150, 25)).toBe(false); // 50 >= 37.5
+      expect(isBelowMaintenanceMargin({ cash: 200, shares: -1 }, 170, 25)).toBe(true);  // 30 < 42.5
+      expect(isBelowMaintenanceMargin({ cash: 0, shares: 0 }, 170, 25)).toBe(false);
+    });
+  });
+
+  describe('multi-asset accounts', () => {
+    const prices = { BTC: 100, ETH: 50 };
+    const pair = { cash: 1000, positions: { BTC: 10, ETH: -20 } }; // Long 1000, short 1000
+
+    it('should value longs and shorts at each symbol\'s price', () => {
+      expect(calculatePortfolioEquity(pair, prices)).toBe(1000);
+      expect(calculatePortfolioBorrowInterest(pair, prices, 10, 100)).toBeCloseTo(1); // On the 1000 short
+    });
+
+    it('should cap gross exposure across all positions', () => {
+      const flat = { cash: 1000, positions: { BTC: 0, ETH: 0 } };
+      const longLeg = { cash: 0, positions: { BTC: 10, ETH: 0 } };
+      expect(isPortfolioWithinLeverageCap(flat, longLeg, 'BTC', prices, 2)).toBe(true);
+      expect(isPortfolioWithinLeverageCap(longLeg, { cash: 1000, positions: { BTC: 10, ETH: -20 } }, 'ETH', prices, 2)).toBe(true);  // 2000 / 1000
+      expect(isPortfolioWithinLeverageCap(longLeg, { cash: 1050, positions: { BTC: 10, ETH: -21 } }, 'ETH', prices, 2)).toBe(false); // 2050 / 1000
+      expect(isPortfolioWithinLeverageCap(pair, { cash: 1500, positions: { BTC: 5, ETH: -20 } }, 'BTC', prices, 0.5)).toBe(true);   // Reduction
+    });
+
+    it('should flag accounts below the maintenance margin', () => {
+      expect(isPortfolioBelowMaintenanceMargin(pair, prices, 25)).toBe(false);                 // 1000 >= 500
+      expect(isPortfolioBelowMaintenanceMargin(pair, { BTC: 60, ETH: 80 }, 25)).toBe(true);    // 0 < 550
+      expect(isPortfolioBelowMaintenanceMargin({ cash: 0, positions: { BTC: 0 } }, prices, 25)).toBe(false);
+    });
+  });
+
+  describe('validateMarginSettings', () => {
+    it('should accept undefined and valid settings', () => {
+      expect(validateMarginSettings(undefined)).toBeNull();
+      expect(validateMarginSettings({ enabled: true, maxLeverage: 3, borrowRatePercentAnnual: 5, maintenanceMarginPercent: 30 })).toBeNull();
+    });
+
+    it('should reject malformed settings', () => {
+      expect(validateMarginSettings('yes')).toBe('margin must be an object.');
+      expect(validateMarginSettings({ maxLeverage: 2 })).toBe('margin.enabled must be a boolean.');
+      expect(validateMarginSettings({ enabled: true, maxLeverage: 0 })).toBe('margin.maxLeverage must be a positive number.');
+      expect(validateMarginSettings({ enabled: true, borrowRatePercentAnnual: -1 })).toBe('margin.borrowRatePercentAnnual must be a non-negative number.');
+      expect(validateMarginSettings({ enabled: true, maintenanceMarginPercent: 100 })).toBe('margin.maintenanceMarginPercent must be a number between 0 and 100.');
+    });
+  });
+});
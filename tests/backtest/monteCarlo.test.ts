@@ -0,0 +1,108 @@
+import {
+  percentileOfSorted,
+  runMonteCarlo,
+  validateMonteCarloInput,
+  validateMonteCarloSettings,
+  MonteCarloInput,
+} from '../../src/backtest/monteCarlo';
+
+const DAY = 24 * 60 * 60;
+const START = Math.floor(new Date('2023-01-01').getTime() / 1000);
+
+const history = (values: number[]) => values.map((value, k) => ({ timestamp: START + k * DAY, value }));
+
+describe('Monte Carlo Analysis', () => {
+  const input: MonteCarloInput = {
+    initialPortfolioValue: 1000,
+    portfolioHistory: history([1000, 1100, 1050, 1200, 1150, 1300]),
+    roundTrips: [{ netPnl: 100 }, { netPnl: -50 }, { netPnl: 150 }, { netPnl: -50 }, { netPnl: 150 }],
+  };
+
+  it('should validate settings and input', () => {
+    expect(validateMonteCarloSettings(undefined)).toBeNull();
+    expect(validateMonteCarloSettings({ methods: ['bootstrap'], simulations: 100, seed: 1, skipProbability: 0.2 })).toBeNull();
+    expect(validateMonteCarloSettings({ methods: ['reverse'] })).toBe('monteCarlo.methods must be a non-empty array of tradeShuffle, bootstrap, skipTrades.');
+    expect(validateMonteCarloSettings({ simulations: 0 })).toBe('monteCarlo.simulations must be an integer between 1 and 10000.');
+    expect(validateMonteCarloSettings({ skipProbability: 1 })).toBe('monteCarlo.skipProbability must be between 0 and 1 (exclusive).');
+
+    expect(validateMonteCarloInput(input)).toBeNull();
+    expect(validateMonteCarloInput({ initialPortfolioValue: 0 })).toBe('backtestResult.initialPortfolioValue must be a positive number.');
+    expect(validateMonteCarloInput({ initialPortfolioValue: 1000 })).toBe('backtestResult needs roundTrips or a portfolioHistory with at least 2 points.');
+    expect(validateMonteCarloInput({ initialPortfolioValue: 1000, portfolioHistory: input.portfolioHistory }, { methods: ['tradeShuffle'] }))
+      .toBe('tradeShuffle needs at least one round trip in roundTrips.');
+  });
+
+  it('should reject inputs that would take too many simulated steps', () => {
+    const longHistory = history(Array(10001).fill(1000));
+    expect(validateMonteCarloInput({ initialPortfolioValue: 1000, portfolioHistory: longHistory }))
+      .toBe('backtestResult.portfolioHistory has 10001 points, more than the 10000 allowed with 1000 simulations. Resample the equity curve or lower monteCarlo.simulations.');
+    expect(validateMonteCarloInput({ initialPortfolioValue: 1000, portfolioHistory: longHistory }, { simulations: 999 })).toBeNull();
+    // Only the methods that run count
+    expect(validateMonteCarloInput({ ...input, portfolioHistory: longHistory }, { methods: ['tradeShuffle'] })).toBeNull();
+
+    const roundTrips = Array(1000).fill({ netPnl: 1 });
+    expect(validateMonteCarloInput({ initialPortfolioValue: 1000, roundTrips }, { simulations: 10000 }))
+      .toBe('backtestResult.roundTrips has 1000 round trips, more than the 999 allowed with 10000 simulations. Lower monteCarlo.simulations.');
+  });
+
+  it('should interpolate percentiles between ranks', () => {
+    expect(percentileOfSorted([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentileOfSorted([0, 10], 25)).toBe(2.5);
+  });
+
+  it('should keep the final equity and vary drawdowns when shuffling trades', () => {
+    const result = runMonteCarlo(input, { methods: ['tradeShuffle'], simulations: 200, seed: 1 });
+    const [shuffle] = result.methods;
+
+    expect(shuffle.finalEquity.values).toEqual([1300, 1300, 1300, 1300, 1300]);
+    // Both losses first gives the deepest drawdown (100 / 1000); a loss right after a new high the shallowest
+    expect(shuffle.maxDrawdown.values[4]).toBeCloseTo(10);
+    expect(shuffle.maxDrawdown.values[0]).toBeLessThan(shuffle.maxDrawdown.values[4]);
+    expect(shuffle.fanChart).toHaveLength(6);
+    expect(shuffle.fanChart[0]).toEqual({ step: 0, values: [1000, 1000, 1000, 1000, 1000] });
+    expect(shuffle.fanChart[5].values[2]).toBe(1300);
+  });
+
+  it('should be reproducible with a seed and report ordered percentiles', () => {
+    const first = runMonteCarlo(input, { simulations: 300, seed: 7 });
+    const second = runMonteCarlo(input, { simulations: 300, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(first.methods.map(method => method.method)).toEqual(['tradeShuffle', 'bootstrap', 'skipTrades']);
+    for (const method of first.methods) {
+      const { values } = method.finalEquity;
+      expect([...values].sort((a, b) => a - b)).toEqual(values);
+    }
+    const bootstrap = first.methods[1];
+    expect(bootstrap.fanChart.map(point => point.timestamp)).toEqual(input.portfolioHistory!.map(point => point.timestamp));
+  });
+
+  it('should count the simulations that reach the ruin level', () => {
+    const losing: MonteCarloInput = { initialPortfolioValue: 1000, roundTrips: [{ netPnl: -300 }, { netPnl: -300 }] };
+    const all = runMonteCarlo(losing, { methods: ['tradeShuffle'], simulations: 50, seed: 3, ruinThresholdPercent: 50 });
+    // Skipping either trade (10% each) keeps the loss at 300 or less, above the ruin level of 500
+    const skipped = runMonteCarlo(losing, { methods: ['skipTrades'], simulations: 2000, seed: 3, ruinThresholdPercent: 50 });
+
+    expect(all.ruinEquity).toBe(500);
+    expect(all.methods[0].riskOfRuin).toBe(100);
+    expect(skipped.methods[0].riskOfRuin).toBeGreaterThan(75);
+    expect(skipped.methods[0].riskOfRuin).toBeLessThan(87);
+  });
+
+  it('should leave out methods without data', () => {
+    const result = runMonteCarlo({ initialPortfolioValue: 1000, portfolioHistory: input.portfolioHistory }, { simulations: 10, seed: 1 });
+
+    expect(result.methods.map(method => method.method)).toEqual(['bootstrap']);
+    expect(result.skippedMethods.map(skipped => skipped.method)).toEqual(['tradeShuffle', 'skipTrades']);
+  });
+
+  it('should down-sample long equity curves for the fan chart', () => {
+    const long = history(Array.from({ length: 1000 }, (_, k) => 1000 + k));
+    const result = runMonteCarlo({ initialPortfolioValue: 1000, portfolioHistory: long }, { simulations: 5, seed: 1 });
+    const { fanChart } = result.methods[0];
+
+    expect(fanChart).toHaveLength(200);
+    expect(fanChart[0].step).toBe(0);
+    expect(fanChart[199].step).toBe(999);
+  });
+});
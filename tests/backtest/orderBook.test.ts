@@ -0,0 +1,89 @@
+import {
+  validateOrderSignal,
+  validateLadderOrder,
+  createPendingOrder,
+  isOrderExpired,
+  checkOrderFill,
+} from '../../src/backtest/orderBook';
+import { StrategySignal } from '../../src/strategies/strategy.types';
+
+const DAY = 24 * 60 * 60;
+const bar = (open: number, high: number, low: number, timestamp = 0) => ({ timestamp, open, high, low });
+const placeOrder = (signal: StrategySignal, barIndex = 0, timestamp = 0) => createPendingOrder(signal, 'ORD-1', 1, bar(100, 100, 100, timestamp), barIndex);
+
+describe('Order Book', () => {
+  describe('checkOrderFill', () => {
+    it('should fill a BUY LIMIT at the limit when the low reaches it, or at a lower open', () => {
+      const order = placeOrder({ action: 'BUY', orderType: 'LIMIT', limitPrice: 95 });
+      expect(checkOrderFill(order, bar(100, 101, 96))).toBeNull();
+      expect(checkOrderFill(order, bar(100, 101, 94))).toBe(95);
+      expect(checkOrderFill(order, bar(93, 96, 92))).toBe(93);
+    });
+
+    it('should fill a SELL LIMIT at the limit when the high reaches it, or at a higher open', () => {
+      const order = placeOrder({ action: 'SELL', orderType: 'LIMIT', limitPrice: 105 });
+      expect(checkOrderFill(order, bar(100, 104, 99))).toBeNull();
+      expect(checkOrderFill(order, bar(100, 106, 99))).toBe(105);
+      expect(checkOrderFill(order, bar(107, 108, 104))).toBe(107);
+    });
+
+    it('should fill a BUY STOP once price trades up through the stop', () => {
+      const order = placeOrder({ action: 'BUY', orderType: 'STOP', stopPrice: 110 });
+      expect(checkOrderFill(order, bar(100, 109, 99))).toBeNull();
+      expect(checkOrderFill(order, bar(100, 112, 99))).toBe(110);
+      expect(checkOrderFill(order, bar(115, 116, 114))).toBe(115);
+    });
+
+    it('should fill a SELL STOP once price trades down through the stop', () => {
+      const order = placeOrder({ action: 'SELL', orderType: 'STOP', stopPrice: 90 });
+      expect(checkOrderFill(order, bar(100, 101, 91))).toBeNull();
+      expect(checkOrderFill(order, bar(100, 101, 89))).toBe(90);
+      expect(checkOrderFill(order, bar(85, 88, 84))).toBe(85);
+    });
+  });
+
+  describe('isOrderExpired', () => {
+    it('should never expire GTC orders', () => {
+      const order = placeOrder({ action: 'BUY', orderType: 'LIMIT', limitPrice: 95 });
+      expect(isOrderExpired(order, bar(100, 100, 100, 50 * DAY), 50, bar(100, 100, 100, DAY))).toBe(false);
+    });
+
+    it('should expire BARS orders after the given number of bars', () => {
+      const order = placeOrder({ action: 'BUY', orderType: 'LIMIT', limitPrice: 95, timeInForce: 'BARS', expiresAfterBars: 2 }, 3);
+      const firstActive = bar(100, 100, 100);
+      expect(isOrderExpired(order, firstActive, 4, firstActive)).toBe(false);
+      expect(isOrderExpired(order, firstActive, 5, firstActive)).toBe(false);
+      expect(isOrderExpired(order, firstActive, 6, firstActive)).toBe(true);
+    });
+
+    it('should expire DAY orders once the day of the first active bar is over', () => {
+      const order = placeOrder({ action: 'BUY', orderType: 'LIMIT', limitPrice: 95, timeInForce: 'DAY' }, 0, DAY - 3600);
+      const firstActive = bar(100, 100, 100, DAY + 3600);
+      expect(isOrderExpired(order, bar(100, 100, 100, DAY + 7200), 2, firstActive)).toBe(false);
+      expect(isOrderExpired(order, bar(100, 100, 100, 2 * DAY + 3600), 3, firstActive)).toBe(true);
+    });
+  });
+
+  describe('validateOrderSignal', () => {
+    it('should accept market signals and complete resting orders', () => {
+      expect(validateOrderSignal({ action: 'BUY' })).toBeNull();
+      expect(validateOrderSignal({ action: 'BUY', orderType: 'STOP', stopPrice: 10, timeInForce: 'DAY' })).toBeNull();
+    });
+
+    it('should reject resting orders without a price or a valid expiry', () => {
+      expect(validateOrderSignal({ action: 'BUY', orderType: 'LIMIT' })).toBe('LIMIT orders need a positive limitPrice.');
+      expect(validateOrderSignal({ action: 'SELL', orderType: 'STOP', stopPrice: 0 })).toBe('STOP orders need a positive stopPrice.');
+      expect(validateOrderSignal({ action: 'BUY', orderType: 'LIMIT', limitPrice: 10, timeInForce: 'BARS' }))
+        .toBe('timeInForce BARS needs expiresAfterBars to be a positive integer.');
+    });
+  });
+
+  describe('validateLadderOrder', () => {
+    it('should accept complete resting orders and reject market orders', () => {
+      expect(validateLadderOrder({ action: 'BUY', orderType: 'LIMIT', limitPrice: 95, amount: 1 })).toBeNull();
+      expect(validateLadderOrder({ action: 'SELL', orderType: 'MARKET' } as any)).toBe('Ladder orders must be LIMIT or STOP orders.');
+      expect(validateLadderOrder({ action: 'HOLD', orderType: 'LIMIT', limitPrice: 95 } as any)).toBe("Ladder orders must BUY or SELL, not 'HOLD'.");
+      expect(validateLadderOrder({ action: 'SELL', orderType: 'STOP' })).toBe('STOP orders need a positive stopPrice.');
+    });
+  });
+});
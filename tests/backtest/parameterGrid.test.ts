@@ -0,0 +1,82 @@
+import {
+  countCombinations,
+  countCombinationsOfCounts,
+  countParameterValues,
+  countRangeValues,
+  expandRange,
+  generateParameterGrid,
+  resolveParameterValues,
+  validateParameterRanges,
+} from '../../src/backtest/parameterGrid';
+import { StrategyParameterDefinition } from '../../src/strategies/strategy.types';
+import { getAvailableStrategies, getStrategy } from '../../src/strategies/strategyManager';
+
+describe('Parameter Grid', () => {
+  const definitions: StrategyParameterDefinition[] = [
+    { name: 'period', label: 'Period', type: 'number', defaultValue: 10, min: 5, max: 15, step: 5 },
+    { name: 'threshold', label: 'Threshold', type: 'number', defaultValue: 0.5, min: 0.1, max: 0.3, step: 0.1 },
+    { name: 'tradeAmount', label: 'Trade Amount', type: 'number', defaultValue: 1 },
+    { name: 'mode', label: 'Mode', type: 'string', defaultValue: 'fast' },
+  ];
+
+  it('should expand a range including its max without floating-point drift', () => {
+    expect(expandRange(0.1, 0.3, 0.1)).toEqual([0.1, 0.2, 0.3]);
+    expect(expandRange(1, 10, 4)).toEqual([1, 5, 9]);
+  });
+
+  it('should optimize numeric parameters with a min/max/step range by default', () => {
+    expect(resolveParameterValues(definitions)).toEqual({ period: [5, 10, 15], threshold: [0.1, 0.2, 0.3] });
+  });
+
+  it('should keep parameters that are not optimizable out of the default grid', () => {
+    const sized: StrategyParameterDefinition[] = [
+      ...definitions,
+      { name: 'orderSize', label: 'Order Size', type: 'number', defaultValue: 1, min: 0, max: 1000, step: 0.001, optimizable: false },
+    ];
+
+    expect(countParameterValues(sized)).toEqual({ period: 3, threshold: 3 });
+    expect(resolveParameterValues(sized, { orderSize: { values: [1, 2] } })).toEqual({ period: [5, 10, 15], threshold: [0.1, 0.2, 0.3], orderSize: [1, 2] });
+  });
+
+  it('should not optimize the trade amount of the built-in strategies by default', () => {
+    const optimized = getAvailableStrategies().filter(strategy => 'tradeAmount' in countParameterValues(strategy.parameters));
+
+    expect(optimized.map(strategy => strategy.id)).toEqual([]);
+    expect(countCombinationsOfCounts(countParameterValues(getStrategy('macd-crossover')!.parameters))).toBe(247500);
+  });
+
+  it('should let ranges and value lists override the definitions', () => {
+    const values = resolveParameterValues(definitions, { period: { min: 20, max: 30, step: 10 }, mode: { values: ['fast', 'slow'] } });
+
+    expect(values).toEqual({ period: [20, 30], threshold: [0.1, 0.2, 0.3], mode: ['fast', 'slow'] });
+    expect(countCombinations(values)).toBe(12);
+  });
+
+  it('should count the values of ranges without expanding them', () => {
+    expect(countRangeValues(0.1, 0.3, 0.1)).toBe(3);
+    expect(countRangeValues(1, 10, 4)).toBe(3);
+    expect(countRangeValues(5, 5, 1)).toBe(1);
+
+    const ranges = { period: { min: 20, max: 30, step: 10 }, mode: { values: ['fast', 'slow'] } };
+    expect(countParameterValues(definitions, ranges)).toEqual({ period: 2, threshold: 3, mode: 2 });
+    expect(countCombinationsOfCounts(countParameterValues(definitions, ranges))).toBe(countCombinations(resolveParameterValues(definitions, ranges)));
+    expect(countParameterValues(definitions, { period: { min: 0, max: 1e12, step: 1 } }).period).toBe(1e12 + 1);
+  });
+
+  it('should enumerate the Cartesian product', () => {
+    expect(generateParameterGrid({ a: [1, 2], b: ['x', 'y'] })).toEqual([
+      { a: 1, b: 'x' }, { a: 1, b: 'y' }, { a: 2, b: 'x' }, { a: 2, b: 'y' },
+    ]);
+    expect(generateParameterGrid({})).toEqual([{}]);
+  });
+
+  it('should validate ranges against the strategy parameters', () => {
+    expect(validateParameterRanges(undefined, definitions)).toBeNull();
+    expect(validateParameterRanges({ period: { min: 5, max: 10, step: 1 } }, definitions)).toBeNull();
+    expect(validateParameterRanges({ unknown: { values: [1] } }, definitions)).toBe('parameterRanges.unknown is not a parameter of this strategy.');
+    expect(validateParameterRanges({ period: { min: 10, max: 5, step: 1 } }, definitions)).toBe('parameterRanges.period.min must not be greater than max.');
+    expect(validateParameterRanges({ period: { min: 5, max: 10, step: 0 } }, definitions)).toBe('parameterRanges.period.step must be greater than 0.');
+    expect(validateParameterRanges({ period: { values: [] } }, definitions)).toBe('parameterRanges.period.values must be a non-empty array of numbers, strings or booleans.');
+    expect(validateParameterRanges({ period: { min: 5 } }, definitions)).toBe('parameterRanges.period must have numeric min, max and step, or values.');
+  });
+});
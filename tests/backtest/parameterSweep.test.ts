@@ -0,0 +1,117 @@
+jest.mock('../../src/services/dataService', () => ({
+  fetchHistoricalDataFromDB: jest.fn(),
+}));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+jest.mock('../../src/strategies/strategyManager', () => {
+  const getStrategy = jest.fn();
+  return {
+    ...jest.requireActual('../../src/strategies/strategyManager'),
+    getStrategy,
+    createStrategy: jest.fn((id: string) => getStrategy(id)),
+  };
+});
+
+import { runParameterSweep, validateSweepPlan } from '../../src/backtest/parameterSweep';
+import { fetchHistoricalDataFromDB as mockFetchHistoricalDataFromDB, HistoricalDataPoint } from '../../src/services/dataService';
+import { getStrategy as mockGetStrategy } from '../../src/strategies/strategyManager';
+import { StrategyContext, StrategyParameterDefinition, StrategySignal } from '../../src/strategies/strategy.types';
+
+const startDate = new Date('2023-01-01');
+const endDate = new Date('2023-01-05');
+
+const createBar = (day: number, close: number): HistoricalDataPoint => ({
+  timestamp: Math.floor(startDate.getTime() / 1000) + day * 24 * 60 * 60,
+  date: new Date(startDate.getTime() + day * 24 * 60 * 60 * 1000),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  interval: '1d',
+  source_api: 'TestSource',
+  symbol: 'TEST',
+});
+
+// Buys `units` units on bar `entryIndex` and holds them
+const parameters: StrategyParameterDefinition[] = [
+  { name: 'entryIndex', label: 'Entry Bar', type: 'number', defaultValue: 0, min: 0, max: 2, step: 1 },
+  { name: 'units', label: 'Units', type: 'number', defaultValue: 1 },
+  { name: 'label', label: 'Label', type: 'string', defaultValue: 'scripted' },
+];
+
+describe('Parameter Sweep', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockFetchHistoricalDataFromDB as jest.Mock).mockResolvedValue([100, 101, 102, 103, 104].map((close, day) => createBar(day, close)));
+    (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+      id: 'scripted',
+      name: 'Scripted Strategy',
+      parameters,
+      execute: (context: StrategyContext): StrategySignal =>
+        context.currentIndex === context.parameters.entryIndex ? { action: 'BUY', amount: context.parameters.units } : { action: 'HOLD' },
+    }));
+  });
+
+  it('should validate the plan against the strategy', () => {
+    expect(validateSweepPlan(parameters, {})).toBeNull();
+    expect(validateSweepPlan(parameters, { maxCombinations: 2 }))
+      .toBe('The parameter grid has 3 combinations, more than maxCombinations (2). Narrow parameterRanges or raise maxCombinations.');
+    expect(validateSweepPlan(parameters, { maxCombinations: 0 })).toBe('maxCombinations must be a positive integer.');
+    expect(validateSweepPlan([parameters[1]], {}))
+      .toBe('No parameter to sweep: give parameterRanges, or use a strategy with min/max/step on its numeric parameters.');
+  });
+
+  it('should reject a huge range without building its grid', () => {
+    expect(validateSweepPlan(parameters, { parameterRanges: { units: { min: 0, max: 1e12, step: 1 } } }))
+      .toBe('The parameter grid has 3000000000003 combinations, more than maxCombinations (1000). Narrow parameterRanges or raise maxCombinations.');
+  });
+
+  it('should run every combination and return one row of metrics each', async () => {
+    const result = await runParameterSweep('TEST', startDate, endDate, 1000, 'scripted', {}, undefined, '1d', {
+      parameterRanges: { units: { values: [1, 2] } },
+    });
+
+    expect(result.parameterNames).toEqual(['entryIndex', 'units']);
+    expect(result.parameterValues).toEqual({ entryIndex: [0, 1, 2], units: [1, 2] });
+    expect(result.combinationsTested).toBe(6);
+    expect(result.rows.map(row => row.parameters)).toEqual([
+      { entryIndex: 0, units: 1 }, { entryIndex: 0, units: 2 },
+      { entryIndex: 1, units: 1 }, { entryIndex: 1, units: 2 },
+      { entryIndex: 2, units: 1 }, { entryIndex: 2, units: 2 },
+    ]);
+    // Bought at 100 + entryIndex and valued at 104
+    expect(result.rows.map(row => row.metrics?.finalPortfolioValue)).toEqual([1004, 1008, 1003, 1006, 1002, 1004]);
+    expect(result.rows[1].metrics).toMatchObject({ totalReturn: 0.8, totalTrades: 1, maxDrawdown: 0 });
+  });
+
+  it('should keep the non-swept parameters from strategyParams', async () => {
+    const result = await runParameterSweep('TEST', startDate, endDate, 1000, 'scripted', { units: 3 }, undefined, '1d', {});
+
+    expect(result.rows.map(row => row.metrics?.finalPortfolioValue)).toEqual([1012, 1009, 1006]);
+  });
+
+  it('should record failing runs without stopping the sweep', async () => {
+    (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+      id: 'scripted',
+      name: 'Scripted Strategy',
+      parameters,
+      execute: (context: StrategyContext): StrategySignal => {
+        if (context.parameters.entryIndex === 1) throw new Error('Indicator failure');
+        return { action: 'HOLD' };
+      },
+    }));
+
+    const result = await runParameterSweep('TEST', startDate, endDate, 1000, 'scripted', {}, undefined, '1d', {});
+
+    expect(result.rows.map(row => row.metrics === null)).toEqual([false, true, false]);
+    expect(result.rows[1].error).toBe('Indicator failure');
+  });
+});
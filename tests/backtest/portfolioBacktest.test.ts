@@ -0,0 +1,272 @@
+jest.mock('../../src/services/dataService', () => ({
+  fetchHistoricalDataFromDB: jest.fn(),
+}));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+jest.mock('../../src/strategies/strategyManager', () => {
+  const getStrategy = jest.fn();
+  return {
+    ...jest.requireActual('../../src/strategies/strategyManager'),
+    getStrategy,
+    createStrategy: jest.fn((id: string) => getStrategy(id)),
+  };
+});
+
+import { runPortfolioBacktest, alignTimestamps, validatePortfolioSymbols, validateUnsupportedPortfolioSettings } from '../../src/backtest/portfolioBacktest';
+import { fetchHistoricalDataFromDB as mockFetchHistoricalDataFromDB, HistoricalDataPoint } from '../../src/services/dataService';
+import { createStrategy as mockCreateStrategy, getStrategy as mockGetStrategy } from '../../src/strategies/strategyManager';
+import { createDCAStrategy } from '../../src/strategies/implementations/dcaStrategy';
+import { PortfolioSignal, PortfolioStrategyContext, StrategyContext, StrategySignal } from '../../src/strategies/strategy.types';
+
+const startDate = new Date('2023-01-01');
+const endDate = new Date('2023-01-10');
+const initialCash = 10000;
+
+const createBar = (symbol: string, date: string, close: number): HistoricalDataPoint => ({
+  timestamp: Math.floor(new Date(date).getTime() / 1000),
+  date: new Date(date),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  interval: '1d',
+  source_api: 'TestSource',
+  symbol,
+});
+
+const mockData = (dataBySymbol: Record<string, HistoricalDataPoint[]>) => {
+  (mockFetchHistoricalDataFromDB as jest.Mock).mockImplementation(async (symbol: string) => dataBySymbol[symbol] ?? []);
+};
+
+describe('Portfolio Backtest', () => {
+  const btc = [
+    createBar('BTC', '2023-01-01', 100),
+    createBar('BTC', '2023-01-02', 110),
+    createBar('BTC', '2023-01-03', 120),
+  ];
+  const eth = [
+    createBar('ETH', '2023-01-01', 50),
+    createBar('ETH', '2023-01-03', 40), // No bar on 2023-01-02
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockCreateStrategy as jest.Mock).mockImplementation((id: string) => mockGetStrategy(id));
+  });
+
+  const usePortfolioSignals = (signals: PortfolioSignal[][], contexts: PortfolioStrategyContext[] = []) => {
+    (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+      id: 'scripted-portfolio',
+      name: 'Scripted Portfolio Strategy',
+      parameters: [],
+      execute: () => ({ action: 'HOLD' }),
+      executePortfolio: (context: PortfolioStrategyContext) => {
+        contexts.push(context);
+        return signals[context.currentIndex] ?? [];
+      },
+    }));
+  };
+
+  it('should align bars on the union of timestamps', () => {
+    expect(alignTimestamps({ BTC: btc, ETH: eth })).toEqual(btc.map(bar => bar.timestamp));
+  });
+
+  it('should validate the symbol list', () => {
+    expect(validatePortfolioSymbols(['BTC', 'ETH'])).toBeNull();
+    expect(validatePortfolioSymbols([])).toBe('symbols must be a non-empty array of symbols.');
+    expect(validatePortfolioSymbols('BTC')).toBe('symbols must be a non-empty array of symbols.');
+    expect(validatePortfolioSymbols(['BTC', ''])).toBe('symbols must only contain non-empty strings.');
+    expect(validatePortfolioSymbols(['BTC', 'BTC'])).toBe('symbols must not contain duplicates.');
+  });
+
+  it('should reject the single-symbol settings a portfolio backtest does not apply', () => {
+    expect(validateUnsupportedPortfolioSettings({ symbols: ['BTC', 'ETH'], lotMatching: 'FIFO' })).toBeNull();
+    expect(validateUnsupportedPortfolioSettings({ executionTiming: 'NEXT_BAR_OPEN' })).toBe('executionTiming is not supported in portfolio backtests.');
+    expect(validateUnsupportedPortfolioSettings({ benchmarkSymbol: 'BTCUSDT' })).toBe('benchmarkSymbol is not supported in portfolio backtests.');
+  });
+
+  it('should trade several symbols from shared cash and track one equity curve', async () => {
+    const contexts: PortfolioStrategyContext[] = [];
+    usePortfolioSignals([[{ symbol: 'BTC', action: 'BUY', amount: 50 }, { symbol: 'ETH', action: 'BUY', amount: 100 }]], contexts);
+    mockData({ BTC: btc, ETH: eth });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {});
+
+    expect(result.trades.map(t => [t.symbol, t.sharesTraded, t.cashAfterTrade])).toEqual([
+      ['BTC', 50, 5000],
+      ['ETH', 100, 0],
+    ]);
+    // ETH is marked at its last close (50) on 2023-01-02, when it has no bar
+    expect(result.portfolioHistory.map(point => point.value)).toEqual([10000, 10000, 10500, 10000]);
+    expect(result.finalPositions).toEqual({ BTC: 50, ETH: 100 });
+    expect(result.finalPortfolioValue).toBe(10000);
+    expect(contexts[1].currentBars.ETH).toBeNull();
+    expect(contexts[1].barIndices).toEqual({ BTC: 1, ETH: 0 });
+    expect(contexts[1].portfolio.positions).toEqual({ BTC: 50, ETH: 100 });
+  });
+
+  it('should report per-symbol attribution that adds up to the total P&L', async () => {
+    usePortfolioSignals([
+      [{ symbol: 'BTC', action: 'BUY', amount: 10 }, { symbol: 'ETH', action: 'BUY', amount: 20 }],
+      [{ symbol: 'BTC', action: 'SELL', amount: 5 }],
+    ]);
+    mockData({ BTC: btc, ETH: eth });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {}, undefined, undefined, {
+      costModel: { fixedFeePerTrade: 1 },
+    });
+
+    const [btcAttribution, ethAttribution] = result.attribution;
+    expect(btcAttribution).toMatchObject({ symbol: 'BTC', trades: 2, fees: 2, finalPosition: 5, lastPrice: 120 });
+    expect(btcAttribution.realizedPnl).toBeCloseTo(5 * 10 - 1 - 0.5); // Sold 5 of 10 units bought with a fee of 1
+    expect(btcAttribution.unrealizedPnl).toBeCloseTo(5 * 20 - 0.5);
+    expect(ethAttribution).toMatchObject({ symbol: 'ETH', realizedPnl: 0, unrealizedPnl: 20 * -10 - 1 });
+    expect(btcAttribution.totalPnl + ethAttribution.totalPnl).toBeCloseTo(result.totalProfitOrLoss);
+    expect(btcAttribution.contributionPercent).toBeCloseTo((btcAttribution.totalPnl / initialCash) * 100);
+    expect(result.roundTrips).toEqual([expect.objectContaining({ symbol: 'BTC', quantity: 5, entryPrice: 100, exitPrice: 110, grossPnl: 50 })]);
+  });
+
+  it('should fill sells before buys so a rotation can reuse the freed cash', async () => {
+    usePortfolioSignals([
+      [{ symbol: 'BTC', action: 'BUY', amount: 100 }],
+      [],
+      [{ symbol: 'ETH', action: 'BUY', amount: 300 }, { symbol: 'BTC', action: 'SELL' }],
+    ]);
+    mockData({ BTC: btc, ETH: eth });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {}, undefined, undefined, {
+      positionSizing: { mode: 'PERCENT_EQUITY', value: 10 },
+    });
+
+    expect(result.trades.map(t => `${t.action} ${t.sharesTraded} ${t.symbol}`)).toEqual(['BUY 100 BTC', 'SELL 100 BTC', 'BUY 300 ETH']);
+    expect(result.finalPositions).toEqual({ BTC: 0, ETH: 300 });
+  });
+
+  it('should open short legs only in margin mode', async () => {
+    const pairSignals: PortfolioSignal[][] = [
+      [{ symbol: 'BTC', action: 'BUY', amount: 10 }, { symbol: 'ETH', action: 'SELL', amount: 20 }],
+      [],
+      [{ symbol: 'BTC', action: 'SELL', amount: 10 }, { symbol: 'ETH', action: 'BUY', amount: 20 }],
+    ];
+    usePortfolioSignals(pairSignals);
+    mockData({ BTC: btc, ETH: eth });
+
+    const cashOnly = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {});
+    expect(cashOnly.trades.map(t => `${t.action} ${t.symbol}`)).toEqual(['BUY BTC', 'SELL BTC', 'BUY ETH']);
+    expect(cashOnly.totalBorrowInterest).toBeUndefined();
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {}, undefined, '1d', {
+      margin: { enabled: true, maxLeverage: 2, borrowRatePercentAnnual: 10 },
+    });
+
+    expect(result.trades.map(t => `${t.action} ${t.sharesTraded} ${t.symbol}`)).toEqual(['SELL 20 ETH', 'BUY 10 BTC', 'SELL 10 BTC', 'BUY 20 ETH']);
+    expect(result.finalPositions).toEqual({ BTC: 0, ETH: 0 });
+    // Interest on the 1000 ETH short, carried into the second and third timestamps
+    expect(result.totalBorrowInterest).toBeGreaterThan(0);
+    expect(result.finalPortfolioValue).toBeCloseTo(initialCash + 200 + 200 - result.totalBorrowInterest!);
+    const [btcAttribution, ethAttribution] = result.attribution;
+    expect(btcAttribution.realizedPnl).toBeCloseTo(200);
+    expect(ethAttribution.realizedPnl).toBeCloseTo(200); // Shorted at 50, covered at 40
+    expect(result.roundTrips).toEqual(expect.arrayContaining([
+      expect.objectContaining({ symbol: 'ETH', direction: 'SHORT', quantity: 20, entryPrice: 50, exitPrice: 40 }),
+    ]));
+  });
+
+  it('should reject margin orders over the leverage cap and liquidate below maintenance margin', async () => {
+    const rally = [createBar('ETH', '2023-01-01', 50), createBar('ETH', '2023-01-02', 55), createBar('ETH', '2023-01-03', 56)];
+    usePortfolioSignals([[{ symbol: 'ETH', action: 'SELL', amount: 2100 }, { symbol: 'ETH', action: 'SELL', amount: 1800 }]]);
+    mockData({ ETH: rally });
+
+    const result = await runPortfolioBacktest(['ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {}, undefined, undefined, {
+      margin: { enabled: true, maxLeverage: 10, maintenanceMarginPercent: 25 },
+    });
+
+    // 2100 x 50 exceeds 10x the equity; 1800 x 50 does not. At 55 the equity of 1000 is below 25% of the exposure.
+    expect(result.trades.map(t => `${t.tradeType} ${t.action} ${t.sharesTraded}`)).toEqual(['SIGNAL SELL 1800', 'LIQUIDATION BUY 1800']);
+    expect(result.liquidations).toBe(1);
+    expect(result.finalPositions).toEqual({ ETH: 0 });
+    expect(result.finalPortfolioValue).toBeCloseTo(1000);
+  });
+
+  it('should ignore signals for symbols without a bar at the current timestamp', async () => {
+    usePortfolioSignals([[], [{ symbol: 'ETH', action: 'BUY', amount: 1 }, { symbol: 'DOGE', action: 'BUY', amount: 1 }]]);
+    mockData({ BTC: btc, ETH: eth });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted-portfolio', {});
+
+    expect(result.totalTrades).toBe(0);
+  });
+
+  it('should run single-symbol strategies on each symbol with the shared cash', async () => {
+    const contexts: StrategyContext[] = [];
+    (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+      id: 'scripted',
+      name: 'Scripted Strategy',
+      parameters: [{ name: 'tradeAmount', label: 'Trade Amount', type: 'number', defaultValue: 2 }],
+      execute: (context: StrategyContext): StrategySignal => {
+        contexts.push({ ...context, portfolio: { ...context.portfolio } });
+        return context.currentIndex === 0 ? { action: 'BUY', amount: context.parameters.tradeAmount } : { action: 'HOLD' };
+      },
+    }));
+    mockData({ BTC: btc, ETH: eth });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'scripted', {});
+
+    expect(result.trades.map(t => `${t.symbol} ${t.sharesTraded}`)).toEqual(['BTC 2', 'ETH 2']);
+    // One call per symbol with a bar: BTC and ETH on day 1, BTC on day 2, BTC and ETH on day 3
+    expect(contexts.map(c => c.symbol)).toEqual(['BTC', 'ETH', 'BTC', 'BTC', 'ETH']);
+    expect(contexts[3].portfolio).toMatchObject({ cash: initialCash - 200 - 100, shares: 2 });
+  });
+
+  it('should keep the state of a single-symbol strategy per symbol', async () => {
+    (mockCreateStrategy as jest.Mock).mockImplementation(() => createDCAStrategy());
+    (mockGetStrategy as jest.Mock).mockImplementation(() => createDCAStrategy());
+    const dates = ['2023-01-01', '2023-01-02', '2023-01-03', '2023-01-04', '2023-01-05'];
+    mockData({
+      BTC: dates.map((date, k) => createBar('BTC', date, 100 - 15 * k)), // A safety order step down on every bar
+      ETH: dates.map(date => createBar('ETH', date, 100)),
+    });
+
+    const result = await runPortfolioBacktest(['BTC', 'ETH'], startDate, endDate, initialCash, 'dca', {
+      baseOrderAmount: 100,
+      safetyOrderAmount: 100,
+      safetyOrderStepPercent: 10,
+      safetyOrderVolumeScale: 1,
+      maxSafetyOrders: 2,
+      takeProfitPercent: 0,
+    });
+
+    // BTC stops after its base order and two safety orders; ETH's flat cycle does not reset BTC's count
+    expect(result.trades.map(t => `${t.symbol} ${t.action}`)).toEqual(['BTC BUY', 'ETH BUY', 'BTC BUY', 'BTC BUY']);
+    expect(mockCreateStrategy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should leave out symbols without data', async () => {
+    usePortfolioSignals([]);
+    mockData({ BTC: btc });
+
+    const result = await runPortfolioBacktest(['BTC', 'SOL'], startDate, endDate, initialCash, 'scripted-portfolio', {});
+
+    expect(result.symbolsWithoutData).toEqual(['SOL']);
+    expect(result.dataPointsProcessed).toBe(3);
+    expect(result.attribution.find(a => a.symbol === 'SOL')).toMatchObject({ trades: 0, lastPrice: null, totalPnl: 0 });
+  });
+
+  it('should return an empty result when the strategy is unknown', async () => {
+    (mockGetStrategy as jest.Mock).mockReturnValue(undefined);
+
+    const result = await runPortfolioBacktest(['BTC'], startDate, endDate, initialCash, 'missing', {});
+
+    expect(result.totalTrades).toBe(0);
+    expect(result.finalPortfolioValue).toBe(initialCash);
+    expect(mockFetchHistoricalDataFromDB).not.toHaveBeenCalled();
+  });
+});
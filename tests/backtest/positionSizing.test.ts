@@ -0,0 +1,47 @@
+import { validatePositionSizingSettings, calculatePositionSize, roundToLotSize } from '../../src/backtest/positionSizing';
+
+describe('Position Sizing', () => {
+  const base = { price: 50, equity: 10000, barsPerYear: 365 };
+
+  it('should size fixed units and quote notional', () => {
+    expect(calculatePositionSize({ ...base, mode: 'UNITS', value: 3 })).toBe(3);
+    expect(calculatePositionSize({ ...base, mode: 'NOTIONAL', value: 1000 })).toBe(20);
+  });
+
+  it('should size a percentage of equity', () => {
+    expect(calculatePositionSize({ ...base, mode: 'PERCENT_EQUITY', value: 25 })).toBe(50);
+    expect(calculatePositionSize({ ...base, equity: -100, mode: 'PERCENT_EQUITY', value: 25 })).toBe(0);
+  });
+
+  it('should size a percentage of equity at risk from the stop distance', () => {
+    // Risking 1% of 10000 = 100 with a 5 point stop -> 20 units
+    expect(calculatePositionSize({ ...base, mode: 'PERCENT_RISK', value: 1, stopDistance: 5 })).toBe(20);
+    expect(calculatePositionSize({ ...base, mode: 'PERCENT_RISK', value: 1 })).toBe(0);
+  });
+
+  it('should size to a target annualized volatility from ATR', () => {
+    // ATR of 1 on a price of 50 = 2% per bar; * sqrt(100) = 20% a year. Targeting 10% -> half of equity.
+    const quantity = calculatePositionSize({ ...base, barsPerYear: 100, mode: 'VOLATILITY_TARGET', value: 10, atr: 1 });
+    expect(quantity).toBeCloseTo(100);
+    expect(calculatePositionSize({ ...base, mode: 'VOLATILITY_TARGET', value: 10, atr: NaN })).toBe(0);
+  });
+
+  it('should round quantities down to the lot size', () => {
+    expect(roundToLotSize(2.57, 0.1)).toBe(2.5);
+    expect(roundToLotSize(0.3, 0.1)).toBe(0.3);
+    expect(roundToLotSize(7, 5)).toBe(5);
+    expect(roundToLotSize(2.57)).toBe(2.57);
+  });
+
+  it('should validate position sizing settings', () => {
+    expect(validatePositionSizingSettings(undefined)).toBeNull();
+    expect(validatePositionSizingSettings({ mode: 'PERCENT_RISK', value: 1, atrPeriod: 20, atrStopMultiple: 1.5, lotSize: 0.01 })).toBeNull();
+    expect(validatePositionSizingSettings('10%')).toBe('positionSizing must be an object.');
+    expect(validatePositionSizingSettings({ mode: 'KELLY', value: 1 })).toBe(
+      'positionSizing.mode must be one of UNITS, NOTIONAL, PERCENT_EQUITY, PERCENT_RISK, VOLATILITY_TARGET.'
+    );
+    expect(validatePositionSizingSettings({ mode: 'UNITS', value: 0 })).toBe('positionSizing.value must be a positive number.');
+    expect(validatePositionSizingSettings({ mode: 'UNITS', value: 1, atrPeriod: 2.5 })).toBe('positionSizing.atrPeriod must be a positive integer.');
+    expect(validatePositionSizingSettings({ mode: 'UNITS', value: 1, lotSize: -1 })).toBe('positionSizing.lotSize must be a positive number.');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  createProtectiveOrders,
+  checkProtectiveOrders,
+  updateTrailingStop,
+  getTrailingStopPrice,
+  validateProtectiveOrders,
+} from '../../src/backtest/protectiveOrders';
+
+const bar = (open: number, high: number, low: number) => ({ open, high, low });
+
+describe('Protective Orders', () => {
+  describe('createProtectiveOrders', () => {
+    it('should return null when the signal has no protective orders', () => {
+      expect(createProtectiveOrders({}, 'LONG', 100)).toBeNull();
+    });
+
+    it('should resolve percent levels from the entry price for longs and shorts', () => {
+      const long = createProtectiveOrders({ stopLoss: { percent: 5 }, takeProfit: { percent: 10 } }, 'LONG', 100);
+      expect(long?.stopLossPrice).toBeCloseTo(95);
+      expect(long?.takeProfitPrice).toBeCloseTo(110);
+
+      const short = createProtectiveOrders({ stopLoss: { percent: 5 }, takeProfit: { price: 80 } }, 'SHORT', 100);
+      expect(short?.stopLossPrice).toBeCloseTo(105);
+      expect(short?.takeProfitPrice).toBe(80);
+    });
+  });
+
+  describe('checkProtectiveOrders', () => {
+    const orders = () => createProtectiveOrders({ stopLoss: { price: 95 }, takeProfit: { price: 110 } }, 'LONG', 100)!;
+
+    it('should return null when no level is touched', () => {
+      expect(checkProtectiveOrders(orders(), bar(100, 105, 96))).toBeNull();
+    });
+
+    it('should fill at the level when it is touched intrabar', () => {
+      expect(checkProtectiveOrders(orders(), bar(100, 104, 94))).toEqual({ reason: 'STOP_LOSS', price: 95 });
+      expect(checkProtectiveOrders(orders(), bar(100, 112, 98))).toEqual({ reason: 'TAKE_PROFIT', price: 110 });
+    });
+
+    it('should fill at the open when the bar gaps through a level', () => {
+      expect(checkProtectiveOrders(orders(), bar(90, 92, 88))).toEqual({ reason: 'STOP_LOSS', price: 90 });
+      expect(checkProtectiveOrders(orders(), bar(115, 118, 113))).toEqual({ reason: 'TAKE_PROFIT', price: 115 });
+    });
+
+    it('should assume the stop fills first when both levels are touched in the same bar', () => {
+      expect(checkProtectiveOrders(orders(), bar(100, 112, 94))).toEqual({ reason: 'STOP_LOSS', price: 95 });
+    });
+
+    it('should mirror the rules for short positions', () => {
+      const short = createProtectiveOrders({ stopLoss: { price: 105 }, takeProfit: { price: 90 } }, 'SHORT', 100)!;
+      expect(checkProtectiveOrders(short, bar(100, 106, 95))).toEqual({ reason: 'STOP_LOSS', price: 105 });
+      expect(checkProtectiveOrders(short, bar(100, 101, 89))).toEqual({ reason: 'TAKE_PROFIT', price: 90 });
+    });
+  });
+
+  describe('trailing stop', () => {
+    it('should ratchet with the best price and trigger when price pulls back', () => {
+      const orders = createProtectiveOrders({ trailingStop: { percent: 10 } }, 'LONG', 100)!;
+      expect(getTrailingStopPrice(orders)).toBeCloseTo(90);
+
+      updateTrailingStop(orders, bar(100, 120, 99));
+      expect(getTrailingStopPrice(orders)).toBeCloseTo(108);
+
+      updateTrailingStop(orders, bar(110, 115, 109)); // Lower high does not move the stop
+      expect(getTrailingStopPrice(orders)).toBeCloseTo(108);
+      expect(checkProtectiveOrders(orders, bar(112, 113, 105))).toEqual({ reason: 'TRAILING_STOP', price: expect.closeTo(108) });
+    });
+
+    it('should use the tighter of the stop-loss and the trailing stop', () => {
+      const orders = createProtectiveOrders({ stopLoss: { price: 95 }, trailingStop: { price: 3 } }, 'LONG', 100)!;
+      expect(checkProtectiveOrders(orders, bar(100, 100, 96))).toEqual({ reason: 'TRAILING_STOP', price: 97 });
+    });
+  });
+
+  describe('validateProtectiveOrders', () => {
+    it('should accept signals without protective orders or with valid levels', () => {
+      expect(validateProtectiveOrders({})).toBeNull();
+      expect(validateProtectiveOrders({ stopLoss: { percent: 2 }, trailingStop: { price: 5 } })).toBeNull();
+    });
+
+    it('should reject empty or non-positive levels', () => {
+      expect(validateProtectiveOrders({ stopLoss: {} })).toBe('stopLoss needs a price or a percent.');
+      expect(validateProtectiveOrders({ takeProfit: { price: -1 } })).toBe('takeProfit.price must be a positive number.');
+      expect(validateProtectiveOrders({ trailingStop: { percent: 0 } })).toBe('trailingStop.percent must be a positive number.');
+    });
+  });
+});
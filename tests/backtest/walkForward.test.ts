@@ -0,0 +1,139 @@
+jest.mock('../../src/services/dataService', () => ({
+  fetchHistoricalDataFromDB: jest.fn(),
+}));
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+jest.mock('../../src/strategies/strategyManager', () => {
+  const getStrategy = jest.fn();
+  return {
+    ...jest.requireActual('../../src/strategies/strategyManager'),
+    getStrategy,
+    createStrategy: jest.fn((id: string) => getStrategy(id)),
+  };
+});
+
+import {
+  buildWalkForwardWindows,
+  runWalkForward,
+  validateWalkForwardPlan,
+  validateWalkForwardSettings,
+} from '../../src/backtest/walkForward';
+import { fetchHistoricalDataFromDB as mockFetchHistoricalDataFromDB, HistoricalDataPoint } from '../../src/services/dataService';
+import { getStrategy as mockGetStrategy } from '../../src/strategies/strategyManager';
+import { StrategyContext, StrategyParameterDefinition, StrategySignal } from '../../src/strategies/strategy.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const startDate = new Date('2023-01-01T00:00:00Z');
+const dayDate = (day: number) => new Date(startDate.getTime() + day * DAY_MS);
+
+const createBar = (day: number, close: number): HistoricalDataPoint => ({
+  timestamp: Math.floor(dayDate(day).getTime() / 1000),
+  date: dayDate(day),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+  interval: '1d',
+  source_api: 'TestSource',
+  symbol: 'TEST',
+});
+
+// Rising for 15 days, then falling
+const bars = Array.from({ length: 20 }, (_, day) => createBar(day, day < 15 ? 100 + day : 114 - (day - 14)));
+
+// side = 1 buys one unit on the first bar of a run and holds it; side = 0 stays flat
+const sideParameter: StrategyParameterDefinition = { name: 'side', label: 'Side', type: 'number', defaultValue: 0, min: 0, max: 1, step: 1 };
+
+describe('Walk-Forward Optimization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockFetchHistoricalDataFromDB as jest.Mock).mockImplementation(async (_symbol: string, from: Date, to: Date) =>
+      bars.filter(bar => bar.date >= from && bar.date <= to));
+    (mockGetStrategy as jest.Mock).mockImplementation(() => ({
+      id: 'scripted',
+      name: 'Scripted Strategy',
+      parameters: [sideParameter],
+      execute: (context: StrategyContext): StrategySignal =>
+        context.currentIndex === 0 && context.parameters.side === 1 ? { action: 'BUY', amount: 1 } : { action: 'HOLD' },
+    }));
+  });
+
+  it('should validate the settings', () => {
+    expect(validateWalkForwardSettings({ inSampleDays: 30, outOfSampleDays: 10 })).toBeNull();
+    expect(validateWalkForwardSettings(undefined)).toBe('walkForward must be an object with inSampleDays and outOfSampleDays.');
+    expect(validateWalkForwardSettings({ inSampleDays: 0, outOfSampleDays: 10 })).toBe('walkForward.inSampleDays must be a positive integer.');
+    expect(validateWalkForwardSettings({ inSampleDays: 30, outOfSampleDays: 10, mode: 'EXPANDING' })).toBe('walkForward.mode must be one of ROLLING, ANCHORED.');
+    expect(validateWalkForwardSettings({ inSampleDays: 30, outOfSampleDays: 10, objective: 'cagr' })).toBe('walkForward.objective must be one of pnl, sharpe, winRate.');
+  });
+
+  it('should reject plans that cannot run', () => {
+    const endDate = dayDate(19);
+    expect(validateWalkForwardPlan([sideParameter], startDate, endDate, { inSampleDays: 5, outOfSampleDays: 5 })).toBeNull();
+    expect(validateWalkForwardPlan([sideParameter], startDate, endDate, { inSampleDays: 30, outOfSampleDays: 5 }))
+      .toBe('The date range is shorter than one in-sample window of 30 days.');
+    expect(validateWalkForwardPlan([sideParameter], startDate, endDate, { inSampleDays: 5, outOfSampleDays: 5, maxCombinations: 1 }))
+      .toBe('The parameter grid has 2 combinations, more than maxCombinations (1). Narrow parameterRanges or raise maxCombinations.');
+    // Counted, not built
+    expect(validateWalkForwardPlan([sideParameter], startDate, endDate, { inSampleDays: 5, outOfSampleDays: 5, parameterRanges: { side: { min: 0, max: 1e12, step: 1 } } }))
+      .toBe('The parameter grid has 1000000000001 combinations, more than maxCombinations (1000). Narrow parameterRanges or raise maxCombinations.');
+  });
+
+  it('should build rolling and anchored windows that do not overlap', () => {
+    const rolling = buildWalkForwardWindows(startDate, dayDate(19), { inSampleDays: 5, outOfSampleDays: 5 });
+    expect(rolling.map(window => [window.inSampleStart, window.outOfSampleStart])).toEqual([
+      [dayDate(0), dayDate(5)],
+      [dayDate(5), dayDate(10)],
+      [dayDate(10), dayDate(15)],
+    ]);
+    expect(rolling[0].inSampleEnd).toEqual(new Date(dayDate(5).getTime() - 1000));
+    expect(rolling[2].outOfSampleEnd).toEqual(dayDate(19)); // Cut at the end date
+
+    const anchored = buildWalkForwardWindows(startDate, dayDate(19), { inSampleDays: 5, outOfSampleDays: 5, mode: 'ANCHORED' });
+    expect(anchored.map(window => window.inSampleStart)).toEqual([dayDate(0), dayDate(0), dayDate(0)]);
+  });
+
+  it('should trade the in-sample winner out of sample and stitch the equity curves', async () => {
+    const result = await runWalkForward('TEST', startDate, dayDate(19), 1000, 'scripted', {}, undefined, '1d', { inSampleDays: 5, outOfSampleDays: 5 });
+
+    expect(result.combinationsTested).toBe(2);
+    expect(result.windows.map(window => window.bestParameters)).toEqual([{ side: 1 }, { side: 1 }, { side: 1 }]);
+    // Bought at the first OOS close and valued at the last: +4, +4, then -4 once prices fall
+    expect(result.windows.map(window => window.outOfSampleTrades)).toEqual([1, 1, 1]);
+    expect(result.finalPortfolioValue).toBeCloseTo(1004);
+    expect(result.outOfSampleReturn).toBeCloseTo(0.4);
+    expect(result.equityCurve).toHaveLength(16); // Initial point + 15 OOS bars
+    expect(result.equityCurve[0]).toEqual({ timestamp: bars[5].timestamp, value: 1000 });
+    expect(result.equityCurve[result.equityCurve.length - 1].value).toBeCloseTo(1004);
+    expect(result.windows[0].efficiency).toBeCloseTo(1, 1);
+    expect(result.windows[2].efficiency).toBeLessThan(0);
+    // The last OOS window is cut to 4 days, so its loss weighs more once annualized
+    expect(result.walkForwardEfficiency).toBeCloseTo(0.25, 2);
+    // Positions carried to the next window count as closed at the window's last close
+    expect(result.analytics.roundTrips).toBe(3);
+    expect(result.analytics.winRate).toBeCloseTo(200 / 3);
+  });
+
+  it('should only use in-sample data to choose the parameters', async () => {
+    await runWalkForward('TEST', startDate, dayDate(19), 1000, 'scripted', {}, undefined, '1d', { inSampleDays: 5, outOfSampleDays: 5 });
+
+    const calls = (mockFetchHistoricalDataFromDB as jest.Mock).mock.calls;
+    // 2 IS runs, then 1 OOS run, per window
+    expect(calls).toHaveLength(9);
+    expect(calls[0][2].getTime()).toBeLessThan(calls[2][1].getTime());
+  });
+
+  it('should throw for an unknown strategy', async () => {
+    (mockGetStrategy as jest.Mock).mockReturnValue(undefined);
+
+    await expect(runWalkForward('TEST', startDate, dayDate(19), 1000, 'missing', {}, undefined, '1d', { inSampleDays: 5, outOfSampleDays: 5 }))
+      .rejects.toThrow('Strategy not found: missing');
+  });
+});
@@ -0,0 +1,125 @@
+// tests/services/backtestRunService.test.ts
+import { db, initializeSchema } from '../../src/database';
+import * as backtestRunService from '../../src/services/backtestRunService';
+import * as userService from '../../src/services/userService';
+import { User } from '../../src/models/user.types';
+import { CreateBacktestRunInput } from '../../src/models/backtestRun.types';
+import * as uuid from 'uuid'; // uuid is the mock object from setupEnv.ts
+
+let testUser: User;
+let otherUser: User;
+let userEmailCounter = 0;
+
+const runInput = (userId: string, overrides: Partial<CreateBacktestRunInput> = {}): CreateBacktestRunInput => ({
+  user_id: userId,
+  strategy_id: 'macd-crossover',
+  strategy_version: '1.0.0',
+  symbol: 'BTCUSDT',
+  settings: {
+    strategyId: 'macd-crossover',
+    strategyParams: { fastPeriod: 12, slowPeriod: 26 },
+    symbol: 'BTCUSDT',
+    startDate: '2023-01-01',
+    endDate: '2023-06-30',
+    initialCash: 10000,
+  },
+  metrics: {
+    initialPortfolioValue: 10000,
+    finalPortfolioValue: 11000,
+    totalProfitOrLoss: 1000,
+    profitOrLossPercentage: 10,
+    totalTrades: 1,
+    sharpeRatio: 1.2,
+    maxDrawdown: 5,
+    totalFees: 0,
+    totalSlippage: 0,
+    totalTransactionCosts: 0,
+  },
+  trades: [{ timestamp: 1672704000, date: '2023-01-03', action: 'BUY', price: 100, sharesTraded: 100, cashAfterTrade: 0, fees: 0, slippage: 0, tradeType: 'SIGNAL' }],
+  equity_curve: [{ timestamp: 1672704000, value: 10000 }, { timestamp: 1688083200, value: 11000 }],
+  ...overrides,
+});
+
+beforeAll(() => {
+  initializeSchema();
+});
+
+beforeEach(() => {
+  db.exec('DELETE FROM backtest_runs;');
+  db.exec('DELETE FROM users;');
+  (uuid as any)._resetMockCounter();
+
+  userEmailCounter++;
+  testUser = userService.createUser({ email: `testuser-runs-${userEmailCounter}@example.com`, passwordHash: 'hash' });
+  otherUser = userService.createUser({ email: `otheruser-runs-${userEmailCounter}@example.com`, passwordHash: 'hash' });
+});
+
+describe('Backtest Run Service', () => {
+  it('should save a run and read it back with its trades and equity curve', () => {
+    const created = backtestRunService.createBacktestRun(runInput(testUser.id, { tags: [' baseline ', 'macd', 'baseline', ''] }));
+
+    expect(created.tags).toEqual(['baseline', 'macd']);
+    expect(created.notes).toBeNull();
+    expect(created.created_at).toEqual(created.updated_at);
+
+    const fetched = backtestRunService.getBacktestRunById(created.id, testUser.id);
+    expect(fetched).toEqual(created);
+  });
+
+  it('should only give access to the runs of their owner', () => {
+    const run = backtestRunService.createBacktestRun(runInput(testUser.id));
+
+    expect(backtestRunService.getBacktestRunById(run.id, otherUser.id)).toBeNull();
+    expect(backtestRunService.getBacktestRunsByUserId(otherUser.id)).toEqual([]);
+    expect(backtestRunService.updateBacktestRun(run.id, otherUser.id, { notes: 'hijacked' })).toBeNull();
+    expect(backtestRunService.deleteBacktestRun(run.id, otherUser.id)).toBe(false);
+    expect(backtestRunService.getBacktestRunById(run.id, testUser.id)?.notes).toBeNull();
+  });
+
+  it('should list runs newest first without trades, filtered by strategy, symbol and tag', () => {
+    const first = backtestRunService.createBacktestRun(runInput(testUser.id, { tags: ['keep'] }));
+    const second = backtestRunService.createBacktestRun(runInput(testUser.id, { symbol: 'ETHUSDT' }));
+    const third = backtestRunService.createBacktestRun(runInput(testUser.id, { strategy_id: 'rsi-bollinger', tags: ['keep'] }));
+
+    const all = backtestRunService.getBacktestRunsByUserId(testUser.id);
+    expect(all.map(run => run.id)).toEqual([third.id, second.id, first.id]);
+    expect(all[0]).not.toHaveProperty('trades');
+    expect(all[0]).not.toHaveProperty('equity_curve');
+    expect(all[0].metrics.totalProfitOrLoss).toBe(1000);
+
+    expect(backtestRunService.getBacktestRunsByUserId(testUser.id, { tag: 'keep' }).map(run => run.id)).toEqual([third.id, first.id]);
+    expect(backtestRunService.getBacktestRunsByUserId(testUser.id, { symbol: 'ETHUSDT' }).map(run => run.id)).toEqual([second.id]);
+    expect(backtestRunService.getBacktestRunsByUserId(testUser.id, { strategyId: 'rsi-bollinger' }).map(run => run.id)).toEqual([third.id]);
+    expect(backtestRunService.getBacktestRunsByUserId(testUser.id, { limit: 2 })).toHaveLength(2);
+  });
+
+  it('should update tags and notes independently', () => {
+    const run = backtestRunService.createBacktestRun(runInput(testUser.id, { tags: ['old'] }));
+
+    const annotated = backtestRunService.updateBacktestRun(run.id, testUser.id, { notes: 'Too few trades to trust.' });
+    expect(annotated).toMatchObject({ tags: ['old'], notes: 'Too few trades to trust.' });
+
+    const retagged = backtestRunService.updateBacktestRun(run.id, testUser.id, { tags: ['new', 'new '] });
+    expect(retagged).toMatchObject({ tags: ['new'], notes: 'Too few trades to trust.' });
+    expect(retagged!.trades).toEqual(run.trades);
+
+    expect(backtestRunService.updateBacktestRun(run.id, testUser.id, { notes: null })?.notes).toBeNull();
+  });
+
+  it('should delete a run, and the runs of a deleted user', () => {
+    const run = backtestRunService.createBacktestRun(runInput(testUser.id));
+    const otherRun = backtestRunService.createBacktestRun(runInput(otherUser.id));
+
+    expect(backtestRunService.deleteBacktestRun(run.id, testUser.id)).toBe(true);
+    expect(backtestRunService.getBacktestRunById(run.id, testUser.id)).toBeNull();
+    expect(backtestRunService.deleteBacktestRun(run.id, testUser.id)).toBe(false);
+
+    db.pragma('foreign_keys = ON');
+    try {
+      db.prepare('DELETE FROM users WHERE id = ?').run(otherUser.id);
+      expect(backtestRunService.getBacktestRunById(otherRun.id, otherUser.id)).toBeNull();
+    } finally {
+      db.pragma('foreign_keys = OFF');
+    }
+  });
+});
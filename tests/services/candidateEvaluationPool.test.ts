@@ -0,0 +1,95 @@
+import os from 'os';
+import {
+  evaluateCandidate,
+  getCandidateEvaluationPoolSize,
+  getCandidateEvaluationConcurrency,
+  closeCandidateEvaluationPool,
+} from '../../src/services/candidateEvaluationPool';
+import { simulateCandidate } from '../../src/strategies/candidateSimulation';
+import { TradingStrategy, StrategyContext } from '../../src/strategies/strategy.types';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import * as StrategyManagerModule from '../../src/strategies/strategyManager';
+
+jest.mock('../../src/strategies/strategyManager', () => ({
+  __esModule: true,
+  getAvailableStrategies: jest.fn(() => []),
+  getStrategy: jest.fn(),
+  createStrategy: jest.fn(),
+  disposeStrategy: jest.fn(async (strategy: any) => strategy.dispose?.()),
+}));
+
+const evaluationData: HistoricalDataPoint[] = Array.from({ length: 10 }, (_, i) => ({
+  timestamp: 1672531200 + i * 86400,
+  date: new Date((1672531200 + i * 86400) * 1000),
+  open: 100 + i,
+  high: 101 + i,
+  low: 99 + i,
+  close: 100 + i,
+  volume: 1000,
+  symbol: 'TEST',
+  source_api: 'test',
+  interval: '1d',
+}));
+
+// Buys on the first bar
+const createBuyAndHold = () => {
+  const strategy = {
+    id: 'buy-and-hold',
+    name: 'Buy and Hold',
+    description: 'Buys once.',
+    parameters: [],
+    init: jest.fn(),
+    dispose: jest.fn(),
+    execute: jest.fn(async (context: StrategyContext) => ({ action: context.currentIndex === 0 ? 'BUY' : 'HOLD' })),
+  };
+  return strategy as TradingStrategy & { init: jest.Mock; dispose: jest.Mock; execute: jest.Mock };
+};
+
+describe('Candidate Evaluation Pool', () => {
+  const configuredSize = process.env.AI_WORKER_POOL_SIZE;
+
+  afterEach(async () => {
+    process.env.AI_WORKER_POOL_SIZE = configuredSize;
+    await closeCandidateEvaluationPool();
+  });
+
+  it('should read the pool size from AI_WORKER_POOL_SIZE and default to the available CPUs', () => {
+    process.env.AI_WORKER_POOL_SIZE = '3';
+    expect(getCandidateEvaluationPoolSize()).toBe(3);
+    expect(getCandidateEvaluationConcurrency()).toBe(3);
+
+    process.env.AI_WORKER_POOL_SIZE = '0';
+    expect(getCandidateEvaluationPoolSize()).toBe(0);
+    expect(getCandidateEvaluationConcurrency()).toBe(1);
+
+    process.env.AI_WORKER_POOL_SIZE = 'many';
+    expect(getCandidateEvaluationPoolSize()).toBe(Math.max(1, os.availableParallelism() - 1));
+  });
+
+  it('should simulate a registered strategy on a new instance in this thread when the pool is disabled', async () => {
+    process.env.AI_WORKER_POOL_SIZE = '0';
+    const definition = createBuyAndHold();
+    const instance = createBuyAndHold();
+    (StrategyManagerModule.getAvailableStrategies as jest.Mock).mockReturnValueOnce([definition]);
+    (StrategyManagerModule.createStrategy as jest.Mock).mockReturnValueOnce(instance);
+
+    const scores = await evaluateCandidate(definition, {}, evaluationData, 'TEST');
+
+    expect(StrategyManagerModule.createStrategy).toHaveBeenCalledWith('buy-and-hold');
+    expect(definition.execute).not.toHaveBeenCalled();
+    expect(instance.init).toHaveBeenCalledWith({ symbols: ['TEST'], parameters: {} });
+    expect(instance.dispose).toHaveBeenCalledTimes(1);
+    expect(scores).toEqual(await simulateCandidate(createBuyAndHold(), {}, evaluationData, 'TEST'));
+    expect(scores.pnl).toBe(9); // Bought at 100, closed at 109
+  });
+
+  it('should simulate strategies the workers do not know in this thread', async () => {
+    process.env.AI_WORKER_POOL_SIZE = '2';
+    const strategy = createBuyAndHold(); // Not returned by getAvailableStrategies
+
+    const scores = await evaluateCandidate(strategy, {}, evaluationData, 'TEST');
+
+    expect(scores.pnl).toBe(9);
+    expect(strategy.execute).toHaveBeenCalledTimes(evaluationData.length);
+  });
+});
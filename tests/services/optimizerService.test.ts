@@ -0,0 +1,107 @@
+import {
+  runOptimization,
+  validateOptimizerSettings,
+  OptimizerAlgorithm,
+} from '../../src/services/optimizerService';
+import { ParameterValue } from '../../src/backtest/parameterGrid';
+import { createSeededRandom } from '../../src/utils/random';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn(), verbose: jest.fn() },
+}));
+
+// A smooth objective with its maximum at x = 12, y = 30
+const space: Record<string, ParameterValue[]> = {
+  x: Array.from({ length: 25 }, (_, k) => k),
+  y: Array.from({ length: 21 }, (_, k) => k * 3),
+};
+const objective = async (parameters: Record<string, ParameterValue>) =>
+  -(((parameters.x as number) - 12) ** 2) - (((parameters.y as number) - 30) / 3) ** 2;
+
+describe('Optimizer Service', () => {
+  it('should validate optimizer settings', () => {
+    expect(validateOptimizerSettings(undefined)).toBeNull();
+    expect(validateOptimizerSettings({ algorithm: 'tpe', budget: 20, earlyStoppingRounds: 5, seed: 7 })).toBeNull();
+    expect(validateOptimizerSettings({ algorithm: 'annealing' })).toBe('optimizer.algorithm must be one of grid, random, latinHypercube, tpe.');
+    expect(validateOptimizerSettings({ budget: 0 })).toBe('optimizer.budget must be a positive integer.');
+    expect(validateOptimizerSettings({ seed: 1.5 })).toBe('optimizer.seed must be an integer.');
+  });
+
+  it('should enumerate the grid in order and find the exact optimum', async () => {
+    const result = await runOptimization({ a: [1, 2], b: ['x', 'y'] }, async p => (p.a === 2 && p.b === 'x' ? 1 : 0));
+
+    expect(result.trials.map(trial => trial.parameters)).toEqual([{ a: 1, b: 'x' }, { a: 1, b: 'y' }, { a: 2, b: 'x' }, { a: 2, b: 'y' }]);
+    expect(result).toMatchObject({ algorithm: 'grid', bestParameters: { a: 2, b: 'x' }, bestScore: 1, evaluations: 4, stoppedEarly: false });
+  });
+
+  it.each<OptimizerAlgorithm>(['random', 'latinHypercube', 'tpe'])('should respect the budget and be reproducible with a seed (%s)', async algorithm => {
+    const first = await runOptimization(space, objective, { algorithm, budget: 40, seed: 3 });
+    const second = await runOptimization(space, objective, { algorithm, budget: 40, seed: 3 });
+
+    expect(first.evaluations).toBe(40);
+    expect(new Set(first.trials.map(trial => JSON.stringify(trial.parameters))).size).toBe(40); // No point evaluated twice
+    expect(second.trials).toEqual(first.trials);
+    expect(first.seed).toBe(3);
+  });
+
+  it('should get closer to the optimum with TPE than with random search on the same budget', async () => {
+    let tpeWins = 0;
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const tpe = await runOptimization(space, objective, { algorithm: 'tpe', budget: 40, seed });
+      const random = await runOptimization(space, objective, { algorithm: 'random', budget: 40, seed });
+      if ((tpe.bestScore as number) >= (random.bestScore as number)) tpeWins++;
+    }
+    expect(tpeWins).toBeGreaterThanOrEqual(4);
+  });
+
+  it('should cover every value range evenly with a Latin hypercube', async () => {
+    const result = await runOptimization({ x: space.x }, objective, { algorithm: 'latinHypercube', budget: 5, seed: 11 });
+    // 25 values in 5 strata: one sample in each block of 5 values
+    const strata = result.trials.map(trial => Math.floor((trial.parameters.x as number) / 5)).sort();
+
+    expect(strata).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should stop early after the given number of evaluations without improvement', async () => {
+    const result = await runOptimization({ x: space.x }, async p => -(p.x as number), { earlyStoppingRounds: 3 });
+
+    expect(result).toMatchObject({ bestParameters: { x: 0 }, evaluations: 4, stoppedEarly: true });
+  });
+
+  it.each<OptimizerAlgorithm>(['grid', 'random', 'latinHypercube', 'tpe'])('should find the same trials when evaluating in parallel (%s)', async algorithm => {
+    const settings = { algorithm, budget: 30, earlyStoppingRounds: 8, seed: 5 };
+    // Later evaluations finish first, so scores arrive out of proposal order
+    let running = 0;
+    let maxRunning = 0;
+    const slowObjective = async (parameters: Record<string, ParameterValue>) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 30 - (parameters.x as number)));
+      running--;
+      return objective(parameters);
+    };
+
+    const sequential = await runOptimization(space, objective, settings);
+    const parallel = await runOptimization(space, slowObjective, settings, 4);
+
+    expect(parallel).toEqual(sequential);
+    expect(maxRunning).toBe(algorithm === 'tpe' ? 1 : 4);
+  });
+
+  it('should evaluate the empty parameter set when nothing is searched and ignore non-finite scores', async () => {
+    const empty = await runOptimization({}, async () => 5, { algorithm: 'tpe' });
+    const failing = await runOptimization({ x: [1, 2] }, async () => NaN);
+
+    expect(empty).toMatchObject({ bestParameters: {}, bestScore: 5, evaluations: 1 });
+    expect(failing).toMatchObject({ bestParameters: null, bestScore: null, evaluations: 2 });
+  });
+
+  it('should generate the same numbers for the same seed', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
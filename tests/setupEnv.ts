@@ -29,6 +29,11 @@ dotenv.config({ path: envPath });
 process.env.JWT_SECRET = 'a_very_secure_and_consistent_test_secret_123!'; 
 console.log('[tests/setupEnv.ts] JWT_SECRET set for tests.');
 
+// The AI selector simulates candidates in the test process, where the strategy manager may be mocked
+process.env.AI_WORKER_POOL_SIZE = '0';
+// Backtest jobs run in the test process too, where runBacktest may be mocked and the database is in memory
+process.env.BACKTEST_JOB_WORKERS = '0';
+
 console.log('[tests/setupEnv.ts] process.env.API_ENCRYPTION_KEY_HEX after dotenv:', process.env.API_ENCRYPTION_KEY_HEX); // For verification
 
 // Initialize the ApiKeyService with the now-loaded environment variables
@@ -1,5 +1,5 @@
-import { aiPricePredictionStrategy } from '../../src/strategies/implementations/aiPricePredictionStrategy';
-import { StrategyContext, StrategySignal } from '../../src/strategies/strategy.types';
+import { createAIPricePredictionStrategy } from '../../src/strategies/implementations/aiPricePredictionStrategy';
+import { StrategyContext, StrategySignal, TradingStrategy } from '../../src/strategies/strategy.types';
 import { HistoricalDataPoint } from '../../src/services/dataService';
 import { Portfolio } from '../../src/backtest';
 import * as tf from '@tensorflow/tfjs-node';
@@ -23,6 +23,7 @@ const mockModelPredict = jest.fn();
 const mockModelDispose = jest.fn();
 
 describe('AIPricePredictionStrategy', () => {
+  let aiPricePredictionStrategy: TradingStrategy;
   let baseContext: StrategyContext<any>; 
   const defaultParams = {
     lookbackPeriod: 10,
@@ -66,7 +67,7 @@ describe('AIPricePredictionStrategy', () => {
     } as unknown as tf.Sequential));
     mockedCompileModel.mockImplementation(jest.fn());
 
-    (aiPricePredictionStrategy as any).resetState(); 
+    aiPricePredictionStrategy = createAIPricePredictionStrategy(); // Untrained, like at the start of a run
 
     baseContext = {
       symbol: 'MOCK', 
@@ -235,12 +236,29 @@ describe('AIPricePredictionStrategy', () => {
     expect(signal.action).toBe('HOLD');
   });
   
-  it('model dispose should be called on resetState', () => {
+  it('model dispose should be called on dispose', () => {
     const strategy = aiPricePredictionStrategy as any;
     strategy.model = mockedCreateModel(defaultParams.lookbackPeriod, defaultParams.lstmUnits, defaultParams.denseUnits);
     
-    strategy.resetState();
+    strategy.dispose();
     expect(mockModelDispose).toHaveBeenCalled();
+    expect(strategy.isTrained).toBe(false);
+  });
+
+  it('keeps the model of each instance to itself', async () => {
+    mockedCreatePriceSequences.mockReturnValue({
+      sequences: [Array(defaultParams.lookbackPeriod).fill(0.1), Array(defaultParams.lookbackPeriod).fill(0.2)],
+      targets: [1,0]
+    });
+    mockedNormalizeData.mockReturnValue({
+      normalizedSequences: [Array(defaultParams.lookbackPeriod).fill(0.1), Array(defaultParams.lookbackPeriod).fill(0.2)],
+      minMax: { min: 1, max: 6 }
+    });
+    const otherRun = createAIPricePredictionStrategy();
+    await aiPricePredictionStrategy.execute(baseContext);
+
+    expect((aiPricePredictionStrategy as any).isTrained).toBe(true);
+    expect((otherRun as any).isTrained).toBe(false);
   });
 
 });
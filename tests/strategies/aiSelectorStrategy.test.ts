@@ -1,4 +1,4 @@
-import { aiSelectorStrategy, getAISelectorActiveState, AISelectorChoiceState } from '../../src/strategies/implementations/aiSelectorStrategy';
+import { createAISelectorStrategy, getAISelectorActiveState, AISelectorChoiceState } from '../../src/strategies/implementations/aiSelectorStrategy';
 import * as StrategyManagerModule from '../../src/strategies/strategyManager'; 
 import { TradingStrategy, StrategyContext, StrategySignal, StrategyParameterDefinition, AIDecision } from '../../src/strategies/strategy.types';
 import logger from '../../src/utils/logger'; 
@@ -25,11 +25,17 @@ jest.mock('../../src/utils/logger', () => ({
 // Mock StrategyManager
 // This mock will apply to imports of '../../src/strategies/strategyManager'
 // in both this test file AND in aiSelectorStrategy.ts (if Jest's module system handles it correctly)
-jest.mock('../../src/strategies/strategyManager', () => ({
-  __esModule: true,
-  getAvailableStrategies: jest.fn(),
-  getStrategy: jest.fn(),
-}));
+// The chosen strategy is run on an instance from createStrategy, here the strategy returned by getStrategy
+jest.mock('../../src/strategies/strategyManager', () => {
+  const getStrategy = jest.fn();
+  return {
+    __esModule: true,
+    getAvailableStrategies: jest.fn(),
+    getStrategy,
+    createStrategy: jest.fn((id: string) => getStrategy(id)),
+    disposeStrategy: jest.fn(async (strategy: TradingStrategy) => strategy.dispose?.()),
+  };
+});
 
 
 // Helper to create dummy strategies
@@ -59,6 +65,7 @@ interface MockPortfolio extends Omit<Portfolio, 'getPosition' | 'getTrades' | 'r
 
 
 describe('AISelectorStrategy Execution', () => {
+  let aiSelectorStrategy: TradingStrategy<any>;
   let mockContext: StrategyContext<any>;
   let stratA_execute: jest.Mock;
   let stratB_execute: jest.Mock;
@@ -83,15 +90,7 @@ describe('AISelectorStrategy Execution', () => {
   beforeEach(() => {
     jest.clearAllMocks(); 
 
-    if ((aiSelectorStrategy as any).currentChoicesBySymbol) {
-        (aiSelectorStrategy as any).currentChoicesBySymbol.clear();
-    }
-    if ((aiSelectorStrategy as any).optimizedParamsForChoice) {
-        (aiSelectorStrategy as any).optimizedParamsForChoice.clear();
-    }
-    if ((aiSelectorStrategy as any).lastAIDecision) {
-        (aiSelectorStrategy as any).lastAIDecision = null;
-    }
+    aiSelectorStrategy = createAISelectorStrategy(); // A new run
 
 
     stratA_execute = jest.fn().mockResolvedValue({ action: 'HOLD' } as StrategySignal);
@@ -310,6 +309,7 @@ describe('AISelectorStrategy Execution', () => {
 });
 
 describe('AISelectorStrategy - Specific Candidate IDs', () => {
+  let aiSelectorStrategy: TradingStrategy<any>;
   let mockContext: StrategyContext<any>;
   let stratA_execute: jest.Mock;
   let stratB_execute: jest.Mock;
@@ -320,6 +320,7 @@ describe('AISelectorStrategy - Specific Candidate IDs', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    aiSelectorStrategy = createAISelectorStrategy();
 
     stratA_execute = jest.fn().mockResolvedValue({ action: 'BUY' } as StrategySignal);
     stratB_execute = jest.fn().mockResolvedValue({ action: 'HOLD' } as StrategySignal);
@@ -376,6 +377,7 @@ describe('AISelectorStrategy - Specific Candidate IDs', () => {
 });
 
 describe('AISelectorStrategy - Metric-Specific Selection', () => {
+  let aiSelectorStrategy: TradingStrategy<any>;
   let mockContext: StrategyContext<any>;
   const lookback = 10; 
 
@@ -388,6 +390,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    aiSelectorStrategy = createAISelectorStrategy();
      const mockPortfolioInstance: MockPortfolio = {
         cash: 10000, shares: 0, initialValue: 10000, currentValue: 10000,
         getPosition: jest.fn().mockReturnValue({ quantity: 0, averagePrice: 0 }),
@@ -427,7 +430,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
     expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("Chose strategy stratWin using metric 'winRate' with score 0.8000"));
     expect(dummyStratWin.execute).toHaveBeenCalledWith(mockContext);
 
-    const decision = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
     expect(decision).not.toBeNull();
     expect(decision!.chosenStrategyId).toBe('stratWin');
     expect(decision!.evaluationScore).toBeCloseTo(0.8);
@@ -461,7 +464,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
     expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("Chose strategy stratSharpe using metric 'sharpe'"));
     expect(dummyStratSharpe.execute).toHaveBeenCalledWith(mockContext);
 
-    const decision = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
     expect(decision).not.toBeNull();
     expect(decision!.chosenStrategyId).toBe('stratSharpe');
     expect(typeof decision!.evaluationScore).toBe('number');
@@ -497,7 +500,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
     expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("Chose strategy stratPnlForDefault using metric 'pnl' with score 6.0000"));
     expect(dummyStratPnl.execute).toHaveBeenCalledWith(mockContext);
 
-    const decision = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
     expect(decision).not.toBeNull();
     expect(decision!.chosenStrategyId).toBe('stratPnlForDefault');
     expect(decision!.evaluationMetricUsed).toBe('pnl'); 
@@ -533,7 +536,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
     expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("Chose strategy stratPnlForMissing using metric 'pnl' with score 6.0000"));
     expect(dummyStratPnl.execute).toHaveBeenCalledWith(mockContext);
 
-    const decision = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
     expect(decision).not.toBeNull();
     expect(decision!.chosenStrategyId).toBe('stratPnlForMissing');
     expect(decision!.evaluationMetricUsed).toBe('pnl');
@@ -551,7 +554,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
 
     await aiSelectorStrategy.execute(mockContext);
     
-    const decision = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
     expect(decision).not.toBeNull();
     expect(decision!.chosenStrategyId).toBeNull();
     expect(decision!.chosenStrategyName).toBeNull();
@@ -572,7 +575,7 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
     (StrategyManagerModule.getStrategy as jest.Mock).mockReturnValue(dummyStratGood);
     
     await aiSelectorStrategy.execute(mockContext);
-    const decision1 = JSON.parse(JSON.stringify((aiSelectorStrategy as any).lastAIDecision)); // Deep copy
+    const decision1 = JSON.parse(JSON.stringify(aiSelectorStrategy.getAIDecision!())); // Deep copy
     expect(decision1.chosenStrategyId).toBe('stratGood');
 
     const stratBetter_execute = jest.fn().mockImplementation(async (ctx: StrategyContext<any>) => {
@@ -591,10 +594,166 @@ describe('AISelectorStrategy - Metric-Specific Selection', () => {
 
 
     await aiSelectorStrategy.execute(mockContext);
-    const decision2 = (aiSelectorStrategy as any).lastAIDecision as AIDecision | null;
+    const decision2 = aiSelectorStrategy.getAIDecision!() as AIDecision | null;
 
     expect(decision2).not.toBeNull();
     expect(decision2!.chosenStrategyId).toBe('stratBetter');
     expect(decision1.chosenStrategyId).not.toBe(decision2!.chosenStrategyId); 
   });
 });
+
+describe('AISelectorStrategy re-evaluation cadence and switching hysteresis', () => {
+  // Rises for 30 bars, then falls: the long candidate leads first, the short one after the reversal
+  const createTrendReversal = (fallPerBar: number): HistoricalDataPoint[] => Array.from({ length: 60 }, (_, i) => {
+    const close = i < 30 ? 100 + i : 130 - (i - 30) * fallPerBar;
+    return {
+      timestamp: 1672531200 + i * 86400,
+      date: new Date((1672531200 + i * 86400) * 1000),
+      open: close, high: close + 1, low: close - 1, close, volume: 1000,
+      symbol: 'HYST', source_api: 'test', interval: '1d',
+    };
+  });
+
+  // Enter on the first bar of the evaluation window and hold until its end
+  const longExecute = jest.fn(async (ctx: StrategyContext<any>) => ({ action: ctx.currentIndex === 0 ? 'BUY' : 'HOLD' } as StrategySignal));
+  const shortExecute = jest.fn(async (ctx: StrategyContext<any>) => ({ action: ctx.currentIndex === 0 ? 'SELL' : 'HOLD' } as StrategySignal));
+  // Sells in the middle of the evaluation window, so it profits from a reversal before the long candidate loses money
+  const lateShortExecute = jest.fn(async (ctx: StrategyContext<any>) => ({ action: ctx.currentIndex === 5 ? 'SELL' : 'HOLD' } as StrategySignal));
+  const longStrategy = createDummyStrategy('long', 'Long', longExecute);
+  const shortStrategy = createDummyStrategy('short', 'Short', shortExecute);
+  const lateShortStrategy = createDummyStrategy('lateShort', 'Late Short', lateShortExecute);
+
+  // Runs the selector over every bar of one pass over the data and returns its decisions
+  const runSelector = async (parameters: Record<string, any>, fallPerBar = 1): Promise<AIDecision[]> => {
+    const historicalData = createTrendReversal(fallPerBar);
+    const aiSelectorStrategy = createAISelectorStrategy();
+    const decisions: AIDecision[] = [];
+    for (let i = 10; i < historicalData.length; i++) {
+      await aiSelectorStrategy.execute({
+        symbol: 'HYST',
+        historicalData,
+        currentIndex: i,
+        parameters: { evaluationLookbackPeriod: 10, ...parameters },
+        portfolio: {} as any,
+        tradeHistory: [],
+      });
+      decisions.push({ ...aiSelectorStrategy.getAIDecision!()! });
+    }
+    return decisions;
+  };
+  const switchBars = (decisions: AIDecision[]) => decisions.filter(decision => decision.switched).map(decision => decision.timestamp);
+
+  beforeEach(() => {
+    (StrategyManagerModule.getAvailableStrategies as jest.Mock).mockReturnValue([longStrategy, shortStrategy]);
+    (StrategyManagerModule.getStrategy as jest.Mock).mockImplementation(id => [longStrategy, shortStrategy, lateShortStrategy].find(strategy => strategy.id === id));
+  });
+
+  test('switches once when the other candidate takes the lead and counts the switches', async () => {
+    const decisions = await runSelector({});
+
+    expect(decisions[0]).toMatchObject({ chosenStrategyId: 'long', reevaluated: true, switched: false, switchCount: 0, marketRegime: 'trendingUp' });
+    expect(switchBars(decisions)).toHaveLength(1);
+    expect(decisions[decisions.length - 1]).toMatchObject({ chosenStrategyId: 'short', switchCount: 1, marketRegime: 'trendingDown' });
+    expect(decisions.every(decision => decision.reevaluated)).toBe(true);
+  });
+
+  test('only ranks the candidates every reevaluationInterval bars', async () => {
+    const decisions = await runSelector({ reevaluationInterval: 5 });
+
+    expect(decisions.map(decision => decision.reevaluated)).toEqual(decisions.map((_, k) => k % 5 === 0));
+    expect(decisions[decisions.length - 1]).toMatchObject({ chosenStrategyId: 'short', switchCount: 1 });
+  });
+
+  test('also ranks the candidates when the regime of the evaluation window changes', async () => {
+    const withoutRegime = await runSelector({ reevaluationInterval: 1000 });
+    const withRegime = await runSelector({ reevaluationInterval: 1000, reevaluateOnRegimeChange: true });
+
+    expect(withoutRegime[withoutRegime.length - 1]).toMatchObject({ chosenStrategyId: 'long', switchCount: 0 });
+    expect(withRegime[withRegime.length - 1]).toMatchObject({ chosenStrategyId: 'short', switchCount: 1 });
+    expect(withRegime.filter(decision => decision.reevaluated).length).toBeLessThan(withRegime.length);
+  });
+
+  test('requires a score margin and pays a switching cost before switching', async () => {
+    (StrategyManagerModule.getAvailableStrategies as jest.Mock).mockReturnValue([longStrategy, lateShortStrategy]);
+    // The late short candidate overtakes the long one while the long one is still profitable
+    const [defaultSwitch] = switchBars(await runSelector({}, 0.5));
+    const [marginSwitch] = switchBars(await runSelector({ minScoreMargin: 0.5 }, 0.5));
+    const [costSwitch] = switchBars(await runSelector({ switchingCost: 1 }, 0.5));
+
+    expect(marginSwitch).toBeGreaterThan(defaultSwitch);
+    expect(costSwitch).toBeGreaterThan(defaultSwitch);
+    expect(switchBars(await runSelector({ switchingCost: 1000 }, 0.5))).toHaveLength(0);
+  });
+
+  test('keeps a choice for the minimum holding period', async () => {
+    const decisions = await runSelector({ minHoldingPeriod: 40 });
+    const [switchBar] = switchBars(decisions);
+
+    // The long candidate was chosen on the first evaluated bar
+    expect((switchBar - decisions[0].timestamp) / 86400).toBeGreaterThanOrEqual(40);
+  });
+});
+
+describe('AISelectorStrategy per-run state', () => {
+  const risingData: HistoricalDataPoint[] = Array.from({ length: 20 }, (_, i) => ({
+    timestamp: 1672531200 + i * 86400,
+    date: new Date((1672531200 + i * 86400) * 1000),
+    open: 100 + i, high: 101 + i, low: 99 + i, close: 100 + i, volume: 1000,
+    symbol: 'RUN', source_api: 'test', interval: '1d',
+  }));
+  const contextAt = (currentIndex: number, parameters: Record<string, any>): StrategyContext<any> => ({
+    symbol: 'RUN',
+    historicalData: risingData,
+    currentIndex,
+    parameters: { evaluationLookbackPeriod: 5, ...parameters },
+    portfolio: {} as any,
+    tradeHistory: [],
+  });
+  const buyStrategy = createDummyStrategy('buy', 'Buy', jest.fn(async () => ({ action: 'BUY' } as StrategySignal)));
+  const holdStrategy = createDummyStrategy('hold', 'Hold');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (StrategyManagerModule.getAvailableStrategies as jest.Mock).mockReturnValue([buyStrategy, holdStrategy]);
+    (StrategyManagerModule.getStrategy as jest.Mock).mockImplementation(id => [buyStrategy, holdStrategy].find(strategy => strategy.id === id));
+  });
+
+  test('keeps the choices of concurrent runs on the same symbol apart', async () => {
+    const buyRun = createAISelectorStrategy();
+    const holdRun = createAISelectorStrategy();
+
+    for (let i = 5; i < risingData.length; i++) {
+      await Promise.all([
+        buyRun.execute(contextAt(i, { candidateStrategyIds: 'buy' })),
+        holdRun.execute(contextAt(i, { candidateStrategyIds: 'hold' })),
+      ]);
+      expect(buyRun.getAIDecision!()!.chosenStrategyId).toBe('buy');
+      expect(holdRun.getAIDecision!()!.chosenStrategyId).toBe('hold');
+    }
+  });
+
+  test('runs the chosen strategy on an instance of the run and disposes it with the run', async () => {
+    const instances: any[] = [];
+    (StrategyManagerModule.createStrategy as jest.Mock).mockImplementation(id => {
+      const instance = { ...StrategyManagerModule.getStrategy(id), init: jest.fn(), dispose: jest.fn(), execute: jest.fn(async () => ({ action: id === 'buy' ? 'BUY' : 'HOLD' })) };
+      instances.push(instance);
+      return instance;
+    });
+    const selector = createAISelectorStrategy();
+
+    await selector.execute(contextAt(5, {}));
+    await selector.execute(contextAt(6, {}));
+    // Simulations run on instances of their own; the run's instance sees the whole data
+    const [runInstance, ...others] = instances.filter(instance => instance.execute.mock.calls.some(([context]: [StrategyContext]) => context.historicalData === risingData));
+    expect(others).toHaveLength(0);
+    expect(runInstance.id).toBe('buy');
+    expect(runInstance.init).toHaveBeenCalledTimes(1);
+    expect(runInstance.execute).toHaveBeenCalledTimes(2);
+    expect(instances.filter(instance => instance !== runInstance).every(instance => instance.dispose.mock.calls.length === 1)).toBe(true);
+    expect(runInstance.dispose).not.toHaveBeenCalled();
+
+    await selector.dispose!();
+
+    expect(runInstance.dispose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,144 @@
+import { atrBreakoutStrategy } from '../../src/strategies/implementations/atrBreakoutStrategy';
+import { StrategyContext } from '../../src/strategies/strategy.types';
+import { Portfolio } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { calculateATR } from '../../src/utils/technicalIndicators';
+
+// Mock the technical indicator function
+jest.mock('../../src/utils/technicalIndicators');
+
+const mockedCalculateATR = calculateATR as jest.MockedFunction<typeof calculateATR>;
+
+describe('ATR Volatility Breakout Strategy', () => {
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    atrPeriod: 14,
+    atrMultiplier: 1.5,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  // ATR of the previous and current bar; the current one must not be used
+  const mockATR = (context: StrategyContext<any>, previous: number, current = 100) => {
+    mockedCalculateATR.mockReturnValue(
+      Array(context.historicalData.length).fill(NaN).map((_, i) => {
+        if (i === context.currentIndex) return current;
+        if (i === context.currentIndex - 1) return previous;
+        return NaN;
+      })
+    );
+  };
+
+  const setClose = (context: StrategyContext<any>, close: number) => {
+    context.historicalData[context.currentIndex].close = close; // The previous close is 100
+  };
+
+  beforeEach(() => {
+    mockedCalculateATR.mockReset();
+
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(50, 100),
+      currentIndex: 49,
+      portfolio: { cash: 1000, shares: 10 } as unknown as Portfolio,
+      parameters: { ...defaultParams },
+      tradeHistory: [],
+      signalHistory: [],
+    };
+  });
+
+  it('should generate a BUY signal when the close rises more than the ATR multiple', async () => {
+    const context = { ...baseContext };
+    setClose(context, 103.5);
+    mockATR(context, 2); // Threshold 3
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+    expect(mockedCalculateATR).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), expect.any(Array), 14);
+  });
+
+  it('should generate a SELL signal when the close falls more than the ATR multiple', async () => {
+    const context = { ...baseContext };
+    setClose(context, 96.5);
+    mockATR(context, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+  });
+
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1;
+    setClose(context, 103.5);
+    mockATR(context, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
+  it('should generate a HOLD signal for a move within the ATR multiple', async () => {
+    const context = { ...baseContext };
+    setClose(context, 102.5);
+    mockATR(context, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if the previous ATR is NaN', async () => {
+    const context = { ...baseContext };
+    setClose(context, 103.5);
+    mockATR(context, NaN, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if currentIndex < 1', async () => {
+    const context = { ...baseContext, currentIndex: 0 };
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+    expect(mockedCalculateATR).not.toHaveBeenCalled();
+  });
+
+  it('should generate a HOLD signal for BUY if insufficient cash', async () => {
+    const context = { ...baseContext };
+    context.portfolio.cash = 100;
+    setClose(context, 103.5);
+    mockATR(context, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for SELL if insufficient shares', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 0;
+    setClose(context, 96.5);
+    mockATR(context, 2);
+
+    const result = await Promise.resolve(atrBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+});
@@ -0,0 +1,111 @@
+import { createDCAStrategy } from '../../src/strategies/implementations/dcaStrategy';
+import { StrategyContext, StrategySignal, TradingStrategy } from '../../src/strategies/strategy.types';
+import { Portfolio, Trade } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+
+describe('DCA Strategy', () => {
+  let strategy: TradingStrategy<any>;
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    baseOrderAmount: 100,
+    buyIntervalBars: 0,
+    safetyOrderAmount: 100,
+    safetyOrderStepPercent: 2,
+    safetyOrderVolumeScale: 2,
+    maxSafetyOrders: 2,
+    takeProfitPercent: 3,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.UTC(2023, 0, 1) + i * 86400000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  const buy = (context: StrategyContext<any>, barIndex: number, price: number): Trade => ({
+    timestamp: context.historicalData[barIndex].timestamp, date: context.historicalData[barIndex].date, action: 'BUY', price,
+    sharesTraded: 1, cashAfterTrade: 0, fees: 0, slippage: 0, tradeType: 'SIGNAL',
+  });
+
+  // Runs the strategy on a bar with the given close and position
+  const runAt = (index: number, close: number, position: Partial<Portfolio> = {}) => {
+    baseContext.currentIndex = index;
+    baseContext.historicalData[index].close = close;
+    baseContext.portfolio = { cash: 10000, shares: 0, averageEntryPrice: 0, ...position } as Portfolio;
+    return strategy.execute(baseContext) as StrategySignal;
+  };
+
+  beforeEach(() => {
+    strategy = createDCAStrategy();
+    strategy.init?.({ symbols: ['MOCK'], parameters: defaultParams });
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(20, 100),
+      currentIndex: 0,
+      portfolio: { cash: 10000, shares: 0 } as unknown as Portfolio,
+      tradeHistory: [],
+      parameters: { ...defaultParams },
+    };
+  });
+
+  it('should buy the base order when there is no position and hold while the price stays near the last buy', () => {
+    expect(runAt(0, 100)).toEqual({ action: 'BUY', amount: 100, sizingMode: 'NOTIONAL' });
+    baseContext.tradeHistory = [buy(baseContext, 0, 100)];
+    expect(runAt(1, 99, { shares: 1, averageEntryPrice: 100 })).toEqual({ action: 'HOLD' });
+  });
+
+  it('should add safety orders of growing size on drawdowns, up to the maximum per cycle', () => {
+    baseContext.tradeHistory = [buy(baseContext, 0, 100)];
+    expect(runAt(1, 98, { shares: 1, averageEntryPrice: 100 })).toEqual({ action: 'BUY', amount: 100, sizingMode: 'NOTIONAL' });
+
+    baseContext.tradeHistory.push(buy(baseContext, 2, 98)); // The first safety order filled
+    expect(runAt(2, 96, { shares: 2, averageEntryPrice: 99 })).toEqual({ action: 'BUY', amount: 200, sizingMode: 'NOTIONAL' });
+
+    baseContext.tradeHistory.push(buy(baseContext, 3, 96));
+    expect(runAt(3, 90, { shares: 3, averageEntryPrice: 98 })).toEqual({ action: 'HOLD' }); // Two safety orders used
+  });
+
+  it('should not count a safety order that did not fill', () => {
+    baseContext.tradeHistory = [buy(baseContext, 0, 100)];
+    expect(runAt(1, 98, { shares: 1, averageEntryPrice: 100 }).amount).toBe(100);
+    expect(runAt(2, 97, { shares: 1, averageEntryPrice: 100 }).amount).toBe(100); // Same size again
+  });
+
+  it('should take profit above the average cost and start a new cycle afterwards', () => {
+    baseContext.tradeHistory = [buy(baseContext, 0, 100)];
+    runAt(1, 98, { shares: 1, averageEntryPrice: 100 });
+    baseContext.tradeHistory.push(buy(baseContext, 2, 98));
+
+    expect(runAt(3, 101, { shares: 2.5, averageEntryPrice: 99 })).toEqual({ action: 'HOLD' });
+    expect(runAt(4, 102, { shares: 2.5, averageEntryPrice: 99 })).toEqual({ action: 'SELL', amount: 2.5 });
+
+    // Flat again: a new base order, and the safety orders start over from the first size
+    expect(runAt(5, 102)).toEqual({ action: 'BUY', amount: 100, sizingMode: 'NOTIONAL' });
+    baseContext.tradeHistory.push(buy(baseContext, 5, 102));
+    expect(runAt(6, 99, { shares: 1, averageEntryPrice: 102 }).amount).toBe(100);
+  });
+
+  it('should buy periodically with a buy interval', () => {
+    baseContext.parameters = { ...defaultParams, buyIntervalBars: 3, takeProfitPercent: 0 };
+    baseContext.tradeHistory = [buy(baseContext, 2, 100)];
+
+    expect(runAt(4, 100, { shares: 1, averageEntryPrice: 100 })).toEqual({ action: 'HOLD' });
+    expect(runAt(5, 150, { shares: 1, averageEntryPrice: 100 })).toEqual({ action: 'BUY', amount: 100, sizingMode: 'NOTIONAL' });
+  });
+
+  it('should hold when cash does not cover the order', () => {
+    expect(runAt(0, 100, { cash: 50 })).toEqual({ action: 'HOLD' });
+  });
+});
@@ -0,0 +1,146 @@
+import { donchianBreakoutStrategy } from '../../src/strategies/implementations/donchianBreakoutStrategy';
+import { StrategyContext } from '../../src/strategies/strategy.types';
+import { Portfolio } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { calculateDonchianChannels } from '../../src/utils/technicalIndicators';
+
+// Mock the technical indicator function
+jest.mock('../../src/utils/technicalIndicators');
+
+const mockedCalculateDonchianChannels = calculateDonchianChannels as jest.MockedFunction<typeof calculateDonchianChannels>;
+
+describe('Donchian Channel Breakout Strategy', () => {
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    entryPeriod: 20,
+    exitPeriod: 10,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  // Entry channel high and exit channel low at the current bar
+  const mockChannels = (context: StrategyContext<any>, entryHigh: number, exitLow: number) => {
+    const series = (value: number) =>
+      Array(context.historicalData.length).fill(NaN).map((_, i) => (i === context.currentIndex ? value : NaN));
+    mockedCalculateDonchianChannels.mockImplementation((_highs, _lows, period) =>
+      period === context.parameters.entryPeriod
+        ? { upper: series(entryHigh), middle: series(NaN), lower: series(NaN) }
+        : { upper: series(NaN), middle: series(NaN), lower: series(exitLow) }
+    );
+  };
+
+  const setClose = (context: StrategyContext<any>, close: number) => {
+    context.historicalData[context.currentIndex].close = close;
+  };
+
+  beforeEach(() => {
+    mockedCalculateDonchianChannels.mockReset();
+
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(50, 100),
+      currentIndex: 49,
+      portfolio: { cash: 1000, shares: 0 } as unknown as Portfolio,
+      parameters: { ...defaultParams },
+      tradeHistory: [],
+      signalHistory: [],
+    };
+  });
+
+  it('should generate a BUY signal on a breakout above the entry channel while flat', async () => {
+    const context = { ...baseContext };
+    setClose(context, 111);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+    expect(mockedCalculateDonchianChannels).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), 20);
+    expect(mockedCalculateDonchianChannels).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), 10);
+  });
+
+  it('should generate a HOLD signal on a breakout while already long', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 1;
+    setClose(context, 111);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a SELL signal on a breakdown below the exit channel', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 1;
+    setClose(context, 89);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+  });
+
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1;
+    setClose(context, 111);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
+  it('should generate a HOLD signal inside the channels', async () => {
+    const context = { ...baseContext };
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if a channel is NaN', async () => {
+    const context = { ...baseContext };
+    setClose(context, 111);
+    mockChannels(context, 110, NaN);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for BUY if insufficient cash', async () => {
+    const context = { ...baseContext };
+    context.portfolio.cash = 100;
+    setClose(context, 111);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for SELL if insufficient shares', async () => {
+    const context = { ...baseContext };
+    setClose(context, 89);
+    mockChannels(context, 110, 90);
+
+    const result = await Promise.resolve(donchianBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+});
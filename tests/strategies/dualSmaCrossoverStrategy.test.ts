@@ -0,0 +1,158 @@
+import { dualSmaCrossoverStrategy } from '../../src/strategies/implementations/dualSmaCrossoverStrategy';
+import { StrategyContext } from '../../src/strategies/strategy.types';
+import { Portfolio } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { calculateSMA } from '../../src/utils/technicalIndicators';
+
+// Mock the technical indicator function
+jest.mock('../../src/utils/technicalIndicators');
+
+const mockedCalculateSMA = calculateSMA as jest.MockedFunction<typeof calculateSMA>;
+
+describe('Dual SMA Crossover Strategy', () => {
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    shortPeriod: 10,
+    longPeriod: 30,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  // Short and long SMA values at the previous and current bar; NaN elsewhere
+  const mockAverages = (
+    context: StrategyContext<any>,
+    short: [number, number],
+    long: [number, number]
+  ) => {
+    const series = ([previous, current]: [number, number]) =>
+      Array(context.historicalData.length).fill(NaN).map((_, i) => {
+        if (i === context.currentIndex) return current;
+        if (i === context.currentIndex - 1) return previous;
+        return NaN;
+      });
+    mockedCalculateSMA.mockImplementation((_prices, period) =>
+      series(period === context.parameters.shortPeriod ? short : long)
+    );
+  };
+
+  beforeEach(() => {
+    mockedCalculateSMA.mockReset();
+
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(50, 100),
+      currentIndex: 49,
+      portfolio: { cash: 1000, shares: 10 } as unknown as Portfolio,
+      parameters: { ...defaultParams },
+      tradeHistory: [],
+      signalHistory: [],
+    };
+  });
+
+  it('should generate a BUY signal when the short SMA crosses above the long SMA', async () => {
+    const context = { ...baseContext };
+    mockAverages(context, [99, 102], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+    expect(mockedCalculateSMA).toHaveBeenCalledWith(expect.any(Array), 10);
+    expect(mockedCalculateSMA).toHaveBeenCalledWith(expect.any(Array), 30);
+  });
+
+  it('should generate a SELL signal when the short SMA crosses below the long SMA', async () => {
+    const context = { ...baseContext };
+    mockAverages(context, [102, 99], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+  });
+
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1;
+    mockAverages(context, [99, 102], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
+  it('should generate a HOLD signal when the short SMA stays above the long SMA', async () => {
+    const context = { ...baseContext };
+    mockAverages(context, [103, 104], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if an average is NaN', async () => {
+    const context = { ...baseContext };
+    mockAverages(context, [99, 102], [NaN, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if currentIndex < 1', async () => {
+    const context = { ...baseContext, currentIndex: 0 };
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+    expect(mockedCalculateSMA).not.toHaveBeenCalled();
+  });
+
+  it('should generate a HOLD signal for BUY if insufficient cash', async () => {
+    const context = { ...baseContext };
+    context.portfolio.cash = 99; // One unit costs 100
+    mockAverages(context, [99, 102], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for SELL if insufficient shares', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 0.5;
+    mockAverages(context, [102, 99], [100, 101]);
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate HOLD if longPeriod is not greater than shortPeriod', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, longPeriod: 10 } };
+
+    const result = await Promise.resolve(dualSmaCrossoverStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+    expect(mockedCalculateSMA).not.toHaveBeenCalled();
+  });
+
+  it('should define optimization ranges for its numeric parameters', () => {
+    const numeric = dualSmaCrossoverStrategy.parameters.filter(parameter => parameter.type === 'number');
+    expect(numeric.map(parameter => parameter.name)).toEqual(['shortPeriod', 'longPeriod', 'tradeAmount']);
+    numeric.forEach(parameter => {
+      expect(parameter.min).toBeDefined();
+      expect(parameter.max).toBeDefined();
+      expect(parameter.step).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { dynamicSupportResistanceStrategy } from '../../src/strategies/implementations/dynamicSupportResistanceStrategy';
+import { StrategyContext } from '../../src/strategies/strategy.types';
+import { Portfolio } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { calculateFractalLevels, calculatePivotLevels } from '../../src/utils/technicalIndicators';
+
+// Mock the technical indicator functions
+jest.mock('../../src/utils/technicalIndicators');
+
+const mockedCalculateFractalLevels = calculateFractalLevels as jest.MockedFunction<typeof calculateFractalLevels>;
+const mockedCalculatePivotLevels = calculatePivotLevels as jest.MockedFunction<typeof calculatePivotLevels>;
+
+describe('Dynamic Support/Resistance Strategy', () => {
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    levelMethod: 'fractal',
+    lookbackPeriod: 20,
+    pivotStrength: 2,
+    tolerancePercent: 1,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  // Sets the current bar and the support/resistance levels at it
+  const setCurrentBar = (context: StrategyContext<any>, bar: { high: number; low: number; close: number }) => {
+    Object.assign(context.historicalData[context.currentIndex], bar);
+  };
+  const levelsAt = (context: StrategyContext<any>, support: number, resistance: number) => {
+    const series = (value: number) =>
+      Array(context.historicalData.length).fill(NaN).map((_, i) => (i === context.currentIndex ? value : NaN));
+    return { support: series(support), resistance: series(resistance) };
+  };
+
+  beforeEach(() => {
+    mockedCalculateFractalLevels.mockReset();
+    mockedCalculatePivotLevels.mockReset();
+
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(50, 100),
+      currentIndex: 49,
+      portfolio: { cash: 1000, shares: 10 } as unknown as Portfolio,
+      parameters: { ...defaultParams },
+      tradeHistory: [],
+      signalHistory: [],
+    };
+  });
+
+  it('should generate a BUY signal when the price bounces off support', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 103, low: 90.5, close: 92 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+    expect(mockedCalculateFractalLevels).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), 2, 20);
+    expect(mockedCalculatePivotLevels).not.toHaveBeenCalled();
+  });
+
+  it('should generate a SELL signal when the price is rejected at resistance', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 109.5, low: 104, close: 106 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+  });
+
+  it('should generate a SELL signal when the price closes through support', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 91, low: 85, close: 88 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+  });
+
+  it('should use rolling pivot levels with the pivot method', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, levelMethod: 'pivot' } };
+    setCurrentBar(context, { high: 103, low: 90.5, close: 92 });
+    mockedCalculatePivotLevels.mockReturnValue({ pivot: [], ...levelsAt(context, 90, 110) });
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(mockedCalculatePivotLevels).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), expect.any(Array), 20);
+    expect(mockedCalculateFractalLevels).not.toHaveBeenCalled();
+  });
+
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1;
+    setCurrentBar(context, { high: 103, low: 90.5, close: 92 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
+  it('should generate a HOLD signal when the price is between the levels', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 102, low: 98, close: 100 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if a level is NaN', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 103, low: 90.5, close: 92 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, NaN, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if support is not below resistance', async () => {
+    const context = { ...baseContext };
+    setCurrentBar(context, { high: 103, low: 99, close: 101 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 100, 100));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for BUY if insufficient cash', async () => {
+    const context = { ...baseContext };
+    context.portfolio.cash = 50;
+    setCurrentBar(context, { high: 103, low: 90.5, close: 92 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for SELL if insufficient shares', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 0;
+    setCurrentBar(context, { high: 109.5, low: 104, close: 106 });
+    mockedCalculateFractalLevels.mockReturnValue(levelsAt(context, 90, 110));
+
+    const result = await Promise.resolve(dynamicSupportResistanceStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should define optimization ranges for its numeric parameters', () => {
+    const numeric = dynamicSupportResistanceStrategy.parameters.filter(parameter => parameter.type === 'number');
+    expect(numeric.map(parameter => parameter.name)).toEqual(['lookbackPeriod', 'pivotStrength', 'tolerancePercent', 'tradeAmount']);
+    numeric.forEach(parameter => {
+      expect(parameter.min).toBeDefined();
+      expect(parameter.max).toBeDefined();
+      expect(parameter.step).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { createGridTradingStrategy, calculateGridLevels } from '../../src/strategies/implementations/gridTradingStrategy';
+import { StrategyContext, StrategySignal, TradingStrategy } from '../../src/strategies/strategy.types';
+import { Portfolio, Trade } from '../../src/backtest';
+import { PendingOrder } from '../../src/backtest/orderBook';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+
+describe('Grid Trading Strategy', () => {
+  let strategy: TradingStrategy<any>;
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    lowerPrice: 90,
+    upperPrice: 110,
+    rangePercent: 10,
+    gridLevels: 5, // 90, 95, 100, 105, 110
+    spacing: 'arithmetic',
+    orderSize: 1,
+    orderSizeMode: 'UNITS',
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  const fill = (orderId: string, action: 'BUY' | 'SELL', sharesTraded: number): Trade => ({
+    timestamp: 0, date: new Date(0), action, price: 100, sharesTraded, cashAfterTrade: 0, fees: 0, slippage: 0, tradeType: 'SIGNAL', orderId,
+  });
+
+  const openOrder = (id: string): PendingOrder => ({
+    id, side: 'BUY', type: 'LIMIT', quantity: 1, limitPrice: 90, timeInForce: 'GTC', placedAtIndex: 0, placedTimestamp: 0,
+  });
+
+  const run = (context: StrategyContext<any>) => strategy.execute(context) as StrategySignal;
+
+  beforeEach(() => {
+    strategy = createGridTradingStrategy();
+    strategy.init?.({ symbols: ['MOCK'], parameters: defaultParams });
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(10, 102),
+      currentIndex: 9,
+      portfolio: { cash: 10000, shares: 0 } as unknown as Portfolio,
+      tradeHistory: [],
+      parameters: { ...defaultParams },
+      openOrders: [],
+    };
+  });
+
+  describe('calculateGridLevels', () => {
+    it('should space levels evenly in price or in percentage', () => {
+      expect(calculateGridLevels(90, 110, 5, 'arithmetic')).toEqual([90, 95, 100, 105, 110]);
+      const geometric = calculateGridLevels(100, 400, 3, 'geometric');
+      expect(geometric[0]).toBeCloseTo(100);
+      expect(geometric[1]).toBeCloseTo(200);
+      expect(geometric[2]).toBeCloseTo(400);
+    });
+
+    it('should return no levels for an invalid band', () => {
+      expect(calculateGridLevels(110, 90, 5, 'arithmetic')).toEqual([]);
+      expect(calculateGridLevels(0, 90, 5, 'geometric')).toEqual([]);
+      expect(calculateGridLevels(90, 110, 1, 'arithmetic')).toEqual([]);
+    });
+  });
+
+  it('should lay buy limit orders at every level below the price', () => {
+    const signal = run(baseContext);
+    expect(signal.action).toBe('HOLD');
+    expect(signal.orders).toEqual([
+      { action: 'BUY', amount: 1, sizingMode: 'UNITS', orderType: 'LIMIT', limitPrice: 90, orderId: 'grid-0-buy-9' },
+      { action: 'BUY', amount: 1, sizingMode: 'UNITS', orderType: 'LIMIT', limitPrice: 95, orderId: 'grid-1-buy-9' },
+      { action: 'BUY', amount: 1, sizingMode: 'UNITS', orderType: 'LIMIT', limitPrice: 100, orderId: 'grid-2-buy-9' },
+    ]);
+  });
+
+  it('should pair a filled buy with a sell one level higher and re-arm the buy after the sell', () => {
+    baseContext.openOrders = [openOrder('grid-0-buy-3'), openOrder('grid-1-buy-3')];
+    baseContext.tradeHistory = [fill('grid-2-buy-3', 'BUY', 1.5), fill('grid-1-buy-1', 'BUY', 1), fill('grid-1-sell-2', 'SELL', 1)];
+
+    const signal = run(baseContext);
+    expect(signal.orders).toEqual([
+      { action: 'SELL', amount: 1.5, orderType: 'LIMIT', limitPrice: 105, orderId: 'grid-2-sell-9' },
+    ]);
+  });
+
+  it('should wait for another fill before re-placing a level whose order was rejected', () => {
+    expect(run(baseContext).orders).toHaveLength(3);
+
+    // Next bar: the buys at 90 and 95 rest, the one at 100 left the book without a fill
+    baseContext.currentIndex = 10;
+    baseContext.historicalData = createMockHistoricalData(11, 102);
+    baseContext.openOrders = [openOrder('grid-0-buy-9'), openOrder('grid-1-buy-9')];
+    expect(run(baseContext)).toEqual({ action: 'HOLD' });
+
+    // The buy at 95 fills: the level at 100 is tried again
+    baseContext.currentIndex = 11;
+    baseContext.historicalData = createMockHistoricalData(12, 102);
+    baseContext.openOrders = [openOrder('grid-0-buy-9')];
+    baseContext.tradeHistory = [fill('grid-1-buy-9', 'BUY', 1)];
+    expect(run(baseContext).orders?.map(order => order.orderId)).toEqual(['grid-1-sell-11', 'grid-2-buy-11']);
+  });
+
+  it('should size orders in quote currency and skip levels with resting orders', () => {
+    baseContext.parameters = { ...defaultParams, orderSizeMode: 'NOTIONAL', orderSize: 500 };
+    baseContext.openOrders = [openOrder('grid-0-buy-3'), openOrder('grid-2-buy-3'), openOrder('ORD-1')];
+
+    const signal = run(baseContext);
+    expect(signal.orders).toEqual([
+      { action: 'BUY', amount: 500, sizingMode: 'NOTIONAL', orderType: 'LIMIT', limitPrice: 95, orderId: 'grid-1-buy-9' },
+    ]);
+  });
+
+  it('should center the grid on the first close without a price band', () => {
+    baseContext.parameters = { ...defaultParams, lowerPrice: 0, upperPrice: 0, rangePercent: 10, gridLevels: 3, spacing: 'arithmetic' };
+    baseContext.historicalData[0].close = 100; // Levels 90, 100, 110; the current close is 102
+
+    const signal = run(baseContext);
+    expect(signal.orders?.map(order => order.limitPrice)).toEqual([90, 100]);
+  });
+
+  it('should hold without orders for an invalid grid', () => {
+    baseContext.parameters = { ...defaultParams, lowerPrice: 120 };
+    expect(run(baseContext)).toEqual({ action: 'HOLD' });
+  });
+});
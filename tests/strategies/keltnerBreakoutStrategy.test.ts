@@ -0,0 +1,141 @@
+import { keltnerBreakoutStrategy } from '../../src/strategies/implementations/keltnerBreakoutStrategy';
+import { StrategyContext } from '../../src/strategies/strategy.types';
+import { Portfolio } from '../../src/backtest';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { calculateKeltnerChannels } from '../../src/utils/technicalIndicators';
+
+// Mock the technical indicator function
+jest.mock('../../src/utils/technicalIndicators');
+
+const mockedCalculateKeltnerChannels = calculateKeltnerChannels as jest.MockedFunction<typeof calculateKeltnerChannels>;
+
+describe('Keltner Channel Breakout Strategy', () => {
+  let baseContext: StrategyContext<any>;
+  const defaultParams = {
+    emaPeriod: 20,
+    atrPeriod: 10,
+    atrMultiplier: 2,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.now() + i * 1000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol: 'MOCK',
+        interval: '1d',
+      };
+    });
+  };
+
+  // Previous and current closes, and the bands at both bars (constant: middle 100, upper 110, lower 90)
+  const setCloses = (context: StrategyContext<any>, previous: number, current: number) => {
+    context.historicalData[context.currentIndex - 1].close = previous;
+    context.historicalData[context.currentIndex].close = current;
+  };
+  const mockBands = (context: StrategyContext<any>, middle = 100) => {
+    const series = (value: number) =>
+      Array(context.historicalData.length).fill(NaN).map((_, i) => (i >= context.currentIndex - 1 ? value : NaN));
+    mockedCalculateKeltnerChannels.mockReturnValue({ upper: series(110), middle: series(middle), lower: series(90) });
+  };
+
+  beforeEach(() => {
+    mockedCalculateKeltnerChannels.mockReset();
+
+    baseContext = {
+      symbol: 'MOCK',
+      historicalData: createMockHistoricalData(50, 100),
+      currentIndex: 49,
+      portfolio: { cash: 1000, shares: 10 } as unknown as Portfolio,
+      parameters: { ...defaultParams },
+      tradeHistory: [],
+      signalHistory: [],
+    };
+  });
+
+  it('should generate a BUY signal when the close crosses above the upper band', async () => {
+    const context = { ...baseContext };
+    setCloses(context, 108, 112);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+    expect(mockedCalculateKeltnerChannels).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), expect.any(Array), 20, 10, 2);
+  });
+
+  it('should generate a SELL signal when the close crosses below the middle line', async () => {
+    const context = { ...baseContext };
+    setCloses(context, 101, 99);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('SELL');
+    expect(result.amount).toBe(defaultParams.tradeAmount);
+  });
+
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1;
+    setCloses(context, 108, 112);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
+  it('should generate a HOLD signal when the close stays above the upper band', async () => {
+    const context = { ...baseContext };
+    setCloses(context, 112, 115);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if a band is NaN', async () => {
+    const context = { ...baseContext };
+    setCloses(context, 108, 112);
+    mockBands(context, NaN);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal if currentIndex < 1', async () => {
+    const context = { ...baseContext, currentIndex: 0 };
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+    expect(mockedCalculateKeltnerChannels).not.toHaveBeenCalled();
+  });
+
+  it('should generate a HOLD signal for BUY if insufficient cash', async () => {
+    const context = { ...baseContext };
+    context.portfolio.cash = 100;
+    setCloses(context, 108, 112);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+
+  it('should generate a HOLD signal for SELL if insufficient shares', async () => {
+    const context = { ...baseContext };
+    context.portfolio.shares = 0;
+    setCloses(context, 101, 99);
+    mockBands(context);
+
+    const result = await Promise.resolve(keltnerBreakoutStrategy.execute(context));
+    expect(result.action).toBe('HOLD');
+  });
+});
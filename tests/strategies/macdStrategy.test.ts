@@ -117,6 +117,21 @@ describe('MACD Crossover Strategy', () => {
     expect(result.amount).toBe(defaultParams.tradeAmount);
   });
 
+  it('should leave the amount to the backtest position sizing when tradeAmount is 0', async () => {
+    const context = { ...baseContext, parameters: { ...defaultParams, tradeAmount: 0 } };
+    context.portfolio.cash = 1; // Any cash is enough when the engine sizes the order
+
+    mockedCalculateMACD.mockReturnValue({ // BUY signal conditions
+      macdLine:   Array(context.historicalData.length).fill(NaN).map((_, i) => i === context.currentIndex ? 12 : (i === context.currentIndex - 1 ? 8 : NaN)),
+      signalLine: Array(context.historicalData.length).fill(NaN).map((_, i) => i === context.currentIndex ? 10 : (i === context.currentIndex - 1 ? 9 : NaN)),
+      histogram: Array(context.historicalData.length).fill(NaN),
+    });
+
+    const result = await Promise.resolve(macdStrategy.execute(context));
+    expect(result.action).toBe('BUY');
+    expect(result.amount).toBeUndefined();
+  });
+
   it('should generate a HOLD signal if MACD lines are converging but no crossover', async () => {
     const context = { ...baseContext };
     mockedCalculateMACD.mockReturnValue({
@@ -0,0 +1,168 @@
+import { pairsTradingStrategy, getAlignedCloses } from '../../src/strategies/implementations/pairsTradingStrategy';
+import { PortfolioStrategyContext } from '../../src/strategies/strategy.types';
+import { HistoricalDataPoint } from '../../src/services/dataService';
+import { engleGrangerTest, EngleGrangerResult } from '../../src/utils/cointegration';
+
+// Mock the cointegration test; the strategy is tested against the hedge ratio and spread it returns
+jest.mock('../../src/utils/cointegration');
+
+const mockedEngleGrangerTest = engleGrangerTest as jest.MockedFunction<typeof engleGrangerTest>;
+
+describe('Pairs Trading Strategy', () => {
+  let baseContext: PortfolioStrategyContext<any>;
+  const defaultParams = {
+    lookbackPeriod: 20,
+    entryZScore: 2,
+    exitZScore: 0.5,
+    stopZScore: 4,
+    significance: 0.05 as const,
+    adfLags: 1,
+    tradeAmount: 1,
+  };
+
+  const createMockHistoricalData = (symbol: string, length: number, price: number): HistoricalDataPoint[] => {
+    return Array(length).fill(null).map((_, i) => {
+      const timestampInMilliseconds = Date.UTC(2023, 0, 1) + i * 86400000;
+      return {
+        timestamp: Math.floor(timestampInMilliseconds / 1000),
+        date: new Date(timestampInMilliseconds),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 100,
+        source_api: 'mock',
+        symbol,
+        interval: '1d',
+      };
+    });
+  };
+
+  // A test result whose last residual is `zScore` standard deviations from zero (the other residuals are +-1)
+  const mockTest = (zScore: number, overrides: Partial<EngleGrangerResult> = {}) => {
+    const others = Array.from({ length: 19 }, (_, i) => (i % 2 === 0 ? 1 : -1));
+    // With n residuals, RMS = sqrt((19 + r^2) / 20); solve r / RMS = zScore for r
+    const last = zScore === 0 ? 0 : Math.sign(zScore) * Math.sqrt((19 * zScore ** 2) / (20 - zScore ** 2));
+    mockedEngleGrangerTest.mockReturnValue({
+      hedgeRatio: 2,
+      intercept: 0,
+      residuals: [...others, last],
+      adfStatistic: -5,
+      criticalValue: -3.4,
+      isCointegrated: true,
+      ...overrides,
+    });
+  };
+
+  const withPositions = (positions: Record<string, number>): PortfolioStrategyContext<any> => ({
+    ...baseContext,
+    portfolio: { ...baseContext.portfolio, positions },
+  });
+
+  beforeEach(() => {
+    mockedEngleGrangerTest.mockReset();
+
+    const btc = createMockHistoricalData('BTC', 30, 200);
+    const eth = createMockHistoricalData('ETH', 30, 100);
+    baseContext = {
+      symbols: ['BTC', 'ETH'],
+      timestamps: btc.map(bar => bar.timestamp),
+      currentIndex: 29,
+      historicalData: { BTC: btc, ETH: eth },
+      barIndices: { BTC: 29, ETH: 29 },
+      currentBars: { BTC: btc[29], ETH: eth[29] },
+      portfolio: { cash: 10000, positions: { BTC: 0, ETH: 0 }, initialValue: 10000, currentValue: 10000 },
+      tradeHistory: [],
+      parameters: { ...defaultParams },
+    };
+  });
+
+  it('should buy the first symbol and short the hedge ratio of the second when the spread is low', async () => {
+    mockTest(-2.5);
+
+    const signals = await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext));
+    expect(signals).toEqual([
+      { symbol: 'BTC', action: 'BUY', amount: 1 },
+      { symbol: 'ETH', action: 'SELL', amount: 2 },
+    ]);
+    expect(mockedEngleGrangerTest).toHaveBeenCalledWith(expect.any(Array), expect.any(Array), 0.05, 1);
+    expect(mockedEngleGrangerTest.mock.calls[0][0]).toHaveLength(20);
+  });
+
+  it('should short the first symbol and buy the second when the spread is high', async () => {
+    mockTest(2.5);
+
+    const signals = await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext));
+    expect(signals).toEqual([
+      { symbol: 'BTC', action: 'SELL', amount: 1 },
+      { symbol: 'ETH', action: 'BUY', amount: 2 },
+    ]);
+  });
+
+  it('should not enter inside the entry band, beyond the stop or with a negative hedge ratio', async () => {
+    mockTest(-1.5);
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext))).toEqual([]);
+    mockTest(-4.2);
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext))).toEqual([]);
+    mockTest(-2.5, { hedgeRatio: -1 });
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext))).toEqual([]);
+  });
+
+  it('should not enter while the pair is not cointegrated', async () => {
+    mockTest(-2.5, { isCointegrated: false });
+
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(baseContext))).toEqual([]);
+  });
+
+  it('should close both legs once the spread reverts to the exit band', async () => {
+    mockTest(-0.3);
+
+    const signals = await Promise.resolve(pairsTradingStrategy.executePortfolio!(withPositions({ BTC: 1, ETH: -2 })));
+    expect(signals).toEqual([
+      { symbol: 'BTC', action: 'SELL', amount: 1 },
+      { symbol: 'ETH', action: 'BUY', amount: 2 },
+    ]);
+  });
+
+  it('should hold the position while the spread has not reverted', async () => {
+    mockTest(-1.5);
+
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(withPositions({ BTC: 1, ETH: -2 })))).toEqual([]);
+  });
+
+  it('should stop out when the cointegration breaks or the spread diverges past the stop', async () => {
+    const shortSpread = withPositions({ BTC: -1, ETH: 2 });
+    mockTest(2.5, { isCointegrated: false });
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(shortSpread))).toEqual([
+      { symbol: 'BTC', action: 'BUY', amount: 1 },
+      { symbol: 'ETH', action: 'SELL', amount: 2 },
+    ]);
+
+    mockTest(4.2);
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!(shortSpread))).toHaveLength(2);
+  });
+
+  it('should not trade unless exactly two symbols both have a bar', async () => {
+    mockTest(-2.5);
+
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!({ ...baseContext, currentBars: { ...baseContext.currentBars, ETH: null } }))).toEqual([]);
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!({ ...baseContext, symbols: ['BTC', 'ETH', 'SOL'] }))).toEqual([]);
+    expect(await Promise.resolve(pairsTradingStrategy.executePortfolio!({ ...baseContext, parameters: { ...defaultParams, lookbackPeriod: 31 } }))).toEqual([]);
+  });
+
+  it('should hold when run on a single symbol', async () => {
+    const signal = await Promise.resolve(pairsTradingStrategy.execute({} as any));
+    expect(signal.action).toBe('HOLD');
+  });
+
+  describe('getAlignedCloses', () => {
+    it('should keep only the timestamps both symbols have, oldest first', () => {
+      const first = createMockHistoricalData('BTC', 5, 0).map((bar, i) => ({ ...bar, close: i }));
+      const second = createMockHistoricalData('ETH', 5, 0).map((bar, i) => ({ ...bar, close: 10 + i }));
+      const gappedSecond = [second[0], second[1], second[3], second[4]]; // No bar at index 2
+
+      expect(getAlignedCloses(first, gappedSecond, 4, 3, 3)).toEqual({ first: [1, 3, 4], second: [11, 13, 14] });
+      expect(getAlignedCloses(first, gappedSecond, 4, 3, 5)).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,6 @@
 // In tests/strategies/strategyManager.test.ts
 import { TradingStrategy, StrategyParameterDefinition, StrategySignal, StrategyContext } from '../../src/strategies/strategy.types';
-import { registerStrategy, getStrategy, getAvailableStrategies } from '../../src/strategies/strategyManager';
+import { registerStrategy, registerStrategyFactory, getStrategy, createStrategy, disposeStrategy, getAvailableStrategies } from '../../src/strategies/strategyManager';
 import logger from '../../src/utils/logger'; // Corrected import
 
 // Mock the logger
@@ -102,6 +102,49 @@ describe('StrategyManager', () => {
     });
   });
 
+  describe('registerStrategyFactory and createStrategy', () => {
+    // A strategy counting the bars it has seen, so instances that share state would show it
+    const createCountingStrategy = (): TradingStrategy & { bars: number } => {
+      const strategy = {
+        id: 'counting-strat',
+        name: 'Counting Strategy',
+        parameters: [],
+        bars: 0,
+        execute: (): StrategySignal => { strategy.bars++; return { action: 'HOLD' }; },
+        dispose: jest.fn(),
+      };
+      return strategy;
+    };
+
+    test('should create a new instance for every run and keep one definition', () => {
+      registerStrategyFactory(createCountingStrategy);
+      const first = createStrategy('counting-strat') as ReturnType<typeof createCountingStrategy>;
+      const second = createStrategy('counting-strat') as ReturnType<typeof createCountingStrategy>;
+
+      first.execute({} as StrategyContext);
+
+      expect(first).not.toBe(second);
+      expect(second.bars).toBe(0);
+      expect(getStrategy('counting-strat')).toBe(getStrategy('counting-strat'));
+      expect(getStrategy('counting-strat')).not.toBe(first);
+      expect(getAvailableStrategies()).toContain(getStrategy('counting-strat'));
+    });
+
+    test('should share a stateless strategy between runs', () => {
+      registerStrategy(mockStrategy1);
+
+      expect(createStrategy('mock-strat-1')).toBe(getStrategy('mock-strat-1'));
+      expect(createStrategy('non-existent-id')).toBeUndefined();
+    });
+
+    test('disposeStrategy should log a failing dispose instead of throwing', async () => {
+      const strategy: TradingStrategy = { ...mockStrategy2, dispose: jest.fn().mockRejectedValue(new Error('busy')) };
+
+      await expect(disposeStrategy(strategy)).resolves.toBeUndefined();
+      expect(logger.error).toHaveBeenCalledWith('StrategyManager: Disposing strategy mock-strat-2 failed: busy');
+    });
+  });
+
   describe('getAvailableStrategies', () => {
     // Note: adaptedSimpleThresholdStrategy and ichimokuCloudStrategy are auto-registered when strategyManager.ts is imported.
     // So, the list will never be truly empty unless we mock those imports.
@@ -124,6 +167,14 @@ describe('StrategyManager', () => {
         'ichimoku-cloud',
         'rsi-bollinger',
         'macd-crossover',
+        'dual-sma-crossover',
+        'dynamic-support-resistance',
+        'donchian-breakout',
+        'keltner-breakout',
+        'atr-breakout',
+        'pairs-trading',
+        'grid-trading',
+        'dca',
         'ai-price-prediction',
         'ai-selector',
         'mock-strat-2' // Registered in this test block
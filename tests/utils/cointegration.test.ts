@@ -0,0 +1,75 @@
+import {
+  linearRegression,
+  calculateADFStatistic,
+  getEngleGrangerCriticalValue,
+  engleGrangerTest,
+} from '../../src/utils/cointegration';
+import { createSeededRandom } from '../../src/utils/random';
+
+// Standard normal draws from a seeded generator (Box-Muller)
+const createNormalRandom = (seed: number) => {
+  const random = createSeededRandom(seed);
+  return () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+};
+
+const randomWalk = (length: number, seed: number, start = 100): number[] => {
+  const normal = createNormalRandom(seed);
+  const walk = [start];
+  for (let i = 1; i < length; i++) walk.push(walk[i - 1] + normal());
+  return walk;
+};
+
+describe('Cointegration', () => {
+  describe('linearRegression', () => {
+    it('should recover the slope and intercept of an exact line', () => {
+      const result = linearRegression([1, 2, 3, 4], [5, 7, 9, 11])!;
+      expect(result.slope).toBeCloseTo(2);
+      expect(result.intercept).toBeCloseTo(3);
+      result.residuals.forEach(residual => expect(residual).toBeCloseTo(0));
+    });
+
+    it('should return null for mismatched, too short or constant input', () => {
+      expect(linearRegression([1, 2], [1])).toBeNull();
+      expect(linearRegression([1], [1])).toBeNull();
+      expect(linearRegression([3, 3, 3], [1, 2, 3])).toBeNull();
+    });
+  });
+
+  describe('calculateADFStatistic', () => {
+    it('should be strongly negative for white noise and near zero for a random walk', () => {
+      const normal = createNormalRandom(7);
+      const noise = Array.from({ length: 300 }, () => normal());
+      expect(calculateADFStatistic(noise, 1)).toBeLessThan(-8);
+      expect(calculateADFStatistic(randomWalk(300, 11), 1)).toBeGreaterThan(-2);
+    });
+
+    it('should return NaN for a series too short for the lags', () => {
+      expect(calculateADFStatistic([1, 2, 1, 2], 2)).toBeNaN();
+    });
+  });
+
+  describe('getEngleGrangerCriticalValue', () => {
+    it('should approach the asymptotic values and be stricter at lower significance', () => {
+      expect(getEngleGrangerCriticalValue(1e6, 0.05)).toBeCloseTo(-3.336, 2);
+      expect(getEngleGrangerCriticalValue(100, 0.01)).toBeLessThan(getEngleGrangerCriticalValue(100, 0.05));
+      expect(getEngleGrangerCriticalValue(100, 0.05)).toBeLessThan(getEngleGrangerCriticalValue(100, 0.1));
+    });
+  });
+
+  describe('engleGrangerTest', () => {
+    it('should find a cointegrated pair and its hedge ratio', () => {
+      const x = randomWalk(250, 3);
+      const normal = createNormalRandom(5);
+      const y = x.map(value => 10 + 1.5 * value + normal()); // Stationary spread around 1.5x
+      const result = engleGrangerTest(y, x)!;
+      expect(result.hedgeRatio).toBeCloseTo(1.5, 1);
+      expect(result.isCointegrated).toBe(true);
+      expect(result.adfStatistic).toBeLessThan(result.criticalValue);
+    });
+
+    it('should reject two independent random walks', () => {
+      const result = engleGrangerTest(randomWalk(250, 13), randomWalk(250, 17))!;
+      expect(result.isCointegrated).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,12 @@
+// Worker script used by workerPool.test.ts: posts 1, 2, ... up to a target, one number every few milliseconds, and
+// stops with the cancellation error when the task is cancelled.
+import { serveWorkerTasks } from '../../../src/utils/workerPool';
+
+serveWorkerTasks<{ target: number; delayMs: number }, number, number>(async ({ target, delayMs }, { signal, postMessage }) => {
+  for (let count = 1; count <= target; count++) {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    signal.throwIfAborted();
+    postMessage(count);
+  }
+  return target;
+});
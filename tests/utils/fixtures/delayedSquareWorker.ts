@@ -0,0 +1,14 @@
+// Worker script used by workerPool.test.ts: squares a number after a delay, fails on negative numbers and crashes
+// the worker on NaN.
+import { serveWorkerTasks } from '../../../src/utils/workerPool';
+
+serveWorkerTasks<{ value: number; delayMs: number }, number>(async ({ value, delayMs }) => {
+  if (Number.isNaN(value)) {
+    process.exit(1);
+  }
+  if (value < 0) {
+    throw new Error(`Cannot square ${value}.`);
+  }
+  await new Promise(resolve => setTimeout(resolve, delayMs));
+  return value * value;
+});
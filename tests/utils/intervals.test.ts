@@ -0,0 +1,46 @@
+import { getIntervalSeconds, getBarsPerYear, inferBarsPerYear, DEFAULT_BARS_PER_YEAR } from '../../src/utils/intervals';
+
+describe('Interval Utilities', () => {
+  describe('getIntervalSeconds', () => {
+    it('should parse minute, hour, day, week and month intervals', () => {
+      expect(getIntervalSeconds('1m')).toBe(60);
+      expect(getIntervalSeconds('5min')).toBe(300);
+      expect(getIntervalSeconds('4h')).toBe(4 * 3600);
+      expect(getIntervalSeconds('1d')).toBe(86400);
+      expect(getIntervalSeconds('1w')).toBe(7 * 86400);
+      expect(getIntervalSeconds('1M')).toBe((365 * 86400) / 12);
+    });
+
+    it('should return null for missing or unrecognised intervals', () => {
+      expect(getIntervalSeconds()).toBeNull();
+      expect(getIntervalSeconds('daily')).toBeNull();
+      expect(getIntervalSeconds('0d')).toBeNull();
+    });
+  });
+
+  describe('getBarsPerYear', () => {
+    it('should convert the interval into bars per calendar year', () => {
+      expect(getBarsPerYear('1d')).toBe(365);
+      expect(getBarsPerYear('1h')).toBe(8760);
+      expect(getBarsPerYear('1w')).toBeCloseTo(365 / 7);
+    });
+
+    it('should fall back to the default for unknown intervals', () => {
+      expect(getBarsPerYear(undefined)).toBe(DEFAULT_BARS_PER_YEAR);
+      expect(getBarsPerYear('tick')).toBe(DEFAULT_BARS_PER_YEAR);
+    });
+  });
+
+  describe('inferBarsPerYear', () => {
+    it('should use the median spacing of the timestamps', () => {
+      // Hourly points with one gap of a day (e.g. a missing stretch of data)
+      const points = [0, 3600, 7200, 10800, 97200, 100800].map(timestamp => ({ timestamp }));
+      expect(inferBarsPerYear(points)).toBe(8760);
+    });
+
+    it('should fall back to the default without two distinct timestamps', () => {
+      expect(inferBarsPerYear([])).toBe(DEFAULT_BARS_PER_YEAR);
+      expect(inferBarsPerYear([{ timestamp: 5 }, { timestamp: 5 }])).toBe(DEFAULT_BARS_PER_YEAR);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { calculateSMA, calculateBollingerBands, calculateRSI, calculateEMA, calculateMACD } from '../../src/utils/technicalIndicators';
+import { calculateSMA, calculateBollingerBands, calculateRSI, calculateEMA, calculateMACD, calculateATR, calculateFractalLevels, calculatePivotLevels, calculateDonchianChannels, calculateKeltnerChannels } from '../../src/utils/technicalIndicators';
 
 describe('Technical Indicators', () => {
   describe('calculateSMA', () => {
@@ -467,4 +467,127 @@ describe('Technical Indicators', () => {
         // if (pricesLong.length > 33) expect(result.histogram[33]).toBeCloseTo(result.macdLine[33] - result.signalLine[33], 2); // Placeholder
     });
   });
+
+  describe('calculateATR', () => {
+    it('should average true ranges and then apply Wilder smoothing', () => {
+      const highs = [12, 13, 15, 14];
+      const lows = [10, 11, 12, 11];
+      const closes = [11, 12, 14, 12];
+      // True ranges: 2, 2 (13-11), 3 (15-12), 3 (14-11)
+      const atr = calculateATR(highs, lows, closes, 2);
+      expect(atr[0]).toBeNaN();
+      expect(atr[1]).toBeCloseTo(2);
+      expect(atr[2]).toBeCloseTo(2.5);
+      expect(atr[3]).toBeCloseTo(2.75);
+    });
+
+    it('should include gaps from the previous close in the true range', () => {
+      const atr = calculateATR([10, 21], [9, 20], [10, 20.5], 1);
+      expect(atr[1]).toBeCloseTo(11); // |21 - 10| exceeds the bar range of 1
+    });
+
+    it('should return NaNs for an invalid period or too little data', () => {
+      expect(calculateATR([1, 2], [0, 1], [1, 2], 0)).toEqual([NaN, NaN]);
+      expect(calculateATR([1, 2], [0, 1], [1, 2], 3)).toEqual([NaN, NaN]);
+    });
+  });
+
+  describe('calculateFractalLevels', () => {
+    const highs = [10, 12, 15, 13, 11, 12, 14, 13];
+    const lows  = [ 8,  9, 12, 10,  7,  9, 11, 10];
+
+    it('should use the latest swing points once the bars after them are known', () => {
+      // Swing high at bar 2 (15) and swing low at bar 4 (7) with one bar on each side
+      const { support, resistance } = calculateFractalLevels(highs, lows, 1, 10);
+      expect(resistance.slice(0, 3).every(isNaN)).toBe(true);
+      expect(resistance[3]).toBe(15); // Confirmed by bar 3
+      expect(resistance[7]).toBe(14); // Swing high at bar 6 replaces it
+      expect(support.slice(0, 5).every(isNaN)).toBe(true);
+      expect(support[5]).toBe(7);
+      expect(support[7]).toBe(7);
+    });
+
+    it('should drop swing points older than the lookback', () => {
+      const { resistance } = calculateFractalLevels(highs, lows, 1, 3);
+      expect(resistance[5]).toBe(15);
+      expect(resistance[6]).toBeNaN(); // Bar 2 is 4 bars old and bar 6 is not confirmed yet
+      expect(resistance[7]).toBe(14);
+    });
+
+    it('should require the swing point to beat every neighbour within the strength', () => {
+      const { resistance } = calculateFractalLevels(highs, lows, 2, 10);
+      expect(resistance[4]).toBe(15);
+      expect(resistance[7]).toBe(15); // Bar 6 needs two bars after it
+    });
+
+    it('should return NaNs for invalid parameters', () => {
+      const { support, resistance } = calculateFractalLevels([1, 2, 1], [0, 1, 0], 0, 10);
+      expect(support).toEqual([NaN, NaN, NaN]);
+      expect(resistance).toEqual([NaN, NaN, NaN]);
+    });
+  });
+
+  describe('calculatePivotLevels', () => {
+    it('should compute the pivot, S1 and R1 of the previous bars', () => {
+      const highs = [12, 14, 13, 15];
+      const lows = [9, 10, 11, 12];
+      const closes = [11, 13, 12, 14];
+      const { pivot, support, resistance } = calculatePivotLevels(highs, lows, closes, 2);
+      expect(pivot.slice(0, 2).every(isNaN)).toBe(true);
+      // Bar 2 uses bars 0-1: H = 14, L = 9, C = 13, P = 12
+      expect(pivot[2]).toBeCloseTo(12);
+      expect(support[2]).toBeCloseTo(10);
+      expect(resistance[2]).toBeCloseTo(15);
+      // Bar 3 uses bars 1-2: H = 14, L = 10, C = 12, P = 12
+      expect(support[3]).toBeCloseTo(10);
+      expect(resistance[3]).toBeCloseTo(14);
+    });
+
+    it('should return NaNs for an invalid period', () => {
+      const { pivot } = calculatePivotLevels([1, 2], [0, 1], [1, 2], 0);
+      expect(pivot).toEqual([NaN, NaN]);
+    });
+  });
+
+  describe('calculateDonchianChannels', () => {
+    it('should use the highest high and lowest low of the bars before each bar', () => {
+      const highs = [10, 12, 11, 15, 13];
+      const lows = [8, 9, 7, 10, 11];
+      const { upper, middle, lower } = calculateDonchianChannels(highs, lows, 3);
+      expect(upper.slice(0, 3).every(isNaN)).toBe(true);
+      expect(upper[3]).toBe(12); // Bars 0-2, not the breakout bar itself
+      expect(lower[3]).toBe(7);
+      expect(middle[3]).toBe(9.5);
+      expect(upper[4]).toBe(15);
+      expect(lower[4]).toBe(7);
+    });
+
+    it('should return NaNs for an invalid period', () => {
+      expect(calculateDonchianChannels([1, 2], [0, 1], 0).upper).toEqual([NaN, NaN]);
+    });
+  });
+
+  describe('calculateKeltnerChannels', () => {
+    it('should offset the EMA by a multiple of the ATR', () => {
+      const highs = [12, 13, 15, 14];
+      const lows = [10, 11, 12, 11];
+      const closes = [11, 12, 14, 12];
+      // EMA(2): 11.5, then 13.1667, 12.3889. ATR(2): 2, 2.5, 2.75 (see calculateATR)
+      const { upper, middle, lower } = calculateKeltnerChannels(highs, lows, closes, 2, 2, 2);
+      expect(middle[0]).toBeNaN();
+      expect(upper[0]).toBeNaN();
+      expect(middle[1]).toBeCloseTo(11.5);
+      expect(upper[1]).toBeCloseTo(15.5);
+      expect(lower[1]).toBeCloseTo(7.5);
+      expect(upper[3]).toBeCloseTo(12.3889 + 5.5);
+      expect(lower[3]).toBeCloseTo(12.3889 - 5.5);
+    });
+
+    it('should be NaN until both the EMA and the ATR are available', () => {
+      const { upper, middle } = calculateKeltnerChannels([12, 13, 15, 14], [10, 11, 12, 11], [11, 12, 14, 12], 2, 3, 2);
+      expect(middle[1]).toBeNaN();
+      expect(upper[1]).toBeNaN();
+      expect(upper[2]).not.toBeNaN();
+    });
+  });
 });
@@ -0,0 +1,82 @@
+import path from 'path';
+import { WorkerPool } from '../../src/utils/workerPool';
+
+const WORKER_SCRIPT = path.join(__dirname, 'fixtures', 'delayedSquareWorker.ts');
+const COUNTING_WORKER_SCRIPT = path.join(__dirname, 'fixtures', 'countingWorker.ts');
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool<{ value: number; delayMs: number }, number>;
+
+  beforeEach(() => {
+    pool = new WorkerPool(WORKER_SCRIPT, 2);
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('should resolve each task with its own result whatever order they finish in', async () => {
+    const values = [1, 2, 3, 4, 5];
+    // The first tasks take longest
+    const results = await Promise.all(values.map((value, index) => pool.run({ value, delayMs: (values.length - index) * 20 })));
+
+    expect(results).toEqual([1, 4, 9, 16, 25]);
+  }, 30000);
+
+  it('should reject with the error of the task and replace a crashed worker', async () => {
+    await expect(pool.run({ value: -2, delayMs: 0 })).rejects.toThrow('Cannot square -2.');
+    await expect(pool.run({ value: NaN, delayMs: 0 })).rejects.toThrow('Worker exited with code 1.');
+
+    await expect(pool.run({ value: 6, delayMs: 0 })).resolves.toBe(36);
+  }, 30000);
+
+  it('should reject queued tasks when closed and refuse new ones', async () => {
+    const pending = [pool.run({ value: 1, delayMs: 500 }), pool.run({ value: 2, delayMs: 500 }), pool.run({ value: 3, delayMs: 0 })];
+    const rejections = pending.map(task => expect(task).rejects.toThrow('WorkerPool: the pool was closed.'));
+    await pool.close();
+
+    await Promise.all(rejections);
+    await expect(pool.run({ value: 4, delayMs: 0 })).rejects.toThrow('WorkerPool: the pool is closed.');
+    expect(() => new WorkerPool(WORKER_SCRIPT, 0)).toThrow('WorkerPool: size must be a positive integer, got 0.');
+  });
+
+  describe('messages and cancellation', () => {
+    let countingPool: WorkerPool<{ target: number; delayMs: number }, number, number>;
+
+    beforeEach(() => {
+      countingPool = new WorkerPool(COUNTING_WORKER_SCRIPT, 1);
+    });
+
+    afterEach(async () => {
+      await countingPool.close();
+    });
+
+    it('should pass the messages of a running task to its caller', async () => {
+      const messages: number[] = [];
+      await expect(countingPool.run({ target: 3, delayMs: 5 }, { onMessage: message => messages.push(message) })).resolves.toBe(3);
+      expect(messages).toEqual([1, 2, 3]);
+    }, 30000);
+
+    it('should cancel a running task and drop a queued one when aborted', async () => {
+      const messages: number[] = [];
+      const running = new AbortController();
+      const queued = new AbortController();
+      const runningTask = countingPool.run({ target: 1000, delayMs: 10 }, {
+        signal: running.signal,
+        onMessage: message => {
+          messages.push(message);
+          if (message === 2) running.abort();
+        },
+      });
+      const queuedTask = countingPool.run({ target: 1, delayMs: 0 }, { signal: queued.signal });
+      queued.abort(new Error('Not needed.'));
+
+      await expect(queuedTask).rejects.toThrow('Not needed.');
+      await expect(runningTask).rejects.toThrow('The task was cancelled.');
+      expect(messages.slice(0, 2)).toEqual([1, 2]);
+      expect(messages.length).toBeLessThan(1000); // Stopped before its target
+      // The worker is free for the next task
+      await expect(countingPool.run({ target: 1, delayMs: 0 })).resolves.toBe(1);
+    }, 30000);
+  });
+});